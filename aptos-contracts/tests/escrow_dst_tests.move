@@ -7,6 +7,7 @@ module cross_chain_swap::escrow_dst_tests {
     use aptos_framework::account;
     use aptos_framework::coin::{Self, FakeMoney};
     use aptos_framework::timestamp;
+    use aptos_std::type_info;
     use cross_chain_swap::escrow_dst;
 
     // Test account addresses
@@ -25,6 +26,10 @@ module cross_chain_swap::escrow_dst_tests {
     // Test data
     const ORDER_HASH: vector<u8> = x"0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef";
     const SECRET: vector<u8> = x"deadbeef";
+    // Contract ID of an escrow of the constants above created at 1 second: the sha3-256 of the
+    // compute_contract_id preimage serialized with the BCS serializer of the aptos SDK,
+    // shared with be/src/aptos/contract-id.spec.ts
+    const EXPECTED_CONTRACT_ID: vector<u8> = x"1460864b00b5c77be82246bc4388598093aa9628e917e17e8adacf12a1d8d9fa";
 
     // Setup function to initialize test environment
     fun setup(): (signer, signer, signer) {
@@ -333,4 +338,46 @@ module cross_chain_swap::escrow_dst_tests {
         // Check taker's balance restored
         assert!(coin::balance<FakeMoney>(signer::address_of(&taker)) == AMOUNT * 10, 0);
     }
+
+    #[test]
+    fun test_compute_contract_id() {
+        let timelocks = escrow_dst::create_timelocks(1, 601, 1201, 3601);
+        let immutables = escrow_dst::create_immutables(
+            ORDER_HASH,
+            compute_hashlock(SECRET),
+            MAKER_ADDRESS,
+            TAKER_ADDRESS,
+            type_info::type_name<FakeMoney>(),
+            AMOUNT,
+            SAFETY_DEPOSIT,
+            timelocks
+        );
+
+        assert!(type_info::type_name<FakeMoney>() == string::utf8(b"0x1::coin::FakeMoney"), 0);
+        assert!(escrow_dst::compute_contract_id(&immutables) == EXPECTED_CONTRACT_ID, 1);
+    }
+
+    #[test]
+    fun test_withdraw_with_expected_contract_id() {
+        let (_admin, maker, taker) = setup();
+
+        // Created at 1 second, like the timelocks of EXPECTED_CONTRACT_ID
+        escrow_dst::create_escrow_dst<FakeMoney>(
+            &taker,
+            ORDER_HASH,
+            compute_hashlock(SECRET),
+            signer::address_of(&maker),
+            signer::address_of(&taker),
+            AMOUNT,
+            SAFETY_DEPOSIT,
+            WITHDRAWAL_DELAY,
+            PUBLIC_WITHDRAWAL_DELAY,
+            CANCELLATION_DELAY
+        );
+
+        timestamp::update_global_time_for_test(1000000 + (WITHDRAWAL_DELAY + 1) * 1000000);
+        escrow_dst::withdraw<FakeMoney>(&taker, EXPECTED_CONTRACT_ID, SECRET);
+
+        assert!(coin::balance<FakeMoney>(signer::address_of(&maker)) == AMOUNT, 0);
+    }
 }
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "swap_events" (
+    "id" TEXT NOT NULL,
+    "swapId" TEXT NOT NULL,
+    "fromStatus" "SwapStatus",
+    "toStatus" "SwapStatus" NOT NULL,
+    "actor" TEXT NOT NULL,
+    "reason" TEXT,
+    "txHash" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "swap_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "swap_events_swapId_idx" ON "swap_events"("swapId");
+
+-- AddForeignKey
+ALTER TABLE "swap_events" ADD CONSTRAINT "swap_events_swapId_fkey" FOREIGN KEY ("swapId") REFERENCES "swaps"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "swaps" ADD COLUMN     "aptosHashlock" TEXT;
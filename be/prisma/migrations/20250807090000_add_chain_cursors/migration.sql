@@ -0,0 +1,8 @@
+-- CreateTable
+CREATE TABLE "chain_cursors" (
+    "key" TEXT NOT NULL,
+    "position" BIGINT NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "chain_cursors_pkey" PRIMARY KEY ("key")
+);
@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "ObservationStatus" AS ENUM ('PENDING', 'CONFIRMED', 'ORPHANED');
+
+-- AlterTable
+ALTER TABLE "chain_cursors" ADD COLUMN     "hash" TEXT;
+
+-- CreateTable
+CREATE TABLE "chain_observations" (
+    "id" TEXT NOT NULL,
+    "chain" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "status" "ObservationStatus" NOT NULL DEFAULT 'PENDING',
+    "blockNumber" BIGINT NOT NULL,
+    "blockHash" TEXT NOT NULL,
+    "txHash" TEXT NOT NULL,
+    "logIndex" INTEGER NOT NULL,
+    "payload" JSONB,
+    "swapId" TEXT,
+    "fromStatus" "SwapStatus",
+    "toStatus" "SwapStatus",
+    "rollbackData" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "chain_observations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "chain_observations_chain_status_idx" ON "chain_observations"("chain", "status");
+
+-- CreateIndex
+CREATE INDEX "chain_observations_swapId_idx" ON "chain_observations"("swapId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "chain_observations_chain_kind_txHash_logIndex_key" ON "chain_observations"("chain", "kind", "txHash", "logIndex");
@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "SwapStatus" ADD VALUE 'REFUNDING' BEFORE 'REFUNDED';
+
+-- AlterTable
+ALTER TABLE "swaps" ADD COLUMN     "aptosRefundTxHash" TEXT,
+ADD COLUMN     "evmRefundTxHash" TEXT,
+ADD COLUMN     "nextRefundAt" INTEGER,
+ADD COLUMN     "refundAttempts" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "swaps" ADD COLUMN     "aptosImmutables" JSONB,
+ADD COLUMN     "evmImmutables" JSONB;
+
+-- AlterTable
+ALTER TABLE "evm_escrow" ADD COLUMN     "evmImmutables" JSONB;
+
+-- AlterTable
+ALTER TABLE "aptos_escrow" ADD COLUMN     "aptosImmutables" JSONB;
@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "RelayerTxStatus" AS ENUM ('PENDING', 'CONFIRMED', 'REVERTED', 'REPLACED', 'DROPPED');
+
+-- CreateTable
+CREATE TABLE "relayer_transactions" (
+    "id" TEXT NOT NULL,
+    "chain" TEXT NOT NULL,
+    "sender" TEXT NOT NULL,
+    "nonce" INTEGER NOT NULL,
+    "purpose" TEXT NOT NULL,
+    "swapId" TEXT,
+    "hash" TEXT NOT NULL,
+    "to" TEXT,
+    "data" TEXT,
+    "value" TEXT,
+    "gasLimit" TEXT,
+    "maxFeePerGas" TEXT,
+    "maxPriorityFeePerGas" TEXT,
+    "gasPrice" TEXT,
+    "status" "RelayerTxStatus" NOT NULL DEFAULT 'PENDING',
+    "blockNumber" BIGINT,
+    "replacedBy" TEXT,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "relayer_transactions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "relayer_transactions_hash_key" ON "relayer_transactions"("hash");
+
+-- CreateIndex
+CREATE INDEX "relayer_transactions_chain_sender_status_idx" ON "relayer_transactions"("chain", "sender", "status");
+
+-- CreateIndex
+CREATE INDEX "relayer_transactions_chain_sender_nonce_idx" ON "relayer_transactions"("chain", "sender", "nonce");
+
+-- CreateIndex
+CREATE INDEX "relayer_transactions_swapId_idx" ON "relayer_transactions"("swapId");
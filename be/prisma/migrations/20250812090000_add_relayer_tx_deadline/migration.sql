@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "relayer_transactions" ADD COLUMN     "deadline" INTEGER;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "chain_observations" ADD COLUMN     "chainId" INTEGER;
+
+-- AlterTable
+ALTER TABLE "relayer_transactions" ADD COLUMN     "chainId" INTEGER;
+
+-- AlterTable
+ALTER TABLE "swaps" ADD COLUMN     "evmChainId" INTEGER;
@@ -0,0 +1,52 @@
+-- CreateEnum
+CREATE TYPE "TokenStandard" AS ENUM ('ERC20', 'COIN', 'FUNGIBLE_ASSET');
+
+-- CreateTable
+CREATE TABLE "tokens" (
+    "id" TEXT NOT NULL,
+    "chain" TEXT NOT NULL,
+    "chainId" INTEGER,
+    "standard" "TokenStandard" NOT NULL,
+    "address" TEXT NOT NULL,
+    "symbol" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "decimals" INTEGER NOT NULL,
+    "logoUrl" TEXT,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "tokens_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "token_pairs" (
+    "id" TEXT NOT NULL,
+    "srcTokenId" TEXT NOT NULL,
+    "dstTokenId" TEXT NOT NULL,
+    "minAmount" TEXT,
+    "maxAmount" TEXT,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "token_pairs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "tokens_symbol_idx" ON "tokens"("symbol");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tokens_chain_chainId_address_key" ON "tokens"("chain", "chainId", "address");
+
+-- CreateIndex
+CREATE INDEX "token_pairs_dstTokenId_idx" ON "token_pairs"("dstTokenId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "token_pairs_srcTokenId_dstTokenId_key" ON "token_pairs"("srcTokenId", "dstTokenId");
+
+-- AddForeignKey
+ALTER TABLE "token_pairs" ADD CONSTRAINT "token_pairs_srcTokenId_fkey" FOREIGN KEY ("srcTokenId") REFERENCES "tokens"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "token_pairs" ADD CONSTRAINT "token_pairs_dstTokenId_fkey" FOREIGN KEY ("dstTokenId") REFERENCES "tokens"("id") ON DELETE CASCADE ON UPDATE CASCADE;
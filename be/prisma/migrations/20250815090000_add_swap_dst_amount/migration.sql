@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "swaps" ADD COLUMN     "dstAmount" TEXT,
+ADD COLUMN     "dstDecimals" INTEGER,
+ADD COLUMN     "srcDecimals" INTEGER;
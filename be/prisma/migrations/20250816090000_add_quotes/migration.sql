@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "quotes" (
+    "id" TEXT NOT NULL,
+    "pairId" TEXT NOT NULL,
+    "amount" TEXT NOT NULL,
+    "dstAmount" TEXT NOT NULL,
+    "auctionStartAmount" TEXT NOT NULL,
+    "auctionEndAmount" TEXT NOT NULL,
+    "auctionDuration" INTEGER NOT NULL,
+    "protocolFee" TEXT NOT NULL,
+    "resolverFee" TEXT NOT NULL,
+    "priceSource" TEXT NOT NULL,
+    "timelockPreset" TEXT NOT NULL,
+    "expiresAt" INTEGER NOT NULL,
+    "swapId" TEXT,
+    "redeemedAt" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "quotes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "quotes_swapId_key" ON "quotes"("swapId");
+
+-- CreateIndex
+CREATE INDEX "quotes_pairId_idx" ON "quotes"("pairId");
+
+-- AddForeignKey
+ALTER TABLE "quotes" ADD CONSTRAINT "quotes_pairId_fkey" FOREIGN KEY ("pairId") REFERENCES "token_pairs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
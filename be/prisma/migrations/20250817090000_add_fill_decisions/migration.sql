@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "fill_decisions" (
+    "id" TEXT NOT NULL,
+    "swapId" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "fillAt" INTEGER,
+    "takingAmount" TEXT NOT NULL,
+    "expectedProfit" TEXT NOT NULL,
+    "profitBps" INTEGER NOT NULL,
+    "reason" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "fill_decisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "fill_decisions_swapId_idx" ON "fill_decisions"("swapId");
+
+-- AddForeignKey
+ALTER TABLE "fill_decisions" ADD CONSTRAINT "fill_decisions_swapId_fkey" FOREIGN KEY ("swapId") REFERENCES "swaps"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,47 @@
+-- CreateEnum
+CREATE TYPE "InventoryReservationStatus" AS ENUM ('RESERVED', 'RELEASED', 'COMMITTED');
+
+-- CreateTable
+CREATE TABLE "inventory_balances" (
+    "id" TEXT NOT NULL,
+    "tokenId" TEXT NOT NULL,
+    "balance" TEXT NOT NULL DEFAULT '0',
+    "reserved" TEXT NOT NULL DEFAULT '0',
+    "version" INTEGER NOT NULL DEFAULT 0,
+    "syncedAt" INTEGER,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "inventory_balances_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "inventory_reservations" (
+    "id" TEXT NOT NULL,
+    "inventoryId" TEXT NOT NULL,
+    "swapId" TEXT NOT NULL,
+    "amount" TEXT NOT NULL,
+    "status" "InventoryReservationStatus" NOT NULL DEFAULT 'RESERVED',
+    "lockedAt" INTEGER,
+    "settledAt" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "inventory_reservations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "inventory_balances_tokenId_key" ON "inventory_balances"("tokenId");
+
+-- CreateIndex
+CREATE INDEX "inventory_reservations_swapId_idx" ON "inventory_reservations"("swapId");
+
+-- CreateIndex
+CREATE INDEX "inventory_reservations_inventoryId_status_idx" ON "inventory_reservations"("inventoryId", "status");
+
+-- AddForeignKey
+ALTER TABLE "inventory_balances" ADD CONSTRAINT "inventory_balances_tokenId_fkey" FOREIGN KEY ("tokenId") REFERENCES "tokens"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "inventory_reservations" ADD CONSTRAINT "inventory_reservations_inventoryId_fkey" FOREIGN KEY ("inventoryId") REFERENCES "inventory_balances"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "inventory_reservations" ADD CONSTRAINT "inventory_reservations_swapId_fkey" FOREIGN KEY ("swapId") REFERENCES "swaps"("id") ON DELETE CASCADE ON UPDATE CASCADE;
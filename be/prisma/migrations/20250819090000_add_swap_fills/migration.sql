@@ -0,0 +1,61 @@
+-- CreateEnum
+CREATE TYPE "SwapFillStatus" AS ENUM ('PENDING', 'ESCROWS_CREATED', 'SECRET_REVEALED', 'COMPLETED', 'FAILED', 'REFUNDED');
+
+-- AlterTable
+ALTER TABLE "swaps" ADD COLUMN "partsCount" INTEGER;
+
+-- AlterTable
+ALTER TABLE "inventory_reservations" ADD COLUMN "fillId" TEXT;
+
+-- CreateTable
+CREATE TABLE "swap_secrets" (
+    "id" TEXT NOT NULL,
+    "swapId" TEXT NOT NULL,
+    "index" INTEGER NOT NULL,
+    "hashlock" TEXT NOT NULL,
+    "aptosHashlock" TEXT NOT NULL,
+    "secret" TEXT,
+    "revealedAt" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "swap_secrets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "swap_fills" (
+    "id" TEXT NOT NULL,
+    "swapId" TEXT NOT NULL,
+    "secretIndex" INTEGER NOT NULL,
+    "status" "SwapFillStatus" NOT NULL DEFAULT 'PENDING',
+    "srcAmount" TEXT NOT NULL,
+    "filledAmount" TEXT NOT NULL,
+    "dstAmount" TEXT NOT NULL,
+    "evmHtlcAddress" TEXT,
+    "aptosHtlcAddress" TEXT,
+    "evmTxHash" TEXT,
+    "evmImmutables" JSONB,
+    "aptosImmutables" JSONB,
+    "errorMessage" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "swap_fills_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "swap_secrets_swapId_index_key" ON "swap_secrets"("swapId", "index");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "swap_fills_swapId_secretIndex_key" ON "swap_fills"("swapId", "secretIndex");
+
+-- CreateIndex
+CREATE INDEX "swap_fills_evmHtlcAddress_idx" ON "swap_fills"("evmHtlcAddress");
+
+-- AddForeignKey
+ALTER TABLE "inventory_reservations" ADD CONSTRAINT "inventory_reservations_fillId_fkey" FOREIGN KEY ("fillId") REFERENCES "swap_fills"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "swap_secrets" ADD CONSTRAINT "swap_secrets_swapId_fkey" FOREIGN KEY ("swapId") REFERENCES "swaps"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "swap_fills" ADD CONSTRAINT "swap_fills_swapId_fkey" FOREIGN KEY ("swapId") REFERENCES "swaps"("id") ON DELETE CASCADE ON UPDATE CASCADE;
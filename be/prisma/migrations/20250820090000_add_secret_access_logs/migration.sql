@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "secret_access_logs" (
+    "id" TEXT NOT NULL,
+    "swapId" TEXT NOT NULL,
+    "actor" TEXT NOT NULL,
+    "purpose" TEXT NOT NULL,
+    "granted" BOOLEAN NOT NULL,
+    "reason" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "secret_access_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "secret_access_logs_swapId_idx" ON "secret_access_logs"("swapId");
+
+-- AddForeignKey
+ALTER TABLE "secret_access_logs" ADD CONSTRAINT "secret_access_logs_swapId_fkey" FOREIGN KEY ("swapId") REFERENCES "swaps"("id") ON DELETE CASCADE ON UPDATE CASCADE;
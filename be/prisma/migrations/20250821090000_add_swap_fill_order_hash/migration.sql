@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "swap_fills" ADD COLUMN "orderHash" TEXT;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "swap_fills" ADD COLUMN "aptosTxHash" TEXT;
+
+-- AlterTable
+ALTER TABLE "secret_access_logs" ADD COLUMN "secretIndex" INTEGER;
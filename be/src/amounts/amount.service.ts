@@ -0,0 +1,79 @@
+import { BadRequestException, Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { Token } from "@prisma/client";
+import { AmountDto } from "../shared/dto/swap.dto";
+import {
+  AmountError,
+  AmountRounding,
+  DEFAULT_AMOUNT_ROUNDING,
+  formatAmount,
+  isAmountRounding,
+  parseHumanAmount,
+} from "./amounts";
+
+/**
+ * Parses and formats the amounts of registered tokens.
+ * AMOUNT_ROUNDING picks the side the dust of a conversion goes to, the resolver's by default.
+ */
+@Injectable()
+export class AmountService {
+  private readonly logger = new Logger(AmountService.name);
+  private readonly rounding: AmountRounding;
+
+  constructor(private readonly configService: ConfigService) {
+    this.rounding = this.readRounding();
+  }
+
+  getRounding(): AmountRounding {
+    return this.rounding;
+  }
+
+  /**
+   * Parse a human amount of a registered token into base units
+   * @throws BadRequestException when the amount is invalid or more precise than the token
+   */
+  parseHumanAmount(value: string, token: Pick<Token, "decimals">): bigint {
+    return this.run(() => parseHumanAmount(value, token.decimals));
+  }
+
+  /**
+   * Describe an amount of base units for the API
+   * @param decimals - Decimals of the token, unknown for swaps created before the token registry
+   */
+  toAmountDto(raw: string, decimals: number | null): AmountDto {
+    if (decimals === null) {
+      return { raw };
+    }
+    return { raw, formatted: formatAmount(BigInt(raw), decimals), decimals };
+  }
+
+  /**
+   * Run an amount computation, its AmountError is a bad request
+   */
+  private run<T>(compute: () => T): T {
+    try {
+      return compute();
+    } catch (error: unknown) {
+      if (error instanceof AmountError) {
+        throw new BadRequestException(error.message);
+      }
+      throw error;
+    }
+  }
+
+  private readRounding(): AmountRounding {
+    const value = this.configService.get<string>("AMOUNT_ROUNDING");
+    if (!value) {
+      return DEFAULT_AMOUNT_ROUNDING;
+    }
+
+    if (!isAmountRounding(value)) {
+      throw new Error(
+        `Invalid AMOUNT_ROUNDING: ${value}. Expected one of ${Object.values(AmountRounding).join(", ")}`,
+      );
+    }
+
+    this.logger.log(`Converted amounts are rounded in favour of the ${value}`);
+    return value;
+  }
+}
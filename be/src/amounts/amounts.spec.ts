@@ -0,0 +1,68 @@
+import {
+  AmountError,
+  AmountRounding,
+  U64_MAX,
+  assertU64,
+  convertAmount,
+  formatAmount,
+  parseHumanAmount,
+  parseRawAmount,
+} from "./amounts";
+
+describe("amounts", () => {
+  it("parses amounts of base units", () => {
+    expect(parseRawAmount(" 1000000000000000000 ")).toBe(10n ** 18n);
+    expect(() => parseRawAmount("0")).toThrow("Amount must be positive");
+    expect(() => parseRawAmount("1.5")).toThrow(AmountError);
+    expect(() => parseRawAmount("-1")).toThrow(AmountError);
+    expect(() => parseRawAmount("1e18")).toThrow(AmountError);
+  });
+
+  it("parses human amounts exactly", () => {
+    expect(parseHumanAmount("1.5", 18)).toBe(15n * 10n ** 17n);
+    expect(parseHumanAmount("0.00000001", 8)).toBe(1n);
+    expect(parseHumanAmount("2.50", 1)).toBe(25n);
+    expect(parseHumanAmount("3", 0)).toBe(3n);
+    expect(() => parseHumanAmount("0.000000001", 8)).toThrow(
+      "0.000000001 has more than 8 decimals",
+    );
+    expect(() => parseHumanAmount("0.0", 8)).toThrow(AmountError);
+    expect(() => parseHumanAmount("abc", 8)).toThrow(AmountError);
+  });
+
+  it("formats base units without trailing zeros", () => {
+    expect(formatAmount(15n * 10n ** 17n, 18)).toBe("1.5");
+    expect(formatAmount(1n, 8)).toBe("0.00000001");
+    expect(formatAmount(100000000n, 8)).toBe("1");
+    expect(formatAmount(42n, 0)).toBe("42");
+  });
+
+  it("converts between decimals in favour of the configured side", () => {
+    const amount = 123456789012345678n; // 0.123456789012345678 of an 18 decimals token
+
+    expect(convertAmount(amount, 18, 8, AmountRounding.RESOLVER)).toBe(
+      12345678n,
+    );
+    expect(convertAmount(amount, 18, 8, AmountRounding.USER)).toBe(12345679n);
+    expect(convertAmount(10n ** 18n, 18, 8, AmountRounding.USER)).toBe(
+      10n ** 8n,
+    );
+    expect(convertAmount(12345678n, 8, 18, AmountRounding.RESOLVER)).toBe(
+      123456780000000000n,
+    );
+  });
+
+  it("rejects amounts worth less than a destination base unit", () => {
+    expect(() =>
+      convertAmount(10n ** 9n, 18, 8, AmountRounding.RESOLVER),
+    ).toThrow(AmountError);
+    expect(convertAmount(10n ** 9n, 18, 8, AmountRounding.USER)).toBe(1n);
+  });
+
+  it("detects u64 overflow", () => {
+    expect(assertU64(U64_MAX)).toBe(U64_MAX);
+    expect(() => assertU64(U64_MAX + 1n, "Aptos amount")).toThrow(
+      `Aptos amount ${U64_MAX + 1n} does not fit in a u64`,
+    );
+  });
+});
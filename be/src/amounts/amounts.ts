@@ -0,0 +1,137 @@
+/**
+ * Token amounts shared by the swap services.
+ *
+ * Amounts are bigints of base units, written as decimal strings in the database and the API.
+ * EVM tokens mostly have 18 decimals and Aptos coins 8, so the same value is a different
+ * number of base units on each side of a swap and must be converted with the decimals
+ * of both tokens before it reaches an escrow.
+ */
+
+export class AmountError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AmountError";
+  }
+}
+
+/**
+ * Largest amount an Aptos escrow holds, coins are u64
+ */
+export const U64_MAX = (1n << 64n) - 1n;
+
+/**
+ * Side a converted amount is rounded in favour of when the destination token has fewer decimals
+ */
+export enum AmountRounding {
+  // Round the amount paid to the user up, the resolver covers the dust
+  USER = "user",
+  // Round the amount paid to the user down, the resolver keeps the dust
+  RESOLVER = "resolver",
+}
+
+export const DEFAULT_AMOUNT_ROUNDING = AmountRounding.RESOLVER;
+
+const RAW_AMOUNT_REGEX = /^\d+$/;
+const HUMAN_AMOUNT_REGEX = /^(\d+)(?:\.(\d*))?$/;
+
+export function isAmountRounding(value: string): value is AmountRounding {
+  return (Object.values(AmountRounding) as string[]).includes(value);
+}
+
+/**
+ * Parse an amount of base units
+ * @throws AmountError when the amount is not a positive integer
+ */
+export function parseRawAmount(value: string): bigint {
+  const trimmed = value.trim();
+  if (!RAW_AMOUNT_REGEX.test(trimmed)) {
+    throw new AmountError(`${value} is not an amount of base units`);
+  }
+
+  const amount = BigInt(trimmed);
+  if (amount === 0n) {
+    throw new AmountError("Amount must be positive");
+  }
+  return amount;
+}
+
+/**
+ * Parse a human amount, e.g. 1.5, into base units
+ * @throws AmountError when it is not a positive decimal or has more fraction digits than the token
+ */
+export function parseHumanAmount(value: string, decimals: number): bigint {
+  const match = HUMAN_AMOUNT_REGEX.exec(value.trim());
+  if (!match) {
+    throw new AmountError(`${value} is not a decimal amount`);
+  }
+
+  const [, whole, fraction = ""] = match;
+  // Amounts are parsed exactly, rounding only happens between tokens
+  if (fraction.replace(/0+$/, "").length > decimals) {
+    throw new AmountError(`${value} has more than ${decimals} decimals`);
+  }
+
+  const amount =
+    BigInt(whole) * 10n ** BigInt(decimals) +
+    BigInt(fraction.slice(0, decimals).padEnd(decimals, "0") || "0");
+  if (amount === 0n) {
+    throw new AmountError("Amount must be positive");
+  }
+  return amount;
+}
+
+/**
+ * Format base units as a human amount, without trailing zeros
+ */
+export function formatAmount(amount: bigint, decimals: number): string {
+  const sign = amount < 0n ? "-" : "";
+  const digits = (amount < 0n ? -amount : amount)
+    .toString()
+    .padStart(decimals + 1, "0");
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, "");
+  return `${sign}${whole}${fraction ? `.${fraction}` : ""}`;
+}
+
+/**
+ * Convert base units of a token into base units of a token with other decimals
+ * @param amount - Base units of the source token
+ * @param fromDecimals - Decimals of the source token
+ * @param toDecimals - Decimals of the destination token
+ * @param rounding - Side the destination amount, paid to the user, is rounded in favour of
+ * @throws AmountError when the amount is worth less than a base unit of the destination token
+ */
+export function convertAmount(
+  amount: bigint,
+  fromDecimals: number,
+  toDecimals: number,
+  rounding: AmountRounding,
+): bigint {
+  if (toDecimals >= fromDecimals) {
+    return amount * 10n ** BigInt(toDecimals - fromDecimals);
+  }
+
+  const divisor = 10n ** BigInt(fromDecimals - toDecimals);
+  const converted =
+    rounding === AmountRounding.USER
+      ? (amount + divisor - 1n) / divisor
+      : amount / divisor;
+  if (converted === 0n) {
+    throw new AmountError(
+      `Amount ${amount} is below a base unit of a ${toDecimals} decimals token`,
+    );
+  }
+  return converted;
+}
+
+/**
+ * Check an amount fits the u64 of an Aptos escrow
+ * @param label - Name of the amount in the error message
+ * @throws AmountError on overflow
+ */
+export function assertU64(amount: bigint, label = "Amount"): bigint {
+  if (amount < 0n || amount > U64_MAX) {
+    throw new AmountError(`${label} ${amount} does not fit in a u64`);
+  }
+  return amount;
+}
@@ -8,6 +8,7 @@ import { ScheduleModule } from "@nestjs/schedule";
 import { CacheModule } from "@nestjs/cache-manager";
 import { SwapAptosToEvmModule } from "./swap-aptos-to-evm/swap-aptos-to-evm.module";
 import { SwapEvmToAptosModule } from "./swap-evm-to-aptos/swap-evm-to-aptos.module";
+import { SwapStateModule } from "./swap-state/swap-state.module";
 import { EvmModule } from "./evm/evm.module";
 import { AptosModule } from "./aptos/aptos.module";
 import { FusionModule } from "./fusion/fusion.module";
@@ -16,7 +17,11 @@ import { AptosHtlcMonitorModule } from "./workers/aptos-htlc-monitor.module";
 import { EvmHtlcMonitorModule } from "./workers/evm-htlc-monitor.module";
 import { RefundHandlerModule } from "./workers/refund-handler.module";
 import { RecoveryModule } from "./workers/recovery.module";
+import { PublicWindowModule } from "./workers/public-window.module";
 import { EscrowWorkerModule } from "./workers/escrow.worker.module";
+import { RelayerTxTrackerModule } from "./workers/relayer-tx-tracker.module";
+import { TokensModule } from "./tokens/tokens.module";
+import { QuotesModule } from "./quotes/quotes.module";
 
 @Module({
   imports: [
@@ -36,12 +41,17 @@ import { EscrowWorkerModule } from "./workers/escrow.worker.module";
     EvmHtlcMonitorModule,
     SwapAptosToEvmModule,
     SwapEvmToAptosModule,
+    SwapStateModule,
     EvmModule,
     AptosModule,
     FusionModule,
     RefundHandlerModule,
     RecoveryModule,
+    PublicWindowModule,
     EscrowWorkerModule,
+    RelayerTxTrackerModule,
+    TokensModule,
+    QuotesModule,
   ],
   controllers: [AppController],
   providers: [AppService],
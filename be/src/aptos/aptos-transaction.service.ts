@@ -0,0 +1,417 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { Prisma, RelayerTransaction, RelayerTxStatus } from "@prisma/client";
+import {
+  AptosAccount,
+  AptosClient,
+  ApiError,
+  FailedTransactionError,
+  HexString,
+  TxnBuilderTypes,
+  Types,
+} from "aptos";
+import { PrismaService } from "../prisma/prisma.service";
+import { RelayerTxContext } from "../evm/evm-transaction.service";
+
+const CHAIN = "aptos";
+
+const MAX_SUBMIT_ATTEMPTS = 3;
+// Simulated gas only holds for the state it ran against, the transaction may run against a later one
+const GAS_MARGIN_PERCENT = 150n;
+// Below the intrinsic gas of a transaction nodes reject it
+const MIN_MAX_GAS_AMOUNT = 2_000n;
+const DEFAULT_MAX_GAS_AMOUNT = 200_000n;
+const DEFAULT_EXPIRATION_SECS = 60;
+// A transaction its node still does not know after this long has expired
+const DROPPED_AFTER_MS = 5 * 60 * 1000;
+
+const SEQUENCE_NUMBER_ERROR = /SEQUENCE_NUMBER_TOO_(OLD|NEW)/;
+
+/**
+ * Error thrown when a payload fails its simulation, before anything is spent on it
+ */
+export class AptosSimulationError extends Error {
+  constructor(
+    message: string,
+    readonly vmStatus: string,
+  ) {
+    super(message);
+    this.name = "AptosSimulationError";
+  }
+}
+
+/**
+ * Sequence number and submit queue of one relayer account
+ */
+interface SenderState {
+  client: AptosClient;
+  account: AptosAccount;
+  // Next sequence number to use, null until read from the chain or after a failed submit
+  nextSequenceNumber: bigint | null;
+  // Tail of the submit queue, each submit starts once the previous one is accepted
+  queue: Promise<unknown>;
+}
+
+function isSequenceNumberError(error: unknown): boolean {
+  if (!(error instanceof ApiError)) {
+    return false;
+  }
+  return (
+    error.errorCode === "sequence_number_too_old" ||
+    SEQUENCE_NUMBER_ERROR.test(error.message)
+  );
+}
+
+/**
+ * Sequence-number-managed submitter of the relayer Aptos accounts.
+ *
+ * The services share one account, so submits are serialized per account and numbered from
+ * a local sequence number instead of letting each call read it from the chain concurrently.
+ * Every payload is simulated first, so a Move abort fails the call without spending gas,
+ * and its max gas amount is sized from the simulation under the configured cap.
+ * Submitted transactions are written to the RelayerTransaction journal like the EVM ones.
+ */
+@Injectable()
+export class AptosTransactionService {
+  private readonly logger = new Logger(AptosTransactionService.name);
+  private readonly senders = new Map<string, SenderState>();
+  private readonly maxGasAmount: bigint;
+  private readonly gasUnitPrice?: bigint;
+  private readonly expirationSecs: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly prismaService: PrismaService,
+  ) {
+    const maxGasAmount = this.configService.get<string>("APTOS_MAX_GAS_AMOUNT");
+    const gasUnitPrice = this.configService.get<string>("APTOS_GAS_UNIT_PRICE");
+    const expirationSecs = this.configService.get<string>(
+      "APTOS_TX_EXPIRATION_SECS",
+    );
+
+    this.maxGasAmount = maxGasAmount
+      ? BigInt(maxGasAmount)
+      : DEFAULT_MAX_GAS_AMOUNT;
+    // Estimated by the node for every transaction when not configured
+    this.gasUnitPrice = gasUnitPrice ? BigInt(gasUnitPrice) : undefined;
+    this.expirationSecs = expirationSecs
+      ? Number(expirationSecs)
+      : DEFAULT_EXPIRATION_SECS;
+  }
+
+  /**
+   * Register a relayer account, so its pending transactions are tracked after a restart
+   * @param client - Client of the node the account submits to
+   * @param account - Relayer account signing the transactions
+   */
+  registerSigner(client: AptosClient, account: AptosAccount): void {
+    const address = account.address().toShortString();
+    if (!this.senders.has(address)) {
+      this.senders.set(address, {
+        client,
+        account,
+        nextSequenceNumber: null,
+        queue: Promise.resolve(),
+      });
+    }
+  }
+
+  /**
+   * Simulate a payload, then submit it through the queue of its account and record it in the journal
+   * @param account - Registered relayer account signing the transaction
+   * @param payload - Entry function call to submit
+   * @param context - Purpose and swap of the transaction
+   * @returns The accepted transaction
+   * @throws AptosSimulationError when the payload aborts in the simulation
+   */
+  async submit(
+    account: AptosAccount,
+    payload: Types.EntryFunctionPayload,
+    context: RelayerTxContext,
+  ): Promise<Types.PendingTransaction> {
+    const sender = this.getSender(account.address().hex());
+    const { maxGasAmount, gasUnitPrice } = await this.simulate(sender, payload);
+
+    return this.enqueue(sender, (state) =>
+      this.submitNext(state, payload, context, maxGasAmount, gasUnitPrice),
+    );
+  }
+
+  /**
+   * Wait for a relayer transaction to be committed and record the outcome in the journal
+   * @param tx - Transaction returned by `submit`
+   * @returns The committed transaction
+   * @throws FailedTransactionError when it aborted
+   */
+  async waitForTransaction(
+    tx: Types.PendingTransaction,
+  ): Promise<Types.UserTransaction> {
+    const { client } = this.getSender(tx.sender);
+
+    try {
+      const committed = (await client.waitForTransactionWithResult(tx.hash, {
+        checkSuccess: true,
+      })) as Types.UserTransaction;
+      await this.updateTransaction(tx.hash, {
+        status: RelayerTxStatus.CONFIRMED,
+        blockNumber: BigInt(committed.version),
+      });
+      return committed;
+    } catch (error) {
+      if (error instanceof FailedTransactionError) {
+        const committed = error.transaction as Types.UserTransaction;
+        await this.updateTransaction(tx.hash, {
+          status: RelayerTxStatus.REVERTED,
+          blockNumber: BigInt(committed.version),
+          error: committed.vm_status,
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Settle the journaled transactions still pending, e.g. after a restart or a timed out wait
+   */
+  async trackPendingTransactions(): Promise<void> {
+    for (const sender of this.senders.values()) {
+      const pending = await this.prismaService.relayerTransaction.findMany({
+        where: {
+          chain: CHAIN,
+          sender: sender.account.address().hex(),
+          status: RelayerTxStatus.PENDING,
+        },
+        orderBy: { nonce: "asc" },
+      });
+
+      for (const transaction of pending) {
+        try {
+          await this.trackTransaction(sender, transaction);
+        } catch (error) {
+          const errorMessage =
+            error instanceof Error ? error.message : String(error);
+          this.logger.error(
+            `Error tracking transaction ${transaction.hash}: ${errorMessage}`,
+          );
+        }
+      }
+    }
+  }
+
+  private async trackTransaction(
+    sender: SenderState,
+    transaction: RelayerTransaction,
+  ): Promise<void> {
+    let tx: Types.Transaction;
+    try {
+      tx = await sender.client.getTransactionByHash(transaction.hash);
+    } catch (error) {
+      if (!(error instanceof ApiError && error.status === 404)) {
+        throw error;
+      }
+      if (Date.now() - transaction.createdAt.getTime() < DROPPED_AFTER_MS) {
+        return;
+      }
+
+      this.logger.warn(
+        `Transaction ${transaction.hash} (${transaction.purpose}) expired, reusing sequence number ${transaction.nonce}`,
+      );
+      await this.updateTransaction(transaction.hash, {
+        status: RelayerTxStatus.DROPPED,
+        error: "Expired before being committed",
+      });
+      // Later transactions are stuck behind the gap, the next submit reads the sequence number again
+      await this.enqueue(sender, (state) => {
+        state.nextSequenceNumber = null;
+        return Promise.resolve();
+      });
+      return;
+    }
+
+    if (tx.type !== "user_transaction") {
+      return;
+    }
+    const committed = tx as Types.UserTransaction;
+    await this.updateTransaction(transaction.hash, {
+      status: committed.success
+        ? RelayerTxStatus.CONFIRMED
+        : RelayerTxStatus.REVERTED,
+      blockNumber: BigInt(committed.version),
+      error: committed.success ? undefined : committed.vm_status,
+    });
+  }
+
+  /**
+   * Simulate a payload against the committed state of its account
+   * @returns Max gas amount and gas unit price to submit it with
+   */
+  private async simulate(
+    sender: SenderState,
+    payload: Types.EntryFunctionPayload,
+  ): Promise<{ maxGasAmount: bigint; gasUnitPrice: bigint }> {
+    // Without a sequence number the client takes the committed one, simulating with a
+    // pending one would fail with SEQUENCE_NUMBER_TOO_NEW
+    const rawTx = await sender.client.generateTransaction(
+      sender.account.address(),
+      payload,
+      this.transactionOptions(this.maxGasAmount, this.gasUnitPrice),
+    );
+    const [simulated] = await sender.client.simulateTransaction(
+      sender.account,
+      rawTx,
+    );
+
+    if (!simulated.success) {
+      throw new AptosSimulationError(
+        `Simulation of ${payload.function} failed: ${simulated.vm_status}`,
+        simulated.vm_status,
+      );
+    }
+
+    const maxGasAmount =
+      (BigInt(simulated.gas_used) * GAS_MARGIN_PERCENT) / 100n;
+    return {
+      maxGasAmount:
+        maxGasAmount < MIN_MAX_GAS_AMOUNT
+          ? MIN_MAX_GAS_AMOUNT
+          : maxGasAmount > this.maxGasAmount
+            ? this.maxGasAmount
+            : maxGasAmount,
+      gasUnitPrice: rawTx.gas_unit_price,
+    };
+  }
+
+  private async submitNext(
+    sender: SenderState,
+    payload: Types.EntryFunctionPayload,
+    context: RelayerTxContext,
+    maxGasAmount: bigint,
+    gasUnitPrice: bigint,
+  ): Promise<Types.PendingTransaction> {
+    for (let attempt = 1; ; attempt++) {
+      if (sender.nextSequenceNumber === null) {
+        const account = await sender.client.getAccount(
+          sender.account.address(),
+        );
+        sender.nextSequenceNumber = BigInt(account.sequence_number);
+      }
+
+      let rawTx: TxnBuilderTypes.RawTransaction;
+      let tx: Types.PendingTransaction;
+      try {
+        rawTx = await sender.client.generateTransaction(
+          sender.account.address(),
+          payload,
+          {
+            ...this.transactionOptions(maxGasAmount, gasUnitPrice),
+            sequence_number: sender.nextSequenceNumber.toString(),
+          },
+        );
+        tx = await sender.client.submitTransaction(
+          await sender.client.signTransaction(sender.account, rawTx),
+        );
+      } catch (error) {
+        // The node may or may not have taken the sequence number, read it again on the next submit
+        sender.nextSequenceNumber = null;
+        if (isSequenceNumberError(error) && attempt < MAX_SUBMIT_ATTEMPTS) {
+          this.logger.warn(
+            `Sequence number of ${sender.account.address().hex()} out of sync, retrying ${context.purpose} transaction`,
+          );
+          continue;
+        }
+        throw error;
+      }
+
+      sender.nextSequenceNumber = rawTx.sequence_number + 1n;
+      this.logger.log(
+        `Submitted ${context.purpose} transaction ${tx.hash} with sequence number ${rawTx.sequence_number}`,
+      );
+      await this.recordTransaction(tx, payload, context);
+      return tx;
+    }
+  }
+
+  private transactionOptions(
+    maxGasAmount: bigint,
+    gasUnitPrice?: bigint,
+  ): Partial<Types.SubmitTransactionRequest> {
+    return {
+      max_gas_amount: maxGasAmount.toString(),
+      gas_unit_price: gasUnitPrice?.toString(),
+      expiration_timestamp_secs: (
+        Math.floor(Date.now() / 1000) + this.expirationSecs
+      ).toString(),
+    };
+  }
+
+  private async recordTransaction(
+    tx: Types.PendingTransaction,
+    payload: Types.EntryFunctionPayload,
+    context: RelayerTxContext,
+  ): Promise<void> {
+    // The transaction is submitted already, a journal failure must not hide it from the caller
+    try {
+      await this.prismaService.relayerTransaction.create({
+        data: {
+          chain: CHAIN,
+          sender: HexString.ensure(tx.sender).hex(),
+          nonce: Number(tx.sequence_number),
+          purpose: context.purpose,
+          swapId: context.swapId,
+          deadline: context.deadline,
+          hash: tx.hash,
+          to: payload.function,
+          data: JSON.stringify({
+            type_arguments: payload.type_arguments,
+            arguments: payload.arguments as unknown,
+          }),
+          gasLimit: tx.max_gas_amount,
+          gasPrice: tx.gas_unit_price,
+        },
+      });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.error(
+        `Failed to journal transaction ${tx.hash}: ${errorMessage}`,
+      );
+    }
+  }
+
+  private async updateTransaction(
+    hash: string,
+    data: Prisma.RelayerTransactionUpdateManyMutationInput,
+  ): Promise<void> {
+    // updateMany, transactions whose journal write failed have no row
+    try {
+      await this.prismaService.relayerTransaction.updateMany({
+        where: { hash },
+        data,
+      });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.error(
+        `Failed to update journaled transaction ${hash}: ${errorMessage}`,
+      );
+    }
+  }
+
+  private enqueue<T>(
+    sender: SenderState,
+    task: (sender: SenderState) => Promise<T>,
+  ): Promise<T> {
+    const result = sender.queue.then(() => task(sender));
+    // A failed task must not block the ones queued after it
+    sender.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private getSender(address: string): SenderState {
+    const sender = this.senders.get(HexString.ensure(address).toShortString());
+    if (!sender) {
+      throw new Error(`No relayer account registered for ${address}`);
+    }
+    return sender;
+  }
+}
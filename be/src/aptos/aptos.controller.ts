@@ -1,6 +1,7 @@
-import { Controller, Get, Post } from "@nestjs/common";
+import { Body, Controller, Get, Post } from "@nestjs/common";
 import { ApiTags, ApiOperation, ApiResponse } from "@nestjs/swagger";
 import { AptosService } from "./aptos.service";
+import { HtlcWithdrawDto } from "./dto";
 
 @ApiTags("aptos")
 @Controller("aptos")
@@ -52,17 +53,18 @@ export class AptosController {
       amount: "100", // Example amount
       hashlock: "0x123", // Example hashlock
       timelock: Math.floor(Date.now() / 1000) + 3600, // Example timelock (1 hour from now)
+      coinType: this.aptosService.getTestCoinType(),
     });
   }
 
   @Post("htlc/withdraw")
   @ApiOperation({ summary: "Withdraw from Aptos HTLC" })
   @ApiResponse({ status: 200, description: "Withdrawal successful" })
-  withdrawAptosHtlc() {
-    // TODO: Replace with actual parameters from request body
+  withdrawAptosHtlc(@Body() htlcWithdrawDto: HtlcWithdrawDto) {
     return this.aptosService.withdrawAptosHtlc({
-      contractId: "0x123", // Example contract ID
-      preimage: "secret", // Example preimage
+      contractId: htlcWithdrawDto.htlcAddress,
+      preimage: htlcWithdrawDto.preimage,
+      coinType: this.aptosService.getTestCoinType(),
     });
   }
 
@@ -73,6 +75,7 @@ export class AptosController {
     // TODO: Replace with actual parameters from request body
     return this.aptosService.refundAptosHtlc({
       contractId: "0x123", // Example contract ID
+      coinType: this.aptosService.getTestCoinType(),
     });
   }
 
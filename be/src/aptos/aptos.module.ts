@@ -1,12 +1,14 @@
 import { Module } from "@nestjs/common";
 import { AptosService } from "./aptos.service";
 import { AptosController } from "./aptos.controller";
+import { AptosTransactionService } from "./aptos-transaction.service";
 import { AptosHtlcMonitorModule } from '../workers/aptos-htlc-monitor.module';
+import { PrismaModule } from "../prisma/prisma.module";
 
 @Module({
-  imports: [AptosHtlcMonitorModule],
-  providers: [AptosService],
+  imports: [AptosHtlcMonitorModule, PrismaModule],
+  providers: [AptosService, AptosTransactionService],
   controllers: [AptosController],
-  exports: [AptosService],
+  exports: [AptosService, AptosTransactionService],
 })
 export class AptosModule {}
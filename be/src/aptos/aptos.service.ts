@@ -1,13 +1,53 @@
 import { Injectable, Logger, OnModuleInit } from "@nestjs/common";
 import { ConfigService } from "@nestjs/config";
-import { AptosClient, AptosAccount, HexString } from "aptos";
+import { AptosClient, AptosAccount, ApiError, HexString, Types } from "aptos";
 import { AptosHtlcMonitorService } from "../workers/aptos-htlc-monitor.service";
+import { decodeSecret, encodeSecret } from "../hashlock/hashlock";
+import { assertU64 } from "../amounts/amounts";
+import {
+  AptosImmutables,
+  AptosTimelocks,
+  EscrowChainState,
+} from "../types/escrow.types";
+import {
+  computeEscrowContractId,
+  computeHtlcContractId,
+  normalizeTypeName,
+} from "./contract-id";
+import {
+  AptosEscrowTransaction,
+  EscrowCreation,
+  EscrowCreationError,
+  ExpectedEscrow,
+  checkEscrowCreation,
+  isSameAddress,
+  readEscrowCreation,
+} from "./escrow-creation";
+import { AptosTransactionService } from "./aptos-transaction.service";
+import { RelayerTxContext } from "../evm/evm-transaction.service";
+
 interface PublicEntryFunctionPayload {
   function: string;
   type_arguments: string[];
   arguments: any[];
 }
 
+/**
+ * EscrowData entry of the EscrowStore table, u64 fields are returned as strings
+ */
+interface AptosEscrowData {
+  immutables: {
+    timelocks: {
+      deployed_at: string;
+      dst_withdrawal: string;
+      dst_public_withdrawal: string;
+      dst_cancellation: string;
+    };
+  };
+  withdrawn: boolean;
+  cancelled: boolean;
+}
+
 @Injectable()
 export class AptosService implements OnModuleInit {
   private readonly logger = new Logger(AptosService.name);
@@ -20,7 +60,8 @@ export class AptosService implements OnModuleInit {
   constructor(
     private readonly configService: ConfigService,
     private readonly aptosHtlcMonitorService: AptosHtlcMonitorService,
-  ) { }
+    private readonly aptosTransactionService: AptosTransactionService,
+  ) {}
 
   async onModuleInit() {
     await this.setupAptosConnection();
@@ -42,6 +83,13 @@ export class AptosService implements OnModuleInit {
     return { address: this.relayerAccount.address().hex() };
   }
 
+  /**
+   * Whether the relayer is the taker of an escrow, escrow_dst lets only the taker cancel it
+   */
+  isRelayerEscrow(immutables: AptosImmutables): boolean {
+    return isSameAddress(immutables.taker, this.relayerAccount.address().hex());
+  }
+
   registerAptosToken(): Promise<{ success: boolean; txHash: string }> {
     this.logger.log("Registering Aptos token");
     return Promise.resolve({ success: true, txHash: "sample_tx_hash" });
@@ -109,7 +157,29 @@ export class AptosService implements OnModuleInit {
     dstWithdrawalDelay,
     dstPublicWithdrawalDelay,
     dstCancellationDelay,
-  }) {
+    coinType,
+    swapId,
+  }: {
+    orderHash: string;
+    hashlock: string;
+    maker: string;
+    recipient: string;
+    aptosAmount: string;
+    safetyDeposit: string;
+    dstWithdrawalDelay: string;
+    dstPublicWithdrawalDelay: string;
+    dstCancellationDelay: string;
+    // Coin type of a registered token, see TokenRegistryService
+    coinType: string;
+    swapId?: string;
+  }): Promise<{
+    success: boolean;
+    txHash: string;
+    // Ledger version of the creation transaction
+    version: string;
+    contractId: string;
+    immutables: AptosImmutables;
+  }> {
     this.logger.log("Creating Aptos escrow");
     const moduleAddress =
       this.moduleAddress || process.env.APTOS_MODULE_ADDRESS;
@@ -118,11 +188,13 @@ export class AptosService implements OnModuleInit {
       // Convert arguments to proper types
       const orderHashBytes = HexString.ensure(orderHash).toUint8Array();
       const hashlockBytes = HexString.ensure(hashlock).toUint8Array();
-      const amountNum = BigInt(aptosAmount);
+      // The escrow amounts are u64, an overflow would only fail on chain
+      const amountNum = assertU64(BigInt(aptosAmount), "Escrow amount");
+      assertU64(BigInt(safetyDeposit), "Safety deposit");
 
       const payload: PublicEntryFunctionPayload = {
         function: `${moduleAddress}::escrow_factory::create_dst_escrow`,
-        type_arguments: ["0x1::aptos_coin::AptosCoin"],
+        type_arguments: [coinType],
         arguments: [
           Array.from(orderHashBytes), // Convert to number[] for BCS serialization
           Array.from(hashlockBytes),
@@ -136,26 +208,270 @@ export class AptosService implements OnModuleInit {
         ],
       };
 
-      const result = await this.submitTransaction(payload);
-      return result;
+      const { success, txHash } = await this.submitTransaction(payload, {
+        purpose: "escrow-create",
+        swapId,
+      });
+      const { contractId, immutables, version } = await this.getCreatedEscrow(
+        txHash,
+        {
+          orderHash,
+          hashlock,
+          maker,
+          taker: recipient,
+          tokenType: coinType,
+          amount: amountNum,
+          safetyDeposit: BigInt(safetyDeposit),
+          delays: {
+            dstWithdrawal: Number(dstWithdrawalDelay),
+            dstPublicWithdrawal: Number(dstPublicWithdrawalDelay),
+            dstCancellation: Number(dstCancellationDelay),
+          },
+        },
+      );
+
+      return { success, txHash, version, contractId, immutables };
     } catch (error) {
       this.logger.error(`Failed to create escrow: ${error}`);
       throw error;
     }
   }
 
+  /**
+   * Computes the immutables and contract ID of the escrow created by a create_dst_escrow transaction.
+   * escrow_dst timestamps its timelocks with the block time, which is the transaction timestamp
+   * @param txHash - Hash of the committed creation transaction
+   * @param params - Creation parameters and timelock delays of the escrow
+   * @returns Contract ID as a 0x-prefixed hex string, the immutables it hashes and the ledger
+   * version of the transaction
+   */
+  private async getCreatedEscrow(
+    txHash: string,
+    params: Omit<AptosImmutables, "timelocks"> & {
+      delays: Omit<AptosTimelocks, "deployedAt">;
+    },
+  ): Promise<{
+    contractId: string;
+    immutables: AptosImmutables;
+    version: string;
+  }> {
+    const tx = await this.aptosClient.getTransactionByHash(txHash);
+    if (!("timestamp" in tx) || !("version" in tx)) {
+      throw new Error(`Transaction ${txHash} is not committed`);
+    }
+
+    const { delays, ...fields } = params;
+    const deployedAt = Math.floor(Number(tx.timestamp) / 1_000_000);
+    const immutables: AptosImmutables = {
+      ...fields,
+      tokenType: normalizeTypeName(fields.tokenType),
+      timelocks: {
+        deployedAt,
+        dstWithdrawal: deployedAt + delays.dstWithdrawal,
+        dstPublicWithdrawal: deployedAt + delays.dstPublicWithdrawal,
+        dstCancellation: deployedAt + delays.dstCancellation,
+      },
+    };
+    const contractId = computeEscrowContractId(immutables);
+
+    // The event is in the transaction already fetched, a mismatch means the encoding drifted
+    const createdEvent = ("events" in tx ? tx.events : []).find((event) =>
+      event.type.endsWith("::escrow_dst::EscrowCreatedEvent"),
+    );
+    if (createdEvent) {
+      const eventContractId = HexString.ensure(
+        String(createdEvent.data.contract_id),
+      ).hex();
+      if (eventContractId !== contractId) {
+        this.logger.warn(
+          `Escrow created with contract ID ${eventContractId} instead of ${contractId} in transaction ${txHash}, using the event`,
+        );
+        return { contractId: eventContractId, immutables, version: tx.version };
+      }
+    }
+
+    return { contractId, immutables, version: tx.version };
+  }
+
+  /**
+   * Verify the escrow a user created with create_dst_escrow, see src/aptos/escrow-creation
+   * @param txHash - Hash of the creation transaction
+   * @param expected - Escrow the swap expects
+   * @throws EscrowCreationError when the transaction did not create the expected escrow,
+   * or the escrow was already withdrawn or cancelled
+   */
+  async verifyEscrowCreation(
+    txHash: string,
+    expected: ExpectedEscrow,
+  ): Promise<EscrowCreation> {
+    let tx: Types.Transaction;
+    try {
+      tx = await this.aptosClient.getTransactionByHash(txHash);
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 404) {
+        throw new EscrowCreationError(`Transaction ${txHash} not found`);
+      }
+      throw error;
+    }
+
+    const creation = readEscrowCreation(
+      tx as AptosEscrowTransaction,
+      this.moduleAddress,
+    );
+    checkEscrowCreation(creation, expected);
+
+    const state = await this.getEscrowState(creation.contractId);
+    if (state !== EscrowChainState.ACTIVE) {
+      throw new EscrowCreationError(
+        `Escrow ${creation.contractId} is ${state}`,
+      );
+    }
+    return creation;
+  }
+
+  /**
+   * Withdraws from an escrow_dst escrow by revealing the secret
+   * @param params - Contract ID, secret, coin type and whether to use the public withdrawal path
+   * @returns Success status and transaction hash
+   */
+  async withdrawEscrow(params: {
+    contractId: string;
+    secret: string;
+    coinType: string;
+    isPublic?: boolean;
+    swapId?: string;
+  }): Promise<{ success: boolean; txHash: string }> {
+    const { contractId, secret, coinType, isPublic, swapId } = params;
+    const entryFunction = isPublic ? "public_withdraw" : "withdraw";
+    this.logger.log(
+      `Withdrawing Aptos escrow ${contractId} (${entryFunction})`,
+    );
+
+    const payload: PublicEntryFunctionPayload = {
+      function: `${this.moduleAddress}::escrow_dst::${entryFunction}`,
+      type_arguments: [coinType],
+      arguments: [
+        Array.from(HexString.ensure(contractId).toUint8Array()),
+        Array.from(decodeSecret(secret)),
+      ],
+    };
+
+    return this.submitTransaction(payload, {
+      purpose: isPublic ? "escrow-public-withdraw" : "escrow-withdraw",
+      swapId,
+    });
+  }
+
+  /**
+   * Cancels an escrow_dst escrow after its cancellation timelock
+   * @param params - Contract ID, coin type and swap of the escrow
+   * @returns Success status and transaction hash
+   */
+  async cancelEscrow(params: {
+    contractId: string;
+    coinType: string;
+    swapId?: string;
+  }): Promise<{ success: boolean; txHash: string }> {
+    const { contractId, coinType, swapId } = params;
+    this.logger.log(`Cancelling Aptos escrow ${contractId}`);
+
+    const payload: PublicEntryFunctionPayload = {
+      function: `${this.moduleAddress}::escrow_dst::cancel`,
+      type_arguments: [coinType],
+      arguments: [Array.from(HexString.ensure(contractId).toUint8Array())],
+    };
+
+    return this.submitTransaction(payload, {
+      purpose: "escrow-cancel",
+      swapId,
+    });
+  }
+
+  /**
+   * Reads the state of an escrow_dst escrow from the EscrowStore table
+   * @param contractId - Contract ID of the escrow
+   * @returns MISSING when the table has no escrow with this ID
+   */
+  async getEscrowState(contractId: string): Promise<EscrowChainState> {
+    const escrow = await this.getEscrowData(contractId);
+
+    if (!escrow) {
+      return EscrowChainState.MISSING;
+    }
+    if (escrow.withdrawn) {
+      return EscrowChainState.WITHDRAWN;
+    }
+    if (escrow.cancelled) {
+      return EscrowChainState.CANCELLED;
+    }
+    return EscrowChainState.ACTIVE;
+  }
+
+  /**
+   * Get the balance of the relayer account in a coin
+   * @param coinType - Coin type, e.g. 0x1::aptos_coin::AptosCoin
+   * @returns 0 when the account has no store of the coin
+   */
+  async getCoinBalance(coinType: string): Promise<bigint> {
+    try {
+      const store = await this.aptosClient.getAccountResource(
+        this.relayerAccount.address(),
+        `0x1::coin::CoinStore<${coinType}>`,
+      );
+      const { coin } = store.data as { coin: { value: string } };
+      return BigInt(coin.value);
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 404) {
+        return 0n;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get the gas unit price the node estimates for a transaction, in octas
+   */
+  async estimateGasUnitPrice(): Promise<bigint> {
+    const { gas_estimate } = await this.aptosClient.estimateGasPrice();
+    return BigInt(gas_estimate);
+  }
+
+  private async getEscrowData(
+    contractId: string,
+  ): Promise<AptosEscrowData | null> {
+    const store = await this.aptosClient.getAccountResource(
+      this.moduleAddress,
+      `${this.moduleAddress}::escrow_dst::EscrowStore`,
+    );
+    const { contracts } = store.data as { contracts: { handle: string } };
+
+    try {
+      return (await this.aptosClient.getTableItem(contracts.handle, {
+        key_type: "vector<u8>",
+        value_type: `${this.moduleAddress}::escrow_dst::EscrowData`,
+        key: HexString.ensure(contractId).hex(),
+      })) as AptosEscrowData;
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
   async createAptosHtlc(params: {
     recipient: string;
     amount: string;
     hashlock: string;
     timelock: number;
+    coinType: string;
   }): Promise<{
     success: boolean;
     htlcId: string;
     txHash: string;
   }> {
     this.logger.log("Creating Aptos HTLC");
-    const { recipient, amount, hashlock, timelock } = params;
+    const { recipient, amount, hashlock, timelock, coinType } = params;
 
     try {
       // Ensure hashlock is properly formatted (without 0x prefix for the payload)
@@ -163,49 +479,35 @@ export class AptosService implements OnModuleInit {
         ? hashlock.slice(2)
         : hashlock;
 
+      assertU64(BigInt(amount), "HTLC amount");
+
       // Create the transaction payload
       const payload: PublicEntryFunctionPayload = {
         function: `${this.moduleAddress}::atomic_swap::create_htlc`,
-        type_arguments: [
-          `${this.moduleAddress}::test_aptos_token::TestAptosToken`,
-        ],
+        type_arguments: [coinType],
         arguments: [recipient, amount, `0x${hashlockHex}`, timelock.toString()],
       };
 
       this.logger.log(`Creating HTLC with payload: ${JSON.stringify(payload)}`);
 
-      // Build and submit the transaction
-      const rawTx = await this.aptosClient.generateTransaction(
-        this.relayerAccount.address(),
-        payload,
-      );
-
-      const signedTx = await this.aptosClient.signTransaction(
-        this.relayerAccount,
-        rawTx,
-      );
-
-      const txResult = await this.aptosClient.submitTransaction(signedTx);
-
-      // Wait for transaction to be confirmed
-      await this.aptosClient.waitForTransaction(txResult.hash);
+      const { txHash } = await this.submitTransaction(payload, {
+        purpose: "htlc-create",
+      });
 
-      // Generate the contract ID
-      const contractId = "";
-      //this.generateContractId(
-      //   this.relayerAccount.address().hex(),
-      //   recipient,
-      //   amount,
-      //   hashlock,
-      //   timelock,
-      // );
+      const contractId = computeHtlcContractId({
+        sender: this.relayerAccount.address().hex(),
+        recipient,
+        amount,
+        hashlock: `0x${hashlockHex}`,
+        timelock,
+      });
 
       this.logger.log(`HTLC created successfully with ID: ${contractId}`);
 
       return {
         success: true,
         htlcId: contractId,
-        txHash: txResult.hash,
+        txHash,
       };
     } catch (error) {
       this.logger.error(`Failed to create Aptos HTLC: ${error.message}`);
@@ -234,6 +536,10 @@ export class AptosService implements OnModuleInit {
       this.relayerAccount = new AptosAccount(
         HexString.ensure(privateKey).toUint8Array(),
       );
+      this.aptosTransactionService.registerSigner(
+        this.aptosClient,
+        this.relayerAccount,
+      );
 
       this.logger.log(`Aptos connection established to ${aptosRpcUrl}`);
       this.logger.log(
@@ -246,90 +552,35 @@ export class AptosService implements OnModuleInit {
     }
   }
 
-  /**
-   * Generate a contract ID from HTLC parameters
-   */
-  // private generateContractId(
-  //   sender: string,
-  //   recipient: string,
-  //   amount: string,
-  //   hashlock: string,
-  //   timelock: number,
-  // ): string {
-  //   // Convert all parameters to Buffer
-  //   const senderBuf = Buffer.from(sender.replace("0x", ""), "hex");
-  //   const recipientBuf = Buffer.from(recipient.replace("0x", ""), "hex");
-
-  //   // Convert amount to 8-byte little-endian buffer
-  //   const amountNum = BigInt(amount);
-  //   const amountBuf = Buffer.alloc(8);
-  //   amountBuf.writeBigUInt64LE(amountNum);
-
-  //   // Convert hashlock to buffer
-  //   const hashlockBuf = Buffer.from(hashlock.replace("0x", ""), "hex");
-
-  //   // Convert timelock to 8-byte little-endian buffer
-  //   const timelockNum = BigInt(timelock);
-  //   const timelockBuf = Buffer.alloc(8);
-  //   timelockBuf.writeBigUInt64LE(timelockNum);
-
-  //   // Concatenate all buffers in the correct order
-  //   const data = Buffer.concat([
-  //     senderBuf,
-  //     recipientBuf,
-  //     amountBuf,
-  //     hashlockBuf,
-  //     timelockBuf,
-  //   ]);
-
-  //   // Hash with SHA3-256
-  //   const hash = crypto.createHash("sha3-256").update(data).digest("hex");
-
-  //   return `0x${hash}`;
-  // }
-
   async withdrawAptosHtlc(params: {
     contractId: string;
     preimage: string;
+    coinType: string;
   }): Promise<{ success: boolean; txHash: string }> {
     this.logger.log("Withdrawing from Aptos HTLC");
-    const { contractId, preimage } = params;
+    const { contractId, preimage, coinType } = params;
 
     try {
       // Create the transaction payload
       const payload: PublicEntryFunctionPayload = {
         function: `${this.moduleAddress}::atomic_swap::withdraw`,
-        type_arguments: [
-          `${this.moduleAddress}::test_aptos_token::TestAptosToken`,
-        ],
-        arguments: [contractId, preimage],
+        type_arguments: [coinType],
+        arguments: [contractId, encodeSecret(preimage)],
       };
 
       this.logger.log(
         `Withdrawing from HTLC with payload: ${JSON.stringify(payload)}`,
       );
 
-      // Build and submit the transaction
-      const rawTx = await this.aptosClient.generateTransaction(
-        this.relayerAccount.address(),
-        payload,
-      );
-
-      const signedTx = await this.aptosClient.signTransaction(
-        this.relayerAccount,
-        rawTx,
-      );
+      const { txHash } = await this.submitTransaction(payload, {
+        purpose: "htlc-withdraw",
+      });
 
-      const txResult = await this.aptosClient.submitTransaction(signedTx);
-
-      // Wait for transaction to be confirmed
-      await this.aptosClient.waitForTransaction(txResult.hash);
-
-      this.logger.log(`HTLC withdrawn successfully: ${txResult.hash}`);
+      this.logger.log(`HTLC withdrawn successfully: ${txHash}`);
 
       return {
         success: true,
-        txHash: txResult.hash,
+        txHash,
       };
     } catch (error) {
       this.logger.error(`Failed to withdraw from Aptos HTLC: ${error.message}`);
@@ -344,39 +595,25 @@ export class AptosService implements OnModuleInit {
    */
   async refundAptosHtlc(params: {
     contractId: string;
+    coinType: string;
   }): Promise<{ success: boolean; txHash: string }> {
-    const { contractId } = params;
+    const { contractId, coinType } = params;
     this.logger.log(`Refunding Aptos HTLC with contract ID: ${contractId}`);
 
     try {
       // Prepare the transaction payload for refund
       const payload: PublicEntryFunctionPayload = {
         function: `${this.moduleAddress}::atomic_swap::refund`,
-        type_arguments: [
-          `${this.moduleAddress}::test_aptos_token::TestAptosToken`,
-        ],
+        type_arguments: [coinType],
         arguments: [contractId],
       };
 
-      // Create and sign the transaction
-      const rawTx = await this.aptosClient.generateTransaction(
-        this.relayerAccount.address(),
-        payload,
-      );
-
-      const signedTx = await this.aptosClient.signTransaction(
-        this.relayerAccount,
-        rawTx,
-      );
+      const { txHash } = await this.submitTransaction(payload, {
+        purpose: "htlc-refund",
+      });
 
-      // Submit the transaction
-      const txResult = await this.aptosClient.submitTransaction(signedTx);
-
-      // Wait for the transaction to be confirmed
-      await this.aptosClient.waitForTransaction(txResult.hash);
-
-      this.logger.log(`Successfully refunded Aptos HTLC: ${txResult.hash}`);
-      return { success: true, txHash: txResult.hash };
+      this.logger.log(`Successfully refunded Aptos HTLC: ${txHash}`);
+      return { success: true, txHash };
     } catch (error: unknown) {
       const errorMessage =
         error instanceof Error ? error.message : String(error);
@@ -442,10 +679,20 @@ export class AptosService implements OnModuleInit {
     }
   }
 
+  /**
+   * Get the coin type of the test token deployed with the swap modules
+   */
+  getTestCoinType(): string {
+    return `${this.moduleAddress}::test_aptos_token::TestAptosToken`;
+  }
+
   /**
    * Get the status of the HTLC event monitoring service
    */
-  getMonitoringStatus(): { isActive: boolean; lastProcessedVersion: number } {
+  getMonitoringStatus(): {
+    isActive: boolean;
+    cursors: Record<string, string>;
+  } {
     return this.aptosHtlcMonitorService.getMonitoringStatus();
   }
 
@@ -456,7 +703,7 @@ export class AptosService implements OnModuleInit {
   async checkForWithdrawnEvents(): Promise<{ checked: boolean }> {
     try {
       // Use the monitor service to check for events
-      await this.aptosHtlcMonitorService.checkWithdrawnEvents();
+      await this.aptosHtlcMonitorService.checkEscrowEvents();
       return { checked: true };
     } catch (error: any) {
       this.logger.error(
@@ -472,41 +719,35 @@ export class AptosService implements OnModuleInit {
   }
 
   /**
-   * Generic method to submit transactions to Aptos blockchain
+   * Generic method to submit transactions to Aptos blockchain through the relayer submit queue
    * @param payload - The transaction payload
+   * @param context - Purpose and swap of the transaction, recorded in the transaction journal
    * @returns Success status and transaction hash
    */
   async submitTransaction(
     payload: PublicEntryFunctionPayload,
+    context: RelayerTxContext,
   ): Promise<{ success: boolean; txHash: string }> {
     this.logger.log(
       `Submitting transaction with payload: ${JSON.stringify(payload)}`,
     );
 
     try {
-      // Generate the transaction
-      const rawTx = await this.aptosClient.generateTransaction(
-        this.relayerAccount.address(),
-        payload,
-      );
-
-      // Sign the transaction
-      const signedTx = await this.aptosClient.signTransaction(
+      // Simulated first, an aborting payload throws before anything is spent
+      const tx = await this.aptosTransactionService.submit(
         this.relayerAccount,
-        rawTx,
+        payload,
+        context,
       );
 
-      // Submit the transaction
-      const txResult = await this.aptosClient.submitTransaction(signedTx);
-
-      // Wait for transaction to be confirmed
-      await this.aptosClient.waitForTransaction(txResult.hash);
+      // Wait for transaction to be confirmed, a failed transaction throws
+      await this.aptosTransactionService.waitForTransaction(tx);
 
-      this.logger.log(`Transaction submitted successfully: ${txResult.hash}`);
+      this.logger.log(`Transaction submitted successfully: ${tx.hash}`);
 
       return {
         success: true,
-        txHash: txResult.hash,
+        txHash: tx.hash,
       };
     } catch (error) {
       this.logger.error(`Failed to submit transaction: ${error.message}`);
@@ -0,0 +1,156 @@
+import {
+  bcsAddress,
+  bcsString,
+  bcsU64,
+  computeEscrowContractId,
+  computeHtlcContractId,
+  encodeEscrowContractIdPreimage,
+  normalizeTypeName,
+} from "./contract-id";
+import * as crypto from "crypto";
+import { BCS, HexString, TxnBuilderTypes } from "aptos";
+import { AptosImmutables } from "../types/escrow.types";
+
+// Constants of aptos-contracts/tests/escrow_dst_tests.move
+const IMMUTABLES: AptosImmutables = {
+  orderHash:
+    "0x0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef",
+  // sha3_256(x"deadbeef")
+  hashlock:
+    "0x352b82608dad6c7ac3dd665bc2666e5d97803cb13f23a1109e2105e93f42c448",
+  maker: "0x456",
+  taker: "0x789",
+  tokenType: "0x1::coin::FakeMoney",
+  amount: 1000n,
+  safetyDeposit: 100n,
+  timelocks: {
+    deployedAt: 1,
+    dstWithdrawal: 601,
+    dstPublicWithdrawal: 1201,
+    dstCancellation: 3601,
+  },
+};
+
+/**
+ * Bytes escrow_dst::compute_contract_id hashes for IMMUTABLES, field by field with the BCS
+ * serializer of the aptos SDK, see `serializeWithSdk`
+ */
+const EXPECTED_PREIMAGE =
+  "0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef" +
+  "352b82608dad6c7ac3dd665bc2666e5d97803cb13f23a1109e2105e93f42c448" +
+  "0000000000000000000000000000000000000000000000000000000000000456" +
+  "0000000000000000000000000000000000000000000000000000000000000789" +
+  "143078313a3a636f696e3a3a46616b654d6f6e6579" +
+  "e803000000000000" +
+  "6400000000000000" +
+  "0100000000000000" +
+  "5902000000000000" +
+  "b104000000000000" +
+  "110e000000000000";
+
+// sha3-256 of EXPECTED_PREIMAGE, EXPECTED_CONTRACT_ID of escrow_dst_tests.move
+const EXPECTED_CONTRACT_ID =
+  "0x1460864b00b5c77be82246bc4388598093aa9628e917e17e8adacf12a1d8d9fa";
+
+/**
+ * Serialize the fields compute_contract_id appends with the aptos SDK instead of contract-id.ts
+ */
+function serializeWithSdk(immutables: AptosImmutables): Uint8Array {
+  const serializer = new BCS.Serializer();
+  serializer.serializeFixedBytes(
+    new HexString(immutables.orderHash).toUint8Array(),
+  );
+  serializer.serializeFixedBytes(
+    new HexString(immutables.hashlock).toUint8Array(),
+  );
+  TxnBuilderTypes.AccountAddress.fromHex(immutables.maker).serialize(
+    serializer,
+  );
+  TxnBuilderTypes.AccountAddress.fromHex(immutables.taker).serialize(
+    serializer,
+  );
+  serializer.serializeStr(immutables.tokenType);
+  serializer.serializeU64(immutables.amount);
+  serializer.serializeU64(immutables.safetyDeposit);
+  const { timelocks } = immutables;
+  serializer.serializeU64(timelocks.deployedAt);
+  serializer.serializeU64(timelocks.dstWithdrawal);
+  serializer.serializeU64(timelocks.dstPublicWithdrawal);
+  serializer.serializeU64(timelocks.dstCancellation);
+  return serializer.getBytes();
+}
+
+describe("contract-id", () => {
+  it("encodes BCS primitives like Move", () => {
+    expect(bcsU64(1000n).toString("hex")).toBe("e803000000000000");
+    expect(bcsAddress("0x1").toString("hex")).toBe(`${"0".repeat(63)}1`);
+    expect(bcsString("abc").toString("hex")).toBe("03616263");
+    expect(bcsString("a".repeat(200)).subarray(0, 2).toString("hex")).toBe(
+      "c801",
+    );
+    expect(() => bcsU64(-1n)).toThrow();
+    expect(() => bcsU64(1n << 64n)).toThrow();
+  });
+
+  it("normalizes coin types like type_info::type_name", () => {
+    expect(normalizeTypeName("0x0001::aptos_coin::AptosCoin")).toBe(
+      "0x1::aptos_coin::AptosCoin",
+    );
+    expect(normalizeTypeName("0xABC::pool::LP<0x1::a::A,0x02::b::B>")).toBe(
+      "0xabc::pool::LP<0x1::a::A, 0x2::b::B>",
+    );
+  });
+
+  it("encodes the immutables like the BCS serializer of the aptos SDK", () => {
+    const sdkPreimage = Buffer.from(serializeWithSdk(IMMUTABLES));
+
+    expect(sdkPreimage.toString("hex")).toBe(EXPECTED_PREIMAGE);
+    expect(encodeEscrowContractIdPreimage(IMMUTABLES).toString("hex")).toBe(
+      EXPECTED_PREIMAGE,
+    );
+  });
+
+  it("hashes the immutables like escrow_dst::compute_contract_id", () => {
+    expect(
+      `0x${crypto
+        .createHash("sha3-256")
+        .update(Buffer.from(EXPECTED_PREIMAGE, "hex"))
+        .digest("hex")}`,
+    ).toBe(EXPECTED_CONTRACT_ID);
+    expect(computeEscrowContractId(IMMUTABLES)).toBe(EXPECTED_CONTRACT_ID);
+    expect(
+      computeEscrowContractId({
+        ...IMMUTABLES,
+        maker: `0x${"0".repeat(61)}456`,
+        tokenType: "0x01::coin::FakeMoney",
+      }),
+    ).toBe(EXPECTED_CONTRACT_ID);
+  });
+
+  it("changes with every field", () => {
+    expect(computeEscrowContractId({ ...IMMUTABLES, amount: 1001n })).not.toBe(
+      EXPECTED_CONTRACT_ID,
+    );
+    expect(
+      computeEscrowContractId({
+        ...IMMUTABLES,
+        timelocks: { ...IMMUTABLES.timelocks, deployedAt: 2 },
+      }),
+    ).not.toBe(EXPECTED_CONTRACT_ID);
+  });
+
+  it("hashes the HTLC parameters like atomic_swap", () => {
+    const params = {
+      sender: "0x456",
+      recipient: "0x789",
+      amount: "1000",
+      hashlock: IMMUTABLES.hashlock,
+      timelock: 3601,
+    };
+
+    expect(computeHtlcContractId(params)).toMatch(/^0x[0-9a-f]{64}$/);
+    expect(computeHtlcContractId(params)).not.toBe(
+      computeHtlcContractId({ ...params, timelock: 3602 }),
+    );
+  });
+});
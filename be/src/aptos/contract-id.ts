@@ -0,0 +1,139 @@
+import * as crypto from "crypto";
+import { AptosImmutables } from "../types/escrow.types";
+
+/**
+ * Contract IDs of the Aptos escrows, shared by the backend and the Move tests.
+ *
+ * escrow_dst and atomic_swap key their escrows by the sha3_256 of their parameters,
+ * concatenated as raw bytes or BCS. Reproducing the hash lets the relayer know the ID
+ * of an escrow from its creation parameters, without reading it back from the events.
+ */
+
+const U64_MAX = (1n << 64n) - 1n;
+const ADDRESS_LENGTH = 32;
+
+/**
+ * BCS encoding of a u64, 8 bytes little-endian
+ * @param value - Integer in the u64 range
+ */
+export function bcsU64(value: bigint | number | string): Buffer {
+  const integer = BigInt(value);
+  if (integer < 0n || integer > U64_MAX) {
+    throw new Error(`${integer} is not a u64`);
+  }
+
+  const bytes = Buffer.alloc(8);
+  bytes.writeBigUInt64LE(integer);
+  return bytes;
+}
+
+/**
+ * BCS encoding of an address, 32 bytes left-padded with zeros
+ * @param address - Hex address, short forms like 0x1 are accepted
+ */
+export function bcsAddress(address: string): Buffer {
+  const hex = address.startsWith("0x") ? address.slice(2) : address;
+  if (!/^[0-9a-fA-F]+$/.test(hex) || hex.length > ADDRESS_LENGTH * 2) {
+    throw new Error(`${address} is not an Aptos address`);
+  }
+
+  return Buffer.from(hex.padStart(ADDRESS_LENGTH * 2, "0"), "hex");
+}
+
+/**
+ * BCS encoding of a String, its ULEB128 byte length followed by its UTF-8 bytes
+ * @param value - String to encode
+ */
+export function bcsString(value: string): Buffer {
+  const bytes = Buffer.from(value, "utf8");
+  const length: number[] = [];
+
+  let remaining = bytes.length;
+  do {
+    const byte = remaining & 0x7f;
+    remaining >>>= 7;
+    length.push(remaining > 0 ? byte | 0x80 : byte);
+  } while (remaining > 0);
+
+  return Buffer.concat([Buffer.from(length), bytes]);
+}
+
+/**
+ * Normalize a coin type to the string returned by `type_info::type_name`,
+ * which prints addresses in lowercase without leading zeros
+ * @param coinType - Coin type as passed in `type_arguments`, e.g. 0x1::aptos_coin::AptosCoin
+ */
+export function normalizeTypeName(coinType: string): string {
+  return coinType
+    .trim()
+    .replace(/\s*([<>,])\s*/g, "$1")
+    .replace(/,/g, ", ")
+    .replace(
+      /0x([0-9a-fA-F]+)/g,
+      (_, hex: string) => `0x${hex.toLowerCase().replace(/^0+(?=.)/, "")}`,
+    );
+}
+
+function hexBytes(value: string): Buffer {
+  return Buffer.from(value.startsWith("0x") ? value.slice(2) : value, "hex");
+}
+
+function sha3(data: Buffer): string {
+  return `0x${crypto.createHash("sha3-256").update(data).digest("hex")}`;
+}
+
+/**
+ * Bytes hashed by `escrow_dst::compute_contract_id`
+ * @param immutables - Immutables of the escrow
+ */
+export function encodeEscrowContractIdPreimage(
+  immutables: AptosImmutables,
+): Buffer {
+  const { timelocks } = immutables;
+
+  // order_hash and hashlock are appended as raw bytes, the other fields as BCS
+  return Buffer.concat([
+    hexBytes(immutables.orderHash),
+    hexBytes(immutables.hashlock),
+    bcsAddress(immutables.maker),
+    bcsAddress(immutables.taker),
+    bcsString(normalizeTypeName(immutables.tokenType)),
+    bcsU64(immutables.amount),
+    bcsU64(immutables.safetyDeposit),
+    bcsU64(timelocks.deployedAt),
+    bcsU64(timelocks.dstWithdrawal),
+    bcsU64(timelocks.dstPublicWithdrawal),
+    bcsU64(timelocks.dstCancellation),
+  ]);
+}
+
+/**
+ * Compute `escrow_dst::compute_contract_id`
+ * @param immutables - Immutables of the escrow
+ * @returns Contract ID as a 0x-prefixed hex string
+ */
+export function computeEscrowContractId(immutables: AptosImmutables): string {
+  return sha3(encodeEscrowContractIdPreimage(immutables));
+}
+
+/**
+ * Compute `atomic_swap::generate_contract_id` of the legacy HTLC module
+ * @returns Contract ID as a 0x-prefixed hex string
+ */
+export function computeHtlcContractId(params: {
+  sender: string;
+  recipient: string;
+  amount: bigint | string;
+  hashlock: string;
+  timelock: number;
+}): string {
+  return sha3(
+    Buffer.concat([
+      bcsAddress(params.sender),
+      bcsAddress(params.recipient),
+      bcsU64(params.amount),
+      hexBytes(params.hashlock),
+      bcsU64(params.timelock),
+    ]),
+  );
+}
@@ -1,5 +1,6 @@
 import { ApiProperty } from "@nestjs/swagger";
 import { IsString, IsNumber, IsOptional } from "class-validator";
+import { IsHashlock, IsSecret } from "../../hashlock/hashlock.validators";
 
 export class HtlcCreateDto {
   @ApiProperty({
@@ -27,7 +28,7 @@ export class HtlcCreateDto {
     description: "Hash lock",
     example: "0x1234567890123456789012345678901234567890123456789012345678901234",
   })
-  @IsString()
+  @IsHashlock()
   readonly hashlock: string;
 
   @ApiProperty({
@@ -50,7 +51,7 @@ export class HtlcWithdrawDto {
     description: "Preimage for the hash lock",
     example: "0x1234567890123456789012345678901234567890123456789012345678901234",
   })
-  @IsString()
+  @IsSecret()
   readonly preimage: string;
 }
 
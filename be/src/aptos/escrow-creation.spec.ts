@@ -0,0 +1,201 @@
+import {
+  AptosEscrowTransaction,
+  EscrowCreationError,
+  ExpectedEscrow,
+  checkEscrowCreation,
+  readEscrowCreation,
+} from "./escrow-creation";
+import { computeEscrowContractId } from "./contract-id";
+
+const MODULE = "0x0abc";
+const SENDER = "0x789";
+const RELAYER = "0x456";
+const ORDER_HASH =
+  "0x0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef";
+const HASHLOCK =
+  "0x352b82608dad6c7ac3dd665bc2666e5d97803cb13f23a1109e2105e93f42c448";
+const DEPLOYED_AT = 1_700_000_000;
+
+const CONTRACT_ID = computeEscrowContractId({
+  orderHash: ORDER_HASH,
+  hashlock: HASHLOCK,
+  maker: RELAYER,
+  taker: SENDER,
+  tokenType: "0x1::aptos_coin::AptosCoin",
+  amount: 1000n,
+  safetyDeposit: 0n,
+  timelocks: {
+    deployedAt: DEPLOYED_AT,
+    dstWithdrawal: DEPLOYED_AT + 60,
+    dstPublicWithdrawal: DEPLOYED_AT + 600,
+    dstCancellation: DEPLOYED_AT + 3600,
+  },
+});
+
+function createTransaction(
+  overrides: Partial<AptosEscrowTransaction> = {},
+  args: unknown[] = [
+    ORDER_HASH,
+    HASHLOCK,
+    RELAYER,
+    SENDER,
+    "1000",
+    "0",
+    "60",
+    "600",
+    "3600",
+  ],
+): AptosEscrowTransaction {
+  return {
+    type: "user_transaction",
+    hash: "0xfeed",
+    version: "42",
+    timestamp: `${DEPLOYED_AT}123456`,
+    success: true,
+    vm_status: "Executed successfully",
+    sender: SENDER,
+    payload: {
+      type: "entry_function_payload",
+      // The API prints addresses in their long form
+      function: `0x${"0".repeat(61)}abc::escrow_factory::create_dst_escrow`,
+      type_arguments: ["0x1::aptos_coin::AptosCoin"],
+      arguments: args,
+    },
+    events: [
+      {
+        type: "0x1::coin::WithdrawEvent",
+        data: { amount: "1000" },
+      },
+      {
+        type: `${MODULE}::escrow_dst::EscrowCreatedEvent`,
+        data: { contract_id: CONTRACT_ID, amount: "1000" },
+      },
+    ],
+    ...overrides,
+  };
+}
+
+const EXPECTED: ExpectedEscrow = {
+  sender: SENDER,
+  orderHash: ORDER_HASH,
+  hashlock: HASHLOCK,
+  maker: RELAYER,
+  tokenType: "0x1::aptos_coin::AptosCoin",
+  amount: 1000n,
+  publicWithdrawalBy: DEPLOYED_AT + 600,
+  cancellationAfter: DEPLOYED_AT + 3600,
+};
+
+describe("escrow-creation", () => {
+  it("reads the escrow created by create_dst_escrow", () => {
+    const creation = readEscrowCreation(createTransaction(), MODULE);
+
+    expect(creation).toMatchObject({
+      sender: SENDER,
+      txHash: "0xfeed",
+      version: "42",
+      contractId: CONTRACT_ID,
+    });
+    expect(creation.immutables.timelocks).toEqual({
+      deployedAt: DEPLOYED_AT,
+      dstWithdrawal: DEPLOYED_AT + 60,
+      dstPublicWithdrawal: DEPLOYED_AT + 600,
+      dstCancellation: DEPLOYED_AT + 3600,
+    });
+    expect(() => checkEscrowCreation(creation, EXPECTED)).not.toThrow();
+  });
+
+  it("rejects failed transactions and other functions", () => {
+    expect(() =>
+      readEscrowCreation(createTransaction({ success: false }), MODULE),
+    ).toThrow(EscrowCreationError);
+    expect(() =>
+      readEscrowCreation(
+        createTransaction({
+          payload: {
+            ...createTransaction().payload,
+            function: "0xbad::escrow_factory::create_dst_escrow",
+          },
+        }),
+        MODULE,
+      ),
+    ).toThrow("does not call");
+    expect(() =>
+      readEscrowCreation(
+        createTransaction({ type: "pending_transaction" }),
+        MODULE,
+      ),
+    ).toThrow("is not a committed user transaction");
+  });
+
+  it("rejects a transaction whose event is of another escrow", () => {
+    const tx = createTransaction({
+      events: [
+        {
+          type: `${MODULE}::escrow_dst::EscrowCreatedEvent`,
+          data: { contract_id: `0x${"11".repeat(32)}` },
+        },
+      ],
+    });
+
+    expect(() => readEscrowCreation(tx, MODULE)).toThrow(
+      `did not create escrow ${CONTRACT_ID}`,
+    );
+    expect(() =>
+      readEscrowCreation(createTransaction({ events: [] }), MODULE),
+    ).toThrow(EscrowCreationError);
+  });
+
+  it("rejects malformed arguments", () => {
+    expect(() =>
+      readEscrowCreation(
+        createTransaction({}, [ORDER_HASH, HASHLOCK, RELAYER, SENDER, "-1"]),
+        MODULE,
+      ),
+    ).toThrow("unexpected create_dst_escrow arguments");
+    expect(() =>
+      readEscrowCreation(
+        createTransaction({}, [
+          ORDER_HASH,
+          HASHLOCK,
+          "relayer",
+          SENDER,
+          "1000",
+          "0",
+          "60",
+          "600",
+          "3600",
+        ]),
+        MODULE,
+      ),
+    ).toThrow("maker is not an address");
+  });
+
+  it("lists the parameters that differ from the swap", () => {
+    const creation = readEscrowCreation(createTransaction(), MODULE);
+
+    expect(() =>
+      checkEscrowCreation(creation, {
+        ...EXPECTED,
+        maker: "0x999",
+        amount: 2000n,
+        publicWithdrawalBy: DEPLOYED_AT + 599,
+        cancellationAfter: DEPLOYED_AT + 3601,
+      }),
+    ).toThrow(
+      `Escrow ${CONTRACT_ID} does not match the swap: maker 0x456 is not 0x999; amount 1000 instead of 2000; ` +
+        `public withdrawal at ${DEPLOYED_AT + 600}, after ${DEPLOYED_AT + 599}; cancellation at ${DEPLOYED_AT + 3600}, before ${DEPLOYED_AT + 3601}`,
+    );
+  });
+
+  it("requires the sender to fund the escrow as its taker", () => {
+    const creation = {
+      ...readEscrowCreation(createTransaction(), MODULE),
+      sender: RELAYER,
+    };
+
+    expect(() =>
+      checkEscrowCreation(creation, { ...EXPECTED, sender: "0x0456" }),
+    ).toThrow("taker 0x789 is not the sender");
+  });
+});
@@ -0,0 +1,251 @@
+import { AptosImmutables } from "../types/escrow.types";
+import {
+  bcsAddress,
+  computeEscrowContractId,
+  normalizeTypeName,
+} from "./contract-id";
+
+/**
+ * Escrows users create on Aptos themselves, read back from their creation transaction.
+ *
+ * The sender of an Aptos to EVM swap locks its source amount with
+ * `escrow_factory::create_dst_escrow`: the sender signs and funds the escrow and is its taker,
+ * refunded on cancellation, while the relayer is its maker, paid by `public_withdraw` once the
+ * EVM recipient revealed the secret. The relayer deploys the EVM escrow only after checking the
+ * transaction against the swap, the escrow ID being the hash of every parameter it checks.
+ */
+
+/**
+ * Transaction that does not create the escrow a swap expects
+ */
+export class EscrowCreationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = EscrowCreationError.name;
+  }
+}
+
+/**
+ * Transaction as returned by the Aptos REST API, u64 fields are returned as strings
+ */
+export type AptosEscrowTransaction = {
+  type: string;
+  hash?: string;
+  version?: string;
+  timestamp?: string;
+  success?: boolean;
+  vm_status?: string;
+  sender?: string;
+  payload?: {
+    type?: string;
+    function?: string;
+    type_arguments?: string[];
+    arguments?: unknown[];
+  };
+  events?: { type: string; data: Record<string, unknown> }[];
+};
+
+/**
+ * Escrow created by a transaction of `create_dst_escrow`
+ */
+export type EscrowCreation = {
+  sender: string;
+  txHash: string;
+  version: string;
+  contractId: string;
+  immutables: AptosImmutables;
+};
+
+/**
+ * Escrow a swap, or one of its fills, expects its sender to create
+ */
+export type ExpectedEscrow = {
+  sender: string;
+  orderHash: string;
+  hashlock: string;
+  // Relayer account, paid on withdrawal
+  maker: string;
+  tokenType: string;
+  amount: bigint;
+  // Latest time the relayer must be able to withdraw the escrow from
+  publicWithdrawalBy: number;
+  // Earliest time the sender may cancel the escrow at
+  cancellationAfter: number;
+};
+
+/**
+ * Whether two hex addresses designate the same account, short forms included
+ */
+export function isSameAddress(a: string, b: string): boolean {
+  try {
+    return bcsAddress(a).equals(bcsAddress(b));
+  } catch {
+    return false;
+  }
+}
+
+function toAddress(value: unknown, name: string): string {
+  if (typeof value !== "string" || !isSameAddress(value, value)) {
+    throw new EscrowCreationError(`${name} is not an address`);
+  }
+  return value;
+}
+
+function toHex(value: unknown, name: string): string {
+  if (typeof value !== "string" || !/^0x([0-9a-fA-F]{2})*$/.test(value)) {
+    throw new EscrowCreationError(`${name} is not a hex byte string`);
+  }
+  return value.toLowerCase();
+}
+
+function toU64(value: unknown, name: string): bigint {
+  if (typeof value !== "string" || !/^\d+$/.test(value)) {
+    throw new EscrowCreationError(`${name} is not a u64`);
+  }
+  return BigInt(value);
+}
+
+/**
+ * Read the escrow a committed transaction created with `create_dst_escrow`
+ * @param tx - Transaction fetched by hash
+ * @param moduleAddress - Address the escrow modules are published at
+ * @throws EscrowCreationError when the transaction did not create an escrow of the modules
+ */
+export function readEscrowCreation(
+  tx: AptosEscrowTransaction,
+  moduleAddress: string,
+): EscrowCreation {
+  const { hash, version, timestamp, sender, payload } = tx;
+  if (
+    tx.type !== "user_transaction" ||
+    !hash ||
+    !version ||
+    !timestamp ||
+    !sender
+  ) {
+    throw new EscrowCreationError(
+      `Transaction ${hash ?? ""} is not a committed user transaction`,
+    );
+  }
+  if (!tx.success) {
+    throw new EscrowCreationError(
+      `Transaction ${hash} failed: ${tx.vm_status ?? "unknown status"}`,
+    );
+  }
+
+  const [functionAddress, moduleName, functionName] = (
+    payload?.function ?? ""
+  ).split("::");
+  if (
+    payload?.type !== "entry_function_payload" ||
+    !functionAddress ||
+    !isSameAddress(functionAddress, moduleAddress) ||
+    moduleName !== "escrow_factory" ||
+    functionName !== "create_dst_escrow"
+  ) {
+    throw new EscrowCreationError(
+      `Transaction ${hash} does not call ${moduleAddress}::escrow_factory::create_dst_escrow`,
+    );
+  }
+
+  const [tokenType] = payload.type_arguments ?? [];
+  const args = payload.arguments ?? [];
+  if (!tokenType || args.length !== 9) {
+    throw new EscrowCreationError(
+      `Transaction ${hash} has unexpected create_dst_escrow arguments`,
+    );
+  }
+
+  // The escrow windows open at delays from the block time of the transaction
+  const deployedAt = Math.floor(Number(timestamp) / 1_000_000);
+  const delay = (index: number, name: string) =>
+    deployedAt + Number(toU64(args[index], name));
+  const immutables: AptosImmutables = {
+    orderHash: toHex(args[0], "order_hash"),
+    hashlock: toHex(args[1], "hashlock"),
+    maker: toAddress(args[2], "maker"),
+    taker: toAddress(args[3], "taker"),
+    tokenType: normalizeTypeName(tokenType),
+    amount: toU64(args[4], "amount"),
+    safetyDeposit: toU64(args[5], "safety_deposit"),
+    timelocks: {
+      deployedAt,
+      dstWithdrawal: delay(6, "dst_withdrawal_delay"),
+      dstPublicWithdrawal: delay(7, "dst_public_withdrawal_delay"),
+      dstCancellation: delay(8, "dst_cancellation_delay"),
+    },
+  };
+  const contractId = computeEscrowContractId(immutables);
+
+  // The event proves the modules created the escrow the arguments describe
+  const created = (tx.events ?? []).find((event) => {
+    const [eventAddress, eventModule, eventName] = event.type.split("::");
+    return (
+      isSameAddress(eventAddress, moduleAddress) &&
+      eventModule === "escrow_dst" &&
+      eventName === "EscrowCreatedEvent"
+    );
+  });
+  if (
+    !created ||
+    String(created.data.contract_id).toLowerCase() !== contractId
+  ) {
+    throw new EscrowCreationError(
+      `Transaction ${hash} did not create escrow ${contractId}`,
+    );
+  }
+
+  return { sender, txHash: hash, version, contractId, immutables };
+}
+
+/**
+ * Check that an escrow is the one a swap expects
+ * @throws EscrowCreationError listing the parameters that differ
+ */
+export function checkEscrowCreation(
+  creation: EscrowCreation,
+  expected: ExpectedEscrow,
+): void {
+  const { immutables } = creation;
+  const mismatches: string[] = [];
+
+  if (!isSameAddress(creation.sender, expected.sender)) {
+    mismatches.push(`sent by ${creation.sender} instead of ${expected.sender}`);
+  }
+  if (!isSameAddress(immutables.taker, creation.sender)) {
+    mismatches.push(`taker ${immutables.taker} is not the sender`);
+  }
+  if (!isSameAddress(immutables.maker, expected.maker)) {
+    mismatches.push(`maker ${immutables.maker} is not ${expected.maker}`);
+  }
+  if (immutables.orderHash !== expected.orderHash.toLowerCase()) {
+    mismatches.push(`order hash ${immutables.orderHash}`);
+  }
+  if (immutables.hashlock !== expected.hashlock.toLowerCase()) {
+    mismatches.push(`hashlock ${immutables.hashlock}`);
+  }
+  if (immutables.tokenType !== normalizeTypeName(expected.tokenType)) {
+    mismatches.push(`coin type ${immutables.tokenType}`);
+  }
+  if (immutables.amount !== expected.amount) {
+    mismatches.push(
+      `amount ${immutables.amount} instead of ${expected.amount}`,
+    );
+  }
+  if (immutables.timelocks.dstPublicWithdrawal > expected.publicWithdrawalBy) {
+    mismatches.push(
+      `public withdrawal at ${immutables.timelocks.dstPublicWithdrawal}, after ${expected.publicWithdrawalBy}`,
+    );
+  }
+  if (immutables.timelocks.dstCancellation < expected.cancellationAfter) {
+    mismatches.push(
+      `cancellation at ${immutables.timelocks.dstCancellation}, before ${expected.cancellationAfter}`,
+    );
+  }
+
+  if (mismatches.length > 0) {
+    throw new EscrowCreationError(
+      `Escrow ${creation.contractId} does not match the swap: ${mismatches.join("; ")}`,
+    );
+  }
+}
@@ -0,0 +1,110 @@
+import {
+  AuctionAbort,
+  AuctionDecay,
+  AuctionError,
+  calculateCurrentTakingAmount,
+  getAuctionPoints,
+  getTakingAmount,
+  getTimeForTakingAmount,
+} from "./dutch-auction";
+import { U64_MAX } from "../amounts/amounts";
+
+describe("dutch auction", () => {
+  const auction = {
+    startTime: 1_000,
+    endTime: 2_000,
+    startTakingAmount: 1_000_000n,
+    endTakingAmount: 900_000n,
+  };
+
+  it("interpolates like calculate_current_taking_amount", () => {
+    expect(getTakingAmount(auction, 1_250)).toBe(975_000n);
+    expect(getTakingAmount(auction, 1_000)).toBe(1_000_000n);
+    expect(getTakingAmount(auction, 2_000)).toBe(900_000n);
+    // Clamped outside the auction
+    expect(getTakingAmount(auction, 0)).toBe(1_000_000n);
+    expect(getTakingAmount(auction, 5_000)).toBe(900_000n);
+    // (10 * 2 + 0 * 1) / 3 truncates like the u128 division
+    expect(calculateCurrentTakingAmount(0, 3, 10n, 0n, 1)).toBe(6n);
+    // Rising auctions interpolate the same way
+    expect(calculateCurrentTakingAmount(0, 3, 0n, 10n, 1)).toBe(3n);
+  });
+
+  it("keeps u64 extremes exact", () => {
+    expect(calculateCurrentTakingAmount(0, U64_MAX, U64_MAX, 0n, 1)).toBe(
+      U64_MAX - 1n,
+    );
+    expect(
+      calculateCurrentTakingAmount(0, U64_MAX, U64_MAX, U64_MAX, 1n << 63n),
+    ).toBe(U64_MAX);
+    expect(() =>
+      calculateCurrentTakingAmount(0, 10, U64_MAX + 1n, 0n, 1),
+    ).toThrow(AuctionError);
+  });
+
+  it("aborts where the Move module does", () => {
+    let error: unknown;
+    try {
+      calculateCurrentTakingAmount(1_000, 1_000, 1n, 1n, 1_000);
+    } catch (caught) {
+      error = caught;
+    }
+    expect(error).toBeInstanceOf(AuctionError);
+    expect((error as AuctionError).abortCode).toBe(
+      AuctionAbort.INVALID_TIME_RANGE,
+    );
+
+    // An end before the start underflows instead of failing the assert
+    expect(() => calculateCurrentTakingAmount(2, 1, 1n, 1n, 1)).toThrow(
+      "Arithmetic error",
+    );
+  });
+
+  it("decays exponentially in integer arithmetic", () => {
+    const exponential = {
+      startTime: 0,
+      endTime: 100,
+      startTakingAmount: 1_000n,
+      endTakingAmount: 250n,
+      decay: AuctionDecay.EXPONENTIAL,
+    };
+    expect(getTakingAmount(exponential, 0)).toBe(1_000n);
+    expect(getTakingAmount(exponential, 25)).toBe(707n);
+    expect(getTakingAmount(exponential, 50)).toBe(500n);
+    expect(getTakingAmount(exponential, 99)).toBe(253n);
+    expect(getTakingAmount(exponential, 100)).toBe(250n);
+    expect(() =>
+      getTakingAmount({ ...exponential, endTakingAmount: 0n }, 50),
+    ).toThrow(AuctionError);
+  });
+
+  it("decays in steps", () => {
+    const stepwise = {
+      startTime: 0,
+      endTime: 100,
+      startTakingAmount: 1_000n,
+      endTakingAmount: 0n,
+      decay: AuctionDecay.STEPWISE,
+      steps: 4,
+    };
+    expect(getTakingAmount(stepwise, 24)).toBe(1_000n);
+    expect(getTakingAmount(stepwise, 30)).toBe(750n);
+    expect(getTakingAmount(stepwise, 99)).toBe(250n);
+    expect(getTakingAmount(stepwise, 100)).toBe(0n);
+  });
+
+  it("lists auction points and finds when an amount is reached", () => {
+    expect(getAuctionPoints(auction, 4)).toEqual([
+      { timestamp: 1_000n, takingAmount: 1_000_000n },
+      { timestamp: 1_250n, takingAmount: 975_000n },
+      { timestamp: 1_500n, takingAmount: 950_000n },
+      { timestamp: 1_750n, takingAmount: 925_000n },
+      { timestamp: 2_000n, takingAmount: 900_000n },
+    ]);
+
+    expect(getTimeForTakingAmount(auction, 950_000n)).toBe(1_500n);
+    expect(getTimeForTakingAmount(auction, 949_999n)).toBe(1_501n);
+    expect(getTimeForTakingAmount(auction, 2_000_000n)).toBe(1_000n);
+    expect(getTimeForTakingAmount(auction, 899_999n)).toBeNull();
+  });
+});
@@ -0,0 +1,264 @@
+import { U64_MAX } from "../amounts/amounts";
+
+/**
+ * Dutch auction pricing shared by the backend, the frontend and the scripts.
+ *
+ * The taking amount is what a taker pays for the maker's tokens, in base units. It moves
+ * from `startTakingAmount` at `startTime` to `endTakingAmount` at `endTime` and stays
+ * clamped outside that range. The linear model is `dutch_auction::calculate_current_taking_amount`
+ * to the bit, the other models are the decays of the mock price oracle in integer arithmetic,
+ * so every caller computes the same amount for the same second.
+ *
+ * fe imports this module, keep it free of Node and Nest imports.
+ */
+
+export enum AuctionDecay {
+  LINEAR = "linear",
+  EXPONENTIAL = "exponential",
+  STEPWISE = "stepwise",
+}
+
+/**
+ * Abort codes of dutch_auction.move
+ */
+export enum AuctionAbort {
+  AUCTION_NOT_FOUND = 1,
+  AUCTION_ENDED = 2,
+  INVALID_TIME_RANGE = 3,
+  START_TIME_IN_PAST = 4,
+}
+
+export type DutchAuction = {
+  // Unix times in seconds
+  startTime: bigint | number;
+  endTime: bigint | number;
+  startTakingAmount: bigint;
+  endTakingAmount: bigint;
+  decay?: AuctionDecay;
+  // Number of price steps of the stepwise decay
+  steps?: number;
+};
+
+export type AuctionPoint = {
+  timestamp: bigint;
+  takingAmount: bigint;
+};
+
+/**
+ * Call the Move module would abort on. `abortCode` is the code of an `assert!`,
+ * missing for the arithmetic errors of the Move VM
+ */
+export class AuctionError extends Error {
+  constructor(
+    message: string,
+    readonly abortCode?: AuctionAbort,
+  ) {
+    super(message);
+    this.name = "AuctionError";
+  }
+}
+
+const DEFAULT_STEPS = 10;
+// Binary digits of the exponent of the exponential decay
+const EXPONENT_BITS = 32n;
+const ONE = 10n ** 18n;
+
+/**
+ * `dutch_auction::calculate_current_taking_amount` with `now` for `timestamp::now_seconds()`
+ * @throws AuctionError where the Move function aborts
+ */
+export function calculateCurrentTakingAmount(
+  startTime: bigint | number,
+  endTime: bigint | number,
+  startTakingAmount: bigint,
+  endTakingAmount: bigint,
+  now: bigint | number,
+): bigint {
+  const start = toU64(startTime, "startTime");
+  const end = toU64(endTime, "endTime");
+  const startAmount = toU64(startTakingAmount, "startTakingAmount");
+  const endAmount = toU64(endTakingAmount, "endTakingAmount");
+  const current = clamp(toU64(now, "now"), start, end);
+
+  // `end_time - start_time` underflows before the duration is checked
+  if (end < start) {
+    throw new AuctionError("Arithmetic error: endTime is before startTime");
+  }
+  const duration = end - start;
+  if (duration === 0n) {
+    throw new AuctionError(
+      "Auction duration must be positive",
+      AuctionAbort.INVALID_TIME_RANGE,
+    );
+  }
+
+  // Both products are below 2^128 since their time factors add up to a u64,
+  // so the u128 arithmetic of the Move function never overflows
+  return (
+    (startAmount * (end - current) + endAmount * (current - start)) / duration
+  );
+}
+
+/**
+ * Taking amount of an auction at a time
+ * @throws AuctionError when the auction is invalid
+ */
+export function getTakingAmount(
+  auction: DutchAuction,
+  now: bigint | number,
+): bigint {
+  const decay = auction.decay ?? AuctionDecay.LINEAR;
+  if (decay === AuctionDecay.LINEAR) {
+    return calculateCurrentTakingAmount(
+      auction.startTime,
+      auction.endTime,
+      auction.startTakingAmount,
+      auction.endTakingAmount,
+      now,
+    );
+  }
+
+  const { start, end, startAmount, endAmount } = readAuction(auction);
+  const current = clamp(toU64(now, "now"), start, end);
+  // The end amount is exact, truncations only happen inside the range
+  if (current === end) {
+    return endAmount;
+  }
+
+  const elapsed = current - start;
+  const duration = end - start;
+  if (decay === AuctionDecay.STEPWISE) {
+    const steps = BigInt(auction.steps ?? DEFAULT_STEPS);
+    if (steps <= 0n) {
+      throw new AuctionError("Stepwise auctions need at least one step");
+    }
+    const step = (elapsed * steps) / duration;
+    return startAmount - ((startAmount - endAmount) / steps) * step;
+  }
+
+  return exponentialDecay(startAmount, endAmount, elapsed, duration);
+}
+
+/**
+ * Taking amounts at `count + 1` evenly spaced times, from the start to the end of the auction
+ */
+export function getAuctionPoints(
+  auction: DutchAuction,
+  count: number,
+): AuctionPoint[] {
+  const { start, end } = readAuction(auction);
+  if (!Number.isSafeInteger(count) || count <= 0) {
+    throw new AuctionError("Point count must be a positive integer");
+  }
+
+  return Array.from({ length: count + 1 }, (_, index) => {
+    const timestamp = start + ((end - start) * BigInt(index)) / BigInt(count);
+    return { timestamp, takingAmount: getTakingAmount(auction, timestamp) };
+  });
+}
+
+/**
+ * Earliest time a decaying auction can be filled for at most `takingAmount`
+ * @returns The time, null when the auction never gets that low
+ * @throws AuctionError when the auction rises instead of decaying
+ */
+export function getTimeForTakingAmount(
+  auction: DutchAuction,
+  takingAmount: bigint,
+): bigint | null {
+  const { start, end, startAmount, endAmount } = readAuction(auction);
+  if (startAmount < endAmount) {
+    throw new AuctionError("The auction rises, its taking amount never drops");
+  }
+  if (endAmount > takingAmount) {
+    return null;
+  }
+
+  // Every decay is non-increasing, search the first second at or below the amount
+  let low = start;
+  let high = end;
+  while (low < high) {
+    const middle = (low + high) / 2n;
+    if (getTakingAmount(auction, middle) <= takingAmount) {
+      high = middle;
+    } else {
+      low = middle + 1n;
+    }
+  }
+  return low;
+}
+
+/**
+ * startAmount * (endAmount / startAmount) ^ (elapsed / duration), in 18 decimals fixed point.
+ * The fractional exponent is applied bit by bit with repeated integer square roots.
+ */
+function exponentialDecay(
+  startAmount: bigint,
+  endAmount: bigint,
+  elapsed: bigint,
+  duration: bigint,
+): bigint {
+  if (startAmount === 0n || endAmount === 0n) {
+    throw new AuctionError("Exponential auctions need positive amounts");
+  }
+
+  const exponent = (elapsed << EXPONENT_BITS) / duration;
+  let root = (endAmount * ONE) / startAmount;
+  let factor = ONE;
+  for (let bit = EXPONENT_BITS - 1n; bit >= 0n; bit--) {
+    // root is ratio ^ 2^(bit - EXPONENT_BITS), starting with the square root
+    root = sqrt(root * ONE);
+    if ((exponent >> bit) & 1n) {
+      factor = (factor * root) / ONE;
+    }
+  }
+  return (startAmount * factor) / ONE;
+}
+
+function readAuction(auction: DutchAuction) {
+  const start = toU64(auction.startTime, "startTime");
+  const end = toU64(auction.endTime, "endTime");
+  if (end <= start) {
+    throw new AuctionError(
+      "Auction must end after it starts",
+      AuctionAbort.INVALID_TIME_RANGE,
+    );
+  }
+  return {
+    start,
+    end,
+    startAmount: toU64(auction.startTakingAmount, "startTakingAmount"),
+    endAmount: toU64(auction.endTakingAmount, "endTakingAmount"),
+  };
+}
+
+function toU64(value: bigint | number, name: string): bigint {
+  if (typeof value === "number" && !Number.isSafeInteger(value)) {
+    throw new AuctionError(`${name} must be an integer`);
+  }
+  const result = BigInt(value);
+  if (result < 0n || result > U64_MAX) {
+    throw new AuctionError(`${name} ${result} does not fit in a u64`);
+  }
+  return result;
+}
+
+function clamp(value: bigint, min: bigint, max: bigint): bigint {
+  if (value < min) {
+    return min;
+  }
+  return value > max ? max : value;
+}
+
+function sqrt(value: bigint): bigint {
+  if (value < 2n) {
+    return value;
+  }
+  let x = value;
+  let y = (x + 1n) / 2n;
+  while (y < x) {
+    x = y;
+    y = (x + value / x) / 2n;
+  }
+  return x;
+}
@@ -0,0 +1,10 @@
+import { Module } from "@nestjs/common";
+import { PrismaModule } from "../prisma/prisma.module";
+import { ChainCursorService } from "./chain-cursor.service";
+
+@Module({
+  imports: [PrismaModule],
+  providers: [ChainCursorService],
+  exports: [ChainCursorService],
+})
+export class ChainCursorModule {}
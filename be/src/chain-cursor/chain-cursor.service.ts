@@ -0,0 +1,35 @@
+import { Injectable } from "@nestjs/common";
+import { ChainCursor } from "@prisma/client";
+import { PrismaService } from "../prisma/prisma.service";
+
+/**
+ * Durable positions of the chain ingesters, so a restart resumes where it stopped.
+ * A position is a block number on EVM and an event sequence number on Aptos.
+ */
+@Injectable()
+export class ChainCursorService {
+  constructor(private readonly prismaService: PrismaService) {}
+
+  /**
+   * Get a cursor
+   * @param key - Cursor key, e.g. `evm:escrow-events`
+   * @returns The stored cursor, or null when it was never saved
+   */
+  async get(key: string): Promise<ChainCursor | null> {
+    return this.prismaService.chainCursor.findUnique({ where: { key } });
+  }
+
+  /**
+   * Save the last processed position of a cursor
+   * @param key - Cursor key
+   * @param position - Last position whose events were fully handled
+   * @param hash - Hash of the block at that position, used to detect reorgs
+   */
+  async set(key: string, position: bigint, hash?: string): Promise<void> {
+    await this.prismaService.chainCursor.upsert({
+      where: { key },
+      create: { key, position, hash },
+      update: { position, hash: hash ?? null },
+    });
+  }
+}
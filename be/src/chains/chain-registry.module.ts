@@ -0,0 +1,8 @@
+import { Module } from "@nestjs/common";
+import { ChainRegistryService } from "./chain-registry.service";
+
+@Module({
+  providers: [ChainRegistryService],
+  exports: [ChainRegistryService],
+})
+export class ChainRegistryModule {}
@@ -0,0 +1,136 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import * as fs from "fs";
+import {
+  ChainRegistryError,
+  DEFAULT_EVM_CONFIRMATIONS,
+  EvmChainConfig,
+  parseEvmChains,
+} from "./evm-chains";
+
+import * as EscrowFactoryAddress from "../../vars/escrow-factory-address.json";
+import * as FusionResolverAddress from "../../vars/fusion-resolver-address.json";
+
+// Chain ID of the Hardhat node the `vars/*.json` addresses are deployed on
+const LEGACY_CHAIN_ID = 31337;
+
+/**
+ * Registry of the EVM chains the relayer serves, loaded from configuration.
+ *
+ * EVM_CHAINS holds the JSON array of EvmChainConfig, EVM_CHAINS_FILE the path of a file
+ * holding it. Without either, the single chain of EVM_RPC_URL is served with the contract
+ * addresses of `vars/*.json`, like before the registry. EVM_DEFAULT_CHAIN_ID picks the chain
+ * of the swaps that do not name one, the first configured chain otherwise.
+ */
+@Injectable()
+export class ChainRegistryService {
+  private readonly logger = new Logger(ChainRegistryService.name);
+  private readonly chains = new Map<number, EvmChainConfig>();
+  private readonly defaultChainId: number | null;
+
+  constructor(private readonly configService: ConfigService) {
+    for (const chain of this.loadChains()) {
+      this.chains.set(chain.chainId, chain);
+    }
+
+    const defaultChainId = this.configService.get<string>(
+      "EVM_DEFAULT_CHAIN_ID",
+    );
+    this.defaultChainId = defaultChainId
+      ? Number(defaultChainId)
+      : (this.getChains()[0]?.chainId ?? null);
+
+    if (
+      this.defaultChainId !== null &&
+      !this.isSupported(this.defaultChainId)
+    ) {
+      throw new ChainRegistryError(
+        `EVM_DEFAULT_CHAIN_ID ${defaultChainId} is not a configured chain`,
+      );
+    }
+
+    if (this.chains.size === 0) {
+      this.logger.error(
+        "No EVM chain configured. Please set EVM_CHAINS, EVM_CHAINS_FILE or EVM_RPC_URL in your .env file.",
+      );
+    } else {
+      this.logger.log(
+        `EVM chains: ${this.getChains()
+          .map((chain) => `${chain.name} (${chain.chainId})`)
+          .join(", ")}, default ${this.defaultChainId}`,
+      );
+    }
+  }
+
+  /**
+   * Get every configured chain
+   */
+  getChains(): EvmChainConfig[] {
+    return Array.from(this.chains.values());
+  }
+
+  isSupported(chainId: number): boolean {
+    return this.chains.has(chainId);
+  }
+
+  /**
+   * Get the chain swaps use when they do not name one
+   * @throws ChainRegistryError when no chain is configured
+   */
+  getDefaultChainId(): number {
+    if (this.defaultChainId === null) {
+      throw new ChainRegistryError("No EVM chain configured");
+    }
+    return this.defaultChainId;
+  }
+
+  /**
+   * Get the configuration of a chain
+   * @param chainId - Chain ID, the default chain when missing, e.g. for swaps created before the registry
+   * @throws ChainRegistryError when the chain is not configured
+   */
+  getChain(chainId?: number | null): EvmChainConfig {
+    const id = chainId ?? this.getDefaultChainId();
+    const chain = this.chains.get(id);
+    if (!chain) {
+      throw new ChainRegistryError(`EVM chain ${id} is not configured`);
+    }
+    return chain;
+  }
+
+  private loadChains(): EvmChainConfig[] {
+    const chainsJson = this.configService.get<string>("EVM_CHAINS");
+    if (chainsJson) {
+      return parseEvmChains(JSON.parse(chainsJson));
+    }
+
+    const chainsFile = this.configService.get<string>("EVM_CHAINS_FILE");
+    if (chainsFile) {
+      return parseEvmChains(JSON.parse(fs.readFileSync(chainsFile, "utf8")));
+    }
+
+    const rpcUrl = this.configService.get<string>("EVM_RPC_URL");
+    if (!rpcUrl) {
+      return [];
+    }
+
+    const chainId = this.configService.get<string>("EVM_CHAIN_ID");
+    const confirmations = this.configService.get<string>("EVM_CONFIRMATIONS");
+    const startBlock = this.configService.get<string>(
+      "EVM_MONITOR_START_BLOCK",
+    );
+    return parseEvmChains([
+      {
+        chainId: chainId ? Number(chainId) : LEGACY_CHAIN_ID,
+        name: "default",
+        rpcUrls: [rpcUrl],
+        confirmations: confirmations
+          ? Number(confirmations)
+          : DEFAULT_EVM_CONFIRMATIONS,
+        escrowFactoryAddress: EscrowFactoryAddress["escrow-factory-address"],
+        fusionResolverAddress: FusionResolverAddress["fusion-resolver-address"],
+        startBlock: startBlock ? Number(startBlock) : undefined,
+      },
+    ]);
+  }
+}
@@ -0,0 +1,100 @@
+import {
+  ChainRegistryError,
+  DEFAULT_EVM_CONFIRMATIONS,
+  parseEvmChains,
+} from "./evm-chains";
+
+const FACTORY = "0x5fbdb2315678afecb367f032d93f642f64180aa3";
+
+describe("evm-chains", () => {
+  it("fills in the defaults and checksums the addresses", () => {
+    const [chain] = parseEvmChains([
+      {
+        chainId: 11155111,
+        rpcUrls: ["https://rpc.sepolia.org"],
+        escrowFactoryAddress: FACTORY,
+      },
+    ]);
+
+    expect(chain).toEqual({
+      chainId: 11155111,
+      name: "Chain 11155111",
+      rpcUrls: ["https://rpc.sepolia.org"],
+      confirmations: DEFAULT_EVM_CONFIRMATIONS,
+      escrowFactoryAddress: "0x5FbDB2315678afecb367f032d93F642f64180aa3",
+      fusionResolverAddress: undefined,
+      limitOrderProtocolAddress: undefined,
+      nativeToken: { symbol: "ETH", decimals: 18 },
+      startBlock: undefined,
+    });
+  });
+
+  it("keeps the configured values of every chain", () => {
+    const chains = parseEvmChains([
+      {
+        chainId: 84532,
+        name: "base-sepolia",
+        rpcUrls: ["https://sepolia.base.org", "https://base-sepolia.example"],
+        confirmations: 3,
+        escrowFactoryAddress: FACTORY,
+        nativeToken: { symbol: "ETH", decimals: 18 },
+        startBlock: 100,
+      },
+      {
+        chainId: 31337,
+        rpcUrls: ["http://127.0.0.1:8545"],
+        confirmations: 0,
+        escrowFactoryAddress: FACTORY,
+        nativeToken: { symbol: "GO", decimals: 9 },
+      },
+    ]);
+
+    expect(chains.map((chain) => chain.chainId)).toEqual([84532, 31337]);
+    expect(chains[0].rpcUrls).toHaveLength(2);
+    expect(chains[0].confirmations).toBe(3);
+    expect(chains[0].startBlock).toBe(100);
+    expect(chains[1].confirmations).toBe(0);
+    expect(chains[1].nativeToken).toEqual({ symbol: "GO", decimals: 9 });
+  });
+
+  it("rejects malformed chains", () => {
+    const chain = {
+      chainId: 1,
+      rpcUrls: ["https://eth.example"],
+      escrowFactoryAddress: FACTORY,
+    };
+
+    expect(() => parseEvmChains([])).toThrow(ChainRegistryError);
+    expect(() => parseEvmChains({ chainId: 1 })).toThrow(ChainRegistryError);
+    expect(() => parseEvmChains([{ ...chain, chainId: 0 }])).toThrow(
+      "Chain 0 has no chainId",
+    );
+    expect(() => parseEvmChains([{ ...chain, rpcUrls: [] }])).toThrow(
+      "Chain 1: rpcUrls must list RPC URLs",
+    );
+    expect(() =>
+      parseEvmChains([{ ...chain, escrowFactoryAddress: undefined }]),
+    ).toThrow("Chain 1: escrowFactoryAddress is missing");
+    expect(() =>
+      parseEvmChains([{ ...chain, fusionResolverAddress: "0x1234" }]),
+    ).toThrow("Chain 1: fusionResolverAddress must be an EVM address");
+    expect(() => parseEvmChains([{ ...chain, confirmations: -1 }])).toThrow(
+      "Chain 1: confirmations must be a non-negative integer",
+    );
+    expect(() =>
+      parseEvmChains([{ ...chain, nativeToken: { symbol: "ETH" } }]),
+    ).toThrow("Chain 1: nativeToken must have a symbol and decimals");
+  });
+
+  it("rejects a chain configured twice", () => {
+    const chain = {
+      chainId: 1,
+      rpcUrls: ["https://eth.example"],
+      escrowFactoryAddress: FACTORY,
+    };
+
+    expect(() => parseEvmChains([chain, chain])).toThrow(
+      "Chain 1 is configured twice",
+    );
+  });
+});
@@ -0,0 +1,163 @@
+import { ethers } from "ethers";
+
+/**
+ * EVM chains the relayer serves.
+ *
+ * Each chain has its own RPC endpoints, confirmation depth and deployment of the escrow
+ * contracts. Swaps record the chain ID of their EVM side, every escrow call, monitor scan
+ * and relayer transaction is bound to that chain.
+ */
+
+export type EvmNativeToken = {
+  symbol: string;
+  decimals: number;
+};
+
+export type EvmChainConfig = {
+  chainId: number;
+  name: string;
+  // Tried in order, the next one is used while the previous one fails
+  rpcUrls: string[];
+  // Blocks an event needs, including its own, before the relayer acts on it
+  confirmations: number;
+  escrowFactoryAddress: string;
+  fusionResolverAddress?: string;
+  limitOrderProtocolAddress?: string;
+  nativeToken: EvmNativeToken;
+  // First block the monitor scans when it has no cursor for the chain
+  startBlock?: number;
+};
+
+/**
+ * Error thrown for a malformed chain configuration or an unknown chain
+ */
+export class ChainRegistryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ChainRegistryError";
+  }
+}
+
+export const DEFAULT_EVM_CONFIRMATIONS = 12;
+
+const DEFAULT_NATIVE_TOKEN: EvmNativeToken = { symbol: "ETH", decimals: 18 };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function readInteger(
+  record: Record<string, unknown>,
+  key: string,
+  chain: string,
+): number | undefined {
+  const value = record[key];
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!Number.isSafeInteger(value) || (value as number) < 0) {
+    throw new ChainRegistryError(
+      `${chain}: ${key} must be a non-negative integer`,
+    );
+  }
+  return value as number;
+}
+
+function readAddress(
+  record: Record<string, unknown>,
+  key: string,
+  chain: string,
+): string | undefined {
+  const value = record[key];
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== "string" || !ethers.isAddress(value)) {
+    throw new ChainRegistryError(`${chain}: ${key} must be an EVM address`);
+  }
+  return ethers.getAddress(value);
+}
+
+function parseNativeToken(value: unknown, chain: string): EvmNativeToken {
+  if (value === undefined) {
+    return DEFAULT_NATIVE_TOKEN;
+  }
+  if (
+    !isRecord(value) ||
+    typeof value.symbol !== "string" ||
+    readInteger(value, "decimals", chain) === undefined
+  ) {
+    throw new ChainRegistryError(
+      `${chain}: nativeToken must have a symbol and decimals`,
+    );
+  }
+  return { symbol: value.symbol, decimals: value.decimals as number };
+}
+
+/**
+ * Parse and validate a chain configuration
+ * @param value - Parsed JSON of `EVM_CHAINS`, an array of EvmChainConfig
+ * @throws ChainRegistryError when an entry is malformed or a chain ID repeats
+ */
+export function parseEvmChains(value: unknown): EvmChainConfig[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new ChainRegistryError("EVM chains must be a non-empty array");
+  }
+
+  const chains = value.map((entry: unknown, index): EvmChainConfig => {
+    if (!isRecord(entry)) {
+      throw new ChainRegistryError(`Chain ${index} is not an object`);
+    }
+
+    const chainId = readInteger(entry, "chainId", `Chain ${index}`);
+    if (!chainId) {
+      throw new ChainRegistryError(`Chain ${index} has no chainId`);
+    }
+    const chain = `Chain ${chainId}`;
+
+    const { rpcUrls } = entry;
+    if (
+      !Array.isArray(rpcUrls) ||
+      rpcUrls.length === 0 ||
+      !rpcUrls.every((url) => typeof url === "string" && url !== "")
+    ) {
+      throw new ChainRegistryError(`${chain}: rpcUrls must list RPC URLs`);
+    }
+
+    const escrowFactoryAddress = readAddress(
+      entry,
+      "escrowFactoryAddress",
+      chain,
+    );
+    if (!escrowFactoryAddress) {
+      throw new ChainRegistryError(`${chain}: escrowFactoryAddress is missing`);
+    }
+
+    return {
+      chainId,
+      name: typeof entry.name === "string" ? entry.name : chain,
+      rpcUrls: rpcUrls as string[],
+      confirmations:
+        readInteger(entry, "confirmations", chain) ?? DEFAULT_EVM_CONFIRMATIONS,
+      escrowFactoryAddress,
+      fusionResolverAddress: readAddress(entry, "fusionResolverAddress", chain),
+      limitOrderProtocolAddress: readAddress(
+        entry,
+        "limitOrderProtocolAddress",
+        chain,
+      ),
+      nativeToken: parseNativeToken(entry.nativeToken, chain),
+      startBlock: readInteger(entry, "startBlock", chain),
+    };
+  });
+
+  const chainIds = new Set<number>();
+  for (const { chainId } of chains) {
+    if (chainIds.has(chainId)) {
+      throw new ChainRegistryError(`Chain ${chainId} is configured twice`);
+    }
+    chainIds.add(chainId);
+  }
+
+  return chains;
+}
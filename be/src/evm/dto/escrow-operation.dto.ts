@@ -0,0 +1,88 @@
+import { ApiProperty } from "@nestjs/swagger";
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsEthereumAddress,
+  IsNumberString,
+} from "class-validator";
+import { IsHashlock } from "../../hashlock/hashlock.validators";
+
+export class EscrowImmutablesDto {
+  @ApiProperty({
+    description: "Order hash",
+    example:
+      "0x1234567890123456789012345678901234567890123456789012345678901234",
+  })
+  @IsHashlock()
+  readonly orderHash: string;
+
+  @ApiProperty({
+    description: "Maker address",
+    example: "0x70997970C51812dc3A010C7d01b50e0d17dc79C8",
+  })
+  @IsEthereumAddress()
+  readonly maker: string;
+
+  @ApiProperty({
+    description: "Taker address",
+    example: "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC",
+  })
+  @IsEthereumAddress()
+  readonly taker: string;
+
+  @ApiProperty({
+    description: "Token address",
+    example: "0x5FbDB2315678afecb367f032d93F642f64180aa3",
+  })
+  @IsEthereumAddress()
+  readonly token: string;
+
+  @ApiProperty({
+    description: "Amount of tokens, in base units",
+    example: "1000000000000000000",
+  })
+  @IsNumberString({ no_symbols: true })
+  readonly amount: string;
+
+  @ApiProperty({
+    description: "Hash lock (keccak256 of the secret)",
+    example:
+      "0x1234567890123456789012345678901234567890123456789012345678901234",
+  })
+  @IsHashlock()
+  readonly secretHash: string;
+
+  @ApiProperty({
+    description: "Safety deposit, in wei",
+    example: "0",
+  })
+  @IsNumberString({ no_symbols: true })
+  readonly safetyDeposit: string;
+
+  @ApiProperty({
+    description: "Timelock values, one unix timestamp per TimelocksLib stage",
+    example: ["0", "0", "0", "0", "0", "0", "0", "0"],
+    type: [String],
+  })
+  @IsArray()
+  @ArrayMinSize(8)
+  @ArrayMaxSize(8)
+  @IsNumberString({ no_symbols: true }, { each: true })
+  readonly timelocks: string[];
+}
+
+export class EscrowAddressResponseDto {
+  @ApiProperty({
+    description: "Address the escrow is deployed at",
+    example: "0x1234567890123456789012345678901234567890",
+  })
+  readonly escrowAddress: string;
+
+  @ApiProperty({
+    description: "Immutables hash the deployment is salted with",
+    example:
+      "0x1234567890123456789012345678901234567890123456789012345678901234",
+  })
+  readonly immutablesHash: string;
+}
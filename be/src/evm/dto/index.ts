@@ -2,3 +2,4 @@ export * from "./node-operation.dto";
 export * from "./token-operation.dto";
 export * from "./htlc-operation.dto";
 export * from "./resolver-operation.dto";
+export * from "./escrow-operation.dto";
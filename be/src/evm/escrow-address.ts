@@ -0,0 +1,63 @@
+import { ethers } from "ethers";
+import { EvmImmutables } from "../types/escrow.types";
+
+/**
+ * Address derivation of EscrowFactory, shared by the backend and the contract tests.
+ *
+ * Every escrow is an EIP-1167 clone of the factory implementation, deployed with CREATE2
+ * and salted with `ImmutablesLib.hash`, so its address follows from the immutables alone
+ * and is known before the deployment transaction is sent.
+ */
+
+/**
+ * ABI type of the Immutables struct, `Address` values are encoded as uint256
+ */
+const IMMUTABLES_TYPE =
+  "tuple(bytes32 orderHash, uint256 maker, uint256 taker, uint256 token, uint256 amount, bytes32 secretHash, uint256 safetyDeposit, tuple(uint256[8] values) timelocks)";
+
+// EIP-1167 creation code around the implementation address, as deployed by OpenZeppelin Clones
+const PROXY_CODE_PREFIX = "0x3d602d80600a3d3981f3363d3d373d3d3d363d73";
+const PROXY_CODE_SUFFIX = "0x5af43d82803e903d91602b57fd5bf3";
+
+/**
+ * Compute `ImmutablesLib.hash`, i.e. `keccak256(abi.encode(immutables))`
+ * @param immutables - Immutables of the escrow
+ */
+export function hashImmutables(immutables: EvmImmutables): string {
+  return ethers.keccak256(
+    ethers.AbiCoder.defaultAbiCoder().encode([IMMUTABLES_TYPE], [immutables]),
+  );
+}
+
+/**
+ * Compute `ProxyHashLib.computeProxyBytecodeHash`
+ * @param implementation - Address of the EscrowSrc implementation
+ */
+export function computeProxyBytecodeHash(implementation: string): string {
+  return ethers.keccak256(
+    ethers.concat([
+      PROXY_CODE_PREFIX,
+      ethers.getAddress(implementation),
+      PROXY_CODE_SUFFIX,
+    ]),
+  );
+}
+
+/**
+ * Predict the address EscrowFactory deploys an escrow at, like `EscrowFactory.addressOfEscrow`
+ * @param factory - Address of the EscrowFactory
+ * @param implementation - Address of its EscrowSrc implementation
+ * @param immutables - Immutables the escrow is deployed with
+ * @returns Checksummed escrow address
+ */
+export function predictEscrowAddress(
+  factory: string,
+  implementation: string,
+  immutables: EvmImmutables,
+): string {
+  return ethers.getCreate2Address(
+    factory,
+    hashImmutables(immutables),
+    computeProxyBytecodeHash(implementation),
+  );
+}
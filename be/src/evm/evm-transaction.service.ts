@@ -0,0 +1,635 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { Prisma, RelayerTransaction, RelayerTxStatus } from "@prisma/client";
+import { ethers } from "ethers";
+import { PrismaService } from "../prisma/prisma.service";
+import { ChainRegistryService } from "../chains/chain-registry.service";
+import {
+  Eip1559Fees,
+  FEE_HISTORY_BLOCKS,
+  FEE_HISTORY_PERCENTILES,
+  FeeUrgency,
+  bumpFees,
+  estimateFees,
+  parseFeeHistory,
+  replacementDelay,
+  urgencyForDeadline,
+} from "./fee-strategy";
+
+const CHAIN = "evm";
+
+// A transaction its node still does not know after this long was dropped from the mempool
+const DROPPED_AFTER_MS = 5 * 60 * 1000;
+const RECEIPT_POLL_INTERVAL_MS = 4000;
+
+/**
+ * Why the relayer sends a transaction, recorded in the journal
+ */
+export interface RelayerTxContext {
+  purpose: string;
+  swapId?: string;
+  // Unix time the transaction must be mined by, e.g. the TimelocksLib stage closing its window
+  deadline?: number;
+}
+
+/**
+ * Nonce and send queue of one relayer account
+ */
+interface SenderState {
+  chainId: number;
+  wallet: ethers.Wallet;
+  // Next nonce to use, null until read from the chain or after a failed send
+  nextNonce: number | null;
+  // Tail of the send queue, each send starts once the previous one is broadcast
+  queue: Promise<unknown>;
+}
+
+/**
+ * Broadcast transaction, as returned by ethers or read back from the journal
+ */
+interface SentTransaction {
+  hash: string;
+  nonce: number;
+  to: string | null;
+  data: string;
+  value: bigint;
+  gasLimit: bigint;
+  maxFeePerGas: bigint | null;
+  maxPriorityFeePerGas: bigint | null;
+}
+
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+function toOptionalBigInt(value: string | null): bigint | null {
+  return value === null ? null : BigInt(value);
+}
+
+/**
+ * Nonce-managed signer queue of the relayer EVM accounts.
+ *
+ * The workers share one wallet per chain, so sends are serialized per account and chain and numbered from a
+ * local nonce instead of letting each call read the pending nonce concurrently.
+ * Every broadcast transaction is written to the RelayerTransaction journal and tracked
+ * until it is mined, replaced by another transaction with its nonce, or dropped.
+ *
+ * Fees follow the EIP-1559 strategy of `fee-strategy.ts`. A transaction pending past the
+ * replacement delay of its urgency is replaced with bumped fees and the same nonce.
+ */
+@Injectable()
+export class EvmTransactionService {
+  private readonly logger = new Logger(EvmTransactionService.name);
+  private readonly senders = new Map<string, SenderState>();
+  // Hashes a caller is waiting for, the tracker leaves their replacement to the caller
+  private readonly watched = new Set<string>();
+  private readonly maxFeeCap?: bigint;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly prismaService: PrismaService,
+    private readonly chainRegistryService: ChainRegistryService,
+  ) {
+    const maxFeeGwei = this.configService.get<string>(
+      "EVM_MAX_FEE_PER_GAS_GWEI",
+    );
+    if (maxFeeGwei) {
+      this.maxFeeCap = ethers.parseUnits(maxFeeGwei, "gwei");
+    }
+  }
+
+  /**
+   * Register a relayer wallet, so its pending transactions are tracked after a restart
+   * @param wallet - Wallet connected to a provider
+   * @param chainId - Chain the provider is connected to
+   */
+  registerSigner(wallet: ethers.Wallet, chainId: number): void {
+    this.getSender(chainId, wallet);
+  }
+
+  /**
+   * Send a transaction through the queue of its wallet and record it in the journal
+   * @param wallet - Relayer wallet signing the transaction
+   * @param chainId - Chain the wallet provider is connected to
+   * @param request - Transaction to send, its nonce and fees are assigned here
+   * @param context - Purpose, swap and deadline of the transaction
+   * @returns The broadcast transaction
+   */
+  send(
+    wallet: ethers.Wallet,
+    chainId: number,
+    request: ethers.TransactionRequest,
+    context: RelayerTxContext,
+  ): Promise<ethers.TransactionResponse> {
+    return this.enqueue(this.getSender(chainId, wallet), (sender) =>
+      this.sendNext(sender, request, context),
+    );
+  }
+
+  /**
+   * Wait for a relayer transaction, replacing it with bumped fees while it is stuck,
+   * and record the outcome in the journal
+   * @param tx - Transaction returned by `send`
+   * @param confirmations - Blocks to wait for, including the one holding the transaction
+   * @returns Receipt of the mined transaction or of its replacement
+   * @throws Error when it reverted or another transaction took its nonce
+   */
+  async waitForTransaction(
+    tx: ethers.TransactionResponse,
+    confirmations = 1,
+  ): Promise<ethers.TransactionReceipt> {
+    const sender = this.getSender(Number(tx.chainId), tx.from);
+    const provider = this.getProvider(sender);
+    const journaled = await this.prismaService.relayerTransaction.findUnique({
+      where: { hash: tx.hash },
+    });
+    const context: RelayerTxContext = {
+      purpose: journaled?.purpose ?? "unknown",
+      swapId: journaled?.swapId ?? undefined,
+      deadline: journaled?.deadline ?? undefined,
+    };
+
+    let current: SentTransaction = tx;
+    const hashes = [tx.hash];
+    this.watched.add(tx.hash);
+
+    try {
+      for (;;) {
+        const urgency = urgencyForDeadline(context.deadline, nowSeconds());
+        const receipt = await this.pollReceipt(
+          provider,
+          hashes,
+          confirmations,
+          replacementDelay(urgency) * 1000,
+        );
+        if (receipt) {
+          return await this.settle(receipt, hashes);
+        }
+
+        // Mined by a transaction outside this wait, e.g. sent by another process
+        if ((await sender.wallet.getNonce("latest")) > tx.nonce) {
+          const lateReceipt = await this.pollReceipt(
+            provider,
+            hashes,
+            confirmations,
+            0,
+          );
+          if (lateReceipt) {
+            return await this.settle(lateReceipt, hashes);
+          }
+          for (const hash of hashes) {
+            await this.updateTransaction(hash, {
+              status: RelayerTxStatus.REPLACED,
+              error: `Nonce ${tx.nonce} used by another transaction`,
+            });
+          }
+          throw new Error(
+            `Nonce ${tx.nonce} of transaction ${tx.hash} was used by another transaction`,
+          );
+        }
+
+        const replacement = await this.replaceTransaction(
+          sender,
+          current,
+          context,
+          urgency,
+        );
+        if (replacement) {
+          current = replacement;
+          hashes.push(replacement.hash);
+          this.watched.add(replacement.hash);
+        }
+      }
+    } finally {
+      for (const hash of hashes) {
+        this.watched.delete(hash);
+      }
+    }
+  }
+
+  /**
+   * Settle the journaled transactions still pending, e.g. after a restart or a dropped wait,
+   * and replace the stuck ones nobody is waiting for
+   */
+  async trackPendingTransactions(): Promise<void> {
+    const defaultChainId = this.chainRegistryService.getDefaultChainId();
+
+    for (const sender of this.senders.values()) {
+      const pending = await this.prismaService.relayerTransaction.findMany({
+        where: {
+          chain: CHAIN,
+          // Rows journaled before the chain registry belong to the default chain
+          OR:
+            sender.chainId === defaultChainId
+              ? [{ chainId: sender.chainId }, { chainId: null }]
+              : [{ chainId: sender.chainId }],
+          sender: sender.wallet.address,
+          status: RelayerTxStatus.PENDING,
+        },
+        orderBy: { nonce: "asc" },
+      });
+      if (pending.length === 0) {
+        continue;
+      }
+
+      // Every nonce below it belongs to a mined transaction
+      const minedNonce = await sender.wallet.getNonce("latest");
+      for (const transaction of pending) {
+        try {
+          await this.trackTransaction(sender, transaction, minedNonce);
+        } catch (error) {
+          const errorMessage =
+            error instanceof Error ? error.message : String(error);
+          this.logger.error(
+            `Error tracking transaction ${transaction.hash}: ${errorMessage}`,
+          );
+        }
+      }
+    }
+  }
+
+  private async trackTransaction(
+    sender: SenderState,
+    transaction: RelayerTransaction,
+    minedNonce: number,
+  ): Promise<void> {
+    const provider = this.getProvider(sender);
+    const receipt = await provider.getTransactionReceipt(transaction.hash);
+
+    if (receipt) {
+      await this.updateTransaction(transaction.hash, {
+        status:
+          receipt.status === 1
+            ? RelayerTxStatus.CONFIRMED
+            : RelayerTxStatus.REVERTED,
+        blockNumber: receipt.blockNumber,
+      });
+      return;
+    }
+
+    if (transaction.nonce < minedNonce) {
+      this.logger.warn(
+        `Transaction ${transaction.hash} (${transaction.purpose}) was replaced, nonce ${transaction.nonce} is mined`,
+      );
+      await this.updateTransaction(transaction.hash, {
+        status: RelayerTxStatus.REPLACED,
+        error: `Nonce ${transaction.nonce} used by another transaction`,
+      });
+      return;
+    }
+
+    const age = Date.now() - transaction.createdAt.getTime();
+    const inMempool =
+      (await provider.getTransaction(transaction.hash)) !== null;
+
+    if (inMempool) {
+      const context: RelayerTxContext = {
+        purpose: transaction.purpose,
+        swapId: transaction.swapId ?? undefined,
+        deadline: transaction.deadline ?? undefined,
+      };
+      const urgency = urgencyForDeadline(context.deadline, nowSeconds());
+      if (
+        !this.watched.has(transaction.hash) &&
+        age >= replacementDelay(urgency) * 1000
+      ) {
+        await this.replaceTransaction(
+          sender,
+          {
+            ...transaction,
+            value: BigInt(transaction.value ?? 0),
+            data: transaction.data ?? "0x",
+            gasLimit: BigInt(transaction.gasLimit ?? 0),
+            maxFeePerGas: toOptionalBigInt(transaction.maxFeePerGas),
+            maxPriorityFeePerGas: toOptionalBigInt(
+              transaction.maxPriorityFeePerGas,
+            ),
+          },
+          context,
+          urgency,
+        );
+      }
+      return;
+    }
+
+    if (age < DROPPED_AFTER_MS) {
+      return;
+    }
+
+    this.logger.warn(
+      `Transaction ${transaction.hash} (${transaction.purpose}) was dropped, reusing nonce ${transaction.nonce}`,
+    );
+    await this.updateTransaction(transaction.hash, {
+      status: RelayerTxStatus.DROPPED,
+      error: "Dropped from the mempool",
+    });
+
+    // Later transactions are stuck behind the gap, the next send fills it
+    await this.enqueue(sender, (state) => {
+      if (state.nextNonce === null || state.nextNonce > transaction.nonce) {
+        state.nextNonce = transaction.nonce;
+      }
+      return Promise.resolve();
+    });
+  }
+
+  private async sendNext(
+    sender: SenderState,
+    request: ethers.TransactionRequest,
+    context: RelayerTxContext,
+  ): Promise<ethers.TransactionResponse> {
+    if (sender.nextNonce === null) {
+      sender.nextNonce = await sender.wallet.getNonce("pending");
+    }
+
+    // Explicit fees are kept, the others follow the urgency of the deadline
+    const fees =
+      request.gasPrice || request.maxFeePerGas
+        ? null
+        : await this.estimateFees(
+            sender,
+            urgencyForDeadline(context.deadline, nowSeconds()),
+          );
+
+    let tx: ethers.TransactionResponse;
+    try {
+      tx = await sender.wallet.sendTransaction({
+        ...request,
+        ...fees,
+        nonce: sender.nextNonce,
+      });
+    } catch (error) {
+      // The node may or may not have taken the nonce, read it again on the next send
+      sender.nextNonce = null;
+      throw error;
+    }
+
+    sender.nextNonce = tx.nonce + 1;
+    this.logger.log(
+      `Sent ${context.purpose} transaction ${tx.hash} with nonce ${tx.nonce} on chain ${sender.chainId}`,
+    );
+    await this.recordTransaction(tx, context);
+    return tx;
+  }
+
+  /**
+   * Send a transaction again with the same nonce and bumped fees
+   * @returns The replacement, null when the transaction cannot be replaced now
+   */
+  private async replaceTransaction(
+    sender: SenderState,
+    transaction: SentTransaction,
+    context: RelayerTxContext,
+    urgency: FeeUrgency,
+  ): Promise<ethers.TransactionResponse | null> {
+    if (!transaction.maxFeePerGas || !transaction.maxPriorityFeePerGas) {
+      this.logger.warn(
+        `Transaction ${transaction.hash} is stuck but has no EIP-1559 fees to bump`,
+      );
+      return null;
+    }
+
+    const estimate = await this.estimateFees(sender, urgency);
+    const fees =
+      estimate &&
+      bumpFees(
+        {
+          maxFeePerGas: transaction.maxFeePerGas,
+          maxPriorityFeePerGas: transaction.maxPriorityFeePerGas,
+        },
+        estimate,
+        this.maxFeeCap,
+      );
+    if (!fees) {
+      this.logger.warn(
+        `Transaction ${transaction.hash} is stuck but its fees cannot be bumped under the cap`,
+      );
+      return null;
+    }
+
+    try {
+      const replacement = await this.enqueue(sender, (state) =>
+        state.wallet.sendTransaction({
+          to: transaction.to,
+          data: transaction.data,
+          value: transaction.value,
+          gasLimit: transaction.gasLimit,
+          nonce: transaction.nonce,
+          type: 2,
+          ...fees,
+        }),
+      );
+
+      this.logger.warn(
+        `Replaced ${context.purpose} transaction ${transaction.hash} with ${replacement.hash} (${urgency}, max fee ${ethers.formatUnits(fees.maxFeePerGas, "gwei")} gwei)`,
+      );
+      await this.recordTransaction(replacement, context);
+      await this.updateTransaction(transaction.hash, {
+        status: RelayerTxStatus.REPLACED,
+        replacedBy: replacement.hash,
+      });
+      return replacement;
+    } catch (error) {
+      // e.g. the transaction was mined meanwhile, or the node wants a higher bump
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.warn(
+        `Failed to replace transaction ${transaction.hash}: ${errorMessage}`,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Wait for the receipt of any of the hashes sharing a nonce
+   * @param timeoutMs - How long to wait for a transaction to be mined
+   * @returns The receipt once it has the confirmations, null when none was mined in time
+   */
+  private async pollReceipt(
+    provider: ethers.Provider,
+    hashes: string[],
+    confirmations: number,
+    timeoutMs: number,
+  ): Promise<ethers.TransactionReceipt | null> {
+    const expiresAt = Date.now() + timeoutMs;
+
+    for (;;) {
+      for (const hash of hashes) {
+        if (await provider.getTransactionReceipt(hash)) {
+          // Mined, replacing it is pointless, only its confirmations are left
+          return provider.waitForTransaction(hash, confirmations);
+        }
+      }
+
+      if (Date.now() >= expiresAt) {
+        return null;
+      }
+      await new Promise((resolve) =>
+        setTimeout(resolve, RECEIPT_POLL_INTERVAL_MS),
+      );
+    }
+  }
+
+  /**
+   * Record the mined transaction of a nonce and the ones it replaced
+   * @throws Error when the mined transaction reverted
+   */
+  private async settle(
+    receipt: ethers.TransactionReceipt,
+    hashes: string[],
+  ): Promise<ethers.TransactionReceipt> {
+    for (const hash of hashes) {
+      if (hash !== receipt.hash) {
+        await this.updateTransaction(hash, {
+          status: RelayerTxStatus.REPLACED,
+          replacedBy: receipt.hash,
+        });
+      }
+    }
+
+    if (receipt.status !== 1) {
+      await this.updateTransaction(receipt.hash, {
+        status: RelayerTxStatus.REVERTED,
+        blockNumber: receipt.blockNumber,
+        error: "Execution reverted",
+      });
+      throw new Error(`Transaction ${receipt.hash} reverted`);
+    }
+
+    await this.updateTransaction(receipt.hash, {
+      status: RelayerTxStatus.CONFIRMED,
+      blockNumber: receipt.blockNumber,
+    });
+    return receipt;
+  }
+
+  /**
+   * Estimate EIP-1559 fees from the recent blocks
+   * @returns null on chains without EIP-1559, ethers then falls back to their fee model
+   */
+  private async estimateFees(
+    sender: SenderState,
+    urgency: FeeUrgency,
+  ): Promise<Eip1559Fees | null> {
+    let provider = this.getProvider(sender);
+    // eth_feeHistory is sent to the preferred endpoint of a multi-endpoint chain
+    if (provider instanceof ethers.FallbackProvider) {
+      provider = provider.providerConfigs[0].provider;
+    }
+    if (!(provider instanceof ethers.JsonRpcProvider)) {
+      return null;
+    }
+
+    try {
+      const history = parseFeeHistory(
+        (await provider.send("eth_feeHistory", [
+          ethers.toQuantity(FEE_HISTORY_BLOCKS),
+          "latest",
+          FEE_HISTORY_PERCENTILES,
+        ])) as { baseFeePerGas: string[]; reward?: string[][] },
+      );
+      return estimateFees(history, urgency, this.maxFeeCap);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Failed to estimate EIP-1559 fees: ${errorMessage}`);
+      return null;
+    }
+  }
+
+  private async recordTransaction(
+    tx: ethers.TransactionResponse,
+    context: RelayerTxContext,
+  ): Promise<void> {
+    // The transaction is broadcast already, a journal failure must not hide it from the caller
+    try {
+      await this.prismaService.relayerTransaction.create({
+        data: {
+          chain: CHAIN,
+          chainId: Number(tx.chainId),
+          sender: tx.from,
+          nonce: tx.nonce,
+          purpose: context.purpose,
+          swapId: context.swapId,
+          deadline: context.deadline,
+          hash: tx.hash,
+          to: tx.to,
+          data: tx.data,
+          value: tx.value.toString(),
+          gasLimit: tx.gasLimit.toString(),
+          maxFeePerGas: tx.maxFeePerGas?.toString(),
+          maxPriorityFeePerGas: tx.maxPriorityFeePerGas?.toString(),
+          gasPrice: tx.gasPrice.toString(),
+        },
+      });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.error(
+        `Failed to journal transaction ${tx.hash}: ${errorMessage}`,
+      );
+    }
+  }
+
+  private async updateTransaction(
+    hash: string,
+    data: Prisma.RelayerTransactionUpdateManyMutationInput,
+  ): Promise<void> {
+    // updateMany, transactions whose journal write failed have no row
+    try {
+      await this.prismaService.relayerTransaction.updateMany({
+        where: { hash },
+        data,
+      });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.error(
+        `Failed to update journaled transaction ${hash}: ${errorMessage}`,
+      );
+    }
+  }
+
+  private enqueue<T>(
+    sender: SenderState,
+    task: (sender: SenderState) => Promise<T>,
+  ): Promise<T> {
+    const result = sender.queue.then(() => task(sender));
+    // A failed task must not block the ones queued after it
+    sender.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private getSender(
+    chainId: number,
+    wallet: ethers.Wallet | string,
+  ): SenderState {
+    const address = typeof wallet === "string" ? wallet : wallet.address;
+    const key = `${chainId}:${address.toLowerCase()}`;
+    const sender = this.senders.get(key);
+    if (sender) {
+      return sender;
+    }
+    if (typeof wallet === "string") {
+      throw new Error(
+        `No relayer wallet registered for ${address} on chain ${chainId}`,
+      );
+    }
+
+    const state = {
+      chainId,
+      wallet,
+      nextNonce: null,
+      queue: Promise.resolve(),
+    };
+    this.senders.set(key, state);
+    return state;
+  }
+
+  private getProvider(sender: SenderState): ethers.Provider {
+    if (!sender.wallet.provider) {
+      throw new Error(`Wallet ${sender.wallet.address} has no provider`);
+    }
+    return sender.wallet.provider;
+  }
+}
@@ -1,6 +1,11 @@
-import { Controller, Get, Post } from "@nestjs/common";
+import { Body, Controller, Get, Post } from "@nestjs/common";
 import { ApiTags, ApiOperation, ApiResponse } from "@nestjs/swagger";
 import { EvmService } from "./evm.service";
+import {
+  EscrowAddressResponseDto,
+  EscrowImmutablesDto,
+  HtlcWithdrawDto,
+} from "./dto";
 
 @ApiTags("evm")
 @Controller("evm")
@@ -45,11 +50,34 @@ export class EvmController {
   @Post("htlc/withdraw")
   @ApiOperation({ summary: "Withdraw from EVM HTLC" })
   @ApiResponse({ status: 200, description: "Withdrawal successful" })
-  withdrawEvmHtlc() {
-    // TODO: Replace with actual parameters from request body
+  withdrawEvmHtlc(@Body() htlcWithdrawDto: HtlcWithdrawDto) {
     return this.evmService.withdrawEvmHtlc({
-      contractId: "0x123", // Example contract ID
-      preimage: "secret", // Example preimage
+      contractId: htlcWithdrawDto.htlcAddress,
+      preimage: htlcWithdrawDto.preimage,
+    });
+  }
+
+  @Post("escrow/address")
+  @ApiOperation({
+    summary: "Predict the address of an escrow before it is deployed",
+  })
+  @ApiResponse({
+    status: 201,
+    description: "Returns the escrow address",
+    type: EscrowAddressResponseDto,
+  })
+  predictEscrowAddress(
+    @Body() escrowImmutablesDto: EscrowImmutablesDto,
+  ): Promise<EscrowAddressResponseDto> {
+    return this.evmService.predictEscrowAddress({
+      orderHash: escrowImmutablesDto.orderHash,
+      maker: BigInt(escrowImmutablesDto.maker),
+      taker: BigInt(escrowImmutablesDto.taker),
+      token: BigInt(escrowImmutablesDto.token),
+      amount: BigInt(escrowImmutablesDto.amount),
+      secretHash: escrowImmutablesDto.secretHash,
+      safetyDeposit: BigInt(escrowImmutablesDto.safetyDeposit),
+      timelocks: { values: escrowImmutablesDto.timelocks.map(BigInt) },
     });
   }
 
@@ -1,8 +1,12 @@
 import { Module } from "@nestjs/common";
 import { EvmService } from "./evm.service";
+import { EvmTransactionService } from "./evm-transaction.service";
+import { PrismaModule } from "../prisma/prisma.module";
+import { ChainRegistryModule } from "../chains/chain-registry.module";
 
 @Module({
-  providers: [EvmService],
-  exports: [EvmService],
+  imports: [PrismaModule, ChainRegistryModule],
+  providers: [EvmService, EvmTransactionService],
+  exports: [EvmService, EvmTransactionService],
 })
-export class EvmModule {}
\ No newline at end of file
+export class EvmModule {}
@@ -1,15 +1,24 @@
 import { Injectable, Logger, OnModuleInit } from "@nestjs/common";
 import { ConfigService } from "@nestjs/config";
+import { Swap } from "@prisma/client";
 import { ethers } from "ethers";
 import * as path from "path";
 import * as fs from "fs";
+import { EscrowChainState, EvmImmutables } from "../types/escrow.types";
+import { encodeSecret } from "../hashlock/hashlock";
+import { TimelockStage } from "../timelocks/timelocks";
+import { hashImmutables, predictEscrowAddress } from "./escrow-address";
+import {
+  EvmTransactionService,
+  RelayerTxContext,
+} from "./evm-transaction.service";
+import { ChainRegistryService } from "../chains/chain-registry.service";
+import { EvmChainConfig } from "../chains/evm-chains";
 
 import * as EscrowFactory from "../../ABIs/EscrowFactory.json";
 import * as EscrowSrc from "../../ABIs/EscrowSrc.json";
 import * as FusionResolver from "../../ABIs/FusionResolver.json";
 import * as TestEvmToken from "../../ABIs/TestEvmToken.json";
-import * as EscrowFactoryAddress from "../../vars/escrow-factory-address.json";
-import * as FusionResolverAddress from "../../vars/fusion-resolver-address.json";
 import * as EvmTokenAddress from "../../vars/evm-token-address.json";
 
 interface AddressJson {
@@ -60,40 +69,114 @@ const EscrowSrcABI = EscrowSrc as unknown as ContractABI;
 const FusionResolverABI = FusionResolver as unknown as ContractABI;
 const TestEvmTokenABI = TestEvmToken as unknown as ContractABI;
 
+const ERC20_TRANSFER_ABI: ethers.InterfaceAbi = [
+  "function transfer(address to, uint256 amount) returns (bool)",
+];
+
+const ERC20_BALANCE_ABI: ethers.InterfaceAbi = [
+  "function balanceOf(address account) view returns (uint256)",
+];
+
+/**
+ * Connection and contracts of the relayer on one EVM chain
+ */
+interface EvmChainContext {
+  chain: EvmChainConfig;
+  provider: ethers.AbstractProvider;
+  wallet: ethers.Wallet;
+  escrowFactoryContract: ethers.Contract;
+  fusionResolverContract: ethers.Contract | null;
+  // Created by the factory constructor and never changes, read on first use
+  escrowImplementation: string | null;
+}
+
+/**
+ * Swap an escrow call is made for: its EVM chain, the default chain when missing,
+ * and its ID recorded in the transaction journal
+ */
+export type EvmSwapRef = {
+  id?: string;
+  evmChainId?: number | null;
+};
+
+function createProvider(chain: EvmChainConfig): ethers.AbstractProvider {
+  const providers = chain.rpcUrls.map(
+    (url) => new ethers.JsonRpcProvider(url, chain.chainId),
+  );
+  if (providers.length === 1) {
+    return providers[0];
+  }
+
+  // Endpoints are tried in their configured order, a failing one is skipped
+  return new ethers.FallbackProvider(
+    providers.map((provider, index) => ({ provider, priority: index + 1 })),
+    chain.chainId,
+    { quorum: 1 },
+  );
+}
+
 @Injectable()
 export class EvmService implements OnModuleInit {
   private readonly logger = new Logger(EvmService.name);
-  private provider: ethers.JsonRpcProvider;
+  // Connection of the default chain, used by the single-chain test helpers
+  private provider: ethers.AbstractProvider;
   private wallet: ethers.Wallet;
   private htlcContract: ethers.Contract;
-  private escrowFactoryContract: ethers.Contract;
   private escrowSrcContract: ethers.Contract;
-  private fusionResolverContract: ethers.Contract;
   private testEvmTokenContract: ethers.Contract;
+  private readonly chains = new Map<number, EvmChainContext>();
 
-  constructor(private configService: ConfigService) { }
+  constructor(
+    private configService: ConfigService,
+    private readonly evmTransactionService: EvmTransactionService,
+    private readonly chainRegistryService: ChainRegistryService,
+  ) {}
 
   async onModuleInit() {
-    const rpcUrl = this.configService.get<string>("EVM_RPC_URL");
     const relayerPrivateKey = this.configService.get<string>(
       "RELAYER_PRIVATE_KEY_EVM",
     );
+    const chains = this.chainRegistryService.getChains();
 
-    if (!rpcUrl || !relayerPrivateKey) {
+    if (chains.length === 0 || !relayerPrivateKey) {
       this.logger.error(
-        "Missing EVM configuration. Please check EVM_RPC_URL, RELAYER_PRIVATE_KEY_EVM, ESCROW_FACTORY_ADDRESS, ESCROW_SRC_ADDRESS, FUSION_RESOLVER_ADDRESS, and TEST_EVM_TOKEN_ADDRESS in your .env file.",
+        "Missing EVM configuration. Please check EVM_CHAINS (or EVM_RPC_URL) and RELAYER_PRIVATE_KEY_EVM in your .env file.",
       );
       return;
     }
 
-    this.provider = new ethers.JsonRpcProvider(rpcUrl);
-    this.wallet = new ethers.Wallet(relayerPrivateKey, this.provider);
+    // The relayer uses the same key, so the same address, on every chain
+    for (const chain of chains) {
+      const provider = createProvider(chain);
+      const wallet = new ethers.Wallet(relayerPrivateKey, provider);
+      this.evmTransactionService.registerSigner(wallet, chain.chainId);
+
+      this.chains.set(chain.chainId, {
+        chain,
+        provider,
+        wallet,
+        escrowFactoryContract: new ethers.Contract(
+          chain.escrowFactoryAddress,
+          EscrowFactoryABI.abi,
+          wallet,
+        ),
+        fusionResolverContract: chain.fusionResolverAddress
+          ? new ethers.Contract(
+              chain.fusionResolverAddress,
+              FusionResolverABI.abi,
+              wallet,
+            )
+          : null,
+        escrowImplementation: null,
+      });
+      this.logger.log(
+        `Connected to EVM chain ${chain.name} (${chain.chainId}) through ${chain.rpcUrls.length} RPC endpoint(s)`,
+      );
+    }
 
-    this.escrowFactoryContract = new ethers.Contract(
-      EscrowFactoryAddress["escrow-factory-address"],
-      EscrowFactoryABI.abi,
-      this.wallet,
-    );
+    const { provider, wallet } = this.getContext();
+    this.provider = provider;
+    this.wallet = wallet;
 
     // this.escrowSrcContract = new ethers.Contract(
     //   escrowSrcAddress,
@@ -101,19 +184,15 @@ export class EvmService implements OnModuleInit {
     //   this.wallet,
     // );
 
-    this.fusionResolverContract = new ethers.Contract(
-      FusionResolverAddress["fusion-resolver-address"],
-      FusionResolverABI.abi,
-      this.wallet,
-    );
-
     this.testEvmTokenContract = new ethers.Contract(
       EvmTokenAddress["evm-token-address"],
       TestEvmTokenABI.abi,
       this.wallet,
     );
 
-    this.logger.log(`EVM Service initialized. Connected to ${rpcUrl}`);
+    this.logger.log(
+      `EVM Service initialized on ${this.chains.size} chain(s), default ${this.chainRegistryService.getDefaultChainId()}`,
+    );
     this.logger.log(`Relayer Address: ${this.wallet.address}`);
 
     this.logger.log("Listening for HTLCCreated events...");
@@ -127,7 +206,10 @@ export class EvmService implements OnModuleInit {
       `Attempting to withdraw EVM HTLC for contract ID: ${contractId}`,
     );
     try {
-      const tx = await this.htlcContract.withdraw(contractId, preimage);
+      const tx = await this.htlcContract.withdraw(
+        contractId,
+        encodeSecret(preimage),
+      );
       this.logger.log(`Withdrawal transaction sent. Hash: ${tx.hash}`);
       await tx.wait();
       this.logger.log(
@@ -143,6 +225,333 @@ export class EvmService implements OnModuleInit {
     }
   }
 
+  /**
+   * Sends a transaction from the relayer wallet through its nonce-managed queue and journal
+   * @param request - Transaction to send, e.g. from `contract.method.populateTransaction`
+   * @param context - Purpose and swap of the transaction
+   * @param chainId - Chain to send it on, the default chain when missing
+   */
+  sendTransaction(
+    request: ethers.TransactionRequest,
+    context: RelayerTxContext,
+    chainId?: number | null,
+  ): Promise<ethers.TransactionResponse> {
+    const { chain, wallet } = this.getContext(chainId);
+    return this.evmTransactionService.send(
+      wallet,
+      chain.chainId,
+      request,
+      context,
+    );
+  }
+
+  /**
+   * Waits for a relayer transaction and records its outcome in the journal
+   * @param tx - Transaction returned by `sendTransaction`
+   * @param confirmations - Blocks to wait for, including the one holding the transaction
+   */
+  waitForTransaction(
+    tx: ethers.TransactionResponse,
+    confirmations = 1,
+  ): Promise<ethers.TransactionReceipt> {
+    return this.evmTransactionService.waitForTransaction(tx, confirmations);
+  }
+
+  /**
+   * Builds the immutables of the escrow the relayer deploys for an Aptos to EVM swap.
+   * The escrow is withdrawable right after deployment and cancellable after `timelock`.
+   * They are stored on the swap at deployment, later calls read them back with `getSwapEvmImmutables`.
+   * @param swap - Swap the escrow is deployed for
+   */
+  buildSwapImmutables(swap: Swap): EvmImmutables {
+    const deployedAt = BigInt(swap.timestamp);
+    const cancellation = BigInt(swap.timelock);
+
+    return {
+      orderHash: swap.orderHash ?? ethers.ZeroHash,
+      maker: BigInt(this.wallet.address),
+      taker: BigInt(swap.recipient),
+      token: BigInt(swap.toTokenAddress),
+      // Swaps created before the token registry lock the same amount on both chains
+      amount: BigInt(swap.dstAmount ?? swap.amount),
+      secretHash: swap.hashlock,
+      safetyDeposit: 0n,
+      timelocks: {
+        values: [
+          deployedAt, // SrcFinality
+          deployedAt, // SrcWithdrawal
+          deployedAt, // SrcPublicWithdrawal
+          cancellation, // SrcCancellation
+          cancellation, // SrcPublicCancellation
+          deployedAt, // DstFinality
+          cancellation, // DstCancellation
+          cancellation, // DstPublicCancellation
+        ],
+      },
+    };
+  }
+
+  /**
+   * Predicts the address EscrowFactory deploys an escrow at, before it is deployed
+   * @param immutables - Immutables the escrow will be deployed with
+   * @param chainId - Chain of the factory, the default chain when missing
+   * @returns Escrow address and the immutables hash it is salted with
+   */
+  async predictEscrowAddress(
+    immutables: EvmImmutables,
+    chainId?: number | null,
+  ): Promise<{ escrowAddress: string; immutablesHash: string }> {
+    const context = this.getContext(chainId);
+    if (!context.escrowImplementation) {
+      context.escrowImplementation = String(
+        await context.escrowFactoryContract.implementation(),
+      );
+    }
+
+    return {
+      escrowAddress: predictEscrowAddress(
+        context.chain.escrowFactoryAddress,
+        context.escrowImplementation,
+        immutables,
+      ),
+      immutablesHash: hashImmutables(immutables),
+    };
+  }
+
+  /**
+   * Deploys an EscrowSrc clone through EscrowFactory and funds it with the escrowed tokens
+   * @param immutables - Immutables the escrow is deployed with
+   * @param swap - Swap the escrow is deployed for
+   * @returns Escrow address and deployment transaction hash
+   * @throws Error when the escrow is not at its predicted address, it is not funded then
+   */
+  async deployEscrow(
+    immutables: EvmImmutables,
+    swap: EvmSwapRef = {},
+  ): Promise<{
+    escrowAddress: string;
+    txHash: string;
+    blockNumber: number;
+    blockHash: string;
+    logIndex: number;
+  }> {
+    const { chain, provider, wallet, escrowFactoryContract } = this.getContext(
+      swap.evmChainId,
+    );
+    this.logger.log(
+      `Deploying escrow for order ${immutables.orderHash} on chain ${chain.chainId}`,
+    );
+    const { escrowAddress: predictedAddress } =
+      await this.predictEscrowAddress(immutables, chain.chainId);
+
+    const tx = await this.sendTransaction(
+      await escrowFactoryContract.deploy.populateTransaction(immutables, {
+        value: immutables.safetyDeposit,
+      }),
+      { purpose: "escrow-deploy", swapId: swap.id },
+      chain.chainId,
+    );
+    const receipt = await this.waitForTransaction(tx);
+
+    let escrowAddress: string | undefined;
+    let logIndex = 0;
+    for (const log of receipt.logs) {
+      const parsedLog = escrowFactoryContract.interface.parseLog(log);
+      if (parsedLog?.name === "EscrowDeployed") {
+        escrowAddress = String(parsedLog.args[0]);
+        logIndex = log.index;
+        break;
+      }
+    }
+
+    if (!escrowAddress) {
+      // The address does not depend on the event, check the clone was created there
+      if ((await provider.getCode(predictedAddress)) === "0x") {
+        throw new Error(
+          `EscrowDeployed event not found in transaction ${tx.hash} and no escrow at ${predictedAddress}`,
+        );
+      }
+      escrowAddress = predictedAddress;
+    } else if (escrowAddress.toLowerCase() !== predictedAddress.toLowerCase()) {
+      // The tokens are only sent to the address the immutables commit to
+      throw new Error(
+        `Escrow deployed at ${escrowAddress} instead of ${predictedAddress} in transaction ${tx.hash}, is the factory deploying with CREATE2?`,
+      );
+    }
+
+    // EscrowFactory only forwards the safety deposit, the tokens are sent separately
+    const token = new ethers.Contract(
+      ethers.toBeHex(immutables.token, 20),
+      ERC20_TRANSFER_ABI,
+      wallet,
+    );
+    const fundingTx = await this.sendTransaction(
+      await token.transfer.populateTransaction(
+        escrowAddress,
+        immutables.amount,
+      ),
+      { purpose: "escrow-fund", swapId: swap.id },
+      chain.chainId,
+    );
+    await this.waitForTransaction(fundingTx);
+
+    this.logger.log(`Escrow deployed at ${escrowAddress} (tx: ${tx.hash})`);
+    return {
+      escrowAddress,
+      txHash: tx.hash,
+      blockNumber: receipt.blockNumber,
+      blockHash: receipt.blockHash,
+      logIndex,
+    };
+  }
+
+  /**
+   * Withdraws an EscrowSrc clone with the secret
+   * @param escrowAddress - Address of the escrow clone
+   * @param secret - 32-byte secret matching immutables.secretHash
+   * @param immutables - Immutables the escrow was deployed with
+   * @param isPublic - Use publicWithdraw (anyone, pays the taker) instead of withdraw (taker only)
+   * @param swap - Swap of the escrow
+   * @returns Withdrawal transaction hash
+   */
+  async withdrawEscrow(
+    escrowAddress: string,
+    secret: string,
+    immutables: EvmImmutables,
+    isPublic = false,
+    swap: EvmSwapRef = {},
+  ): Promise<{ txHash: string }> {
+    this.logger.log(`Withdrawing escrow ${escrowAddress}`);
+    const escrow = this.getEscrowContract(escrowAddress, swap.evmChainId);
+    const method = isPublic ? escrow.publicWithdraw : escrow.withdraw;
+
+    const tx = await this.sendTransaction(
+      await method.populateTransaction(encodeSecret(secret), immutables),
+      {
+        purpose: isPublic ? "escrow-public-withdraw" : "escrow-withdraw",
+        swapId: swap.id,
+        // The maker can cancel the escrow from then on
+        deadline: Number(
+          immutables.timelocks.values[TimelockStage.SrcCancellation],
+        ),
+      },
+      swap.evmChainId,
+    );
+    await this.waitForTransaction(tx);
+
+    this.logger.log(`Escrow ${escrowAddress} withdrawn (tx: ${tx.hash})`);
+    return { txHash: tx.hash };
+  }
+
+  /**
+   * Cancels an EscrowSrc clone, returning the tokens to the maker
+   * @param escrowAddress - Address of the escrow clone
+   * @param immutables - Immutables the escrow was deployed with
+   * @param isPublic - Use publicCancel (anyone) instead of cancel (taker only)
+   * @param confirmations - Blocks to wait for, including the one holding the cancellation
+   * @param swap - Swap of the escrow
+   * @returns Cancellation transaction hash
+   */
+  async cancelEscrow(
+    escrowAddress: string,
+    immutables: EvmImmutables,
+    isPublic = false,
+    confirmations = 1,
+    swap: EvmSwapRef = {},
+  ): Promise<{ txHash: string }> {
+    this.logger.log(`Cancelling escrow ${escrowAddress}`);
+    const escrow = this.getEscrowContract(escrowAddress, swap.evmChainId);
+    const method = isPublic ? escrow.publicCancel : escrow.cancel;
+
+    const tx = await this.sendTransaction(
+      await method.populateTransaction(immutables),
+      {
+        purpose: isPublic ? "escrow-public-cancel" : "escrow-cancel",
+        swapId: swap.id,
+        // Anyone can cancel the escrow and take its safety deposit from then on
+        deadline: isPublic
+          ? undefined
+          : Number(
+              immutables.timelocks.values[TimelockStage.SrcPublicCancellation],
+            ),
+      },
+      swap.evmChainId,
+    );
+    await this.waitForTransaction(tx, confirmations);
+
+    this.logger.log(`Escrow ${escrowAddress} cancelled (tx: ${tx.hash})`);
+    return { txHash: tx.hash };
+  }
+
+  /**
+   * Reads the state of an EscrowSrc clone from the chain
+   * @param escrowAddress - Address of the escrow clone
+   * @param chainId - Chain of the escrow, the default chain when missing
+   * @param fromBlock - Block to search for escrow events from, ideally its deployment block.
+   * The monitor start block of the chain by default
+   * @returns MISSING when no code is deployed at the address
+   */
+  async getEscrowState(
+    escrowAddress: string,
+    chainId?: number | null,
+    fromBlock?: number,
+  ): Promise<EscrowChainState> {
+    const { chain, provider } = this.getContext(chainId);
+    const code = await provider.getCode(escrowAddress);
+    if (code === "0x") {
+      return EscrowChainState.MISSING;
+    }
+
+    const escrowInterface = new ethers.Interface(EscrowSrcABI.abi);
+    const withdrawal = escrowInterface.getEvent("Withdrawal");
+    const cancelled = escrowInterface.getEvent("EscrowCancelled");
+    if (!withdrawal || !cancelled) {
+      throw new Error("EscrowSrc ABI is missing escrow events");
+    }
+
+    const logs = await provider.getLogs({
+      address: escrowAddress,
+      topics: [[withdrawal.topicHash, cancelled.topicHash]],
+      fromBlock: fromBlock ?? chain.startBlock ?? 0,
+      toBlock: "latest",
+    });
+
+    if (logs.some((log) => log.topics[0] === withdrawal.topicHash)) {
+      return EscrowChainState.WITHDRAWN;
+    }
+    if (logs.length > 0) {
+      return EscrowChainState.CANCELLED;
+    }
+    return EscrowChainState.ACTIVE;
+  }
+
+  /**
+   * Get the balance of the relayer wallet in an ERC-20 token
+   * @param tokenAddress - Token contract
+   * @param chainId - Chain ID, the default chain when missing
+   */
+  async getTokenBalance(
+    tokenAddress: string,
+    chainId?: number | null,
+  ): Promise<bigint> {
+    const { provider, wallet } = this.getContext(chainId);
+    const token = new ethers.Contract(
+      tokenAddress,
+      ERC20_BALANCE_ABI,
+      provider,
+    );
+    return (await token.balanceOf(wallet.address)) as bigint;
+  }
+
+  /**
+   * Get the price a transaction pays per gas, the max fee per gas on EIP-1559 chains
+   * @param chainId - Chain ID, the default chain when missing
+   */
+  async getGasPrice(chainId?: number | null): Promise<bigint> {
+    const feeData = await this.getContext(chainId).provider.getFeeData();
+    return feeData.maxFeePerGas ?? feeData.gasPrice ?? 0n;
+  }
+
   /**
    * Starts the EVM node
    * @returns Information about the started node
@@ -156,7 +565,7 @@ export class EvmService implements OnModuleInit {
     return {
       status: "success",
       nodeInfo: {
-        url: this.configService.get<string>("EVM_RPC_URL"),
+        url: this.getContext().chain.rpcUrls[0],
         chainId: await this.provider
           .getNetwork()
           .then((network) => network.chainId),
@@ -273,24 +682,6 @@ export class EvmService implements OnModuleInit {
     }
   }
 
-  /**
-   * Alias for withdrawEvmHtlc for compatibility with AptosPreimageHandlerService
-   * @param params Parameters for withdrawal
-   * @returns Withdrawal information
-   */
-  async withdrawFromHtlc(params: {
-    htlcId: string;
-    preimage: string;
-  }): Promise<{ success: boolean; txHash: string; error?: string }> {
-    const { htlcId, preimage } = params;
-    const result = await this.withdrawEvmHtlc({ contractId: htlcId, preimage });
-    return {
-      success: result.success,
-      txHash: result.txHash,
-      error: result.error,
-    };
-  }
-
   /**
    * Deploys the Fusion resolver contract
    * @returns Deployment information
@@ -333,22 +724,41 @@ export class EvmService implements OnModuleInit {
     return this.htlcContract;
   }
 
-  getEscrowFactoryContract(): ethers.Contract {
-    return this.escrowFactoryContract;
+  getEscrowFactoryContract(chainId?: number | null): ethers.Contract {
+    return this.getContext(chainId).escrowFactoryContract;
   }
 
   getEscrowSrcContract(): ethers.Contract {
     return this.escrowSrcContract;
   }
 
-  getFusionResolverContract(): ethers.Contract {
-    return this.fusionResolverContract;
+  getEscrowContract(
+    escrowAddress: string,
+    chainId?: number | null,
+  ): ethers.Contract {
+    return new ethers.Contract(
+      escrowAddress,
+      EscrowSrcABI.abi,
+      this.getContext(chainId).wallet,
+    );
+  }
+
+  getFusionResolverContract(chainId?: number | null): ethers.Contract {
+    const { chain, fusionResolverContract } = this.getContext(chainId);
+    if (!fusionResolverContract) {
+      throw new Error(`No FusionResolver configured on chain ${chain.chainId}`);
+    }
+    return fusionResolverContract;
   }
 
   getTestEvmTokenContract(): ethers.Contract {
     return this.testEvmTokenContract;
   }
 
+  getProvider(chainId?: number | null): ethers.AbstractProvider {
+    return this.getContext(chainId).provider;
+  }
+
   getWalletAddress(): string {
     return this.wallet.address;
   }
@@ -356,4 +766,30 @@ export class EvmService implements OnModuleInit {
   getEscrowFactoryAbi(): ethers.InterfaceAbi {
     return EscrowFactory.abi;
   }
+
+  getEscrowSrcAbi(): ethers.InterfaceAbi {
+    return EscrowSrcABI.abi;
+  }
+
+  getEscrowFactoryAddress(chainId?: number | null): string {
+    return this.getContext(chainId).chain.escrowFactoryAddress;
+  }
+
+  /**
+   * Get the configuration of an EVM chain
+   * @param chainId - Chain ID, the default chain when missing
+   * @throws ChainRegistryError when the chain is not configured
+   */
+  getChain(chainId?: number | null): EvmChainConfig {
+    return this.chainRegistryService.getChain(chainId);
+  }
+
+  private getContext(chainId?: number | null): EvmChainContext {
+    const { chainId: id } = this.chainRegistryService.getChain(chainId);
+    const context = this.chains.get(id);
+    if (!context) {
+      throw new Error(`EVM chain ${id} is not connected`);
+    }
+    return context;
+  }
 }
@@ -0,0 +1,111 @@
+import {
+  FEE_HISTORY_PERCENTILES,
+  FeeHistory,
+  FeeUrgency,
+  bumpFees,
+  estimateFees,
+  parseFeeHistory,
+  replacementDelay,
+  urgencyForDeadline,
+} from "./fee-strategy";
+
+const GWEI = 1_000_000_000n;
+
+// Rewards in gwei per block, one column per FEE_HISTORY_PERCENTILES entry
+const HISTORY: FeeHistory = {
+  baseFeePerGas: [10n * GWEI, 11n * GWEI, 12n * GWEI, 20n * GWEI],
+  reward: [
+    [1n * GWEI, 2n * GWEI, 3n * GWEI, 4n * GWEI],
+    [1n * GWEI, 2n * GWEI, 5n * GWEI, 50n * GWEI],
+    [1n * GWEI, 3n * GWEI, 4n * GWEI, 6n * GWEI],
+  ],
+};
+
+describe("fee-strategy", () => {
+  it("decodes an eth_feeHistory result", () => {
+    expect(
+      parseFeeHistory({
+        baseFeePerGas: ["0x3b9aca00", "0x77359400"],
+        reward: [["0x1", "0x2", "0x3", "0x4"]],
+      }),
+    ).toEqual({
+      baseFeePerGas: [GWEI, 2n * GWEI],
+      reward: [[1n, 2n, 3n, 4n]],
+    });
+    expect(parseFeeHistory({ baseFeePerGas: ["0x1"] }).reward).toEqual([]);
+    expect(FEE_HISTORY_PERCENTILES).toEqual([10, 50, 75, 90]);
+  });
+
+  it("raises the urgency as the deadline gets closer", () => {
+    const now = 1_700_000_000;
+
+    expect(urgencyForDeadline(undefined, now)).toBe(FeeUrgency.NORMAL);
+    expect(urgencyForDeadline(now + 24 * 3600, now)).toBe(FeeUrgency.LOW);
+    expect(urgencyForDeadline(now + 3600, now)).toBe(FeeUrgency.NORMAL);
+    expect(urgencyForDeadline(now + 600, now)).toBe(FeeUrgency.HIGH);
+    expect(urgencyForDeadline(now + 60, now)).toBe(FeeUrgency.CRITICAL);
+    expect(urgencyForDeadline(now - 60, now)).toBe(FeeUrgency.CRITICAL);
+    expect(replacementDelay(FeeUrgency.CRITICAL)).toBeLessThan(
+      replacementDelay(FeeUrgency.LOW),
+    );
+  });
+
+  it("estimates fees from the next base fee and the median reward", () => {
+    expect(estimateFees(HISTORY, FeeUrgency.NORMAL)).toEqual({
+      maxFeePerGas: 2n * 20n * GWEI + 2n * GWEI,
+      maxPriorityFeePerGas: 2n * GWEI,
+    });
+    // The 50 gwei outlier is ignored
+    expect(estimateFees(HISTORY, FeeUrgency.CRITICAL)).toEqual({
+      maxFeePerGas: 3n * 20n * GWEI + 6n * GWEI,
+      maxPriorityFeePerGas: 6n * GWEI,
+    });
+    expect(
+      estimateFees({ ...HISTORY, reward: [] }, FeeUrgency.LOW)
+        .maxPriorityFeePerGas,
+    ).toBe(GWEI / 10n);
+    expect(estimateFees(HISTORY, FeeUrgency.CRITICAL, 30n * GWEI)).toEqual({
+      maxFeePerGas: 30n * GWEI,
+      maxPriorityFeePerGas: 6n * GWEI,
+    });
+    expect(() =>
+      estimateFees({ baseFeePerGas: [], reward: [] }, FeeUrgency.LOW),
+    ).toThrow();
+  });
+
+  it("bumps replacements by at least 12.5%", () => {
+    const previous = {
+      maxFeePerGas: 40n * GWEI,
+      maxPriorityFeePerGas: 2n * GWEI,
+    };
+
+    // The market did not move, only the minimum bump applies
+    expect(bumpFees(previous, previous)).toEqual({
+      maxFeePerGas: 45n * GWEI,
+      maxPriorityFeePerGas: 2_250_000_000n,
+    });
+    // The market moved more than the minimum bump
+    expect(
+      bumpFees(previous, {
+        maxFeePerGas: 80n * GWEI,
+        maxPriorityFeePerGas: 5n * GWEI,
+      }),
+    ).toEqual({ maxFeePerGas: 80n * GWEI, maxPriorityFeePerGas: 5n * GWEI });
+  });
+
+  it("gives up a replacement the cap leaves no room for", () => {
+    const previous = {
+      maxFeePerGas: 40n * GWEI,
+      maxPriorityFeePerGas: 2n * GWEI,
+    };
+
+    expect(bumpFees(previous, previous, 44n * GWEI)).toBeNull();
+    expect(
+      bumpFees(
+        previous,
+        { maxFeePerGas: 80n * GWEI, maxPriorityFeePerGas: 5n * GWEI },
+        50n * GWEI,
+      ),
+    ).toEqual({ maxFeePerGas: 50n * GWEI, maxPriorityFeePerGas: 5n * GWEI });
+  });
+});
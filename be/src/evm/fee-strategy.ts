@@ -0,0 +1,222 @@
+/**
+ * EIP-1559 fee strategy of the relayer EVM transactions.
+ *
+ * Fees are estimated from `eth_feeHistory` over the last blocks, at an urgency derived from
+ * the time left before the TimelocksLib stage closing the window of the transaction.
+ * A transaction still pending after the replacement delay of its urgency is sent again with
+ * the same nonce and bumped fees.
+ */
+
+export enum FeeUrgency {
+  LOW = "low",
+  NORMAL = "normal",
+  HIGH = "high",
+  CRITICAL = "critical",
+}
+
+interface UrgencyProfile {
+  // Percentile of the priority fees paid in the recent blocks
+  rewardPercentile: number;
+  // Headroom over the next base fee, in percent, for the base fee rising while pending
+  baseFeeMultiplier: bigint;
+  // Seconds a transaction may stay pending before it is replaced
+  replaceAfter: number;
+}
+
+const URGENCY_PROFILES: Record<FeeUrgency, UrgencyProfile> = {
+  [FeeUrgency.LOW]: {
+    rewardPercentile: 10,
+    baseFeeMultiplier: 125n,
+    replaceAfter: 180,
+  },
+  [FeeUrgency.NORMAL]: {
+    rewardPercentile: 50,
+    baseFeeMultiplier: 200n,
+    replaceAfter: 90,
+  },
+  [FeeUrgency.HIGH]: {
+    rewardPercentile: 75,
+    baseFeeMultiplier: 200n,
+    replaceAfter: 30,
+  },
+  [FeeUrgency.CRITICAL]: {
+    rewardPercentile: 90,
+    baseFeeMultiplier: 300n,
+    replaceAfter: 12,
+  },
+};
+
+/**
+ * Time left before the deadline under which a transaction gets each urgency, in seconds
+ */
+const URGENCY_THRESHOLDS: Array<[number, FeeUrgency]> = [
+  [5 * 60, FeeUrgency.CRITICAL],
+  [30 * 60, FeeUrgency.HIGH],
+  [2 * 60 * 60, FeeUrgency.NORMAL],
+];
+
+/**
+ * Blocks and percentiles requested from `eth_feeHistory`
+ */
+export const FEE_HISTORY_BLOCKS = 10;
+export const FEE_HISTORY_PERCENTILES = Object.values(URGENCY_PROFILES).map(
+  (profile) => profile.rewardPercentile,
+);
+
+// Nodes reject a tip of 0 on most chains, and geth a replacement paying less than 10% more
+const MIN_PRIORITY_FEE = 100_000_000n; // 0.1 gwei
+const REPLACEMENT_BUMP_PERMILLE = 1125n;
+
+export interface Eip1559Fees {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+/**
+ * `eth_feeHistory` result with its quantities decoded
+ */
+export interface FeeHistory {
+  // One entry per block, plus the base fee of the next block
+  baseFeePerGas: bigint[];
+  // One entry per block, one value per requested percentile
+  reward: bigint[][];
+}
+
+/**
+ * Decode an `eth_feeHistory` JSON-RPC result
+ * @param result - Raw result with hex quantities
+ */
+export function parseFeeHistory(result: {
+  baseFeePerGas: string[];
+  reward?: string[][];
+}): FeeHistory {
+  return {
+    baseFeePerGas: result.baseFeePerGas.map((fee) => BigInt(fee)),
+    reward: (result.reward ?? []).map((rewards) =>
+      rewards.map((reward) => BigInt(reward)),
+    ),
+  };
+}
+
+/**
+ * Urgency of a transaction from the time left before its deadline
+ * @param deadline - Unix time the transaction must be mined by, none for transactions without one
+ * @param now - Current unix time
+ */
+export function urgencyForDeadline(
+  deadline: number | undefined,
+  now: number,
+): FeeUrgency {
+  if (deadline === undefined) {
+    return FeeUrgency.NORMAL;
+  }
+
+  const timeLeft = deadline - now;
+  const threshold = URGENCY_THRESHOLDS.find(([limit]) => timeLeft <= limit);
+  return threshold ? threshold[1] : FeeUrgency.LOW;
+}
+
+/**
+ * Seconds a transaction of this urgency may stay pending before it is replaced
+ */
+export function replacementDelay(urgency: FeeUrgency): number {
+  return URGENCY_PROFILES[urgency].replaceAfter;
+}
+
+function median(values: bigint[]): bigint {
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+function max(a: bigint, b: bigint): bigint {
+  return a > b ? a : b;
+}
+
+/**
+ * Estimate the fees of a transaction from the recent blocks
+ * @param history - Fee history requested with FEE_HISTORY_PERCENTILES
+ * @param urgency - Urgency of the transaction
+ * @param maxFeeCap - Highest maxFeePerGas the relayer pays
+ */
+export function estimateFees(
+  history: FeeHistory,
+  urgency: FeeUrgency,
+  maxFeeCap?: bigint,
+): Eip1559Fees {
+  const profile = URGENCY_PROFILES[urgency];
+  const percentileIndex = FEE_HISTORY_PERCENTILES.indexOf(
+    profile.rewardPercentile,
+  );
+
+  const nextBaseFee = history.baseFeePerGas[history.baseFeePerGas.length - 1];
+  if (nextBaseFee === undefined) {
+    throw new Error("Fee history has no base fee");
+  }
+
+  // The median over the blocks ignores the odd block full of high tips
+  const rewards = history.reward
+    .map((rewards) => rewards[percentileIndex])
+    .filter((reward) => reward !== undefined);
+  const maxPriorityFeePerGas = max(
+    rewards.length > 0 ? median(rewards) : MIN_PRIORITY_FEE,
+    MIN_PRIORITY_FEE,
+  );
+
+  return capFees(
+    {
+      maxFeePerGas:
+        (nextBaseFee * profile.baseFeeMultiplier) / 100n + maxPriorityFeePerGas,
+      maxPriorityFeePerGas,
+    },
+    maxFeeCap,
+  );
+}
+
+/**
+ * Fees of a same-nonce replacement, at least the minimum bump nodes accept over the previous fees
+ * @param previous - Fees of the pending transaction
+ * @param estimate - Fees estimated for the current urgency
+ * @param maxFeeCap - Highest maxFeePerGas the relayer pays
+ * @returns null when the cap leaves no room for an accepted replacement
+ */
+export function bumpFees(
+  previous: Eip1559Fees,
+  estimate: Eip1559Fees,
+  maxFeeCap?: bigint,
+): Eip1559Fees | null {
+  const minMaxFee = (previous.maxFeePerGas * REPLACEMENT_BUMP_PERMILLE) / 1000n;
+  const minPriorityFee =
+    (previous.maxPriorityFeePerGas * REPLACEMENT_BUMP_PERMILLE) / 1000n;
+
+  if (maxFeeCap !== undefined && minMaxFee > maxFeeCap) {
+    return null;
+  }
+
+  const maxPriorityFeePerGas = max(
+    estimate.maxPriorityFeePerGas,
+    minPriorityFee,
+  );
+  return capFees(
+    {
+      maxFeePerGas: max(
+        max(estimate.maxFeePerGas, minMaxFee),
+        maxPriorityFeePerGas,
+      ),
+      maxPriorityFeePerGas,
+    },
+    maxFeeCap,
+  );
+}
+
+function capFees(fees: Eip1559Fees, maxFeeCap?: bigint): Eip1559Fees {
+  if (maxFeeCap === undefined || fees.maxFeePerGas <= maxFeeCap) {
+    return fees;
+  }
+  return {
+    maxFeePerGas: maxFeeCap,
+    maxPriorityFeePerGas:
+      fees.maxPriorityFeePerGas < maxFeeCap
+        ? fees.maxPriorityFeePerGas
+        : maxFeeCap,
+  };
+}
@@ -0,0 +1,12 @@
+import { Module } from "@nestjs/common";
+import { PrismaModule } from "../prisma/prisma.module";
+import { SwapStateModule } from "../swap-state/swap-state.module";
+import { ChainRegistryModule } from "../chains/chain-registry.module";
+import { FinalityService } from "./finality.service";
+
+@Module({
+  imports: [PrismaModule, SwapStateModule, ChainRegistryModule],
+  providers: [FinalityService],
+  exports: [FinalityService],
+})
+export class FinalityModule {}
@@ -0,0 +1,254 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import {
+  ChainObservation,
+  ObservationStatus,
+  Prisma,
+  SwapDirection,
+  SwapStatus,
+} from "@prisma/client";
+import { PrismaService } from "../prisma/prisma.service";
+import { SwapStateMachineService } from "../swap-state/swap-state-machine.service";
+import { TimelockStage } from "../timelocks/timelocks";
+import { ChainRegistryService } from "../chains/chain-registry.service";
+import { getObservedBlock } from "./observations";
+
+export type FinalityChain = "evm" | "aptos";
+
+/**
+ * Aptos has deterministic finality, EVM chains need a few blocks on top,
+ * configured per chain in the chain registry
+ */
+const DEFAULT_APTOS_CONFIRMATIONS = 0;
+
+/**
+ * On-chain fact the relayer acted on, or will act on once it is final
+ */
+export interface ObservationInput {
+  chain: FinalityChain;
+  // EVM chain ID, the default chain when missing
+  chainId?: number;
+  kind: string;
+  blockNumber: number | bigint;
+  blockHash: string;
+  txHash: string;
+  logIndex: number;
+  payload?: object;
+  // Swap transition derived from the observation, undone if its block is orphaned
+  swapId?: string;
+  fromStatus?: SwapStatus;
+  toStatus?: SwapStatus;
+  rollbackData?: Prisma.InputJsonValue;
+}
+
+/**
+ * Tracks chain observations until they reach the confirmation depth of their chain.
+ *
+ * The depth is the block-based counterpart of the `SrcFinality` / `DstFinality`
+ * timelock stages: an observation on the source chain of a swap is final at
+ * `SrcFinality`, one on the destination chain at `DstFinality`.
+ * Each EVM chain of the registry has its own depth.
+ */
+@Injectable()
+export class FinalityService {
+  private readonly logger = new Logger(FinalityService.name);
+  private readonly aptosConfirmations: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly prismaService: PrismaService,
+    private readonly swapStateMachine: SwapStateMachineService,
+    private readonly chainRegistryService: ChainRegistryService,
+  ) {
+    this.aptosConfirmations = this.readConfirmations("APTOS_CONFIRMATIONS");
+  }
+
+  private readConfirmations(key: string): number {
+    const value = this.configService.get<string>(key);
+    if (value === undefined || value === "") {
+      return DEFAULT_APTOS_CONFIRMATIONS;
+    }
+
+    const confirmations = Number(value);
+    if (!Number.isInteger(confirmations) || confirmations < 0) {
+      throw new Error(`${key} must be a non-negative integer, got ${value}`);
+    }
+    return confirmations;
+  }
+
+  /**
+   * Get the number of blocks an observation needs, including its own, before it is final
+   * @param chainId - EVM chain ID, the default chain when missing
+   */
+  getConfirmations(chain: FinalityChain, chainId?: number | null): number {
+    return chain === "evm"
+      ? this.chainRegistryService.getChain(chainId).confirmations
+      : this.aptosConfirmations;
+  }
+
+  /**
+   * Get the timelock stage that stands for the finality of a chain in a swap
+   * @param direction - Swap direction
+   * @param chain - Chain holding the observed escrow
+   */
+  getFinalityStage(
+    direction: SwapDirection,
+    chain: FinalityChain,
+  ): TimelockStage.SrcFinality | TimelockStage.DstFinality {
+    const srcChain: FinalityChain =
+      direction === SwapDirection.EVM_TO_APTOS ? "evm" : "aptos";
+
+    return chain === srcChain
+      ? TimelockStage.SrcFinality
+      : TimelockStage.DstFinality;
+  }
+
+  /**
+   * Check whether a block is deep enough below the chain head
+   * @param chainId - EVM chain ID, the default chain when missing
+   */
+  isFinal(
+    chain: FinalityChain,
+    blockNumber: number | bigint,
+    headBlock: number | bigint,
+    chainId?: number | null,
+  ): boolean {
+    return (
+      BigInt(headBlock) - BigInt(blockNumber) + 1n >=
+      BigInt(this.getConfirmations(chain, chainId))
+    );
+  }
+
+  /**
+   * Record an observation as pending.
+   * Seeing the same event again keeps its status, unless it was re-included in another
+   * block after a reorg: it is then pending in its new block, see getObservedBlock.
+   */
+  async recordObservation(input: ObservationInput): Promise<ChainObservation> {
+    const { chain, kind, txHash, logIndex } = input;
+    const where = {
+      chain_kind_txHash_logIndex: { chain, kind, txHash, logIndex },
+    };
+    const recorded = await this.prismaService.chainObservation.findUnique({
+      where,
+      select: { blockNumber: true, blockHash: true, status: true },
+    });
+    const block = getObservedBlock(recorded, {
+      blockNumber: BigInt(input.blockNumber),
+      blockHash: input.blockHash,
+    });
+
+    return this.prismaService.chainObservation.upsert({
+      where,
+      create: {
+        ...input,
+        ...block,
+        payload: input.payload as Prisma.InputJsonValue | undefined,
+      },
+      update: block,
+    });
+  }
+
+  /**
+   * Get the pending observations of a chain, oldest block first
+   * @param chainId - EVM chain ID, every EVM chain when missing
+   */
+  async getPendingObservations(
+    chain: FinalityChain,
+    chainId?: number,
+  ): Promise<ChainObservation[]> {
+    // Observations made before the chain registry belong to the default chain
+    const chainIds =
+      chainId === undefined
+        ? undefined
+        : chainId === this.chainRegistryService.getDefaultChainId()
+          ? [{ chainId }, { chainId: null }]
+          : [{ chainId }];
+
+    return this.prismaService.chainObservation.findMany({
+      where: { chain, status: ObservationStatus.PENDING, OR: chainIds },
+      orderBy: [{ blockNumber: "asc" }, { logIndex: "asc" }],
+    });
+  }
+
+  async confirmObservation(observation: ChainObservation): Promise<void> {
+    await this.prismaService.chainObservation.update({
+      where: { id: observation.id },
+      data: { status: ObservationStatus.CONFIRMED },
+    });
+  }
+
+  /**
+   * Mark an observation as orphaned and undo the swap transition derived from it
+   */
+  async orphanObservation(observation: ChainObservation): Promise<void> {
+    await this.prismaService.chainObservation.update({
+      where: { id: observation.id },
+      data: { status: ObservationStatus.ORPHANED },
+    });
+
+    this.logger.warn(
+      `${observation.kind} in tx ${observation.txHash} was orphaned from block ${observation.blockNumber}`,
+    );
+
+    const { swapId, fromStatus, toStatus } = observation;
+    if (!swapId || !fromStatus || !toStatus) {
+      return;
+    }
+
+    try {
+      await this.swapStateMachine.rollback(
+        swapId,
+        toStatus,
+        fromStatus,
+        {
+          actor: FinalityService.name,
+          reason: `Block ${observation.blockNumber} (${observation.blockHash}) was orphaned`,
+          txHash: observation.txHash,
+        },
+        (observation.rollbackData ?? {}) as Prisma.SwapUpdateManyMutationInput,
+      );
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.error(
+        `Failed to roll back swap ${swapId} after reorg: ${errorMessage}`,
+      );
+    }
+  }
+
+  /**
+   * Get the confirmed observation of a kind by a field of its payload, e.g. the withdrawal of an escrow
+   * @param field - Payload field to match
+   * @param value - Value of the field
+   */
+  async findConfirmedObservation(
+    kind: string,
+    field: string,
+    value: string,
+  ): Promise<ChainObservation | null> {
+    return this.prismaService.chainObservation.findFirst({
+      where: {
+        kind,
+        status: ObservationStatus.CONFIRMED,
+        payload: { path: [field], equals: value },
+      },
+      orderBy: { blockNumber: "desc" },
+    });
+  }
+
+  /**
+   * Check whether an observation of a swap reached its confirmation depth
+   * @param txHash - Transaction of the observation, when the swap has several of the kind
+   */
+  async isConfirmed(
+    swapId: string,
+    kind: string,
+    txHash?: string,
+  ): Promise<boolean> {
+    const count = await this.prismaService.chainObservation.count({
+      where: { swapId, kind, txHash, status: ObservationStatus.CONFIRMED },
+    });
+    return count > 0;
+  }
+}
@@ -0,0 +1,54 @@
+import { ObservationStatus } from "@prisma/client";
+import { getObservedBlock } from "./observations";
+
+const BLOCK = { blockNumber: 100n, blockHash: "0xaaa" };
+const REORGED_BLOCK = { blockNumber: 101n, blockHash: "0xbbb" };
+
+describe("observed blocks", () => {
+  it("records a new event as pending", () => {
+    expect(getObservedBlock(null, BLOCK)).toEqual({
+      ...BLOCK,
+      status: ObservationStatus.PENDING,
+    });
+  });
+
+  it("keeps the status of an event seen again in the same block", () => {
+    for (const status of [
+      ObservationStatus.PENDING,
+      ObservationStatus.CONFIRMED,
+    ]) {
+      expect(getObservedBlock({ ...BLOCK, status }, BLOCK)).toEqual({
+        ...BLOCK,
+        status,
+      });
+    }
+  });
+
+  it("does not confirm an event again when a rescan goes over it", () => {
+    const confirmed = { ...BLOCK, status: ObservationStatus.CONFIRMED };
+
+    // Only pending observations are confirmed, and their events emitted
+    expect(getObservedBlock(confirmed, BLOCK).status).not.toBe(
+      ObservationStatus.PENDING,
+    );
+  });
+
+  it("moves an event re-included after a reorg to its new block", () => {
+    for (const status of [
+      ObservationStatus.PENDING,
+      ObservationStatus.CONFIRMED,
+      ObservationStatus.ORPHANED,
+    ]) {
+      expect(getObservedBlock({ ...BLOCK, status }, REORGED_BLOCK)).toEqual({
+        ...REORGED_BLOCK,
+        status: ObservationStatus.PENDING,
+      });
+    }
+  });
+
+  it("tracks an event back in the block it was orphaned from again", () => {
+    expect(
+      getObservedBlock({ ...BLOCK, status: ObservationStatus.ORPHANED }, BLOCK),
+    ).toEqual({ ...BLOCK, status: ObservationStatus.PENDING });
+  });
+});
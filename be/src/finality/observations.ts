@@ -0,0 +1,35 @@
+import { ObservationStatus } from "@prisma/client";
+
+/**
+ * Block of an observation and its finality status
+ */
+export type ObservedBlock = {
+  blockNumber: bigint;
+  blockHash: string;
+  status: ObservationStatus;
+};
+
+/**
+ * Get the block to record for an event seen on-chain.
+ *
+ * A new event is pending. Seeing a recorded event again in the same block, e.g. when a
+ * rescan after a reorg or a restart goes over it, keeps its status: a confirmed observation
+ * was already acted on and must not be confirmed again. An event seen in another block, or
+ * back in a block it was orphaned from, is pending again in that block.
+ * @param recorded - Block the event was recorded in, if any
+ * @param seen - Block the event was just seen in
+ */
+export function getObservedBlock(
+  recorded: ObservedBlock | null,
+  seen: Omit<ObservedBlock, "status">,
+): ObservedBlock {
+  if (
+    recorded &&
+    recorded.blockHash === seen.blockHash &&
+    recorded.status !== ObservationStatus.ORPHANED
+  ) {
+    return recorded;
+  }
+
+  return { ...seen, status: ObservationStatus.PENDING };
+}
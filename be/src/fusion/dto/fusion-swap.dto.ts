@@ -6,6 +6,7 @@ import {
   IsOptional,
   IsBoolean,
 } from "class-validator";
+import { IsHashlock, IsSecret } from "../../hashlock/hashlock.validators";
 import { SwapStatusDto } from "../../shared/dto/swap.dto";
 
 export class FusionSwapParamsDto {
@@ -68,7 +69,7 @@ export class FusionSwapParamsDto {
       "0x4444444444444444444444444444444444444444444444444444444444444444",
     required: false,
   })
-  @IsString()
+  @IsSecret()
   @IsOptional()
   readonly preimage?: string;
 }
@@ -105,7 +106,7 @@ export class FusionSwapResultDto {
     example:
       "0x7777777777777777777777777777777777777777777777777777777777777777",
   })
-  @IsString()
+  @IsHashlock()
   readonly hashlock: string;
 
   @ApiProperty({
@@ -114,7 +115,7 @@ export class FusionSwapResultDto {
       "0x8888888888888888888888888888888888888888888888888888888888888888",
     required: false,
   })
-  @IsString()
+  @IsSecret()
   @IsOptional()
   readonly preimage?: string;
 
@@ -272,7 +273,7 @@ export class CompleteSwapResultDto {
     example:
       "0x8888888888888888888888888888888888888888888888888888888888888888",
   })
-  @IsString()
+  @IsSecret()
   readonly preimage: string;
 
   @ApiProperty({
@@ -280,7 +281,7 @@ export class CompleteSwapResultDto {
     example:
       "0x7777777777777777777777777777777777777777777777777777777777777777",
   })
-  @IsString()
+  @IsHashlock()
   readonly hashlock: string;
 
   @ApiProperty({
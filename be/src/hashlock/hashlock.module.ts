@@ -0,0 +1,8 @@
+import { Module } from "@nestjs/common";
+import { HashlockService } from "./hashlock.service";
+
+@Module({
+  providers: [HashlockService],
+  exports: [HashlockService],
+})
+export class HashlockModule {}
@@ -0,0 +1,67 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import {
+  DEFAULT_HASHLOCK_ALGORITHMS,
+  HashlockAlgorithm,
+  HashlockChain,
+  hashSecret,
+  isHashlockAlgorithm,
+  verifySecret,
+} from "./hashlock";
+
+/**
+ * Resolves the hashlock algorithm of each chain from configuration.
+ * EVM_HASHLOCK_ALGORITHM and APTOS_HASHLOCK_ALGORITHM default to what
+ * EscrowSrc and escrow_dst verify and only need changing with the contracts.
+ */
+@Injectable()
+export class HashlockService {
+  private readonly logger = new Logger(HashlockService.name);
+  private readonly algorithms: Record<HashlockChain, HashlockAlgorithm>;
+
+  constructor(private readonly configService: ConfigService) {
+    this.algorithms = {
+      evm: this.readAlgorithm("EVM_HASHLOCK_ALGORITHM", "evm"),
+      aptos: this.readAlgorithm("APTOS_HASHLOCK_ALGORITHM", "aptos"),
+    };
+  }
+
+  getAlgorithm(chain: HashlockChain): HashlockAlgorithm {
+    return this.algorithms[chain];
+  }
+
+  /**
+   * Compute the hashlock a chain's escrow expects for a secret
+   */
+  hashFor(chain: HashlockChain, secret: string): string {
+    return hashSecret(secret, this.algorithms[chain]);
+  }
+
+  /**
+   * Check a secret against the hashlock of a chain's escrow
+   */
+  verifyFor(chain: HashlockChain, secret: string, hashlock: string): boolean {
+    return verifySecret(secret, hashlock, this.algorithms[chain]);
+  }
+
+  private readAlgorithm(key: string, chain: HashlockChain): HashlockAlgorithm {
+    const value = this.configService.get<string>(key);
+    if (!value) {
+      return DEFAULT_HASHLOCK_ALGORITHMS[chain];
+    }
+
+    if (!isHashlockAlgorithm(value)) {
+      throw new Error(
+        `Invalid ${key}: ${value}. Expected one of ${Object.values(HashlockAlgorithm).join(", ")}`,
+      );
+    }
+
+    if (value !== DEFAULT_HASHLOCK_ALGORITHMS[chain]) {
+      this.logger.warn(
+        `${key}=${value} differs from the ${chain} escrow contract default ${DEFAULT_HASHLOCK_ALGORITHMS[chain]}`,
+      );
+    }
+
+    return value;
+  }
+}
@@ -0,0 +1,48 @@
+import {
+  HashlockAlgorithm,
+  createChainHashlocks,
+  encodeSecret,
+  generateSecret,
+  hashSecret,
+  verifySecret,
+} from "./hashlock";
+
+const ZERO_SECRET = `0x${"00".repeat(32)}`;
+
+describe("hashlock", () => {
+  it("hashes like EscrowSrc (keccak256 over bytes32)", () => {
+    expect(hashSecret(ZERO_SECRET, HashlockAlgorithm.KECCAK256)).toBe(
+      "0x290decd9548b62a8d60345a988386fc84ba6bc95484008f6362f93160ef3e563",
+    );
+  });
+
+  it("hashes like escrow_dst (sha3_256 over the raw bytes)", () => {
+    expect(hashSecret(ZERO_SECRET, HashlockAlgorithm.SHA3_256)).toBe(
+      "0x9e6291970cb44dd94008c79bcaf9d86f18b4b49ba5b2a04781db7199ed3b9e4e",
+    );
+  });
+
+  it("normalizes hex secrets and rejects text secrets", () => {
+    expect(encodeSecret("AB".repeat(32))).toBe(`0x${"ab".repeat(32)}`);
+    expect(() => encodeSecret("secret")).toThrow();
+    expect(() => encodeSecret("0x1234")).toThrow();
+  });
+
+  it("verifies generated secrets against both chain hashlocks", () => {
+    const { secret, evmHashlock, aptosHashlock } =
+      createChainHashlocks(generateSecret());
+
+    expect(verifySecret(secret, evmHashlock, HashlockAlgorithm.KECCAK256)).toBe(
+      true,
+    );
+    expect(
+      verifySecret(secret, aptosHashlock, HashlockAlgorithm.SHA3_256),
+    ).toBe(true);
+    expect(verifySecret(secret, evmHashlock, HashlockAlgorithm.SHA3_256)).toBe(
+      false,
+    );
+    expect(
+      verifySecret("secret", evmHashlock, HashlockAlgorithm.KECCAK256),
+    ).toBe(false);
+  });
+});
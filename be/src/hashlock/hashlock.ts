@@ -0,0 +1,156 @@
+import * as crypto from "crypto";
+import { ethers } from "ethers";
+
+/**
+ * Hashlock scheme shared by the backend and the scripts.
+ *
+ * A secret is always 32 raw bytes, written as a 0x-prefixed hex string.
+ * EscrowSrc takes it as `bytes32` and checks `keccak256(abi.encodePacked(secret))`,
+ * escrow_dst takes it as `vector<u8>` and checks `hash::sha3_256(secret)`,
+ * so each chain gets its own hashlock of the same secret.
+ */
+
+export enum HashlockAlgorithm {
+  KECCAK256 = "keccak256",
+  SHA3_256 = "sha3_256",
+}
+
+export type HashlockChain = "evm" | "aptos";
+
+/**
+ * Algorithms verified by the deployed contracts
+ */
+export const DEFAULT_HASHLOCK_ALGORITHMS: Record<
+  HashlockChain,
+  HashlockAlgorithm
+> = {
+  evm: HashlockAlgorithm.KECCAK256,
+  aptos: HashlockAlgorithm.SHA3_256,
+};
+
+export const SECRET_LENGTH = 32;
+
+const BYTES32_REGEX = /^0x[0-9a-fA-F]{64}$/;
+
+export type ChainHashlocks = {
+  secret: string;
+  evmHashlock: string;
+  aptosHashlock: string;
+};
+
+/**
+ * Generate a random secret
+ * @returns 0x-prefixed hex of 32 random bytes
+ */
+export function generateSecret(): string {
+  return ethers.hexlify(crypto.randomBytes(SECRET_LENGTH));
+}
+
+/**
+ * Normalize a secret to its canonical encoding.
+ * Hex without the 0x prefix is accepted, text secrets are not:
+ * hashing their UTF-8 bytes is what made preimages disagree between chains.
+ * @param secret - Secret as hex string or raw bytes
+ * @returns Lowercase 0x-prefixed hex of 32 bytes
+ * @throws Error when the secret is not exactly 32 bytes of hex
+ */
+export function encodeSecret(secret: string | Uint8Array): string {
+  const hex =
+    typeof secret === "string"
+      ? secret.startsWith("0x")
+        ? secret
+        : `0x${secret}`
+      : ethers.hexlify(secret);
+
+  if (!BYTES32_REGEX.test(hex)) {
+    throw new Error(`Secret must be ${SECRET_LENGTH} bytes of hex`);
+  }
+
+  return hex.toLowerCase();
+}
+
+/**
+ * Decode a secret into the raw bytes submitted on-chain
+ */
+export function decodeSecret(secret: string): Uint8Array {
+  return ethers.getBytes(encodeSecret(secret));
+}
+
+export function isSecret(value: unknown): value is string {
+  return typeof value === "string" && BYTES32_REGEX.test(value);
+}
+
+export function isHashlock(value: unknown): value is string {
+  return typeof value === "string" && BYTES32_REGEX.test(value);
+}
+
+export function isHashlockAlgorithm(
+  value: unknown,
+): value is HashlockAlgorithm {
+  return Object.values(HashlockAlgorithm).includes(value as HashlockAlgorithm);
+}
+
+/**
+ * Hash a secret into a hashlock
+ * @param secret - Secret in any encoding accepted by `encodeSecret`
+ * @param algorithm - Hash function verified by the target contract
+ * @returns Lowercase 0x-prefixed hex hashlock
+ */
+export function hashSecret(
+  secret: string | Uint8Array,
+  algorithm: HashlockAlgorithm,
+): string {
+  const bytes = ethers.getBytes(encodeSecret(secret));
+
+  switch (algorithm) {
+    case HashlockAlgorithm.KECCAK256:
+      return ethers.keccak256(bytes);
+    case HashlockAlgorithm.SHA3_256:
+      return `0x${crypto.createHash("sha3-256").update(bytes).digest("hex")}`;
+    default:
+      throw new Error(`Unsupported hashlock algorithm: ${String(algorithm)}`);
+  }
+}
+
+/**
+ * Check a secret against a hashlock. Malformed secrets never match.
+ */
+export function verifySecret(
+  secret: string,
+  hashlock: string,
+  algorithm: HashlockAlgorithm,
+): boolean {
+  if (!isHashlock(hashlock)) {
+    return false;
+  }
+
+  let encoded: string;
+  try {
+    encoded = encodeSecret(secret);
+  } catch {
+    return false;
+  }
+
+  return hashSecret(encoded, algorithm) === hashlock.toLowerCase();
+}
+
+/**
+ * Build the hashlocks of both chains for a secret
+ * @param secret - Existing secret, a new one is generated when omitted
+ * @param algorithms - Per-chain algorithms, the contract defaults when omitted
+ */
+export function createChainHashlocks(
+  secret: string = generateSecret(),
+  algorithms: Record<
+    HashlockChain,
+    HashlockAlgorithm
+  > = DEFAULT_HASHLOCK_ALGORITHMS,
+): ChainHashlocks {
+  const encoded = encodeSecret(secret);
+
+  return {
+    secret: encoded,
+    evmHashlock: hashSecret(encoded, algorithms.evm),
+    aptosHashlock: hashSecret(encoded, algorithms.aptos),
+  };
+}
@@ -0,0 +1,42 @@
+import { ValidationOptions, registerDecorator } from "class-validator";
+import { SECRET_LENGTH, isHashlock, isSecret } from "./hashlock";
+
+/**
+ * Checks that the value is a secret in its canonical encoding (0x + 32 bytes of hex)
+ */
+export function IsSecret(validationOptions?: ValidationOptions) {
+  return function (object: object, propertyName: string) {
+    registerDecorator({
+      name: "isSecret",
+      target: object.constructor,
+      propertyName,
+      options: {
+        message: `$property must be a 0x-prefixed hex string of ${SECRET_LENGTH} bytes`,
+        ...validationOptions,
+      },
+      validator: {
+        validate: (value: unknown) => isSecret(value),
+      },
+    });
+  };
+}
+
+/**
+ * Checks that the value is a hashlock (0x + 32 bytes of hex)
+ */
+export function IsHashlock(validationOptions?: ValidationOptions) {
+  return function (object: object, propertyName: string) {
+    registerDecorator({
+      name: "isHashlock",
+      target: object.constructor,
+      propertyName,
+      options: {
+        message: "$property must be a 0x-prefixed 32 byte hash",
+        ...validationOptions,
+      },
+      validator: {
+        validate: (value: unknown) => isHashlock(value),
+      },
+    });
+  };
+}
@@ -0,0 +1,108 @@
+import { ethers } from "ethers";
+import { HashlockAlgorithm, hashSecret } from "./hashlock";
+import {
+  createMultiFillHashlock,
+  getFillOrderHash,
+  getFillSecretIndex,
+  getNextFillSecretIndex,
+  getMerkleLeaves,
+  getMerkleProof,
+  getMerkleRoot,
+  getPartsCount,
+  processMerkleProof,
+} from "./merkle";
+
+// Four parts, five secrets
+const SECRET_HASHES = [1, 2, 3, 4, 5].map((byte) =>
+  hashSecret(ethers.toBeHex(byte, 32), HashlockAlgorithm.KECCAK256),
+);
+
+describe("merkle", () => {
+  it("commits to the index and hash of every secret", () => {
+    const leaves = getMerkleLeaves(SECRET_HASHES);
+    expect(leaves[1]).toBe(
+      ethers.keccak256(ethers.concat([ethers.toBeHex(1, 8), SECRET_HASHES[1]])),
+    );
+
+    const root = getMerkleRoot(leaves);
+    leaves.forEach((leaf, index) => {
+      expect(processMerkleProof(leaf, getMerkleProof(leaves, index))).toBe(
+        root,
+      );
+    });
+    expect(processMerkleProof(leaves[0], getMerkleProof(leaves, 1))).not.toBe(
+      root,
+    );
+  });
+
+  it("matches HashLock.forMultipleFills of the 1inch cross-chain SDK", () => {
+    // Output of the SDK 1.x for the secrets 1 to 5 and 1 to 4
+    expect(createMultiFillHashlock(SECRET_HASHES)).toBe(
+      "0x000439f0f55e27966d205c32acedfd4e72ac3673dd3eb6e0005dbf1d135a272c",
+    );
+    expect(createMultiFillHashlock(SECRET_HASHES.slice(0, 4))).toBe(
+      "0x00036143b53f264e10e8e7a6876abd9b19a2059c474c5d62e58140e832c92a5a",
+    );
+    // HashLock.getProof(leaves, 2)
+    expect(getMerkleProof(getMerkleLeaves(SECRET_HASHES), 2)).toEqual([
+      "0xa0007178b07c67454652c6c218db198f4c8743bd4dbd6eeab07a4005f916db49",
+      "0x388b14970199e8392fc0d544fee8fb200847d5e1afad6ab251b94bcf11c8b0ed",
+    ]);
+  });
+
+  it("keeps the parts count in the top bits of the hashlock", () => {
+    const hashlock = createMultiFillHashlock(SECRET_HASHES);
+    const root = getMerkleRoot(getMerkleLeaves(SECRET_HASHES));
+
+    expect(getPartsCount(hashlock)).toBe(4);
+    expect(hashlock.slice(0, 6)).toBe("0x0004");
+    expect(hashlock.slice(6)).toBe(root.slice(6));
+    expect(() => createMultiFillHashlock(SECRET_HASHES.slice(0, 2))).toThrow(
+      "Swaps filled in parts need 3 to 65536 secrets, got 2",
+    );
+  });
+
+  it("picks the secret matching the cumulative fill", () => {
+    // 25% parts of 1000
+    expect(getFillSecretIndex(1000n, 0n, 250n, 4, null)).toBe(0);
+    expect(getFillSecretIndex(1000n, 0n, 251n, 4, null)).toBe(1);
+    expect(getFillSecretIndex(1000n, 251n, 400n, 4, 1)).toBe(2);
+    // The fill completing the swap takes the extra secret
+    expect(getFillSecretIndex(1000n, 651n, 349n, 4, 2)).toBe(4);
+    expect(getFillSecretIndex(1000n, 0n, 1000n, 4, null)).toBe(4);
+  });
+
+  it("gives the secret of a failed fill to the next fill", () => {
+    const failed = { secretIndex: 4, srcAmount: 1000n, failed: true };
+    expect(getNextFillSecretIndex(1000n, [failed], 1000n, 4)).toBe(4);
+
+    const fills = [
+      { secretIndex: 0, srcAmount: 200n, failed: false },
+      { secretIndex: 1, srcAmount: 300n, failed: true },
+    ];
+    expect(getNextFillSecretIndex(1000n, fills, 100n, 4)).toBe(1);
+    expect(() => getNextFillSecretIndex(1000n, fills, 10n, 4)).toThrow(
+      "Fill of 10 maps to secret 0, used by a previous fill",
+    );
+  });
+
+  it("gives every fill its own order hash", () => {
+    const orderHash = ethers.id("order");
+    expect(getFillOrderHash(orderHash, 1)).toBe(
+      ethers.keccak256(ethers.concat([orderHash, ethers.toBeHex(1, 8)])),
+    );
+    expect(getFillOrderHash(orderHash, 1)).not.toBe(
+      getFillOrderHash(orderHash, 2),
+    );
+  });
+
+  it("rejects fills that overflow the swap or reuse a secret", () => {
+    expect(() => getFillSecretIndex(1000n, 600n, 401n, 4, 2)).toThrow(
+      "Fill of 401 exceeds the remaining 400",
+    );
+    expect(() => getFillSecretIndex(1000n, 251n, 100n, 4, 1)).toThrow(
+      "Fill of 100 maps to secret 1, used by a previous fill",
+    );
+    expect(() => getFillSecretIndex(1000n, 0n, 0n, 4, null)).toThrow();
+  });
+});
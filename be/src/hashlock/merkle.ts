@@ -0,0 +1,212 @@
+import { ethers } from "ethers";
+
+/**
+ * Merkle tree of secrets for swaps filled in parts, as built by `HashLock.forMultipleFills`
+ * of the 1inch cross-chain SDK.
+ *
+ * A swap filled in N parts has N + 1 secrets. Leaf i commits to the keccak256 hash of
+ * secret i as `keccak256(abi.encodePacked(uint64 i, bytes32 hash))`, the tree is the
+ * OpenZeppelin `SimpleMerkleTree.of` the leaves, which sorts them, and the hashlock of the
+ * swap is its root with the top 16 bits replaced by N.
+ *
+ * A fill that brings the filled amount to F of the total T uses secret
+ * floor((F - 1) * N / T), and the fill that completes the swap uses the extra secret N,
+ * so revealing a secret never unlocks more than what was filled.
+ */
+
+// The parts count takes the top 16 bits of the hashlock
+export const MAX_PARTS = 0xffff;
+// Fewer secrets make a single fill, see `HashLock.forSingleFill`
+export const MIN_SECRETS = 3;
+
+const PARTS_SHIFT = 240n;
+const ROOT_MASK = (1n << PARTS_SHIFT) - 1n;
+
+/**
+ * Build the leaves of the tree from the keccak256 hashes of the secrets, in index order
+ */
+export function getMerkleLeaves(secretHashes: string[]): string[] {
+  return secretHashes.map((secretHash, index) =>
+    ethers.solidityPackedKeccak256(["uint64", "bytes32"], [index, secretHash]),
+  );
+}
+
+/**
+ * Compute the root of the tree of leaves
+ * @throws Error when there are no leaves
+ */
+export function getMerkleRoot(leaves: string[]): string {
+  return buildTree(leaves)[0];
+}
+
+/**
+ * Get the sibling hashes proving a leaf, from the leaf up
+ * @param leaves - All leaves of the tree
+ * @param index - Index of the proven leaf
+ */
+export function getMerkleProof(leaves: string[], index: number): string[] {
+  if (!Number.isInteger(index) || index < 0 || index >= leaves.length) {
+    throw new Error(`Leaf index ${index} is out of range`);
+  }
+
+  const tree = buildTree(leaves);
+  const position = sortLeaves(leaves).indexOf(leaves[index].toLowerCase());
+  const proof: string[] = [];
+  for (let node = tree.length - 1 - position; node > 0; ) {
+    proof.push(tree[node % 2 === 1 ? node + 1 : node - 1]);
+    node = Math.floor((node - 1) / 2);
+  }
+  return proof;
+}
+
+/**
+ * Compute the root a leaf and its proof lead to
+ */
+export function processMerkleProof(leaf: string, proof: string[]): string {
+  return proof.reduce(hashPair, leaf.toLowerCase());
+}
+
+/**
+ * Build the hashlock of a swap filled in parts
+ * @param secretHashes - keccak256 hashes of the secrets, one more than the parts
+ * @throws Error when the count of secrets does not make a multi-fill swap
+ */
+export function createMultiFillHashlock(secretHashes: string[]): string {
+  if (
+    secretHashes.length < MIN_SECRETS ||
+    secretHashes.length > MAX_PARTS + 1
+  ) {
+    throw new Error(
+      `Swaps filled in parts need ${MIN_SECRETS} to ${MAX_PARTS + 1} secrets, got ${secretHashes.length}`,
+    );
+  }
+
+  const root = BigInt(getMerkleRoot(getMerkleLeaves(secretHashes)));
+  const parts = BigInt(secretHashes.length - 1);
+  return ethers.toBeHex((parts << PARTS_SHIFT) | (root & ROOT_MASK), 32);
+}
+
+/**
+ * Read the parts count of a multi-fill hashlock
+ */
+export function getPartsCount(hashlock: string): number {
+  return Number(BigInt(hashlock) >> PARTS_SHIFT);
+}
+
+/**
+ * Get the index of the secret a fill uses
+ * @param totalAmount - Amount of the swap
+ * @param filledAmount - Amount filled before the fill
+ * @param fillAmount - Amount of the fill
+ * @param partsCount - Parts the swap is split into
+ * @param previousIndex - Highest index used by a previous fill, null for the first fill
+ * @throws Error when the fill overflows the swap or would reuse a secret
+ */
+export function getFillSecretIndex(
+  totalAmount: bigint,
+  filledAmount: bigint,
+  fillAmount: bigint,
+  partsCount: number,
+  previousIndex: number | null,
+): number {
+  if (fillAmount <= 0n) {
+    throw new Error(`Fill amount ${fillAmount} must be positive`);
+  }
+  const cumulative = filledAmount + fillAmount;
+  if (cumulative > totalAmount) {
+    throw new Error(
+      `Fill of ${fillAmount} exceeds the remaining ${totalAmount - filledAmount}`,
+    );
+  }
+
+  const index =
+    cumulative === totalAmount
+      ? partsCount
+      : Number(((cumulative - 1n) * BigInt(partsCount)) / totalAmount);
+  if (previousIndex !== null && index <= previousIndex) {
+    throw new Error(
+      `Fill of ${fillAmount} maps to secret ${index}, used by a previous fill`,
+    );
+  }
+  return index;
+}
+
+/**
+ * Fill of a swap as far as its secret is concerned
+ */
+export type FillSecretUse = {
+  secretIndex: number;
+  srcAmount: bigint;
+  // A failed fill locks nothing and gives its secret back
+  failed: boolean;
+};
+
+/**
+ * Get the index of the secret the next fill of a swap uses
+ * @param fills - Previous fills of the swap
+ * @throws Error when the fill overflows the swap or would reuse a secret
+ */
+export function getNextFillSecretIndex(
+  totalAmount: bigint,
+  fills: FillSecretUse[],
+  fillAmount: bigint,
+  partsCount: number,
+): number {
+  const liveFills = fills.filter((fill) => !fill.failed);
+  return getFillSecretIndex(
+    totalAmount,
+    liveFills.reduce((total, fill) => total + fill.srcAmount, 0n),
+    fillAmount,
+    partsCount,
+    liveFills.length > 0
+      ? Math.max(...liveFills.map((fill) => fill.secretIndex))
+      : null,
+  );
+}
+
+/**
+ * Get the order hash of the escrows of a fill. EscrowFactory registers one escrow per order
+ * hash, so each fill of a swap derives its own from the one of the swap
+ */
+export function getFillOrderHash(
+  orderHash: string,
+  secretIndex: number,
+): string {
+  return ethers.solidityPackedKeccak256(
+    ["bytes32", "uint64"],
+    [orderHash, secretIndex],
+  );
+}
+
+/**
+ * Lay out the tree as an array, root first and the sorted leaves at the end in reverse
+ * order, like OpenZeppelin's `makeMerkleTree`
+ */
+function buildTree(leaves: string[]): string[] {
+  if (leaves.length === 0) {
+    throw new Error("Merkle tree needs at least one leaf");
+  }
+
+  const tree = new Array<string>(2 * leaves.length - 1);
+  sortLeaves(leaves).forEach((leaf, index) => {
+    tree[tree.length - 1 - index] = leaf.toLowerCase();
+  });
+  for (let node = tree.length - 1 - leaves.length; node >= 0; node--) {
+    tree[node] = hashPair(tree[2 * node + 1], tree[2 * node + 2]);
+  }
+  return tree;
+}
+
+/**
+ * Sort the leaves by value, as `SimpleMerkleTree.of` does by default
+ */
+function sortLeaves(leaves: string[]): string[] {
+  return leaves.map((leaf) => leaf.toLowerCase()).sort();
+}
+
+/**
+ * Hash two nodes in sorted order, as OpenZeppelin's `MerkleProof` does
+ */
+function hashPair(a: string, b: string): string {
+  return ethers.keccak256(ethers.concat(a < b ? [a, b] : [b, a]));
+}
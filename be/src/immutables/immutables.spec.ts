@@ -0,0 +1,100 @@
+import {
+  ImmutablesError,
+  getSwapAptosImmutables,
+  getSwapEvmImmutables,
+  parseAptosImmutables,
+  parseEvmImmutables,
+  serializeAptosImmutables,
+  serializeEvmImmutables,
+} from "./immutables";
+import { AptosImmutables, EvmImmutables } from "../types/escrow.types";
+
+const EVM_IMMUTABLES: EvmImmutables = {
+  orderHash: `0x${"11".repeat(32)}`,
+  maker: BigInt("0x70997970C51812dc3A010C7d01b50e0d17dc79C8"),
+  taker: BigInt("0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC"),
+  token: BigInt("0x5FbDB2315678afecb367f032d93F642f64180aa3"),
+  // Above Number.MAX_SAFE_INTEGER
+  amount: 100_000_000_000_000_000_000n,
+  secretHash: `0x${"22".repeat(32)}`,
+  safetyDeposit: 10n ** 17n,
+  timelocks: {
+    values: [1, 2, 3, 4, 5, 6, 7, 8].map(
+      (offset) => 1_700_000_000n + BigInt(offset),
+    ),
+  },
+};
+
+const APTOS_IMMUTABLES: AptosImmutables = {
+  orderHash: `0x${"11".repeat(32)}`,
+  hashlock: `0x${"33".repeat(32)}`,
+  maker: "0x456",
+  taker: "0x789",
+  tokenType: "0x1::aptos_coin::AptosCoin",
+  amount: 18_446_744_073_709_551_615n,
+  safetyDeposit: 0n,
+  timelocks: {
+    deployedAt: 1_700_000_000,
+    dstWithdrawal: 1_700_000_060,
+    dstPublicWithdrawal: 1_700_000_120,
+    dstCancellation: 1_700_000_180,
+  },
+};
+
+// Prisma returns Json columns as parsed JSON
+function throughJson<T>(value: T): unknown {
+  return JSON.parse(JSON.stringify(value));
+}
+
+describe("immutables", () => {
+  it("round-trips EVM immutables through a Json column", () => {
+    const stored = serializeEvmImmutables(EVM_IMMUTABLES);
+
+    expect(stored.maker).toBe("0x70997970c51812dc3a010c7d01b50e0d17dc79c8");
+    expect(stored.amount).toBe("100000000000000000000");
+    expect(parseEvmImmutables(throughJson(stored))).toEqual(EVM_IMMUTABLES);
+  });
+
+  it("round-trips Aptos immutables through a Json column", () => {
+    const stored = serializeAptosImmutables(APTOS_IMMUTABLES);
+
+    expect(stored.amount).toBe("18446744073709551615");
+    expect(parseAptosImmutables(throughJson(stored))).toEqual(APTOS_IMMUTABLES);
+  });
+
+  it("rejects malformed immutables", () => {
+    const stored = serializeEvmImmutables(EVM_IMMUTABLES);
+
+    expect(() => parseEvmImmutables(null)).toThrow(ImmutablesError);
+    expect(() =>
+      parseEvmImmutables({ ...stored, timelocks: stored.timelocks.slice(1) }),
+    ).toThrow(/timelocks/);
+    expect(() => parseEvmImmutables({ ...stored, amount: 100 })).toThrow(
+      /amount/,
+    );
+    expect(() =>
+      parseAptosImmutables({
+        ...serializeAptosImmutables(APTOS_IMMUTABLES),
+        timelocks: { deployedAt: "1700000000" },
+      }),
+    ).toThrow(ImmutablesError);
+    expect(() =>
+      serializeEvmImmutables({ ...EVM_IMMUTABLES, maker: 1n << 160n }),
+    ).toThrow(ImmutablesError);
+  });
+
+  it("requires the swap to have recorded immutables", () => {
+    const swap = { id: "swap-1", evmImmutables: null, aptosImmutables: null };
+
+    expect(() => getSwapEvmImmutables(swap)).toThrow(
+      "Swap swap-1 has no EVM escrow immutables",
+    );
+    expect(() => getSwapAptosImmutables(swap)).toThrow(ImmutablesError);
+    expect(
+      getSwapEvmImmutables({
+        ...swap,
+        evmImmutables: serializeEvmImmutables(EVM_IMMUTABLES),
+      }),
+    ).toEqual(EVM_IMMUTABLES);
+  });
+});
@@ -0,0 +1,221 @@
+import { ethers } from "ethers";
+import { AptosImmutables, EvmImmutables } from "../types/escrow.types";
+
+/**
+ * Storage of the escrow immutables in the Json columns of the swaps.
+ *
+ * Withdrawing, cancelling and rescuing an escrow takes back the exact immutables it was
+ * created with, so they are recorded when the escrow is created and read back for every
+ * later call. u64/uint256 values are stored as decimal strings and EVM addresses as hex,
+ * JSON numbers would lose their precision.
+ */
+
+/**
+ * EvmImmutables as stored in the `evmImmutables` columns
+ */
+export type StoredEvmImmutables = {
+  orderHash: string;
+  maker: string;
+  taker: string;
+  token: string;
+  amount: string;
+  secretHash: string;
+  safetyDeposit: string;
+  timelocks: string[];
+};
+
+/**
+ * AptosImmutables as stored in the `aptosImmutables` columns
+ */
+export type StoredAptosImmutables = {
+  orderHash: string;
+  hashlock: string;
+  maker: string;
+  taker: string;
+  tokenType: string;
+  amount: string;
+  safetyDeposit: string;
+  timelocks: {
+    deployedAt: number;
+    dstWithdrawal: number;
+    dstPublicWithdrawal: number;
+    dstCancellation: number;
+  };
+};
+
+/**
+ * Error thrown when stored immutables are missing or malformed
+ */
+export class ImmutablesError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImmutablesError";
+  }
+}
+
+// Timelocks.values is a uint256[8], one value per TimelockStage
+const EVM_TIMELOCK_STAGES = 8;
+
+function toEvmAddress(value: bigint): string {
+  if (value < 0n || value >= 1n << 160n) {
+    throw new ImmutablesError(`${value} is not an EVM address`);
+  }
+  return ethers.toBeHex(value, 20);
+}
+
+/**
+ * Serialize EVM escrow immutables for storage
+ * @param immutables - Immutables the escrow was deployed with
+ */
+export function serializeEvmImmutables(
+  immutables: EvmImmutables,
+): StoredEvmImmutables {
+  return {
+    orderHash: immutables.orderHash,
+    maker: toEvmAddress(immutables.maker),
+    taker: toEvmAddress(immutables.taker),
+    token: toEvmAddress(immutables.token),
+    amount: immutables.amount.toString(),
+    secretHash: immutables.secretHash,
+    safetyDeposit: immutables.safetyDeposit.toString(),
+    timelocks: immutables.timelocks.values.map((value) => value.toString()),
+  };
+}
+
+/**
+ * Serialize Aptos escrow immutables for storage
+ * @param immutables - Immutables the escrow was created with
+ */
+export function serializeAptosImmutables(
+  immutables: AptosImmutables,
+): StoredAptosImmutables {
+  return {
+    ...immutables,
+    amount: immutables.amount.toString(),
+    safetyDeposit: immutables.safetyDeposit.toString(),
+    timelocks: { ...immutables.timelocks },
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function readString(
+  record: Record<string, unknown>,
+  key: string,
+  pattern?: RegExp,
+): string {
+  const value = record[key];
+  if (typeof value !== "string" || (pattern && !pattern.test(value))) {
+    throw new ImmutablesError(`Invalid immutables field ${key}`);
+  }
+  return value;
+}
+
+function readInteger(record: Record<string, unknown>, key: string): bigint {
+  return BigInt(readString(record, key, /^\d+$/));
+}
+
+function readTimestamp(record: Record<string, unknown>, key: string): number {
+  const value = record[key];
+  if (!Number.isSafeInteger(value) || (value as number) < 0) {
+    throw new ImmutablesError(`Invalid immutables field timelocks.${key}`);
+  }
+  return value as number;
+}
+
+const BYTES32 = /^0x[0-9a-fA-F]{64}$/;
+const EVM_ADDRESS = /^0x[0-9a-fA-F]{40}$/;
+const HEX = /^0x[0-9a-fA-F]*$/;
+
+/**
+ * Parse stored EVM escrow immutables
+ * @param value - Content of an `evmImmutables` column
+ * @throws ImmutablesError when the value is not a StoredEvmImmutables
+ */
+export function parseEvmImmutables(value: unknown): EvmImmutables {
+  if (!isRecord(value)) {
+    throw new ImmutablesError("EVM immutables are not an object");
+  }
+
+  const { timelocks } = value;
+  if (
+    !Array.isArray(timelocks) ||
+    timelocks.length !== EVM_TIMELOCK_STAGES ||
+    !timelocks.every(
+      (stage) => typeof stage === "string" && /^\d+$/.test(stage),
+    )
+  ) {
+    throw new ImmutablesError("Invalid immutables field timelocks");
+  }
+
+  return {
+    orderHash: readString(value, "orderHash", BYTES32),
+    maker: BigInt(readString(value, "maker", EVM_ADDRESS)),
+    taker: BigInt(readString(value, "taker", EVM_ADDRESS)),
+    token: BigInt(readString(value, "token", EVM_ADDRESS)),
+    amount: readInteger(value, "amount"),
+    secretHash: readString(value, "secretHash", BYTES32),
+    safetyDeposit: readInteger(value, "safetyDeposit"),
+    timelocks: { values: timelocks.map((stage: string) => BigInt(stage)) },
+  };
+}
+
+/**
+ * Parse stored Aptos escrow immutables
+ * @param value - Content of an `aptosImmutables` column
+ * @throws ImmutablesError when the value is not a StoredAptosImmutables
+ */
+export function parseAptosImmutables(value: unknown): AptosImmutables {
+  if (!isRecord(value) || !isRecord(value.timelocks)) {
+    throw new ImmutablesError("Aptos immutables are not an object");
+  }
+
+  const { timelocks } = value;
+  return {
+    orderHash: readString(value, "orderHash", HEX),
+    hashlock: readString(value, "hashlock", HEX),
+    maker: readString(value, "maker", HEX),
+    taker: readString(value, "taker", HEX),
+    tokenType: readString(value, "tokenType"),
+    amount: readInteger(value, "amount"),
+    safetyDeposit: readInteger(value, "safetyDeposit"),
+    timelocks: {
+      deployedAt: readTimestamp(timelocks, "deployedAt"),
+      dstWithdrawal: readTimestamp(timelocks, "dstWithdrawal"),
+      dstPublicWithdrawal: readTimestamp(timelocks, "dstPublicWithdrawal"),
+      dstCancellation: readTimestamp(timelocks, "dstCancellation"),
+    },
+  };
+}
+
+/**
+ * Read the immutables of the EVM escrow of a swap
+ * @param swap - Swap whose escrow was deployed by the relayer or recorded on detection
+ * @throws ImmutablesError when the swap has no recorded immutables
+ */
+export function getSwapEvmImmutables(swap: {
+  id: string;
+  evmImmutables: unknown;
+}): EvmImmutables {
+  if (swap.evmImmutables === null || swap.evmImmutables === undefined) {
+    throw new ImmutablesError(`Swap ${swap.id} has no EVM escrow immutables`);
+  }
+  return parseEvmImmutables(swap.evmImmutables);
+}
+
+/**
+ * Read the immutables of the Aptos escrow of a swap
+ * @param swap - Swap whose escrow was created by the relayer
+ * @throws ImmutablesError when the swap has no recorded immutables
+ */
+export function getSwapAptosImmutables(swap: {
+  id: string;
+  aptosImmutables: unknown;
+}): AptosImmutables {
+  if (swap.aptosImmutables === null || swap.aptosImmutables === undefined) {
+    throw new ImmutablesError(`Swap ${swap.id} has no Aptos escrow immutables`);
+  }
+  return parseAptosImmutables(swap.aptosImmutables);
+}
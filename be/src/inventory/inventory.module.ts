@@ -0,0 +1,11 @@
+import { Module } from "@nestjs/common";
+import { AptosModule } from "../aptos/aptos.module";
+import { EvmModule } from "../evm/evm.module";
+import { InventoryService } from "./inventory.service";
+
+@Module({
+  imports: [EvmModule, AptosModule],
+  providers: [InventoryService],
+  exports: [InventoryService],
+})
+export class InventoryModule {}
@@ -0,0 +1,456 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { OnEvent } from "@nestjs/event-emitter";
+import { Cron, CronExpression } from "@nestjs/schedule";
+import {
+  InventoryBalance,
+  InventoryReservationStatus,
+  Prisma,
+  Token,
+  TokenStandard,
+} from "@prisma/client";
+import { DbService } from "prisma/src/db.service";
+import { AptosService } from "../aptos/aptos.service";
+import { EvmService } from "../evm/evm.service";
+import { TokenChain } from "../tokens/tokens";
+import {
+  APTOS_ESCROW_CANCELLED,
+  APTOS_PREIMAGE_DISCOVERED,
+  AptosEscrowCancelledEvent,
+  AptosPreimageDiscoveredEvent,
+} from "../workers/events/aptos-escrow.events";
+import {
+  EVM_ESCROW_CANCELLED,
+  EVM_PREIMAGE_DISCOVERED,
+  EvmEscrowCancelledEvent,
+  EvmPreimageDiscoveredEvent,
+} from "../workers/events/evm-escrow.events";
+import {
+  InventoryError,
+  InventoryLedger,
+  commitAmount,
+  getAvailable,
+  releaseAmount,
+  reserveAmount,
+  syncBalance,
+} from "./inventory";
+
+/**
+ * Registered token, located the way swaps record it
+ */
+export type InventoryToken = {
+  chain: TokenChain;
+  // EVM chain ID, null on Aptos
+  chainId: number | null;
+  address: string;
+};
+
+// Concurrent updates of a ledger are retried this many times
+const MAX_ATTEMPTS = 5;
+
+/**
+ * Version of a ledger changed between its read and its update
+ */
+class StaleLedgerError extends Error {}
+
+/**
+ * Keeps the inventory ledger of the relayer accounts, see src/inventory/inventory.
+ *
+ * A ledger is opened per registered token from the balance of the relayer account on first
+ * use, and synced with it every minute. Updates are optimistic: they apply to the version of
+ * the ledger they read, and are retried when another update got there first, so two swaps
+ * cannot reserve the same funds. Reservations are committed and released by the withdrawal
+ * and cancellation events of the escrows, once they are final.
+ */
+@Injectable()
+export class InventoryService {
+  private readonly logger = new Logger(InventoryService.name);
+  private isSyncing = false;
+
+  constructor(
+    private readonly dbService: DbService,
+    private readonly evmService: EvmService,
+    private readonly aptosService: AptosService,
+  ) {}
+
+  /**
+   * Get the amount of a token that can still be reserved
+   */
+  async getAvailable(token: Token): Promise<bigint> {
+    return getAvailable(toLedger(await this.getInventory(token)));
+  }
+
+  /**
+   * Reserve inventory for the destination escrow of a swap
+   * @param fillId - Fill the escrow is created for, when the swap is filled in parts
+   * @throws InventoryError when the token is not registered or does not have the amount available
+   */
+  async reserve(
+    token: InventoryToken,
+    swapId: string,
+    amount: bigint,
+    fillId?: string,
+  ): Promise<void> {
+    const registered = await this.dbService.token.findFirst({
+      where: {
+        chain: token.chain,
+        chainId: token.chainId,
+        address: token.address,
+      },
+    });
+    if (!registered) {
+      throw new InventoryError(
+        `Token ${token.address} on ${token.chain} is not registered`,
+      );
+    }
+
+    const inventory = await this.getInventory(registered);
+    await this.updateLedger(
+      inventory.id,
+      (ledger) => reserveAmount(ledger, amount),
+      async (tx) => {
+        await tx.inventoryReservation.create({
+          data: {
+            inventoryId: inventory.id,
+            swapId,
+            fillId,
+            amount: amount.toString(),
+          },
+        });
+      },
+    );
+    this.logger.log(
+      `Reserved ${amount} ${registered.symbol} on ${registered.chain} for swap ${swapId}`,
+    );
+  }
+
+  /**
+   * Record that the escrows of a swap or one of its fills on a chain are funded, their reserved amount left the account
+   */
+  async markLocked(
+    swapId: string,
+    chain: TokenChain,
+    fillId?: string,
+  ): Promise<void> {
+    await this.dbService.inventoryReservation.updateMany({
+      where: {
+        swapId,
+        fillId,
+        status: InventoryReservationStatus.RESERVED,
+        lockedAt: null,
+        inventory: { token: { chain } },
+      },
+      data: { lockedAt: Math.floor(Date.now() / 1000) },
+    });
+  }
+
+  /**
+   * Release the open reservations of a swap or one of its fills on a chain, its escrow was cancelled or never funded
+   */
+  async release(
+    swapId: string,
+    chain: TokenChain,
+    fillId?: string,
+  ): Promise<void> {
+    await this.settle(
+      swapId,
+      chain,
+      { fillId },
+      InventoryReservationStatus.RELEASED,
+      releaseAmount,
+    );
+  }
+
+  /**
+   * Release the reservation of a swap whose fill was scheduled, but whose escrow is not funded
+   */
+  async releaseScheduled(swapId: string, chain: TokenChain): Promise<void> {
+    await this.settle(
+      swapId,
+      chain,
+      { fillId: null, lockedAt: null },
+      InventoryReservationStatus.RELEASED,
+      releaseAmount,
+    );
+  }
+
+  /**
+   * Commit the open reservations of a swap or one of its fills on a chain, its escrow was withdrawn
+   */
+  async commit(
+    swapId: string,
+    chain: TokenChain,
+    fillId?: string,
+  ): Promise<void> {
+    await this.settle(
+      swapId,
+      chain,
+      { fillId },
+      InventoryReservationStatus.COMMITTED,
+      commitAmount,
+    );
+  }
+
+  /**
+   * Run every minute to sync the ledgers with the balances of the relayer accounts
+   */
+  @Cron(CronExpression.EVERY_MINUTE, { name: "inventorySync" })
+  async syncBalances(): Promise<void> {
+    // A slow chain may make a run outlast the interval
+    if (this.isSyncing) {
+      return;
+    }
+
+    this.isSyncing = true;
+    try {
+      const tokens = await this.dbService.token.findMany({
+        where: {
+          enabled: true,
+          standard: { not: TokenStandard.FUNGIBLE_ASSET },
+        },
+      });
+      for (const token of tokens) {
+        try {
+          await this.syncToken(await this.getInventory(token), token);
+        } catch (error: unknown) {
+          const errorMessage =
+            error instanceof Error ? error.message : String(error);
+          this.logger.error(
+            `Failed to sync the ${token.symbol} inventory on ${token.chain}: ${errorMessage}`,
+          );
+        }
+      }
+    } finally {
+      this.isSyncing = false;
+    }
+  }
+
+  @OnEvent(EVM_PREIMAGE_DISCOVERED)
+  async handleEvmWithdrawal(payload: EvmPreimageDiscoveredEvent) {
+    await this.settleEscrow(
+      "evm",
+      {
+        evmHtlcAddress: { equals: payload.escrowAddress, mode: "insensitive" },
+      },
+      InventoryReservationStatus.COMMITTED,
+    );
+  }
+
+  @OnEvent(EVM_ESCROW_CANCELLED)
+  async handleEvmCancellation(payload: EvmEscrowCancelledEvent) {
+    await this.settleEscrow(
+      "evm",
+      {
+        evmHtlcAddress: { equals: payload.escrowAddress, mode: "insensitive" },
+      },
+      InventoryReservationStatus.RELEASED,
+    );
+  }
+
+  @OnEvent(APTOS_PREIMAGE_DISCOVERED)
+  async handleAptosWithdrawal(payload: AptosPreimageDiscoveredEvent) {
+    await this.settleEscrow(
+      "aptos",
+      { aptosHtlcAddress: payload.contractId },
+      InventoryReservationStatus.COMMITTED,
+    );
+  }
+
+  @OnEvent(APTOS_ESCROW_CANCELLED)
+  async handleAptosCancellation(payload: AptosEscrowCancelledEvent) {
+    await this.settleEscrow(
+      "aptos",
+      { aptosHtlcAddress: payload.contractId },
+      InventoryReservationStatus.RELEASED,
+    );
+  }
+
+  /**
+   * Settle the reservations of the swap or the fill an escrow event belongs to
+   */
+  private async settleEscrow(
+    chain: TokenChain,
+    where: Prisma.SwapWhereInput & Prisma.SwapFillWhereInput,
+    status: InventoryReservationStatus,
+  ): Promise<void> {
+    try {
+      const fill = await this.dbService.swapFill.findFirst({ where });
+      const swapId =
+        fill?.swapId ?? (await this.dbService.swap.findFirst({ where }))?.id;
+      if (!swapId) {
+        return;
+      }
+      if (status === InventoryReservationStatus.COMMITTED) {
+        await this.commit(swapId, chain, fill?.id);
+      } else {
+        await this.release(swapId, chain, fill?.id);
+      }
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.error(
+        `Failed to settle the ${chain} inventory of an escrow: ${errorMessage}`,
+      );
+    }
+  }
+
+  private async settle(
+    swapId: string,
+    chain: TokenChain,
+    where: Prisma.InventoryReservationWhereInput,
+    status: InventoryReservationStatus,
+    apply: (ledger: InventoryLedger, amount: bigint) => InventoryLedger,
+  ): Promise<void> {
+    const reservations = await this.dbService.inventoryReservation.findMany({
+      where: {
+        ...where,
+        swapId,
+        status: InventoryReservationStatus.RESERVED,
+        inventory: { token: { chain } },
+      },
+    });
+
+    for (const reservation of reservations) {
+      const amount = BigInt(reservation.amount);
+      await this.updateLedger(
+        reservation.inventoryId,
+        (ledger) => apply(ledger, amount),
+        async (tx) => {
+          // A reservation settled concurrently rolls the ledger update back
+          const { count } = await tx.inventoryReservation.updateMany({
+            where: {
+              id: reservation.id,
+              status: InventoryReservationStatus.RESERVED,
+            },
+            data: { status, settledAt: Math.floor(Date.now() / 1000) },
+          });
+          if (count === 0) {
+            throw new InventoryError(
+              `Reservation ${reservation.id} is already settled`,
+            );
+          }
+        },
+      );
+      this.logger.log(
+        `${status === InventoryReservationStatus.COMMITTED ? "Committed" : "Released"} ${amount} of swap ${swapId} on ${chain}`,
+      );
+    }
+  }
+
+  private async syncToken(
+    inventory: InventoryBalance,
+    token: Token,
+  ): Promise<void> {
+    const accountBalance = await this.getAccountBalance(token);
+    const locked = await this.dbService.inventoryReservation.findMany({
+      where: {
+        inventoryId: inventory.id,
+        status: InventoryReservationStatus.RESERVED,
+        lockedAt: { not: null },
+      },
+    });
+    const lockedAmount = locked.reduce(
+      (total, reservation) => total + BigInt(reservation.amount),
+      0n,
+    );
+
+    await this.updateLedger(
+      inventory.id,
+      (ledger) => {
+        const synced = syncBalance(ledger, accountBalance, lockedAmount);
+        if (synced.balance !== ledger.balance) {
+          this.logger.warn(
+            `${token.symbol} inventory on ${token.chain} moved from ${ledger.balance} to ${synced.balance} on sync`,
+          );
+        }
+        return synced;
+      },
+      undefined,
+      { syncedAt: Math.floor(Date.now() / 1000) },
+    );
+  }
+
+  /**
+   * Get the ledger of a token, opened from the balance of the relayer account on first use
+   */
+  private async getInventory(token: Token): Promise<InventoryBalance> {
+    const inventory = await this.dbService.inventoryBalance.findUnique({
+      where: { tokenId: token.id },
+    });
+    if (inventory) {
+      return inventory;
+    }
+
+    const balance = await this.getAccountBalance(token);
+    return this.dbService.inventoryBalance.upsert({
+      where: { tokenId: token.id },
+      create: {
+        tokenId: token.id,
+        balance: balance.toString(),
+        syncedAt: Math.floor(Date.now() / 1000),
+      },
+      update: {},
+    });
+  }
+
+  private getAccountBalance(token: Token): Promise<bigint> {
+    if (token.chain === "evm") {
+      return this.evmService.getTokenBalance(token.address, token.chainId);
+    }
+    if (token.standard !== TokenStandard.COIN) {
+      throw new InventoryError(
+        `${token.standard} balances of ${token.symbol} are not supported`,
+      );
+    }
+    return this.aptosService.getCoinBalance(token.address);
+  }
+
+  /**
+   * Apply a change to the version of a ledger it read, retried when the ledger changed meanwhile
+   * @param record - Writes done in the same transaction as the update
+   */
+  private async updateLedger(
+    inventoryId: string,
+    apply: (ledger: InventoryLedger) => InventoryLedger,
+    record?: (tx: Prisma.TransactionClient) => Promise<void>,
+    data: Prisma.InventoryBalanceUpdateManyMutationInput = {},
+  ): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      const inventory = await this.dbService.inventoryBalance.findUniqueOrThrow(
+        {
+          where: { id: inventoryId },
+        },
+      );
+      const ledger = apply(toLedger(inventory));
+
+      try {
+        await this.dbService.$transaction(async (tx) => {
+          const { count } = await tx.inventoryBalance.updateMany({
+            where: { id: inventoryId, version: inventory.version },
+            data: {
+              ...data,
+              balance: ledger.balance.toString(),
+              reserved: ledger.reserved.toString(),
+              version: { increment: 1 },
+            },
+          });
+          if (count === 0) {
+            throw new StaleLedgerError();
+          }
+          await record?.(tx);
+        });
+        return;
+      } catch (error: unknown) {
+        if (!(error instanceof StaleLedgerError) || attempt >= MAX_ATTEMPTS) {
+          throw error;
+        }
+      }
+    }
+  }
+}
+
+function toLedger(inventory: InventoryBalance): InventoryLedger {
+  return {
+    balance: BigInt(inventory.balance),
+    reserved: BigInt(inventory.reserved),
+  };
+}
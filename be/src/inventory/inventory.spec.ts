@@ -0,0 +1,49 @@
+import {
+  InventoryError,
+  InventoryLedger,
+  commitAmount,
+  getAvailable,
+  releaseAmount,
+  reserveAmount,
+  syncBalance,
+} from "./inventory";
+
+const LEDGER: InventoryLedger = { balance: 1_000n, reserved: 0n };
+
+describe("inventory ledger", () => {
+  it("reserves the available amount only", () => {
+    const ledger = reserveAmount(LEDGER, 600n);
+    expect(ledger).toEqual({ balance: 1_000n, reserved: 600n });
+    expect(getAvailable(ledger)).toBe(400n);
+
+    expect(() => reserveAmount(ledger, 401n)).toThrow(
+      new InventoryError("Available inventory of 400 does not cover 401"),
+    );
+    expect(() => reserveAmount(ledger, 0n)).toThrow(InventoryError);
+  });
+
+  it("releases and commits reservations", () => {
+    const ledger = reserveAmount(reserveAmount(LEDGER, 600n), 300n);
+
+    expect(releaseAmount(ledger, 600n)).toEqual({
+      balance: 1_000n,
+      reserved: 300n,
+    });
+    expect(commitAmount(ledger, 600n)).toEqual({
+      balance: 400n,
+      reserved: 300n,
+    });
+    expect(() => releaseAmount(LEDGER, 1n)).toThrow(
+      "Reserved inventory of 0 is below 1",
+    );
+  });
+
+  it("syncs the balance with the account and the locked escrows", () => {
+    // 600 reserved, 200 of which are in a funded escrow, and the account received 50
+    const ledger = syncBalance({ balance: 1_000n, reserved: 600n }, 850n, 200n);
+    expect(ledger).toEqual({ balance: 1_050n, reserved: 600n });
+
+    // A balance below the reservations leaves nothing to reserve
+    expect(getAvailable({ balance: 500n, reserved: 600n })).toBe(0n);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Inventory ledger of the relayer accounts.
+ *
+ * The balance of a token counts the funds of the relayer account plus the ones it locked
+ * in its destination escrows, which come back when an escrow is cancelled. Reservations
+ * set that balance aside for the escrows being filled: a reservation is opened when the
+ * escrow is planned, released when it is cancelled or never funded, and committed when it
+ * is withdrawn, the only time the funds leave the ledger for good.
+ *
+ * Amounts are bigints of base units, written as decimal strings in the database.
+ */
+
+export class InventoryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InventoryError";
+  }
+}
+
+export type InventoryLedger = {
+  balance: bigint;
+  // Sum of the open reservations
+  reserved: bigint;
+};
+
+/**
+ * Amount that can still be reserved
+ */
+export function getAvailable(ledger: InventoryLedger): bigint {
+  const available = ledger.balance - ledger.reserved;
+  return available > 0n ? available : 0n;
+}
+
+/**
+ * Set an amount aside
+ * @throws InventoryError when the available amount does not cover it
+ */
+export function reserveAmount(
+  ledger: InventoryLedger,
+  amount: bigint,
+): InventoryLedger {
+  assertPositive(amount);
+  const available = getAvailable(ledger);
+  if (available < amount) {
+    throw new InventoryError(
+      `Available inventory of ${available} does not cover ${amount}`,
+    );
+  }
+  return { ...ledger, reserved: ledger.reserved + amount };
+}
+
+/**
+ * Give a reserved amount back, the escrow was cancelled or never funded
+ */
+export function releaseAmount(
+  ledger: InventoryLedger,
+  amount: bigint,
+): InventoryLedger {
+  return { ...ledger, reserved: unreserve(ledger, amount) };
+}
+
+/**
+ * Take a reserved amount out of the balance, the escrow was withdrawn
+ */
+export function commitAmount(
+  ledger: InventoryLedger,
+  amount: bigint,
+): InventoryLedger {
+  const reserved = unreserve(ledger, amount);
+  if (ledger.balance < amount) {
+    throw new InventoryError(
+      `Balance of ${ledger.balance} is below the committed ${amount}`,
+    );
+  }
+  return { balance: ledger.balance - amount, reserved };
+}
+
+/**
+ * Set the balance from the relayer account
+ * @param accountBalance - Balance of the relayer account on chain
+ * @param lockedAmount - Reserved amount already moved into escrows
+ */
+export function syncBalance(
+  ledger: InventoryLedger,
+  accountBalance: bigint,
+  lockedAmount: bigint,
+): InventoryLedger {
+  return { ...ledger, balance: accountBalance + lockedAmount };
+}
+
+function unreserve(ledger: InventoryLedger, amount: bigint): bigint {
+  assertPositive(amount);
+  if (ledger.reserved < amount) {
+    throw new InventoryError(
+      `Reserved inventory of ${ledger.reserved} is below ${amount}`,
+    );
+  }
+  return ledger.reserved - amount;
+}
+
+function assertPositive(amount: bigint): void {
+  if (amount <= 0n) {
+    throw new InventoryError(`Amount ${amount} must be positive`);
+  }
+}
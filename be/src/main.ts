@@ -21,6 +21,10 @@ function setupSwagger(app: INestApplication): void {
     .addTag("evm", "EVM blockchain operations")
     .addTag("swap-evm-to-aptos", "EVM to Aptos cross-chain swaps")
     .addTag("swap-aptos-to-evm", "Aptos to EVM cross-chain swaps")
+    .addTag("swaps", "Swap lifecycle and status history")
+    .addTag("tokens", "Supported tokens and pairs")
+    .addTag("quotes", "Swap quotes")
+    .addTag("admin", "Token registry administration")
     .addSecurity("bearerAuth", {
       type: "http",
       scheme: "Bearer",
@@ -0,0 +1,156 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { IsEnum, IsNumberString, IsOptional, IsString } from "class-validator";
+import { AmountDto } from "../../shared/dto/swap.dto";
+import { TimelockPreset } from "../../timelocks/timelocks";
+
+export class CreateQuoteDto {
+  @ApiProperty({
+    description: "ID of the token pair, see GET /pairs",
+    example: "3f1c7c0e-7c55-4f0e-9a0e-1b2f3c4d5e6f",
+  })
+  @IsString()
+  readonly pairId: string;
+
+  @ApiProperty({
+    description: "Amount to swap, in base units of the source token",
+    example: "1000000000000000000",
+  })
+  @IsNumberString({ no_symbols: true })
+  readonly amount: string;
+
+  @ApiProperty({
+    description: "Timelock preset of the swap",
+    enum: TimelockPreset,
+    default: TimelockPreset.STANDARD,
+    required: false,
+  })
+  @IsEnum(TimelockPreset)
+  @IsOptional()
+  readonly timelockPreset?: TimelockPreset;
+}
+
+export class QuoteAuctionDto {
+  @ApiProperty({
+    description: "Destination amount the auction starts at",
+    type: AmountDto,
+  })
+  readonly startAmount: AmountDto;
+
+  @ApiProperty({
+    description: "Destination amount the auction decays to",
+    type: AmountDto,
+  })
+  readonly endAmount: AmountDto;
+
+  @ApiProperty({
+    description: "Destination tokens per source token at the auction start",
+    example: "0.04462",
+  })
+  readonly startPrice: string;
+
+  @ApiProperty({
+    description: "Destination tokens per source token at the auction end",
+    example: "0.04165",
+  })
+  readonly endPrice: string;
+
+  @ApiProperty({ description: "Auction duration in seconds", example: 180 })
+  readonly duration: number;
+}
+
+export class QuoteFeesDto {
+  @ApiProperty({
+    description: "Protocol fee, in the destination token",
+    type: AmountDto,
+  })
+  readonly protocolFee: AmountDto;
+
+  @ApiProperty({ description: "Protocol fee in basis points", example: 0 })
+  readonly protocolFeeBps: number;
+
+  @ApiProperty({
+    description: "Resolver fee, in the destination token",
+    type: AmountDto,
+  })
+  readonly resolverFee: AmountDto;
+
+  @ApiProperty({ description: "Resolver fee in basis points", example: 30 })
+  readonly resolverFeeBps: number;
+}
+
+export class QuoteTimelocksDto {
+  @ApiProperty({ description: "Timelock preset", enum: TimelockPreset })
+  readonly preset: TimelockPreset;
+
+  @ApiProperty({
+    description: "Private withdrawal window of each escrow, in seconds",
+    example: 3600,
+  })
+  readonly withdrawalPeriod: number;
+
+  @ApiProperty({
+    description: "Public withdrawal window of each escrow, in seconds",
+    example: 600,
+  })
+  readonly publicWithdrawalPeriod: number;
+
+  @ApiProperty({
+    description: "Private cancellation window of each escrow, in seconds",
+    example: 600,
+  })
+  readonly cancellationPeriod: number;
+
+  @ApiProperty({
+    description:
+      "Minimum time between the destination and the source cancellation, in seconds",
+    example: 600,
+  })
+  readonly safetyMargin: number;
+}
+
+export class QuoteDto {
+  @ApiProperty({
+    description: "Quote ID, pass it to initiate the swap",
+    example: "3f1c7c0e-7c55-4f0e-9a0e-1b2f3c4d5e6f",
+  })
+  readonly id: string;
+
+  @ApiProperty({
+    description: "ID of the token pair",
+    example: "3f1c7c0e-7c55-4f0e-9a0e-1b2f3c4d5e6f",
+  })
+  readonly pairId: string;
+
+  @ApiProperty({ description: "Amount swapped", type: AmountDto })
+  readonly srcAmount: AmountDto;
+
+  @ApiProperty({
+    description: "Amount received, net of the fees",
+    type: AmountDto,
+  })
+  readonly dstAmount: AmountDto;
+
+  @ApiProperty({
+    description: "Destination tokens per source token, net of the fees",
+    example: "0.04375",
+  })
+  readonly price: string;
+
+  @ApiProperty({ type: QuoteAuctionDto })
+  readonly auction: QuoteAuctionDto;
+
+  @ApiProperty({ type: QuoteFeesDto })
+  readonly fees: QuoteFeesDto;
+
+  @ApiProperty({ type: QuoteTimelocksDto })
+  readonly timelocks: QuoteTimelocksDto;
+
+  @ApiProperty({ description: "Source of the prices", example: "mock" })
+  readonly priceSource: string;
+
+  @ApiProperty({
+    description: "Unix time after which the quote cannot be redeemed",
+    example: 1755162060,
+  })
+  readonly expiresAt: number;
+}
@@ -0,0 +1,96 @@
+import { QuoteError, parsePrice } from "./quotes";
+
+/**
+ * Source of the USD prices quotes are computed with, keyed by token symbol
+ */
+export interface PriceSource {
+  readonly name: string;
+  /**
+   * Get the price of whole tokens
+   * @param symbols - Upper case token symbols
+   * @returns Fixed point prices, see parsePrice
+   * @throws QuoteError when a symbol has no price
+   */
+  getUsdPrices(symbols: string[]): Promise<Record<string, bigint>>;
+}
+
+/**
+ * Fixed prices for local runs, tokens without a configured price are worth a dollar
+ */
+export class MockPriceSource implements PriceSource {
+  readonly name = "mock";
+
+  constructor(private readonly prices: Record<string, bigint> = {}) {}
+
+  getUsdPrices(symbols: string[]): Promise<Record<string, bigint>> {
+    return Promise.resolve(
+      Object.fromEntries(
+        symbols.map((symbol) => [
+          symbol,
+          this.prices[symbol] ?? parsePrice("1"),
+        ]),
+      ),
+    );
+  }
+}
+
+/**
+ * Prices of an HTTP feed, queried as `GET <url>?symbols=ETH,APT` and answering
+ * a JSON object of USD prices such as `{ "ETH": 3120.5, "APT": "8.4" }`
+ */
+export class FeedPriceSource implements PriceSource {
+  readonly name = "feed";
+
+  constructor(
+    private readonly url: string,
+    private readonly fetchJson: (
+      url: string,
+      params: Record<string, string>,
+    ) => Promise<unknown>,
+  ) {}
+
+  async getUsdPrices(symbols: string[]): Promise<Record<string, bigint>> {
+    const data = await this.fetchJson(this.url, { symbols: symbols.join(",") });
+    if (typeof data !== "object" || data === null || Array.isArray(data)) {
+      throw new QuoteError("Price feed did not answer a JSON object");
+    }
+
+    const feed = data as Record<string, unknown>;
+    return Object.fromEntries(
+      symbols.map((symbol) => {
+        const price = feed[symbol];
+        if (typeof price !== "string" && typeof price !== "number") {
+          throw new QuoteError(`Price feed has no price for ${symbol}`);
+        }
+        return [symbol, parsePrice(price)];
+      }),
+    );
+  }
+}
+
+/**
+ * Parse the MOCK_TOKEN_PRICES configuration, a JSON object of USD prices by symbol
+ * @throws QuoteError when it is not an object of prices
+ */
+export function parseMockPrices(json: string): Record<string, bigint> {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new QuoteError("MOCK_TOKEN_PRICES is not valid JSON");
+  }
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    throw new QuoteError("MOCK_TOKEN_PRICES must be an object of prices");
+  }
+
+  return Object.fromEntries(
+    Object.entries(data as Record<string, unknown>).map(([symbol, price]) => {
+      if (typeof price !== "string" && typeof price !== "number") {
+        throw new QuoteError(
+          `MOCK_TOKEN_PRICES has an invalid ${symbol} price`,
+        );
+      }
+      return [symbol.toUpperCase(), parsePrice(price)];
+    }),
+  );
+}
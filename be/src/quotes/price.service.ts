@@ -0,0 +1,75 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { HttpService } from "@nestjs/axios";
+import { Token } from "@prisma/client";
+import { firstValueFrom } from "rxjs";
+import {
+  FeedPriceSource,
+  MockPriceSource,
+  PriceSource,
+  parseMockPrices,
+} from "./price-sources";
+
+/**
+ * Prices tokens with the source PRICE_SOURCE selects:
+ * `mock` (default) reads MOCK_TOKEN_PRICES, `feed` queries PRICE_FEED_URL.
+ */
+@Injectable()
+export class PriceService {
+  private readonly logger = new Logger(PriceService.name);
+  private readonly source: PriceSource;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly httpService: HttpService,
+  ) {
+    this.source = this.createSource();
+    this.logger.log(`Quotes are priced by the ${this.source.name} source`);
+  }
+
+  getSourceName(): string {
+    return this.source.name;
+  }
+
+  /**
+   * Get the USD price of whole tokens, in the order of `tokens`
+   * @throws QuoteError when the source has no price for a token
+   */
+  async getUsdPrices(tokens: Pick<Token, "symbol">[]): Promise<bigint[]> {
+    const symbols = tokens.map((token) => token.symbol.toUpperCase());
+    const prices = await this.source.getUsdPrices([...new Set(symbols)]);
+    return symbols.map((symbol) => prices[symbol]);
+  }
+
+  private createSource(): PriceSource {
+    const kind = this.configService.get<string>("PRICE_SOURCE") || "mock";
+    switch (kind) {
+      case "mock":
+        return new MockPriceSource(
+          parseMockPrices(
+            this.configService.get<string>("MOCK_TOKEN_PRICES") || "{}",
+          ),
+        );
+
+      case "feed": {
+        const url = this.configService.get<string>("PRICE_FEED_URL");
+        if (!url) {
+          throw new Error(
+            "PRICE_FEED_URL is required by the feed price source",
+          );
+        }
+        return new FeedPriceSource(url, async (feedUrl, params) => {
+          const response = await firstValueFrom(
+            this.httpService.get<unknown>(feedUrl, { params, timeout: 10_000 }),
+          );
+          return response.data;
+        });
+      }
+
+      default:
+        throw new Error(
+          `Invalid PRICE_SOURCE: ${kind}. Expected one of mock, feed`,
+        );
+    }
+  }
+}
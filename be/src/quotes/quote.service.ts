@@ -0,0 +1,284 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+} from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { Quote } from "@prisma/client";
+import { DbService } from "prisma/src/db.service";
+import { AmountService } from "../amounts/amount.service";
+import { assertU64, formatAmount } from "../amounts/amounts";
+import {
+  TIMELOCK_PRESETS,
+  TimelockPolicy,
+  TimelockPreset,
+} from "../timelocks/timelocks";
+import {
+  TokenPairWithTokens,
+  TokenRegistryService,
+} from "../tokens/token-registry.service";
+import { CreateQuoteDto, QuoteDto } from "./dto/quote.dto";
+import { PriceService } from "./price.service";
+import {
+  AuctionSpread,
+  PRICE_DECIMALS,
+  QuoteError,
+  QuoteFees,
+  assertBps,
+  computeQuote,
+  exchangeRate,
+} from "./quotes";
+
+const DEFAULT_QUOTE_TTL = 60;
+const DEFAULT_FEES: QuoteFees = { protocolFeeBps: 0, resolverFeeBps: 30 };
+// Same spread as the mock price oracle of scripts/fusion
+const DEFAULT_AUCTION_SPREAD: AuctionSpread = {
+  startPremiumBps: 500,
+  endDiscountBps: 200,
+};
+
+/**
+ * Issues quotes for the registered pairs and redeems them when their swap is initiated.
+ *
+ * QUOTE_TTL_SECONDS sets how long a quote can be redeemed, QUOTE_PROTOCOL_FEE_BPS,
+ * QUOTE_RESOLVER_FEE_BPS, QUOTE_AUCTION_START_PREMIUM_BPS and QUOTE_AUCTION_END_DISCOUNT_BPS
+ * its fees and auction spread.
+ */
+@Injectable()
+export class QuoteService {
+  private readonly logger = new Logger(QuoteService.name);
+  private readonly ttl: number;
+  private readonly fees: QuoteFees;
+  private readonly auction: AuctionSpread;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly dbService: DbService,
+    private readonly tokenRegistryService: TokenRegistryService,
+    private readonly amountService: AmountService,
+    private readonly priceService: PriceService,
+  ) {
+    this.ttl =
+      Number(this.configService.get<string>("QUOTE_TTL_SECONDS")) ||
+      DEFAULT_QUOTE_TTL;
+    this.fees = {
+      protocolFeeBps: this.readBps(
+        "QUOTE_PROTOCOL_FEE_BPS",
+        DEFAULT_FEES.protocolFeeBps,
+      ),
+      resolverFeeBps: this.readBps(
+        "QUOTE_RESOLVER_FEE_BPS",
+        DEFAULT_FEES.resolverFeeBps,
+      ),
+    };
+    this.auction = {
+      startPremiumBps: this.readBps(
+        "QUOTE_AUCTION_START_PREMIUM_BPS",
+        DEFAULT_AUCTION_SPREAD.startPremiumBps,
+      ),
+      endDiscountBps: this.readBps(
+        "QUOTE_AUCTION_END_DISCOUNT_BPS",
+        DEFAULT_AUCTION_SPREAD.endDiscountBps,
+      ),
+    };
+  }
+
+  /**
+   * Quote a swap of a registered pair and store the quote
+   * @throws BadRequestException when the pair is not swappable, has no price
+   * or the amount does not cover the fees
+   */
+  async createQuote(dto: CreateQuoteDto): Promise<QuoteDto> {
+    const pair = await this.tokenRegistryService.requirePair(
+      dto.pairId,
+      dto.amount,
+    );
+    const preset = dto.timelockPreset ?? TimelockPreset.STANDARD;
+    const policy = TIMELOCK_PRESETS[preset];
+
+    const quoted = await this.run(async () => {
+      const [srcPrice, dstPrice] = await this.priceService.getUsdPrices([
+        pair.srcToken,
+        pair.dstToken,
+      ]);
+      const amounts = computeQuote({
+        amount: BigInt(dto.amount),
+        srcDecimals: pair.srcToken.decimals,
+        dstDecimals: pair.dstToken.decimals,
+        srcPrice,
+        dstPrice,
+        fees: this.fees,
+        auction: this.auction,
+        rounding: this.amountService.getRounding(),
+      });
+
+      // The Aptos leg is a u64 escrow, the auction start is the most it can lock
+      if (pair.srcToken.chain === "aptos") {
+        assertU64(BigInt(dto.amount), "Aptos amount");
+      }
+      if (pair.dstToken.chain === "aptos") {
+        assertU64(amounts.auctionStartAmount, "Aptos amount");
+      }
+      return amounts;
+    });
+
+    const quote = await this.dbService.quote.create({
+      data: {
+        pairId: pair.id,
+        amount: BigInt(dto.amount).toString(),
+        dstAmount: quoted.dstAmount.toString(),
+        auctionStartAmount: quoted.auctionStartAmount.toString(),
+        auctionEndAmount: quoted.auctionEndAmount.toString(),
+        auctionDuration: policy.auctionDuration,
+        protocolFee: quoted.protocolFee.toString(),
+        resolverFee: quoted.resolverFee.toString(),
+        priceSource: this.priceService.getSourceName(),
+        timelockPreset: preset,
+        expiresAt: Math.floor(Date.now() / 1000) + this.ttl,
+      },
+    });
+    this.logger.log(
+      `Quoted ${quote.amount} ${pair.srcToken.symbol} -> ${quote.dstAmount} ${pair.dstToken.symbol} as ${quote.id}`,
+    );
+
+    return this.toQuoteDto(quote, pair, policy);
+  }
+
+  /**
+   * Redeem a quote for the swap it was issued for, a quote is redeemed once
+   * @param id - Quote ID
+   * @param pairId - Pair of the swap
+   * @param amount - Amount of the swap, in base units of the source token
+   * @param swapId - Swap redeeming the quote
+   * @returns The quote, its dstAmount is what the destination escrow locks
+   * @throws BadRequestException when the quote is unknown, expired or for another swap
+   * @throws ConflictException when the quote was already redeemed
+   */
+  async redeemQuote(
+    id: string,
+    pairId: string,
+    amount: string,
+    swapId: string,
+  ): Promise<Quote> {
+    const quote = await this.dbService.quote.findUnique({ where: { id } });
+    if (!quote) {
+      throw new BadRequestException(`Quote ${id} not found`);
+    }
+    if (quote.pairId !== pairId) {
+      throw new BadRequestException(`Quote ${id} is for another pair`);
+    }
+    if (BigInt(quote.amount) !== BigInt(amount)) {
+      throw new BadRequestException(
+        `Quote ${id} is for an amount of ${quote.amount}, not ${amount}`,
+      );
+    }
+    if (quote.swapId) {
+      throw new ConflictException(`Quote ${id} was already redeemed`);
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (quote.expiresAt < now) {
+      throw new BadRequestException(`Quote ${id} expired`);
+    }
+
+    // Only one of concurrent swaps redeeming the quote gets to update it
+    const { count } = await this.dbService.quote.updateMany({
+      where: { id, swapId: null },
+      data: { swapId, redeemedAt: now },
+    });
+    if (count === 0) {
+      throw new ConflictException(`Quote ${id} was already redeemed`);
+    }
+    return quote;
+  }
+
+  /**
+   * Get the timelock policy a quote was issued with
+   */
+  getTimelockPolicy(quote: Quote): TimelockPolicy {
+    return TIMELOCK_PRESETS[quote.timelockPreset as TimelockPreset];
+  }
+
+  /**
+   * Run a quote computation, its QuoteError is a bad request
+   */
+  private async run<T>(compute: () => Promise<T>): Promise<T> {
+    try {
+      return await compute();
+    } catch (error: unknown) {
+      if (error instanceof QuoteError) {
+        throw new BadRequestException(error.message);
+      }
+      throw error;
+    }
+  }
+
+  private readBps(key: string, defaultValue: number): number {
+    const value = this.configService.get<string>(key);
+    if (value === undefined || value === "") {
+      return defaultValue;
+    }
+    try {
+      return assertBps(Number(value), key);
+    } catch (error: unknown) {
+      throw new Error(
+        `Invalid ${key}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  private toQuoteDto(
+    quote: Quote,
+    pair: TokenPairWithTokens,
+    policy: TimelockPolicy,
+  ): QuoteDto {
+    const { srcToken, dstToken } = pair;
+    const srcAmount = BigInt(quote.amount);
+    const price = (dstAmount: string) =>
+      formatAmount(
+        exchangeRate(
+          srcAmount,
+          srcToken.decimals,
+          BigInt(dstAmount),
+          dstToken.decimals,
+        ),
+        PRICE_DECIMALS,
+      );
+    const dstAmountDto = (raw: string) =>
+      this.amountService.toAmountDto(raw, dstToken.decimals);
+
+    return {
+      id: quote.id,
+      pairId: quote.pairId,
+      srcAmount: this.amountService.toAmountDto(
+        quote.amount,
+        srcToken.decimals,
+      ),
+      dstAmount: dstAmountDto(quote.dstAmount),
+      price: price(quote.dstAmount),
+      auction: {
+        startAmount: dstAmountDto(quote.auctionStartAmount),
+        endAmount: dstAmountDto(quote.auctionEndAmount),
+        startPrice: price(quote.auctionStartAmount),
+        endPrice: price(quote.auctionEndAmount),
+        duration: quote.auctionDuration,
+      },
+      fees: {
+        protocolFee: dstAmountDto(quote.protocolFee),
+        protocolFeeBps: this.fees.protocolFeeBps,
+        resolverFee: dstAmountDto(quote.resolverFee),
+        resolverFeeBps: this.fees.resolverFeeBps,
+      },
+      timelocks: {
+        preset: quote.timelockPreset as TimelockPreset,
+        withdrawalPeriod: policy.withdrawalPeriod,
+        publicWithdrawalPeriod: policy.publicWithdrawalPeriod,
+        cancellationPeriod: policy.cancellationPeriod,
+        safetyMargin: policy.safetyMargin,
+      },
+      priceSource: quote.priceSource,
+      expiresAt: quote.expiresAt,
+    };
+  }
+}
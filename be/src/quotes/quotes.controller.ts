@@ -0,0 +1,25 @@
+import { Body, Controller, Post } from "@nestjs/common";
+import { ApiTags, ApiOperation, ApiResponse } from "@nestjs/swagger";
+import { QuoteService } from "./quote.service";
+import { CreateQuoteDto, QuoteDto } from "./dto/quote.dto";
+
+@ApiTags("quotes")
+@Controller("quotes")
+export class QuotesController {
+  constructor(private readonly quoteService: QuoteService) {}
+
+  @Post()
+  @ApiOperation({ summary: "Quote a swap of a token pair" })
+  @ApiResponse({
+    status: 201,
+    description: "Returns the quote to initiate the swap with",
+    type: QuoteDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: "Pair not supported, amount out of bounds or price missing",
+  })
+  createQuote(@Body() createQuoteDto: CreateQuoteDto) {
+    return this.quoteService.createQuote(createQuoteDto);
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from "@nestjs/common";
+import { HttpModule } from "@nestjs/axios";
+import { AmountsModule } from "../amounts/amounts.module";
+import { TokensModule } from "../tokens/tokens.module";
+import { PriceService } from "./price.service";
+import { QuoteService } from "./quote.service";
+import { QuotesController } from "./quotes.controller";
+
+@Module({
+  imports: [HttpModule, TokensModule, AmountsModule],
+  providers: [PriceService, QuoteService],
+  controllers: [QuotesController],
+  exports: [QuoteService, PriceService],
+})
+export class QuotesModule {}
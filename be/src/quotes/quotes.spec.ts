@@ -0,0 +1,83 @@
+import { AmountRounding } from "../amounts/amounts";
+import { MockPriceSource, parseMockPrices } from "./price-sources";
+import {
+  QuoteError,
+  QuoteInput,
+  computeQuote,
+  exchangeRate,
+  parsePrice,
+} from "./quotes";
+
+const ETH = 10n ** 18n;
+
+// 1 ETH at 3000 USD to APT (8 decimals) at 8 USD: 375 APT at the market rate
+const INPUT: QuoteInput = {
+  amount: ETH,
+  srcDecimals: 18,
+  dstDecimals: 8,
+  srcPrice: parsePrice("3000"),
+  dstPrice: parsePrice("8"),
+  fees: { protocolFeeBps: 10, resolverFeeBps: 30 },
+  auction: { startPremiumBps: 500, endDiscountBps: 200 },
+  rounding: AmountRounding.RESOLVER,
+};
+
+describe("quotes", () => {
+  it("parses prices into fixed point", () => {
+    expect(parsePrice("3000.5")).toBe(30005n * 10n ** 17n);
+    expect(parsePrice(8)).toBe(8n * 10n ** 18n);
+    expect(() => parsePrice("0")).toThrow("Price must be positive");
+    expect(() => parsePrice("-1")).toThrow(QuoteError);
+  });
+
+  it("converts at the market rate and takes the fees from the destination amount", () => {
+    const quote = computeQuote(INPUT);
+
+    expect(quote.marketAmount).toBe(375n * 10n ** 8n);
+    expect(quote.protocolFee).toBe(375n * 10n ** 5n);
+    expect(quote.resolverFee).toBe(1125n * 10n ** 5n);
+    expect(quote.dstAmount).toBe(37350000000n);
+    expect(quote.auctionStartAmount).toBe(39217500000n);
+    expect(quote.auctionEndAmount).toBe(36603000000n);
+  });
+
+  it("rounds in favour of the configured side", () => {
+    // 1/3 of an APT base unit of dust at the market rate
+    const input = {
+      ...INPUT,
+      amount: ETH / 3n,
+      fees: { protocolFeeBps: 0, resolverFeeBps: 0 },
+    };
+
+    const resolver = computeQuote(input);
+    const user = computeQuote({ ...input, rounding: AmountRounding.USER });
+
+    expect(user.marketAmount - resolver.marketAmount).toBe(1n);
+  });
+
+  it("rejects amounts the fees eat entirely", () => {
+    expect(() =>
+      computeQuote({ ...INPUT, amount: 1n, dstPrice: parsePrice("1000000") }),
+    ).toThrow(QuoteError);
+    expect(() =>
+      computeQuote({
+        ...INPUT,
+        fees: { protocolFeeBps: 10_000, resolverFeeBps: 0 },
+      }),
+    ).toThrow("Protocol fee must be an integer from 0 to 9999");
+  });
+
+  it("gives the rate of a quote per whole source token", () => {
+    expect(exchangeRate(ETH, 18, 375n * 10n ** 8n, 8)).toBe(375n * ETH);
+  });
+
+  it("prices unknown tokens at a dollar in the mock source", async () => {
+    const source = new MockPriceSource(parseMockPrices('{"eth": "3000"}'));
+
+    await expect(source.getUsdPrices(["ETH", "APT"])).resolves.toEqual({
+      ETH: parsePrice("3000"),
+      APT: parsePrice("1"),
+    });
+    expect(() => parseMockPrices('["ETH"]')).toThrow(QuoteError);
+  });
+});
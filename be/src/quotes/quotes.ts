@@ -0,0 +1,174 @@
+import { AmountRounding } from "../amounts/amounts";
+
+/**
+ * Quote arithmetic.
+ *
+ * Prices are USD values of one whole token, fixed point with PRICE_DECIMALS decimals.
+ * A quote converts the source amount at the market rate, takes the fees out of the
+ * destination amount and spreads the Dutch auction around what is left: it starts
+ * above the quoted amount and decays to a floor below it, like the mock oracle of
+ * scripts/fusion.
+ */
+
+export const PRICE_DECIMALS = 18;
+
+const PRICE_UNIT = 10n ** BigInt(PRICE_DECIMALS);
+const BPS = 10_000n;
+const PRICE_REGEX = /^(\d+)(?:\.(\d+))?$/;
+
+export class QuoteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QuoteError";
+  }
+}
+
+/**
+ * Fees taken from the destination amount, in basis points
+ */
+export type QuoteFees = {
+  protocolFeeBps: number;
+  resolverFeeBps: number;
+};
+
+/**
+ * Spread of the Dutch auction around the quoted amount, in basis points
+ */
+export type AuctionSpread = {
+  startPremiumBps: number;
+  endDiscountBps: number;
+};
+
+export type QuoteInput = {
+  // Base units of the source token
+  amount: bigint;
+  srcDecimals: number;
+  dstDecimals: number;
+  // USD prices of a whole token, see parsePrice
+  srcPrice: bigint;
+  dstPrice: bigint;
+  fees: QuoteFees;
+  auction: AuctionSpread;
+  rounding: AmountRounding;
+};
+
+/**
+ * Amounts of a quote, in base units of the destination token
+ */
+export type QuoteAmounts = {
+  // Source amount converted at the market rate
+  marketAmount: bigint;
+  protocolFee: bigint;
+  resolverFee: bigint;
+  // Market amount net of the fees, the amount the destination escrow locks
+  dstAmount: bigint;
+  auctionStartAmount: bigint;
+  auctionEndAmount: bigint;
+};
+
+/**
+ * Parse a USD price into fixed point
+ * @throws QuoteError when it is not a positive decimal
+ */
+export function parsePrice(value: string | number): bigint {
+  const text =
+    typeof value === "number" ? value.toFixed(PRICE_DECIMALS) : value;
+  const match = PRICE_REGEX.exec(text.trim());
+  if (!match) {
+    throw new QuoteError(`${value} is not a price`);
+  }
+
+  const [, whole, fraction = ""] = match;
+  const price =
+    BigInt(whole) * PRICE_UNIT +
+    BigInt(fraction.slice(0, PRICE_DECIMALS).padEnd(PRICE_DECIMALS, "0"));
+  if (price === 0n) {
+    throw new QuoteError("Price must be positive");
+  }
+  return price;
+}
+
+/**
+ * Check a number of basis points
+ * @param max - Largest accepted value, exclusive
+ */
+export function assertBps(value: number, name: string, max = 10_000): number {
+  if (!Number.isSafeInteger(value) || value < 0 || value >= max) {
+    throw new QuoteError(`${name} must be an integer from 0 to ${max - 1}`);
+  }
+  return value;
+}
+
+/**
+ * Quote a swap of `amount` source tokens
+ * @throws QuoteError when the fees or the auction floor leave nothing to the user
+ */
+export function computeQuote(input: QuoteInput): QuoteAmounts {
+  const { amount, fees, auction, rounding } = input;
+  assertBps(fees.protocolFeeBps, "Protocol fee");
+  assertBps(fees.resolverFeeBps, "Resolver fee");
+  assertBps(auction.startPremiumBps, "Auction start premium");
+  assertBps(auction.endDiscountBps, "Auction end discount");
+
+  // Amounts paid to the user round towards the favoured side, fees the other way
+  const toUser = rounding === AmountRounding.USER ? ceilDiv : floorDiv;
+  const toResolver = rounding === AmountRounding.USER ? floorDiv : ceilDiv;
+
+  const marketAmount = toUser(
+    amount * input.srcPrice * 10n ** BigInt(input.dstDecimals),
+    input.dstPrice * 10n ** BigInt(input.srcDecimals),
+  );
+  const protocolFee = toResolver(
+    marketAmount * BigInt(fees.protocolFeeBps),
+    BPS,
+  );
+  const resolverFee = toResolver(
+    marketAmount * BigInt(fees.resolverFeeBps),
+    BPS,
+  );
+  const dstAmount = marketAmount - protocolFee - resolverFee;
+  const auctionEndAmount = toUser(
+    dstAmount * (BPS - BigInt(auction.endDiscountBps)),
+    BPS,
+  );
+  if (dstAmount <= 0n || auctionEndAmount <= 0n) {
+    throw new QuoteError(
+      `Amount ${amount} is too small to cover the fees of the swap`,
+    );
+  }
+
+  return {
+    marketAmount,
+    protocolFee,
+    resolverFee,
+    dstAmount,
+    auctionStartAmount: toUser(
+      dstAmount * (BPS + BigInt(auction.startPremiumBps)),
+      BPS,
+    ),
+    auctionEndAmount,
+  };
+}
+
+/**
+ * Destination tokens paid per whole source token, fixed point with PRICE_DECIMALS decimals
+ */
+export function exchangeRate(
+  srcAmount: bigint,
+  srcDecimals: number,
+  dstAmount: bigint,
+  dstDecimals: number,
+): bigint {
+  return (
+    (dstAmount * 10n ** BigInt(srcDecimals) * PRICE_UNIT) /
+    (srcAmount * 10n ** BigInt(dstDecimals))
+  );
+}
+
+function floorDiv(numerator: bigint, denominator: bigint): bigint {
+  return numerator / denominator;
+}
+
+function ceilDiv(numerator: bigint, denominator: bigint): bigint {
+  return (numerator + denominator - 1n) / denominator;
+}
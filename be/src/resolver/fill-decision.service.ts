@@ -0,0 +1,203 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { Swap, SwapDirection } from "@prisma/client";
+import { DbService } from "prisma/src/db.service";
+import { formatAmount } from "../amounts/amounts";
+import { AptosService } from "../aptos/aptos.service";
+import { EvmService } from "../evm/evm.service";
+import { InventoryService } from "../inventory/inventory.service";
+import { PriceService } from "../quotes/price.service";
+import { PRICE_DECIMALS, assertBps } from "../quotes/quotes";
+import {
+  FillDecision,
+  FillOrder,
+  FillStrategy,
+  decideFill,
+  toUsd,
+} from "./fill-strategy";
+
+const APTOS_NATIVE_TOKEN = { symbol: "APT", decimals: 8 };
+
+const DEFAULT_STRATEGY: FillStrategy = {
+  targetProfitBps: 50,
+  minProfitBps: 10,
+  capitalCostBps: 1_000,
+  timelockBuffer: 10 * 60,
+};
+// Gas of creating the destination escrow and withdrawing the source escrow on each chain
+const DEFAULT_EVM_FILL_GAS = 350_000n;
+const DEFAULT_APTOS_FILL_GAS = 5_000n;
+
+/**
+ * Decides whether and when the resolver fills a swap, see src/resolver/fill-strategy.
+ *
+ * The auction is the one of the quote the swap redeemed, started when it was redeemed. Gas is
+ * priced at the current gas price of both chains for RESOLVER_EVM_FILL_GAS and
+ * RESOLVER_APTOS_FILL_GAS units, and the inventory is the unreserved balance of the destination
+ * token in the inventory ledger. RESOLVER_TARGET_PROFIT_BPS, RESOLVER_MIN_PROFIT_BPS,
+ * RESOLVER_CAPITAL_COST_BPS and RESOLVER_TIMELOCK_BUFFER_SECONDS set the strategy.
+ *
+ * Every decision is logged and recorded in the fill_decisions table.
+ */
+@Injectable()
+export class FillDecisionService {
+  private readonly logger = new Logger(FillDecisionService.name);
+  private readonly strategy: FillStrategy;
+  private readonly evmFillGas: bigint;
+  private readonly aptosFillGas: bigint;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly dbService: DbService,
+    private readonly priceService: PriceService,
+    private readonly evmService: EvmService,
+    private readonly aptosService: AptosService,
+    private readonly inventoryService: InventoryService,
+  ) {
+    this.strategy = {
+      targetProfitBps: this.readBps(
+        "RESOLVER_TARGET_PROFIT_BPS",
+        DEFAULT_STRATEGY.targetProfitBps,
+      ),
+      minProfitBps: this.readBps(
+        "RESOLVER_MIN_PROFIT_BPS",
+        DEFAULT_STRATEGY.minProfitBps,
+      ),
+      capitalCostBps: this.readBps(
+        "RESOLVER_CAPITAL_COST_BPS",
+        DEFAULT_STRATEGY.capitalCostBps,
+      ),
+      timelockBuffer:
+        Number(
+          this.configService.get<string>("RESOLVER_TIMELOCK_BUFFER_SECONDS"),
+        ) || DEFAULT_STRATEGY.timelockBuffer,
+    };
+    if (this.strategy.targetProfitBps < this.strategy.minProfitBps) {
+      throw new Error(
+        "Invalid RESOLVER_TARGET_PROFIT_BPS: lower than RESOLVER_MIN_PROFIT_BPS",
+      );
+    }
+
+    this.evmFillGas = BigInt(
+      this.configService.get<string>("RESOLVER_EVM_FILL_GAS") ||
+        DEFAULT_EVM_FILL_GAS,
+    );
+    this.aptosFillGas = BigInt(
+      this.configService.get<string>("RESOLVER_APTOS_FILL_GAS") ||
+        DEFAULT_APTOS_FILL_GAS,
+    );
+  }
+
+  /**
+   * Decide whether and when to fill a swap, and record the decision
+   * @param swap - Swap whose destination escrow is not created yet
+   * @param fillAmount - Source amount of a part of a swap filled in parts, the whole swap by default
+   * @throws Error when the swap did not redeem a quote or a price is missing
+   */
+  async decide(swap: Swap, fillAmount?: bigint): Promise<FillDecision> {
+    const quote = await this.dbService.quote.findUnique({
+      where: { swapId: swap.id },
+      include: { pair: { include: { srcToken: true, dstToken: true } } },
+    });
+    if (!quote?.redeemedAt) {
+      throw new Error(`Swap ${swap.id} did not redeem a quote`);
+    }
+
+    const { srcToken, dstToken } = quote.pair;
+    const evmNativeToken = this.evmService.getChain(
+      swap.evmChainId,
+    ).nativeToken;
+    const [srcPrice, dstPrice, evmNativePrice, aptosNativePrice] =
+      await this.priceService.getUsdPrices([
+        srcToken,
+        dstToken,
+        evmNativeToken,
+        APTOS_NATIVE_TOKEN,
+      ]);
+    const [evmGasPrice, aptosGasUnitPrice] = await Promise.all([
+      this.evmService.getGasPrice(swap.evmChainId),
+      this.aptosService.estimateGasUnitPrice(),
+    ]);
+
+    const now = Math.floor(Date.now() / 1000);
+    const toEvm = swap.direction === SwapDirection.APTOS_TO_EVM;
+    // The relayer escrows on Aptos hold no safety deposit
+    const safetyDeposit = toEvm
+      ? this.evmService.buildSwapImmutables(swap).safetyDeposit
+      : 0n;
+
+    // A part takes its share of the auction, and pays the gas of its own escrows
+    const amount = BigInt(quote.amount);
+    const srcAmount = fillAmount ?? amount;
+    const order: FillOrder = {
+      auction: {
+        startTime: quote.redeemedAt,
+        endTime: quote.redeemedAt + quote.auctionDuration,
+        startTakingAmount:
+          (BigInt(quote.auctionStartAmount) * srcAmount) / amount,
+        endTakingAmount: (BigInt(quote.auctionEndAmount) * srcAmount) / amount,
+      },
+      srcAmount,
+      srcDecimals: srcToken.decimals,
+      dstDecimals: dstToken.decimals,
+      srcPrice,
+      dstPrice,
+      gasCost:
+        toUsd(
+          evmGasPrice * this.evmFillGas,
+          evmNativeToken.decimals,
+          evmNativePrice,
+        ) +
+        toUsd(
+          aptosGasUnitPrice * this.aptosFillGas,
+          APTOS_NATIVE_TOKEN.decimals,
+          aptosNativePrice,
+        ),
+      safetyDeposit: toUsd(
+        safetyDeposit,
+        evmNativeToken.decimals,
+        evmNativePrice,
+      ),
+      // Held until the swap is withdrawn, at the latest when it becomes cancellable
+      safetyDepositLockTime: Math.max(swap.timelock - now, 0),
+      inventory: await this.inventoryService.getAvailable(dstToken),
+      deadline: swap.timelock,
+      now,
+    };
+
+    const decision = decideFill(order, this.strategy);
+    await this.dbService.fillDecision.create({
+      data: {
+        swapId: swap.id,
+        action: decision.action,
+        fillAt: decision.fillAt,
+        takingAmount: decision.takingAmount.toString(),
+        expectedProfit: decision.profit.toString(),
+        profitBps: decision.profitBps,
+        reason: decision.reason,
+      },
+    });
+    this.logger.log(
+      `Fill decision for swap ${swap.id}: ${decision.action}` +
+        (decision.fillAt === null ? "" : ` at ${decision.fillAt}`) +
+        `, taking ${decision.takingAmount} ${dstToken.symbol} for a profit of ` +
+        `${formatAmount(decision.profit, PRICE_DECIMALS)} USD (${decision.profitBps} bps). ${decision.reason}`,
+    );
+
+    return decision;
+  }
+
+  private readBps(key: string, defaultValue: number): number {
+    const value = this.configService.get<string>(key);
+    if (value === undefined || value === "") {
+      return defaultValue;
+    }
+    try {
+      return assertBps(Number(value), key);
+    } catch (error: unknown) {
+      throw new Error(
+        `Invalid ${key}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+}
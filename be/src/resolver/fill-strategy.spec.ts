@@ -0,0 +1,97 @@
+import { parsePrice } from "../quotes/quotes";
+import {
+  FillAction,
+  FillOrder,
+  FillStrategy,
+  decideFill,
+} from "./fill-strategy";
+
+const APT = 10n ** 8n;
+
+// 1 ETH at 3000 USD for APT at 8 USD, the auction decays from 393.75 to 367.5 APT in 100 seconds
+const ORDER: FillOrder = {
+  auction: {
+    startTime: 0,
+    endTime: 100,
+    startTakingAmount: (39375n * APT) / 100n,
+    endTakingAmount: (3675n * APT) / 10n,
+  },
+  srcAmount: 10n ** 18n,
+  srcDecimals: 18,
+  dstDecimals: 8,
+  srcPrice: parsePrice("3000"),
+  dstPrice: parsePrice("8"),
+  gasCost: parsePrice("1"),
+  safetyDeposit: 0n,
+  safetyDepositLockTime: 0,
+  inventory: 1000n * APT,
+  deadline: 1_000,
+  now: 0,
+};
+
+const STRATEGY: FillStrategy = {
+  targetProfitBps: 50,
+  minProfitBps: 10,
+  capitalCostBps: 1_000,
+  timelockBuffer: 600,
+};
+
+describe("fill strategy", () => {
+  it("waits for the auction to reach the target profit", () => {
+    const decision = decideFill(ORDER, STRATEGY);
+
+    // The target allows 373 APT (3000 - 15 - 1 USD of gas), the auction is under it at 80 seconds
+    expect(decision.action).toBe(FillAction.WAIT);
+    expect(decision.fillAt).toBe(80);
+    expect(decision.takingAmount).toBe(37275000000n);
+    expect(decision.profit).toBe(parsePrice("17"));
+    expect(decision.profitBps).toBe(56);
+
+    expect(decideFill({ ...ORDER, now: 90 }, STRATEGY)).toMatchObject({
+      action: FillAction.FILL,
+      fillAt: 90,
+    });
+  });
+
+  it("counts the capital cost of the safety deposit", () => {
+    // 10% a year of 3650 USD for a day costs 1 USD, like the gas
+    const decision = decideFill(
+      {
+        ...ORDER,
+        gasCost: 0n,
+        safetyDeposit: parsePrice("3650"),
+        safetyDepositLockTime: 24 * 60 * 60,
+      },
+      STRATEGY,
+    );
+    expect(decision.fillAt).toBe(80);
+    expect(decision.profit).toBe(parsePrice("17"));
+  });
+
+  it("fills at the latest safe time when the target is out of reach", () => {
+    const decision = decideFill(ORDER, { ...STRATEGY, targetProfitBps: 300 });
+
+    expect(decision.action).toBe(FillAction.WAIT);
+    expect(decision.fillAt).toBe(100);
+    expect(decision.takingAmount).toBe((3675n * APT) / 10n);
+    expect(decision.profitBps).toBe(196);
+  });
+
+  it("skips unprofitable, unsafe and unfunded fills", () => {
+    // The deadline cuts the auction at 50 seconds, when the fill still loses money
+    const early = decideFill({ ...ORDER, deadline: 650 }, STRATEGY);
+    expect(early.action).toBe(FillAction.SKIP);
+    expect(early.fillAt).toBeNull();
+    expect(early.profit < 0n).toBe(true);
+
+    expect(decideFill({ ...ORDER, deadline: 500 }, STRATEGY)).toMatchObject({
+      action: FillAction.SKIP,
+      reason: "Deadline 500 leaves no time to fill safely",
+    });
+
+    expect(decideFill({ ...ORDER, inventory: APT }, STRATEGY)).toMatchObject({
+      action: FillAction.SKIP,
+      takingAmount: 37275000000n,
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import {
+  DutchAuction,
+  getTakingAmount,
+  getTimeForTakingAmount,
+} from "../auction/dutch-auction";
+
+/**
+ * Fill decisions of the resolver.
+ *
+ * Filling a swap means locking the current auction amount of the destination token in the
+ * destination escrow, against the source amount paid on withdrawal. The profit of a fill is
+ * the USD value of the source amount minus the value of the taking amount, the gas of both
+ * chains and the cost of the capital held in the safety deposit. It grows while the auction
+ * decays, so the resolver waits for its target margin. When the target is out of reach, it
+ * fills at the latest moment the timelocks leave room for, provided the minimum margin is met.
+ *
+ * USD values are fixed point with the PRICE_DECIMALS decimals of the quotes.
+ */
+
+export enum FillAction {
+  FILL = "fill",
+  WAIT = "wait",
+  SKIP = "skip",
+}
+
+export type FillStrategy = {
+  // Margin the resolver fills at as soon as the auction reaches it, in basis points of the source value
+  targetProfitBps: number;
+  // Margin under which a swap is skipped, in basis points of the source value
+  minProfitBps: number;
+  // Yearly cost of the capital held in safety deposits, in basis points
+  capitalCostBps: number;
+  // Seconds kept between the fill and the deadline, for the escrows to be created and withdrawn
+  timelockBuffer: number;
+};
+
+export type FillOrder = {
+  // Taking amounts in base units of the destination token
+  auction: DutchAuction;
+  // Base units of the source token
+  srcAmount: bigint;
+  srcDecimals: number;
+  dstDecimals: number;
+  // USD prices of a whole token
+  srcPrice: bigint;
+  dstPrice: bigint;
+  // USD value of the gas of the fill on both chains
+  gasCost: bigint;
+  // USD value of the safety deposit, and the seconds it stays locked
+  safetyDeposit: bigint;
+  safetyDepositLockTime: number;
+  // Base units of the destination token the resolver can lock
+  inventory: bigint;
+  // Time the destination escrow must be created before, unix seconds
+  deadline: number;
+  now: number;
+};
+
+export type FillDecision = {
+  action: FillAction;
+  // Time to fill at, null when skipped
+  fillAt: number | null;
+  // Taking amount and expected USD profit at fillAt, or at the time a skipped fill was evaluated at
+  takingAmount: bigint;
+  profit: bigint;
+  profitBps: number;
+  reason: string;
+};
+
+const BPS = 10_000n;
+const SECONDS_PER_YEAR = 365n * 24n * 60n * 60n;
+
+/**
+ * Decide whether and when to fill a swap
+ * @throws AuctionError when the auction is invalid
+ */
+export function decideFill(
+  order: FillOrder,
+  strategy: FillStrategy,
+): FillDecision {
+  const { auction, now } = order;
+  const earliest = Math.max(now, Number(auction.startTime));
+  // The taking amount stops decaying with the auction, waiting longer gains nothing
+  const latest = Math.min(
+    Number(auction.endTime),
+    order.deadline - strategy.timelockBuffer,
+  );
+
+  const srcValue = toUsd(order.srcAmount, order.srcDecimals, order.srcPrice);
+  const costs =
+    order.gasCost +
+    (order.safetyDeposit *
+      BigInt(strategy.capitalCostBps) *
+      BigInt(order.safetyDepositLockTime)) /
+      (BPS * SECONDS_PER_YEAR);
+  const evaluate = (fillAt: number) => {
+    const takingAmount = getTakingAmount(auction, fillAt);
+    const profit =
+      srcValue - toUsd(takingAmount, order.dstDecimals, order.dstPrice) - costs;
+    const profitBps = srcValue > 0n ? Number((profit * BPS) / srcValue) : 0;
+    return { takingAmount, profit, profitBps };
+  };
+  // Earliest time the margin reaches a number of basis points
+  const reachedAt = (bps: number) => {
+    const maxDstValue = (srcValue * (BPS - BigInt(bps))) / BPS - costs;
+    const time = getTimeForTakingAmount(
+      auction,
+      maxDstValue < 0n
+        ? -1n
+        : (maxDstValue * 10n ** BigInt(order.dstDecimals)) / order.dstPrice,
+    );
+    return time === null ? null : Number(time);
+  };
+
+  if (latest < earliest) {
+    return {
+      action: FillAction.SKIP,
+      fillAt: null,
+      ...evaluate(earliest),
+      reason: `Deadline ${order.deadline} leaves no time to fill safely`,
+    };
+  }
+
+  let fillAt: number;
+  let reason: string;
+  const targetAt = reachedAt(strategy.targetProfitBps);
+  if (targetAt !== null && targetAt <= latest) {
+    fillAt = Math.max(targetAt, earliest);
+    reason = `Auction reaches the target profit of ${strategy.targetProfitBps} bps`;
+  } else {
+    const minimumAt = reachedAt(strategy.minProfitBps);
+    if (minimumAt === null || minimumAt > latest) {
+      return {
+        action: FillAction.SKIP,
+        fillAt: null,
+        ...evaluate(latest),
+        reason: `Auction does not reach the minimum profit of ${strategy.minProfitBps} bps before ${latest}`,
+      };
+    }
+    fillAt = latest;
+    reason = `Latest safe fill, the target profit of ${strategy.targetProfitBps} bps is out of reach`;
+  }
+
+  const outcome = evaluate(fillAt);
+  if (order.inventory < outcome.takingAmount) {
+    return {
+      action: FillAction.SKIP,
+      fillAt: null,
+      ...outcome,
+      reason: `Inventory of ${order.inventory} does not cover the taking amount of ${outcome.takingAmount}`,
+    };
+  }
+
+  return {
+    action: fillAt <= now ? FillAction.FILL : FillAction.WAIT,
+    fillAt,
+    ...outcome,
+    reason,
+  };
+}
+
+/**
+ * USD value of base units of a token
+ */
+export function toUsd(amount: bigint, decimals: number, price: bigint): bigint {
+  return (amount * price) / 10n ** BigInt(decimals);
+}
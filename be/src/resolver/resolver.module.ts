@@ -0,0 +1,13 @@
+import { Module } from "@nestjs/common";
+import { AptosModule } from "../aptos/aptos.module";
+import { EvmModule } from "../evm/evm.module";
+import { InventoryModule } from "../inventory/inventory.module";
+import { QuotesModule } from "../quotes/quotes.module";
+import { FillDecisionService } from "./fill-decision.service";
+
+@Module({
+  imports: [QuotesModule, EvmModule, AptosModule, InventoryModule],
+  providers: [FillDecisionService],
+  exports: [FillDecisionService],
+})
+export class ResolverModule {}
@@ -0,0 +1,379 @@
+import { Injectable, Logger, OnModuleInit } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { Swap, SwapFill, SwapFillStatus, SwapStatus } from "@prisma/client";
+import * as fs from "fs";
+import * as path from "path";
+import { DbService } from "prisma/src/db.service";
+import { AptosService } from "../aptos/aptos.service";
+import { EvmService } from "../evm/evm.service";
+import { FinalityService } from "../finality/finality.service";
+import {
+  getSwapAptosImmutables,
+  getSwapEvmImmutables,
+} from "../immutables/immutables";
+import { TimelockStage } from "../timelocks/timelocks";
+import { EscrowChainState } from "../types/escrow.types";
+import { APTOS_ESCROW_CREATED } from "../workers/events/aptos-escrow.events";
+import { EVM_ESCROW_DEPLOYED } from "../workers/events/evm-escrow.events";
+import {
+  Keystore,
+  SEALED_PREFIX,
+  generateKeystore,
+  openSecret,
+  parseKeystore,
+  sealSecret,
+} from "./secrets";
+
+const DEFAULT_KEYSTORE_PATH = "keystore/secrets.json";
+
+/**
+ * Swaps whose escrows are closed, their secret has nothing left to unlock
+ */
+const SETTLED_STATUSES: SwapStatus[] = [
+  SwapStatus.COMPLETED,
+  SwapStatus.REFUNDED,
+];
+
+const SETTLED_FILL_STATUSES: SwapFillStatus[] = [
+  SwapFillStatus.COMPLETED,
+  SwapFillStatus.REFUNDED,
+];
+
+/**
+ * Who reads a secret and why, recorded in the secret_access_logs table
+ */
+export type SecretAccess = {
+  actor: string;
+  purpose: string;
+};
+
+/**
+ * Store of the swap secrets, sealed at rest with the keys of the local keystore,
+ * see src/secrets/secrets.
+ *
+ * The keystore is the JSON of SECRET_KEYSTORE, or the file at SECRET_KEYSTORE_PATH. Only a
+ * development relayer creates one with a random key when missing. Plaintext secrets stored
+ * before the vault are sealed on startup.
+ *
+ * The secret of a swap is released only once both of its escrows are on chain, neither
+ * missing nor cancelled, their creations reached the confirmation depth of their chain and
+ * they are past the finality stage of their timelocks, or once the swap is settled. The
+ * secrets of a swap filled in parts are gated by the escrows of their own fill, the secret of
+ * the swap is the one of its last fill. Every read is recorded, released or not.
+ */
+@Injectable()
+export class SecretVaultService implements OnModuleInit {
+  private readonly logger = new Logger(SecretVaultService.name);
+  private readonly keystore: Keystore;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly dbService: DbService,
+    private readonly evmService: EvmService,
+    private readonly aptosService: AptosService,
+    private readonly finalityService: FinalityService,
+  ) {
+    try {
+      this.keystore = parseKeystore(this.readKeystore());
+    } catch (error: unknown) {
+      throw new Error(
+        `Invalid secret keystore: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Read the keystore from SECRET_KEYSTORE, or from the file at SECRET_KEYSTORE_PATH.
+   * Losing the keystore loses every sealed secret, so it is only created when missing in
+   * development, anywhere else the relayer refuses to start without it.
+   */
+  private readKeystore(): string {
+    const keystore = this.configService.get<string>("SECRET_KEYSTORE");
+    if (keystore) {
+      return keystore;
+    }
+
+    const development =
+      this.configService.get<string>("NODE_ENV") === "development";
+    const keystorePath =
+      this.configService.get<string>("SECRET_KEYSTORE_PATH") ||
+      (development ? DEFAULT_KEYSTORE_PATH : undefined);
+    if (!keystorePath) {
+      throw new Error("SECRET_KEYSTORE or SECRET_KEYSTORE_PATH is required");
+    }
+
+    if (!fs.existsSync(keystorePath)) {
+      if (!development) {
+        throw new Error(`Keystore file ${keystorePath} does not exist`);
+      }
+      fs.mkdirSync(path.dirname(keystorePath), { recursive: true });
+      fs.writeFileSync(keystorePath, generateKeystore(), { mode: 0o600 });
+      this.logger.warn(`Created development secret keystore ${keystorePath}`);
+    }
+    return fs.readFileSync(keystorePath, "utf8");
+  }
+
+  async onModuleInit(): Promise<void> {
+    await this.sealPlaintextSecrets();
+  }
+
+  /**
+   * Seal the secret of a swap for its preimage column
+   */
+  sealSwapSecret(swapId: string, secret: string): string {
+    return sealSecret(secret, swapId, this.keystore);
+  }
+
+  /**
+   * Seal a secret of a swap filled in parts for the swap_secrets table
+   */
+  sealFillSecret(swapId: string, index: number, secret: string): string {
+    return sealSecret(secret, `${swapId}:${index}`, this.keystore);
+  }
+
+  /**
+   * Read the secret of a swap, if the release policy allows it
+   * @returns null when the swap has no secret or it is withheld
+   */
+  async revealSwapSecret(
+    swap: Swap,
+    access: SecretAccess,
+  ): Promise<string | null> {
+    if (!swap.preimage) {
+      return null;
+    }
+
+    const settled = SETTLED_STATUSES.includes(swap.status);
+    let blocker: string | null = null;
+    if (!settled && swap.partsCount !== null) {
+      // The secret of a swap filled in parts is the one of its last fill
+      const fill = await this.dbService.swapFill.findUnique({
+        where: {
+          swapId_secretIndex: { swapId: swap.id, secretIndex: swap.partsCount },
+        },
+      });
+      blocker = fill
+        ? await this.getReleaseBlocker(swap, fill)
+        : `Fill ${swap.partsCount} is not created`;
+    } else if (!settled) {
+      blocker = await this.getReleaseBlocker(swap);
+    }
+
+    await this.recordAccess(
+      swap.id,
+      null,
+      access,
+      blocker ?? (settled ? "Swap settled" : "Escrows final"),
+      blocker === null,
+    );
+    if (blocker !== null) {
+      return null;
+    }
+    return openSecret(swap.preimage, swap.id, this.keystore);
+  }
+
+  /**
+   * Read the secret of a fill of a swap filled in parts, if the release policy allows it.
+   * Only the escrows of the fill are checked
+   * @returns null when the secret of the fill is not revealed yet or it is withheld
+   */
+  async revealFillSecret(
+    swap: Swap,
+    fill: SwapFill,
+    access: SecretAccess,
+  ): Promise<string | null> {
+    const secret = await this.dbService.swapSecret.findUnique({
+      where: { swapId_index: { swapId: swap.id, index: fill.secretIndex } },
+    });
+    if (!secret?.secret) {
+      return null;
+    }
+
+    const settled =
+      SETTLED_STATUSES.includes(swap.status) ||
+      SETTLED_FILL_STATUSES.includes(fill.status);
+    const blocker = settled ? null : await this.getReleaseBlocker(swap, fill);
+    await this.recordAccess(
+      swap.id,
+      fill.secretIndex,
+      access,
+      blocker ?? (settled ? "Fill settled" : "Escrows final"),
+      blocker === null,
+    );
+    if (blocker !== null) {
+      return null;
+    }
+    return openSecret(
+      secret.secret,
+      `${swap.id}:${fill.secretIndex}`,
+      this.keystore,
+    );
+  }
+
+  /**
+   * Read the secret of a swap for an API response, only once the swap is settled
+   */
+  async getSettledSecret(
+    swap: Swap,
+    actor: string,
+  ): Promise<string | undefined> {
+    if (!swap.preimage || !SETTLED_STATUSES.includes(swap.status)) {
+      return undefined;
+    }
+    const secret = await this.revealSwapSecret(swap, {
+      actor,
+      purpose: "API response",
+    });
+    return secret ?? undefined;
+  }
+
+  /**
+   * Record a read of a secret, and warn when it is withheld
+   * @param secretIndex - Index of the secret of a fill, null for the secret of the swap
+   * @param reason - Why the secret is released or withheld
+   */
+  private async recordAccess(
+    swapId: string,
+    secretIndex: number | null,
+    access: SecretAccess,
+    reason: string,
+    granted: boolean,
+  ): Promise<void> {
+    await this.dbService.secretAccessLog.create({
+      data: {
+        swapId,
+        secretIndex,
+        actor: access.actor,
+        purpose: access.purpose,
+        granted,
+        reason,
+      },
+    });
+
+    if (!granted) {
+      const secret =
+        secretIndex === null
+          ? `swap ${swapId}`
+          : `fill ${secretIndex} of swap ${swapId}`;
+      this.logger.warn(
+        `Withheld the secret of ${secret} from ${access.actor}: ${reason}`,
+      );
+    }
+  }
+
+  /**
+   * Check both escrows of a swap, or of one of its fills, on their chain.
+   * Also tells a caller holding the secret whether it may withdraw the escrows with it.
+   * @returns Why the secret is withheld, null when it can be released
+   */
+  async getReleaseBlocker(swap: Swap, fill?: SwapFill): Promise<string | null> {
+    const escrows = fill ?? swap;
+    if (
+      !escrows.evmHtlcAddress ||
+      !escrows.aptosHtlcAddress ||
+      !escrows.evmImmutables ||
+      !escrows.aptosImmutables
+    ) {
+      return "Escrows are not recorded on both chains";
+    }
+    // Fills share the observations of their swap, theirs are told apart by transaction
+    if (fill && (!fill.evmTxHash || !fill.aptosTxHash)) {
+      return "Escrow transactions are not recorded on both chains";
+    }
+
+    // Escrows take their withdrawals once their finality stage is over
+    const now = Math.floor(Date.now() / 1000);
+    const evmFinalAt = Number(
+      getSwapEvmImmutables(escrows).timelocks.values[
+        TimelockStage.SrcWithdrawal
+      ],
+    );
+    const aptosFinalAt =
+      getSwapAptosImmutables(escrows).timelocks.dstWithdrawal;
+    if (now < evmFinalAt) {
+      return `EVM escrow is not final before ${evmFinalAt}`;
+    }
+    if (now < aptosFinalAt) {
+      return `Aptos escrow is not final before ${aptosFinalAt}`;
+    }
+
+    // A reorg could still undo an escrow its timelocks already count as final
+    const [evmConfirmed, aptosConfirmed] = await Promise.all([
+      this.finalityService.isConfirmed(
+        swap.id,
+        EVM_ESCROW_DEPLOYED,
+        fill?.evmTxHash ?? undefined,
+      ),
+      this.finalityService.isConfirmed(
+        swap.id,
+        APTOS_ESCROW_CREATED,
+        fill?.aptosTxHash ?? undefined,
+      ),
+    ]);
+    if (!evmConfirmed) {
+      return "EVM escrow deployment is not confirmed";
+    }
+    if (!aptosConfirmed) {
+      return "Aptos escrow creation is not confirmed";
+    }
+
+    const [evmState, aptosState] = await Promise.all([
+      this.evmService.getEscrowState(escrows.evmHtlcAddress, swap.evmChainId),
+      this.aptosService.getEscrowState(escrows.aptosHtlcAddress),
+    ]);
+    for (const [chain, state] of Object.entries({
+      EVM: evmState,
+      Aptos: aptosState,
+    })) {
+      if (
+        state === EscrowChainState.MISSING ||
+        state === EscrowChainState.CANCELLED
+      ) {
+        return `${chain} escrow is ${state}`;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Seal the secrets stored in plaintext before the vault
+   */
+  private async sealPlaintextSecrets(): Promise<void> {
+    const swaps = await this.dbService.swap.findMany({
+      where: {
+        preimage: { not: null },
+        NOT: { preimage: { startsWith: SEALED_PREFIX } },
+      },
+      select: { id: true, preimage: true },
+    });
+    for (const { id, preimage } of swaps) {
+      if (preimage) {
+        await this.dbService.swap.updateMany({
+          where: { id, preimage },
+          data: { preimage: this.sealSwapSecret(id, preimage) },
+        });
+      }
+    }
+
+    const secrets = await this.dbService.swapSecret.findMany({
+      where: {
+        secret: { not: null },
+        NOT: { secret: { startsWith: SEALED_PREFIX } },
+      },
+    });
+    for (const { id, swapId, index, secret } of secrets) {
+      if (secret) {
+        await this.dbService.swapSecret.updateMany({
+          where: { id, secret },
+          data: { secret: this.sealFillSecret(swapId, index, secret) },
+        });
+      }
+    }
+
+    if (swaps.length + secrets.length > 0) {
+      this.logger.log(
+        `Sealed ${swaps.length + secrets.length} plaintext secrets`,
+      );
+    }
+  }
+}
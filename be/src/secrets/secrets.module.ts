@@ -0,0 +1,13 @@
+import { Module, forwardRef } from "@nestjs/common";
+import { AptosModule } from "../aptos/aptos.module";
+import { EvmModule } from "../evm/evm.module";
+import { FinalityModule } from "../finality/finality.module";
+import { SecretVaultService } from "./secret-vault.service";
+
+@Module({
+  // The Aptos monitor seals the secrets it discovers, see AptosHtlcMonitorModule
+  imports: [EvmModule, forwardRef(() => AptosModule), FinalityModule],
+  providers: [SecretVaultService],
+  exports: [SecretVaultService],
+})
+export class SecretsModule {}
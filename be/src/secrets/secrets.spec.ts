@@ -0,0 +1,70 @@
+import {
+  SEALED_PREFIX,
+  SecretVaultError,
+  generateKeystore,
+  isSealed,
+  openSecret,
+  parseKeystore,
+  sealSecret,
+} from "./secrets";
+
+const SECRET = "0x" + "ab".repeat(32);
+
+describe("secrets", () => {
+  it("seals and opens secrets under their context", () => {
+    const keystore = parseKeystore(generateKeystore());
+    const sealed = sealSecret(SECRET, "swap-1", keystore);
+
+    expect(isSealed(sealed)).toBe(true);
+    expect(sealed.startsWith(`${SEALED_PREFIX}k1:`)).toBe(true);
+    expect(sealed).not.toContain(SECRET.slice(2));
+    expect(sealSecret(SECRET, "swap-1", keystore)).not.toBe(sealed);
+    expect(openSecret(sealed, "swap-1", keystore)).toBe(SECRET);
+
+    expect(() => openSecret(sealed, "swap-2", keystore)).toThrow(
+      new SecretVaultError("Sealed secret does not authenticate under swap-2"),
+    );
+    expect(() => openSecret(SECRET, "swap-1", keystore)).toThrow(
+      new SecretVaultError("Value is not a sealed secret"),
+    );
+  });
+
+  it("opens secrets sealed before a key rotation", () => {
+    const { keys } = JSON.parse(generateKeystore()) as {
+      keys: Record<string, string>;
+    };
+    const before = parseKeystore(JSON.stringify({ activeKeyId: "k1", keys }));
+    const sealed = sealSecret(SECRET, "swap-1", before);
+
+    const rotated = parseKeystore(
+      JSON.stringify({
+        activeKeyId: "k2",
+        keys: { ...keys, k2: Buffer.alloc(32, 1).toString("base64") },
+      }),
+    );
+    expect(openSecret(sealed, "swap-1", rotated)).toBe(SECRET);
+    expect(sealSecret(SECRET, "swap-1", rotated)).toMatch(/^enc:v1:k2:/);
+
+    const other = parseKeystore(generateKeystore("k3"));
+    expect(() => openSecret(sealed, "swap-1", other)).toThrow(
+      new SecretVaultError("Key k1 is not in the keystore"),
+    );
+  });
+
+  it("rejects malformed keystores", () => {
+    expect(() => parseKeystore("{")).toThrow(SecretVaultError);
+    expect(() =>
+      parseKeystore(
+        JSON.stringify({ activeKeyId: "k1", keys: { k1: "AAAA" } }),
+      ),
+    ).toThrow(SecretVaultError);
+    expect(() =>
+      parseKeystore(
+        JSON.stringify({
+          activeKeyId: "k2",
+          keys: { k1: Buffer.alloc(32).toString("base64") },
+        }),
+      ),
+    ).toThrow(new SecretVaultError("Active key k2 is not in the keystore"));
+  });
+});
@@ -0,0 +1,166 @@
+import * as crypto from "crypto";
+
+/**
+ * Encryption of the swap secrets at rest.
+ *
+ * A secret is sealed with AES-256-GCM under a key of the local keystore into
+ * `enc:v1:<key ID>:<iv>:<auth tag>:<ciphertext>`, the last three in base64. The context the
+ * secret is stored under, e.g. its swap ID, is authenticated with it, so a sealed secret
+ * copied to another row does not open.
+ *
+ * The keystore is a JSON file `{ "activeKeyId": "k1", "keys": { "k1": "<base64>" } }` of
+ * 32-byte keys. New secrets are sealed with the active key, the other keys stay to open the
+ * secrets sealed before a rotation.
+ */
+
+export const SEALED_PREFIX = "enc:v1:";
+
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const KEY_ID_REGEX = /^[\w-]+$/;
+
+export class SecretVaultError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SecretVaultError";
+  }
+}
+
+export type Keystore = {
+  activeKeyId: string;
+  keys: Map<string, Buffer>;
+};
+
+/**
+ * Parse the content of a keystore file
+ * @throws SecretVaultError when a key is malformed or the active key is missing
+ */
+export function parseKeystore(content: string): Keystore {
+  let parsed: { activeKeyId?: unknown; keys?: unknown };
+  try {
+    parsed = JSON.parse(content) as typeof parsed;
+  } catch {
+    throw new SecretVaultError("Keystore is not valid JSON");
+  }
+
+  const { activeKeyId, keys } = parsed;
+  if (typeof keys !== "object" || keys === null) {
+    throw new SecretVaultError("Keystore has no keys");
+  }
+
+  const keystore: Keystore = {
+    activeKeyId: String(activeKeyId),
+    keys: new Map(),
+  };
+  for (const [keyId, value] of Object.entries(keys)) {
+    const key = Buffer.from(String(value), "base64");
+    if (!KEY_ID_REGEX.test(keyId) || key.length !== KEY_LENGTH) {
+      throw new SecretVaultError(
+        `Key ${keyId} must be ${KEY_LENGTH} bytes in base64 under an alphanumeric ID`,
+      );
+    }
+    keystore.keys.set(keyId, key);
+  }
+  if (!keystore.keys.has(keystore.activeKeyId)) {
+    throw new SecretVaultError(
+      `Active key ${keystore.activeKeyId} is not in the keystore`,
+    );
+  }
+  return keystore;
+}
+
+/**
+ * Create the content of a keystore file with a random key
+ */
+export function generateKeystore(keyId = "k1"): string {
+  return JSON.stringify(
+    {
+      activeKeyId: keyId,
+      keys: { [keyId]: crypto.randomBytes(KEY_LENGTH).toString("base64") },
+    },
+    null,
+    2,
+  );
+}
+
+/**
+ * Check whether a stored value is a sealed secret, and not a plaintext one stored before
+ */
+export function isSealed(value: string): boolean {
+  return value.startsWith(SEALED_PREFIX);
+}
+
+/**
+ * Seal a secret with the active key
+ * @param context - What the secret is stored under, needed to open it
+ */
+export function sealSecret(
+  secret: string,
+  context: string,
+  keystore: Keystore,
+): string {
+  const keyId = keystore.activeKeyId;
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(
+    "aes-256-gcm",
+    getKey(keystore, keyId),
+    iv,
+  );
+  cipher.setAAD(Buffer.from(context));
+  const ciphertext = Buffer.concat([cipher.update(secret), cipher.final()]);
+
+  return (
+    SEALED_PREFIX +
+    [keyId, iv, cipher.getAuthTag(), ciphertext]
+      .map((part) =>
+        typeof part === "string" ? part : part.toString("base64"),
+      )
+      .join(":")
+  );
+}
+
+/**
+ * Open a sealed secret
+ * @param context - What the secret was sealed under
+ * @throws SecretVaultError when the value is not sealed, its key is unknown or it does not
+ * authenticate under the context
+ */
+export function openSecret(
+  sealed: string,
+  context: string,
+  keystore: Keystore,
+): string {
+  const parts = isSealed(sealed)
+    ? sealed.slice(SEALED_PREFIX.length).split(":")
+    : [];
+  if (parts.length !== 4) {
+    throw new SecretVaultError("Value is not a sealed secret");
+  }
+
+  const [keyId, iv, tag, ciphertext] = parts;
+  const decipher = crypto.createDecipheriv(
+    "aes-256-gcm",
+    getKey(keystore, keyId),
+    Buffer.from(iv, "base64"),
+  );
+  decipher.setAAD(Buffer.from(context));
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+  try {
+    return Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, "base64")),
+      decipher.final(),
+    ]).toString();
+  } catch {
+    throw new SecretVaultError(
+      `Sealed secret does not authenticate under ${context}`,
+    );
+  }
+}
+
+function getKey(keystore: Keystore, keyId: string): Buffer {
+  const key = keystore.keys.get(keyId);
+  if (!key) {
+    throw new SecretVaultError(`Key ${keyId} is not in the keystore`);
+  }
+  return key;
+}
@@ -1,84 +1,202 @@
-
-import { ApiProperty } from '@nestjs/swagger';
-import { IsString, IsNumber, IsOptional, IsBoolean } from 'class-validator';
+import { ApiProperty } from "@nestjs/swagger";
+import { IsString, IsNumber, IsOptional, IsBoolean } from "class-validator";
 
 export class HtlcStatusDto {
   @ApiProperty({
-    description: 'Indicates if the HTLC exists',
+    description: "Indicates if the HTLC exists",
     example: true,
   })
   @IsBoolean()
   readonly exists: boolean;
 
   @ApiProperty({
-    description: 'Sender of the HTLC',
-    example: '0x1234567890123456789012345678901234567890',
+    description: "Sender of the HTLC",
+    example: "0x1234567890123456789012345678901234567890",
   })
   @IsString()
   readonly sender: string;
 
   @ApiProperty({
-    description: 'Recipient of the HTLC',
-    example: '0x1234567890123456789012345678901234567890',
+    description: "Recipient of the HTLC",
+    example: "0x1234567890123456789012345678901234567890",
   })
   @IsString()
   readonly recipient: string;
 
   @ApiProperty({
-    description: 'Amount of the HTLC',
-    example: '1000000000000000000',
+    description: "Amount of the HTLC",
+    example: "1000000000000000000",
   })
   @IsString()
   readonly amount: string;
 
   @ApiProperty({
-    description: 'Hashlock of the HTLC',
-    example: '0x1234567890123456789012345678901234567890123456789012345678901234',
+    description: "Hashlock of the HTLC",
+    example:
+      "0x1234567890123456789012345678901234567890123456789012345678901234",
   })
   @IsString()
   readonly hashlock: string;
 
   @ApiProperty({
-    description: 'Timelock of the HTLC in seconds',
+    description: "Timelock of the HTLC in seconds",
     example: 3600,
   })
   @IsNumber()
   readonly timelock: number;
 
   @ApiProperty({
-    description: 'Indicates if the HTLC has been withdrawn',
+    description: "Indicates if the HTLC has been withdrawn",
     example: false,
   })
   @IsBoolean()
   readonly withdrawn: boolean;
 
   @ApiProperty({
-    description: 'Indicates if the HTLC has been refunded',
+    description: "Indicates if the HTLC has been refunded",
     example: false,
   })
   @IsBoolean()
   readonly refunded: boolean;
 }
 
+export class AmountDto {
+  @ApiProperty({
+    description: "Amount in base units of the token",
+    example: "1500000000000000000",
+  })
+  @IsString()
+  readonly raw: string;
+
+  @ApiProperty({
+    description:
+      "Amount in whole tokens, missing when the token decimals are unknown",
+    example: "1.5",
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  readonly formatted?: string;
+
+  @ApiProperty({
+    description: "Decimals of the token",
+    example: 18,
+    required: false,
+  })
+  @IsNumber()
+  @IsOptional()
+  readonly decimals?: number;
+}
+
+export class SwapFillDto {
+  @ApiProperty({
+    description: "Index of the secret the escrows of the fill are locked with",
+    example: 1,
+  })
+  @IsNumber()
+  readonly secretIndex: number;
+
+  @ApiProperty({
+    description: "Status of the fill",
+    example: "escrows_created",
+  })
+  @IsString()
+  readonly status: string;
+
+  @ApiProperty({
+    description: "Amount of the fill on the source chain",
+    type: AmountDto,
+  })
+  readonly srcAmount: AmountDto;
+
+  @ApiProperty({
+    description: "Amount of the fill on the destination chain",
+    type: AmountDto,
+  })
+  readonly dstAmount: AmountDto;
+
+  @ApiProperty({
+    description:
+      "Amount of the swap filled with this fill, on the source chain",
+    type: AmountDto,
+  })
+  readonly filledAmount: AmountDto;
+
+  @ApiProperty({
+    description: "EVM escrow address of the fill",
+    example: "0x1234567890123456789012345678901234567890",
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  readonly evmHtlcAddress?: string;
+
+  @ApiProperty({
+    description: "Aptos escrow of the fill",
+    example:
+      "0x6982a96aa68e520bc6f540295e9547689f07eabd89f4ba6aa2a2b45ffc8fa128",
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  readonly aptosHtlcAddress?: string;
+}
+
+export class AptosEscrowTermsDto {
+  @ApiProperty({
+    description:
+      "Order hash of the escrow, the fill with secret i of a swap filled in parts uses solidityPackedKeccak256([bytes32, uint64], [orderHash, i])",
+    example:
+      "0x1234567890123456789012345678901234567890123456789012345678901234",
+  })
+  @IsString()
+  readonly orderHash: string;
+
+  @ApiProperty({
+    description: "Maker of the escrow, the relayer account paid on withdrawal",
+    example:
+      "0x318942fc76d84578ab2efc2c85ed031d06c4f444f3cdae9bbaf09901677b573f",
+  })
+  @IsString()
+  readonly maker: string;
+
+  @ApiProperty({
+    description:
+      "Latest time the public withdrawal of the escrow may open at, in seconds since epoch",
+    example: 1625101800,
+  })
+  @IsNumber()
+  readonly publicWithdrawalBy: number;
+
+  @ApiProperty({
+    description:
+      "Earliest time the escrow may become cancellable at, in seconds since epoch",
+    example: 1625102400,
+  })
+  @IsNumber()
+  readonly cancellationAfter: number;
+}
+
 export class SwapStatusDto {
   @ApiProperty({
-    description: 'Swap ID',
-    example: '0x1234567890123456789012345678901234567890123456789012345678901234',
+    description: "Swap ID",
+    example:
+      "0x1234567890123456789012345678901234567890123456789012345678901234",
   })
   @IsString()
   readonly swapId: string;
 
   @ApiProperty({
-    description: 'Status of the swap',
-    example: 'pending',
-    enum: ['pending', 'completed', 'failed', 'cancelled'],
+    description: "Status of the swap",
+    example: "pending",
+    enum: ["pending", "completed", "failed", "cancelled"],
   })
   @IsString()
   readonly status: string;
 
   @ApiProperty({
-    description: 'EVM HTLC contract address',
-    example: '0x1234567890123456789012345678901234567890',
+    description: "EVM HTLC contract address",
+    example: "0x1234567890123456789012345678901234567890",
     required: false,
   })
   @IsString()
@@ -86,8 +204,9 @@ export class SwapStatusDto {
   readonly evmHtlcAddress?: string;
 
   @ApiProperty({
-    description: 'Aptos HTLC resource address',
-    example: '0x6982a96aa68e520bc6f540295e9547689f07eabd89f4ba6aa2a2b45ffc8fa128',
+    description: "Aptos HTLC resource address",
+    example:
+      "0x6982a96aa68e520bc6f540295e9547689f07eabd89f4ba6aa2a2b45ffc8fa128",
     required: false,
   })
   @IsString()
@@ -95,15 +214,28 @@ export class SwapStatusDto {
   readonly aptosHtlcAddress?: string;
 
   @ApiProperty({
-    description: 'Hash lock used for the HTLC',
-    example: '0x1234567890123456789012345678901234567890123456789012345678901234',
+    description: "Hash lock of the EVM escrow (keccak256 of the secret)",
+    example:
+      "0x1234567890123456789012345678901234567890123456789012345678901234",
   })
   @IsString()
   readonly hashlock: string;
 
   @ApiProperty({
-    description: 'Preimage for the hash lock (only available after completion)',
-    example: '0x1234567890123456789012345678901234567890123456789012345678901234',
+    description: "Hash lock of the Aptos escrow (sha3-256 of the secret)",
+    example:
+      "0x1234567890123456789012345678901234567890123456789012345678901234",
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  readonly aptosHashlock?: string;
+
+  @ApiProperty({
+    description:
+      "Preimage for the hash lock, only returned once the swap is completed or refunded",
+    example:
+      "0x1234567890123456789012345678901234567890123456789012345678901234",
     required: false,
   })
   @IsString()
@@ -111,14 +243,58 @@ export class SwapStatusDto {
   readonly preimage?: string;
 
   @ApiProperty({
-    description: 'Timestamp when the swap was initiated',
+    description: "Amount locked on the source chain",
+    type: AmountDto,
+    required: false,
+  })
+  @IsOptional()
+  readonly srcAmount?: AmountDto;
+
+  @ApiProperty({
+    description:
+      "Amount locked on the destination chain, in the destination token decimals",
+    type: AmountDto,
+    required: false,
+  })
+  @IsOptional()
+  readonly dstAmount?: AmountDto;
+
+  @ApiProperty({
+    description: "Timestamp when the swap was initiated",
     example: 1625097600,
   })
   @IsNumber()
   readonly timestamp: number;
 
   @ApiProperty({
-    description: 'Order status information for Fusion swaps',
+    description: "Parts the swap is filled in, missing for a single fill",
+    example: 4,
+    required: false,
+  })
+  @IsNumber()
+  @IsOptional()
+  readonly partsCount?: number;
+
+  @ApiProperty({
+    description:
+      "Fills of a swap filled in parts, in the order of their secrets",
+    type: [SwapFillDto],
+    required: false,
+  })
+  @IsOptional()
+  readonly fills?: SwapFillDto[];
+
+  @ApiProperty({
+    description:
+      "Terms of the Aptos escrow the sender of an Aptos to EVM swap creates with escrow_factory::create_dst_escrow, as its taker",
+    type: AptosEscrowTermsDto,
+    required: false,
+  })
+  @IsOptional()
+  readonly aptosEscrow?: AptosEscrowTermsDto;
+
+  @ApiProperty({
+    description: "Order status information for Fusion swaps",
     required: false,
   })
   @IsOptional()
@@ -129,7 +305,7 @@ export class SwapStatusDto {
   };
 
   @ApiProperty({
-    description: 'HTLC status information',
+    description: "HTLC status information",
     required: false,
   })
   @IsOptional()
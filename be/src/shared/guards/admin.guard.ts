@@ -0,0 +1,45 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import * as crypto from "crypto";
+import { Request } from "express";
+
+/**
+ * Lets through the requests bearing the ADMIN_API_TOKEN.
+ * Every admin request is refused while the token is not configured.
+ */
+@Injectable()
+export class AdminGuard implements CanActivate {
+  private readonly logger = new Logger(AdminGuard.name);
+
+  constructor(private readonly configService: ConfigService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const adminToken = this.configService.get<string>("ADMIN_API_TOKEN");
+    if (!adminToken) {
+      this.logger.warn(
+        "ADMIN_API_TOKEN is not set, admin endpoints are closed",
+      );
+      throw new UnauthorizedException("Admin endpoints are disabled");
+    }
+
+    const request = context.switchToHttp().getRequest<Request>();
+    const [scheme, token] = (request.headers.authorization ?? "").split(" ");
+    if (scheme !== "Bearer" || !token || !this.matches(token, adminToken)) {
+      throw new UnauthorizedException("Invalid admin token");
+    }
+    return true;
+  }
+
+  private matches(token: string, adminToken: string): boolean {
+    // Compare digests, timingSafeEqual needs inputs of the same length
+    const digest = (value: string) =>
+      crypto.createHash("sha256").update(value).digest();
+    return crypto.timingSafeEqual(digest(token), digest(adminToken));
+  }
+}
@@ -1,5 +1,15 @@
 import { ApiProperty } from "@nestjs/swagger";
-import { IsString, IsNumber, IsOptional, IsBoolean } from "class-validator";
+import {
+  IsString,
+  IsOptional,
+  IsInt,
+  IsArray,
+  ArrayMinSize,
+  Min,
+  IsPositive,
+  ValidateIf,
+} from "class-validator";
+import { IsHashlock, IsSecret } from "../../hashlock/hashlock.validators";
 import { SwapStatusDto } from "../../shared/dto/swap.dto";
 
 export class InitiateSwapAptosToEvmDto {
@@ -25,6 +35,72 @@ export class InitiateSwapAptosToEvmDto {
   @IsString()
   readonly amount: string;
 
+  @ApiProperty({
+    description: "ID of the quote the swap redeems, see POST /quotes",
+    example: "3f1c7c0e-7c55-4f0e-9a0e-1b2f3c4d5e6f",
+  })
+  @IsString()
+  readonly quoteId: string;
+
+  @ApiProperty({
+    description: "Sender address on Aptos",
+    example:
+      "0x318942fc76d84578ab2efc2c85ed031d06c4f444f3cdae9bbaf09901677b573f",
+  })
+  @IsString()
+  readonly senderAddress: string;
+
+  @ApiProperty({
+    description:
+      "Hashlock of the EVM escrow (keccak256 of the sender's secret), or the Merkle root of the secrets of a swap filled in parts",
+    example:
+      "0x1234567890123456789012345678901234567890123456789012345678901234",
+  })
+  @IsHashlock()
+  readonly hashlock: string;
+
+  @ApiProperty({
+    description:
+      "Hashlock of the Aptos escrow (sha3-256 of the same secret), unused by swaps filled in parts",
+    example:
+      "0x1234567890123456789012345678901234567890123456789012345678901234",
+    required: false,
+  })
+  @ValidateIf(
+    (dto: InitiateSwapAptosToEvmDto) => dto.secretHashes === undefined,
+  )
+  @IsHashlock()
+  readonly aptosHashlock?: string;
+
+  @ApiProperty({
+    description:
+      "keccak256 hashes of the secrets of a swap filled in parts, one more than the parts, in index order",
+    example: [
+      "0x1234567890123456789012345678901234567890123456789012345678901234",
+    ],
+    required: false,
+  })
+  @IsArray()
+  @ArrayMinSize(3)
+  @IsHashlock({ each: true })
+  @IsOptional()
+  readonly secretHashes?: string[];
+
+  @ApiProperty({
+    description:
+      "sha3-256 hashes of the same secrets, the hashlocks of the Aptos escrows of the fills",
+    example: [
+      "0x1234567890123456789012345678901234567890123456789012345678901234",
+    ],
+    required: false,
+  })
+  @ValidateIf(
+    (dto: InitiateSwapAptosToEvmDto) => dto.secretHashes !== undefined,
+  )
+  @IsArray()
+  @IsHashlock({ each: true })
+  readonly aptosSecretHashes?: string[];
+
   @ApiProperty({
     description: "Recipient address on EVM",
     example: "0x1234567890123456789012345678901234567890",
@@ -33,13 +109,25 @@ export class InitiateSwapAptosToEvmDto {
   readonly recipient: string;
 
   @ApiProperty({
-    description: "Timelock in seconds",
+    description:
+      "Time the EVM escrow stays withdrawable in seconds, the withdrawal period of the quote's timelock preset by default",
     example: 3600,
     required: false,
   })
-  @IsNumber()
+  @IsInt()
+  @IsPositive()
   @IsOptional()
   readonly timelock?: number;
+
+  @ApiProperty({
+    description:
+      "Chain ID of the EVM destination chain, the relayer's default chain when omitted",
+    example: 11155111,
+    required: false,
+  })
+  @IsInt()
+  @IsOptional()
+  readonly dstChainId?: number;
 }
 
 export class CompleteSwapDto {
@@ -52,12 +140,71 @@ export class CompleteSwapDto {
   readonly swapId: string;
 
   @ApiProperty({
-    description: "Preimage to unlock the HTLC",
+    description: "Secret to unlock the escrows (32 bytes of hex)",
     example:
       "0x1234567890123456789012345678901234567890123456789012345678901234",
   })
-  @IsString()
+  @IsSecret()
   readonly preimage: string;
+
+  @ApiProperty({
+    description:
+      "Index of the secret in the Merkle tree, for the fill of a swap filled in parts it unlocks",
+    example: 1,
+    required: false,
+  })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  readonly secretIndex?: number;
+}
+
+export class FillSwapDto {
+  @ApiProperty({
+    description: "Swap ID to fill a part of",
+    example:
+      "0x1234567890123456789012345678901234567890123456789012345678901234",
+  })
+  @IsString()
+  readonly swapId: string;
+
+  @ApiProperty({
+    description: "Source amount of the part, in base units of the source token",
+    example: "250000000",
+  })
+  @IsString()
+  readonly amount: string;
+
+  @ApiProperty({
+    description:
+      "Hash of the Aptos transaction in which the sender created the escrow of the part, see aptosEscrow of the swap status. " +
+      "Not needed to retry a failed fill that kept its escrow",
+    example:
+      "0x1234567890123456789012345678901234567890123456789012345678901234",
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  readonly aptosTxHash?: string;
+}
+
+export class LockSwapDto {
+  @ApiProperty({
+    description: "Swap ID to lock",
+    example:
+      "0x1234567890123456789012345678901234567890123456789012345678901234",
+  })
+  @IsString()
+  readonly swapId: string;
+
+  @ApiProperty({
+    description:
+      "Hash of the Aptos transaction in which the sender created the escrow of the swap, see aptosEscrow of the swap status",
+    example:
+      "0x1234567890123456789012345678901234567890123456789012345678901234",
+  })
+  @IsString()
+  readonly aptosTxHash: string;
 }
 
 export class CancelSwapDto {
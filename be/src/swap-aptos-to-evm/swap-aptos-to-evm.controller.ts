@@ -5,6 +5,8 @@ import {
   InitiateSwapAptosToEvmDto,
   CompleteSwapDto,
   CancelSwapDto,
+  FillSwapDto,
+  LockSwapDto,
   SwapHistoryDto,
 } from "./dto/swap-aptos-to-evm.dto";
 import { SwapStatusDto } from "../shared/dto/swap.dto";
@@ -40,6 +42,41 @@ export class SwapAptosToEvmController {
     return this.swapAptosToEvmService.getSwapStatus(swapId);
   }
 
+  @Post("lock")
+  @ApiOperation({
+    summary:
+      "Lock an Aptos to EVM swap with the Aptos escrow its sender created",
+  })
+  @ApiResponse({
+    status: 201,
+    description: "Aptos escrow verified, EVM escrow created or scheduled",
+    type: SwapStatusDto,
+  })
+  @ApiResponse({ status: 400, description: "Invalid parameters" })
+  @ApiResponse({ status: 404, description: "Swap not found" })
+  lockSwap(@Body() lockSwapDto: LockSwapDto) {
+    return this.swapAptosToEvmService.lockSwap(lockSwapDto);
+  }
+
+  @Post("fill")
+  @ApiOperation({
+    summary: "Fill a part of an Aptos to EVM swap filled in parts",
+  })
+  @ApiResponse({
+    status: 201,
+    description: "Escrows of the part created",
+    type: SwapStatusDto,
+  })
+  @ApiResponse({ status: 400, description: "Invalid parameters" })
+  @ApiResponse({ status: 404, description: "Swap not found" })
+  @ApiResponse({
+    status: 409,
+    description: "Resolver does not fill the part now",
+  })
+  fillSwap(@Body() fillSwapDto: FillSwapDto) {
+    return this.swapAptosToEvmService.fillSwap(fillSwapDto);
+  }
+
   @Post("complete")
   @ApiOperation({ summary: "Complete swap from Aptos to EVM" })
   @ApiResponse({
@@ -1,9 +1,34 @@
 import { Module } from "@nestjs/common";
 import { SwapAptosToEvmService } from "./swap-aptos-to-evm.service";
+import { SwapFillService } from "./swap-fill.service";
 import { SwapAptosToEvmController } from "./swap-aptos-to-evm.controller";
+import { AptosModule } from "../aptos/aptos.module";
+import { EvmModule } from "../evm/evm.module";
+import { SwapStateModule } from "../swap-state/swap-state.module";
+import { HashlockModule } from "../hashlock/hashlock.module";
+import { FinalityModule } from "../finality/finality.module";
+import { TokensModule } from "../tokens/tokens.module";
+import { AmountsModule } from "../amounts/amounts.module";
+import { QuotesModule } from "../quotes/quotes.module";
+import { ResolverModule } from "../resolver/resolver.module";
+import { InventoryModule } from "../inventory/inventory.module";
+import { SecretsModule } from "../secrets/secrets.module";
 
 @Module({
-  providers: [SwapAptosToEvmService],
+  imports: [
+    AptosModule,
+    EvmModule,
+    SwapStateModule,
+    HashlockModule,
+    FinalityModule,
+    TokensModule,
+    AmountsModule,
+    QuotesModule,
+    ResolverModule,
+    InventoryModule,
+    SecretsModule,
+  ],
+  providers: [SwapAptosToEvmService, SwapFillService],
   controllers: [SwapAptosToEvmController],
 })
 export class SwapAptosToEvmModule {}
@@ -1,113 +1,851 @@
-import { Injectable, Logger } from "@nestjs/common";
+import * as crypto from "crypto";
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from "@nestjs/common";
+import { Cron, CronExpression } from "@nestjs/schedule";
+import { ethers } from "ethers";
+import {
+  Quote,
+  Swap,
+  SwapDirection,
+  SwapFill,
+  SwapStatus,
+} from "@prisma/client";
+import { DbService } from "prisma/src/db.service";
+import { AptosService } from "src/aptos/aptos.service";
+import { SwapStateMachineService } from "src/swap-state/swap-state-machine.service";
+import { EvmService } from "src/evm/evm.service";
+import { HashlockService } from "src/hashlock/hashlock.service";
+import { FinalityService } from "src/finality/finality.service";
+import {
+  EVM_ESCROW_DEPLOYED,
+  EvmEscrowDeployedEvent,
+} from "src/workers/events/evm-escrow.events";
+import { APTOS_ESCROW_CREATED } from "src/workers/events/aptos-escrow.events";
+import { encodeSecret } from "src/hashlock/hashlock";
+import { createMultiFillHashlock } from "src/hashlock/merkle";
+import {
+  TimelockPlan,
+  TimelockPlanError,
+  parseTimelockPlan,
+  planTimelocks,
+} from "src/timelocks/timelocks";
+import {
+  getSwapAptosImmutables,
+  getSwapEvmImmutables,
+  serializeAptosImmutables,
+  serializeEvmImmutables,
+} from "src/immutables/immutables";
 import {
   InitiateSwapAptosToEvmDto,
   CompleteSwapDto,
   CancelSwapDto,
+  FillSwapDto,
+  LockSwapDto,
   SwapHistoryDto,
 } from "./dto/swap-aptos-to-evm.dto";
-import { SwapStatusDto } from "../shared/dto/swap.dto";
-import { EscrowAptosDto } from "src/swap-evm-to-aptos/dto/swap-evm-to-aptos.dto";
+import {
+  AptosEscrowTermsDto,
+  SwapFillDto,
+  SwapStatusDto,
+} from "../shared/dto/swap.dto";
+import { ChainRegistryError } from "src/chains/evm-chains";
+import { TokenRegistryService } from "src/tokens/token-registry.service";
+import { AmountService } from "src/amounts/amount.service";
+import { QuoteService } from "src/quotes/quote.service";
+import { FillDecisionService } from "src/resolver/fill-decision.service";
+import { FillAction } from "src/resolver/fill-strategy";
+import { InventoryService } from "src/inventory/inventory.service";
+import { SecretVaultService } from "src/secrets/secret-vault.service";
+import { SwapFillService } from "./swap-fill.service";
+
+const ACTOR = "swap-aptos-to-evm";
+
 @Injectable()
 export class SwapAptosToEvmService {
   private readonly logger = new Logger(SwapAptosToEvmService.name);
+  private isFilling = false;
+
+  constructor(
+    private readonly dbService: DbService,
+    private readonly aptosService: AptosService,
+    private readonly evmService: EvmService,
+    private readonly swapStateMachine: SwapStateMachineService,
+    private readonly hashlockService: HashlockService,
+    private readonly finalityService: FinalityService,
+    private readonly tokenRegistryService: TokenRegistryService,
+    private readonly amountService: AmountService,
+    private readonly quoteService: QuoteService,
+    private readonly fillDecisionService: FillDecisionService,
+    private readonly inventoryService: InventoryService,
+    private readonly swapFillService: SwapFillService,
+    private readonly secretVault: SecretVaultService,
+  ) {}
 
-  initiateSwap(
+  /**
+   * Initiate an Aptos to EVM swap. Its sender then locks the source amount in an Aptos escrow
+   * of the terms returned in `aptosEscrow`, and locks the swap with it, see `lockSwap`.
+   * Swaps given the hashes of several secrets are filled in parts, each with its own escrows.
+   * @param initiateSwapDto - Swap parameters
+   * @returns Swap status
+   */
+  async initiateSwap(
     initiateSwapDto: InitiateSwapAptosToEvmDto,
   ): Promise<SwapStatusDto> {
-    this.logger.log("Initiating Aptos to EVM swap");
-    return Promise.resolve({
-      swapId: "aptos-to-evm-123456",
-      status: "pending",
-      aptosHtlcAddress:
-        "0x6982a96aa68e520bc6f540295e9547689f07eabd89f4ba6aa2a2b45ffc8fa128",
-      evmHtlcAddress: "0x1234567890123456789012345678901234567890",
-      hashlock:
-        "0x1234567890123456789012345678901234567890123456789012345678901234",
-      timestamp: Math.floor(Date.now() / 1000),
+    this.logger.log(
+      `Initiating Aptos to EVM swap with hash: ${initiateSwapDto.hashlock}`,
+    );
+
+    const evmChainId = this.getEvmChainId(initiateSwapDto.dstChainId);
+    const pair = await this.tokenRegistryService.requireSupportedPair(
+      { chain: "aptos", address: initiateSwapDto.fromTokenAddress },
+      {
+        chain: "evm",
+        chainId: evmChainId,
+        address: initiateSwapDto.toTokenAddress,
+      },
+      initiateSwapDto.amount,
+    );
+    const { srcToken, dstToken } = pair;
+    const swapId = crypto.randomUUID();
+    const secrets = this.getSwapSecrets(initiateSwapDto);
+
+    // The quote fixes the amount the EVM escrow locks and its timelocks
+    const quote = await this.quoteService.redeemQuote(
+      initiateSwapDto.quoteId,
+      pair.id,
+      initiateSwapDto.amount,
+      swapId,
+    );
+    const timestamp = Math.floor(Date.now() / 1000);
+    const plan = this.planSwapTimelocks(
+      timestamp,
+      quote,
+      initiateSwapDto.timelock,
+    );
+
+    const swap = await this.swapStateMachine.createSwap(
+      {
+        id: swapId,
+        direction: SwapDirection.APTOS_TO_EVM,
+        evmChainId,
+        sender: initiateSwapDto.senderAddress,
+        recipient: initiateSwapDto.recipient,
+        // Coin type and ERC-20 address in their canonical form
+        fromTokenAddress: srcToken.address,
+        toTokenAddress: dstToken.address,
+        amount: quote.amount,
+        dstAmount: quote.dstAmount,
+        srcDecimals: srcToken.decimals,
+        dstDecimals: dstToken.decimals,
+        hashlock: initiateSwapDto.hashlock,
+        aptosHashlock: secrets ? undefined : initiateSwapDto.aptosHashlock,
+        partsCount: secrets ? secrets.length - 1 : undefined,
+        secrets: secrets ? { create: secrets } : undefined,
+        orderHash: ethers.hexlify(crypto.randomBytes(32)),
+        // The Aptos escrow holds the source side of the plan, the EVM escrow is cancellable first
+        timelock: plan.dst.cancellation,
+        timelockPlan: plan,
+        timestamp,
+      },
+      { actor: ACTOR, reason: "Swap initiated" },
+    );
+
+    return this.toSwapStatusDto(swap);
+  }
+
+  /**
+   * Lock a swap with the Aptos escrow its sender created, then create the EVM counter-escrow
+   * when the resolver fills it, right away or at the time it schedules.
+   * The escrow is verified on-chain first: its sender, terms and amount have to be the swap's.
+   * @param lockSwapDto - DTO with swap ID and the hash of the escrow creation transaction
+   * @returns Updated swap status
+   * @throws BadRequestException when the transaction does not create the escrow of the swap
+   */
+  async lockSwap(lockSwapDto: LockSwapDto): Promise<SwapStatusDto> {
+    const { swapId } = lockSwapDto;
+    this.logger.log(
+      `Locking swap ${swapId} with Aptos transaction ${lockSwapDto.aptosTxHash}`,
+    );
+
+    let swap = await this.findAptosToEvmSwap(swapId);
+    if (swap.partsCount !== null) {
+      throw new BadRequestException(
+        `Swap ${swapId} is filled in parts, each fill locks its own escrow`,
+      );
+    }
+    if (swap.status !== SwapStatus.PENDING) {
+      throw new BadRequestException(
+        `Swap ${swapId} cannot be locked from status ${swap.status}`,
+      );
+    }
+    if (!swap.aptosHashlock) {
+      throw new Error(`Swap ${swapId} has no Aptos hashlock`);
+    }
+    if (!swap.orderHash) {
+      throw new Error(`Swap ${swapId} has no order hash`);
+    }
+
+    const { contractId, txHash, version, immutables } =
+      await this.swapFillService.verifyAptosEscrow(
+        swap,
+        {
+          orderHash: swap.orderHash,
+          hashlock: swap.aptosHashlock,
+          amount: BigInt(swap.amount),
+        },
+        lockSwapDto.aptosTxHash,
+      );
+    this.logger.log(`Aptos escrow ${contractId} locks swap ${swapId}`);
+
+    swap = await this.swapStateMachine.transition(
+      swapId,
+      SwapStatus.APTOS_HTLC_CREATED,
+      { actor: ACTOR, reason: "Aptos escrow created by the sender", txHash },
+      {
+        aptosHtlcAddress: contractId,
+        aptosImmutables: serializeAptosImmutables(immutables),
+      },
+    );
+
+    // Aptos does not fork, the ledger version of the transaction stands for its block
+    await this.finalityService.recordObservation({
+      chain: "aptos",
+      kind: APTOS_ESCROW_CREATED,
+      blockNumber: BigInt(version),
+      blockHash: txHash,
+      txHash,
+      logIndex: 0,
+      swapId,
     });
+
+    try {
+      // The resolver fills now, schedules the EVM escrow for later in the auction, or declines
+      const decision = await this.fillDecisionService.decide(swap);
+      if (decision.action === FillAction.SKIP) {
+        throw new Error(`Resolver declined the swap: ${decision.reason}`);
+      }
+      if (decision.action === FillAction.WAIT) {
+        await this.reserveScheduledFill(swap, decision.takingAmount);
+      } else {
+        swap = await this.createEvmEscrow(swap, decision.takingAmount);
+      }
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.error(`Failed to fill swap ${swapId}: ${errorMessage}`);
+
+      swap = await this.abandonSwap(swap, errorMessage, errorMessage);
+    }
+
+    return this.toSwapStatusDto(swap);
   }
 
-  getAptosEscrow(): Promise<any> {
+  /**
+   * Get the escrows of the most recent Aptos to EVM swap
+   */
+  async getAptosEscrow(): Promise<Partial<SwapStatusDto>> {
     this.logger.log("Getting Aptos to EVM escrow");
-    return Promise.resolve({
-      aptosHtlcAddress:
-        "0x6982a96aa68e520bc6f540295e9547689f07eabd89f4ba6aa2a2b45ffc8fa128",
-      evmHtlcAddress: "0x1234567890123456789012345678901234567890",
-      hashlock:
-        "0x1234567890123456789012345678901234567890123456789012345678901234",
+
+    const [swap] = await this.dbService.findSwaps({
+      where: { direction: SwapDirection.APTOS_TO_EVM },
+      orderBy: { timestamp: "desc" },
+      take: 1,
     });
+
+    if (!swap) {
+      throw new NotFoundException("No Aptos to EVM swaps found");
+    }
+
+    return {
+      aptosHtlcAddress: swap.aptosHtlcAddress || undefined,
+      evmHtlcAddress: swap.evmHtlcAddress || undefined,
+      hashlock: swap.hashlock,
+      aptosHashlock: swap.aptosHashlock || undefined,
+    };
   }
 
-  getSwapStatus(swapId: string): Promise<SwapStatusDto> {
-    this.logger.log("Getting Aptos to EVM swap status");
-    return Promise.resolve({
+  async getSwapStatus(swapId: string): Promise<SwapStatusDto> {
+    this.logger.log(`Getting status for swap ${swapId}`);
+
+    const swap = await this.findAptosToEvmSwap(swapId);
+    return this.toSwapStatusDto(
+      swap,
+      swap.partsCount === null
+        ? undefined
+        : await this.swapFillService.getFills(swap.id),
+    );
+  }
+
+  /**
+   * Fill a part of a swap filled in parts, at the current auction amount, with the Aptos escrow
+   * its sender created for the part
+   * @param fillSwapDto - DTO with swap ID, source amount of the part and its escrow creation transaction
+   * @returns Updated swap status
+   * @throws ConflictException when the resolver does not fill the part now
+   */
+  async fillSwap(fillSwapDto: FillSwapDto): Promise<SwapStatusDto> {
+    const { swapId } = fillSwapDto;
+    this.logger.log(`Filling ${fillSwapDto.amount} of swap ${swapId}`);
+
+    let swap = await this.findAptosToEvmSwap(swapId);
+    if (swap.partsCount === null) {
+      throw new BadRequestException(`Swap ${swapId} is not filled in parts`);
+    }
+    if (
+      swap.status !== SwapStatus.PENDING &&
+      swap.status !== SwapStatus.EVM_HTLC_CREATED
+    ) {
+      throw new BadRequestException(
+        `Swap ${swapId} cannot be filled from status ${swap.status}`,
+      );
+    }
+
+    let amount: bigint;
+    try {
+      amount = BigInt(fillSwapDto.amount);
+    } catch {
+      throw new BadRequestException(`Invalid amount: ${fillSwapDto.amount}`);
+    }
+
+    const decision = await this.fillDecisionService.decide(swap, amount);
+    if (decision.action !== FillAction.FILL) {
+      throw new ConflictException(
+        `Resolver does not fill ${amount} of swap ${swapId} now: ${decision.reason}`,
+      );
+    }
+
+    swap = await this.swapFillService.createFill(
+      swap,
+      amount,
+      decision.takingAmount,
+      fillSwapDto.aptosTxHash,
+    );
+    return this.toSwapStatusDto(
+      swap,
+      await this.swapFillService.getFills(swap.id),
+    );
+  }
+
+  /**
+   * Complete a swap with the revealed secret: pay the EVM recipient, then claim the Aptos escrow
+   * @param completeSwapDto - DTO with swap ID and preimage
+   * @returns Updated swap status
+   */
+  async completeSwap(completeSwapDto: CompleteSwapDto): Promise<SwapStatusDto> {
+    const { swapId } = completeSwapDto;
+    const preimage = encodeSecret(completeSwapDto.preimage);
+    this.logger.log(`Completing Aptos to EVM swap ${swapId}`);
+
+    let swap = await this.findAptosToEvmSwap(swapId);
+
+    if (swap.partsCount !== null) {
+      if (completeSwapDto.secretIndex === undefined) {
+        throw new BadRequestException(
+          `Swap ${swapId} is filled in parts, the secret index is required`,
+        );
+      }
+      swap = await this.swapFillService.completeFill(
+        swap,
+        completeSwapDto.secretIndex,
+        preimage,
+      );
+      return this.toSwapStatusDto(
+        swap,
+        await this.swapFillService.getFills(swap.id),
+      );
+    }
+
+    if (!this.hashlockService.verifyFor("evm", preimage, swap.hashlock)) {
+      throw new BadRequestException("Preimage does not match EVM hashlock");
+    }
+
+    if (
+      !swap.aptosHashlock ||
+      !this.hashlockService.verifyFor("aptos", preimage, swap.aptosHashlock)
+    ) {
+      throw new BadRequestException("Preimage does not match Aptos hashlock");
+    }
+
+    if (swap.status === SwapStatus.EVM_HTLC_CREATED && swap.evmHtlcAddress) {
+      // A reorg could still remove the escrow, so the secret is not revealed before it is final
+      if (
+        !(await this.finalityService.isConfirmed(swapId, EVM_ESCROW_DEPLOYED))
+      ) {
+        throw new ConflictException(
+          `EVM escrow of swap ${swapId} does not have ${this.finalityService.getConfirmations("evm", swap.evmChainId)} confirmations yet`,
+        );
+      }
+
+      const { txHash } = await this.evmService.withdrawEscrow(
+        swap.evmHtlcAddress,
+        preimage,
+        getSwapEvmImmutables(swap),
+        true,
+        swap,
+      );
+
+      swap = await this.swapStateMachine.transition(
+        swapId,
+        SwapStatus.PREIMAGE_REVEALED,
+        { actor: ACTOR, reason: "EVM escrow withdrawn", txHash },
+        { preimage: this.secretVault.sealSwapSecret(swapId, preimage) },
+      );
+    }
+
+    if (
+      swap.status !== SwapStatus.PREIMAGE_REVEALED ||
+      !swap.aptosHtlcAddress
+    ) {
+      throw new BadRequestException(
+        `Swap ${swapId} cannot be completed from status ${swap.status}`,
+      );
+    }
+
+    const { txHash } = await this.aptosService.withdrawEscrow({
+      contractId: swap.aptosHtlcAddress,
+      secret: preimage,
+      coinType: getSwapAptosImmutables(swap).tokenType,
+      isPublic: true,
       swapId,
-      status: "pending",
-      aptosHtlcAddress:
-        "0x6982a96aa68e520bc6f540295e9547689f07eabd89f4ba6aa2a2b45ffc8fa128",
-      evmHtlcAddress: "0x1234567890123456789012345678901234567890",
-      hashlock:
-        "0x1234567890123456789012345678901234567890123456789012345678901234",
-      timestamp: Math.floor(Date.now() / 1000),
     });
+
+    swap = await this.swapStateMachine.transition(
+      swapId,
+      SwapStatus.COMPLETED,
+      { actor: ACTOR, reason: "Aptos escrow withdrawn", txHash },
+      { completedAt: Math.floor(Date.now() / 1000) },
+    );
+
+    return this.toSwapStatusDto(swap);
   }
 
-  completeSwap(completeSwapDto: CompleteSwapDto): Promise<SwapStatusDto> {
-    this.logger.log("Completing Aptos to EVM swap");
-    return Promise.resolve({
-      swapId: completeSwapDto.swapId,
-      status: "completed",
-      aptosHtlcAddress:
-        "0x6982a96aa68e520bc6f540295e9547689f07eabd89f4ba6aa2a2b45ffc8fa128",
-      evmHtlcAddress: "0x1234567890123456789012345678901234567890",
-      hashlock:
-        "0x1234567890123456789012345678901234567890123456789012345678901234",
-      preimage: completeSwapDto.preimage,
-      timestamp: Math.floor(Date.now() / 1000),
-    });
+  /**
+   * Cancel a swap after its timelock and refund both escrows
+   * @param cancelSwapDto - DTO with swap ID
+   * @returns Updated swap status
+   */
+  async cancelSwap(cancelSwapDto: CancelSwapDto): Promise<SwapStatusDto> {
+    const { swapId } = cancelSwapDto;
+    this.logger.log(`Cancelling Aptos to EVM swap ${swapId}`);
+
+    const swap = await this.findAptosToEvmSwap(swapId);
+
+    if (
+      swap.status === SwapStatus.COMPLETED ||
+      swap.status === SwapStatus.PREIMAGE_REVEALED
+    ) {
+      throw new BadRequestException(
+        `Cannot cancel swap ${swapId} after the secret was revealed`,
+      );
+    }
+
+    if (swap.partsCount !== null) {
+      await this.swapFillService.cancelFills(swap);
+      await this.inventoryService.releaseScheduled(swapId, "evm");
+      const updatedSwap = await this.swapStateMachine.transition(
+        swapId,
+        // A swap never filled has no escrow to refund
+        swap.status === SwapStatus.PENDING
+          ? SwapStatus.FAILED
+          : SwapStatus.REFUNDED,
+        { actor: ACTOR, reason: "Fill escrows cancelled after timelock" },
+        { cancelledAt: Math.floor(Date.now() / 1000) },
+      );
+      return this.toSwapStatusDto(
+        updatedSwap,
+        await this.swapFillService.getFills(swapId),
+      );
+    }
+
+    // A swap never locked has no escrow to refund
+    if (swap.status === SwapStatus.PENDING) {
+      const updatedSwap = await this.swapStateMachine.transition(
+        swapId,
+        SwapStatus.FAILED,
+        { actor: ACTOR, reason: "Swap cancelled before it was locked" },
+        { cancelledAt: Math.floor(Date.now() / 1000) },
+      );
+      return this.toSwapStatusDto(updatedSwap);
+    }
+
+    // The sender cancels the Aptos escrow it created, the relayer only the ones it is the taker of
+    const aptosImmutables = swap.aptosHtlcAddress
+      ? getSwapAptosImmutables(swap)
+      : null;
+    const cancelsAptosEscrow =
+      aptosImmutables !== null &&
+      this.aptosService.isRelayerEscrow(aptosImmutables);
+
+    // The Aptos escrow stays locked longer than the EVM one
+    const currentTime = Math.floor(Date.now() / 1000);
+    const expiresAt =
+      aptosImmutables && cancelsAptosEscrow
+        ? aptosImmutables.timelocks.dstCancellation
+        : swap.timelock;
+    if (currentTime < expiresAt) {
+      throw new BadRequestException(
+        `Cannot cancel swap before timelock expiration. ` +
+          `Timelock expires at ${new Date(expiresAt * 1000).toISOString()}`,
+      );
+    }
+
+    if (swap.evmHtlcAddress) {
+      await this.evmService.cancelEscrow(
+        swap.evmHtlcAddress,
+        getSwapEvmImmutables(swap),
+        true,
+        1,
+        swap,
+      );
+    }
+
+    if (swap.aptosHtlcAddress && aptosImmutables && cancelsAptosEscrow) {
+      await this.aptosService.cancelEscrow({
+        contractId: swap.aptosHtlcAddress,
+        coinType: aptosImmutables.tokenType,
+        swapId,
+      });
+    }
+
+    // A fill still scheduled will not happen
+    await this.inventoryService.releaseScheduled(swapId, "evm");
+    const updatedSwap = await this.swapStateMachine.transition(
+      swapId,
+      SwapStatus.REFUNDED,
+      { actor: ACTOR, reason: "Escrows cancelled after timelock" },
+      { cancelledAt: currentTime },
+    );
+
+    return this.toSwapStatusDto(updatedSwap);
   }
 
-  cancelSwap(cancelSwapDto: CancelSwapDto): Promise<SwapStatusDto> {
-    this.logger.log("Cancelling Aptos to EVM swap");
-    return Promise.resolve({
-      swapId: cancelSwapDto.swapId,
-      status: "cancelled",
-      aptosHtlcAddress:
-        "0x6982a96aa68e520bc6f540295e9547689f07eabd89f4ba6aa2a2b45ffc8fa128",
-      evmHtlcAddress: "0x1234567890123456789012345678901234567890",
-      hashlock:
-        "0x1234567890123456789012345678901234567890123456789012345678901234",
-      timestamp: Math.floor(Date.now() / 1000),
+  async getSwapHistory(): Promise<SwapHistoryDto> {
+    this.logger.log("Getting Aptos to EVM swap history");
+
+    const swaps = await this.dbService.findSwaps({
+      where: { direction: SwapDirection.APTOS_TO_EVM },
+      orderBy: { timestamp: "desc" },
     });
+
+    return {
+      swaps: await Promise.all(swaps.map((swap) => this.toSwapStatusDto(swap))),
+    };
   }
 
-  getSwapHistory(): Promise<SwapHistoryDto> {
-    this.logger.log("Getting Aptos to EVM swap history");
-    return Promise.resolve({
-      swaps: [
-        {
-          swapId: "aptos-to-evm-123456",
-          status: "completed",
-          aptosHtlcAddress:
-            "0x6982a96aa68e520bc6f540295e9547689f07eabd89f4ba6aa2a2b45ffc8fa128",
-          evmHtlcAddress: "0x1234567890123456789012345678901234567890",
-          hashlock:
-            "0x1234567890123456789012345678901234567890123456789012345678901234",
-          preimage:
-            "0x9876543210987654321098765432109876543210987654321098765432109876",
-          timestamp: Math.floor(Date.now() / 1000),
-        },
-        {
-          swapId: "aptos-to-evm-123455",
-          status: "cancelled",
-          aptosHtlcAddress:
-            "0x6982a96aa68e520bc6f540295e9547689f07eabd89f4ba6aa2a2b45ffc8fa128",
-          evmHtlcAddress: "0x1234567890123456789012345678901234567890",
-          hashlock:
-            "0x1234567890123456789012345678901234567890123456789012345678901234",
-          timestamp: Math.floor((Date.now() - 86400000) / 1000),
+  /**
+   * Plan the timelocks of both escrows of a swap with the policy of its quote
+   * @param withdrawalPeriod - Time the EVM escrow stays withdrawable, the one of the policy when missing
+   * @throws BadRequestException when the policy breaks the escrow safety
+   */
+  private planSwapTimelocks(
+    start: number,
+    quote: Quote,
+    withdrawalPeriod?: number,
+  ): TimelockPlan {
+    const policy = this.quoteService.getTimelockPolicy(quote);
+    try {
+      return planTimelocks(start, {
+        ...policy,
+        withdrawalPeriod: withdrawalPeriod ?? policy.withdrawalPeriod,
+      });
+    } catch (error: unknown) {
+      if (error instanceof TimelockPlanError) {
+        throw new BadRequestException(error.violations);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Fill the swaps whose EVM escrow the resolver scheduled, once their fill time has come.
+   * The fill is decided again with the current prices, gas and inventory.
+   */
+  @Cron(CronExpression.EVERY_10_SECONDS, { name: "scheduledFills" })
+  async fillScheduledSwaps(): Promise<void> {
+    // A slow chain may make a run outlast the interval
+    if (this.isFilling) {
+      return;
+    }
+
+    this.isFilling = true;
+    try {
+      const now = Math.floor(Date.now() / 1000);
+      const swaps = await this.dbService.swap.findMany({
+        where: {
+          direction: SwapDirection.APTOS_TO_EVM,
+          status: SwapStatus.APTOS_HTLC_CREATED,
+          evmHtlcAddress: null,
         },
-      ],
+        include: { fillDecisions: { orderBy: { createdAt: "desc" }, take: 1 } },
+      });
+
+      for (const { fillDecisions, ...swap } of swaps) {
+        // Skipped swaps have no fill time, a fill that failed is tried again
+        const [latest] = fillDecisions;
+        if (latest && latest.fillAt !== null && latest.fillAt <= now) {
+          await this.fillScheduledSwap(swap);
+        }
+      }
+    } catch (error) {
+      this.logger.error("Error filling scheduled swaps:", error);
+    } finally {
+      this.isFilling = false;
+    }
+  }
+
+  /**
+   * Reserve the inventory of a fill the resolver scheduled, the swaps filled meanwhile cannot spend it
+   * @param takingAmount - Auction amount the escrow is expected to lock at the scheduled time
+   */
+  private async reserveScheduledFill(
+    swap: Swap,
+    takingAmount: bigint,
+  ): Promise<void> {
+    await this.inventoryService.reserve(
+      { chain: "evm", chainId: swap.evmChainId, address: swap.toTokenAddress },
+      swap.id,
+      takingAmount,
+    );
+  }
+
+  /**
+   * Give up on a swap the relayer does not fill. Its sender cancels the Aptos escrow once its
+   * cancellation timelock passed.
+   * @param reason - Why the swap is given up, recorded in its timeline
+   * @param errorMessage - Error recorded on the swap
+   */
+  private async abandonSwap(
+    swap: Swap,
+    reason: string,
+    errorMessage: string,
+  ): Promise<Swap> {
+    await this.inventoryService.releaseScheduled(swap.id, "evm");
+    return this.swapStateMachine.transition(
+      swap.id,
+      SwapStatus.FAILED,
+      { actor: ACTOR, reason },
+      { errorMessage },
+    );
+  }
+
+  /**
+   * Fill a scheduled swap, schedule it again, or give it up when the resolver now declines it.
+   * Errors leave the schedule in place, the next run tries again.
+   */
+  private async fillScheduledSwap(swap: Swap): Promise<void> {
+    try {
+      // The decision counts the inventory reserved for the swap as available again
+      await this.inventoryService.releaseScheduled(swap.id, "evm");
+      const decision = await this.fillDecisionService.decide(swap);
+      if (decision.action === FillAction.FILL) {
+        await this.createEvmEscrow(swap, decision.takingAmount);
+      } else if (decision.action === FillAction.SKIP) {
+        await this.abandonSwap(
+          swap,
+          `Resolver declined the swap: ${decision.reason}`,
+          decision.reason,
+        );
+      } else {
+        await this.reserveScheduledFill(swap, decision.takingAmount);
+      }
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.error(`Failed to fill swap ${swap.id}: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Create and fund the EVM counter-escrow paying the recipient.
+   * The deployment is tracked until final, and rolled back if its block is orphaned.
+   * @param takingAmount - Auction amount the escrow locks, it becomes the destination amount of the swap
+   */
+  private async createEvmEscrow(
+    swap: Swap,
+    takingAmount: bigint,
+  ): Promise<Swap> {
+    const dstAmount = takingAmount.toString();
+    const immutables = this.evmService.buildSwapImmutables({
+      ...swap,
+      dstAmount,
     });
+    await this.inventoryService.reserve(
+      { chain: "evm", chainId: swap.evmChainId, address: swap.toTokenAddress },
+      swap.id,
+      takingAmount,
+    );
+    const { escrowAddress, txHash, blockNumber, blockHash, logIndex } =
+      await this.evmService
+        .deployEscrow(immutables, swap)
+        .catch(async (error: unknown) => {
+          // The escrow was never funded, the reserved amount is free again
+          await this.inventoryService.release(swap.id, "evm");
+          throw error;
+        });
+    await this.inventoryService.markLocked(swap.id, "evm");
+
+    const updatedSwap = await this.swapStateMachine.transition(
+      swap.id,
+      SwapStatus.EVM_HTLC_CREATED,
+      { actor: ACTOR, reason: "EVM escrow deployed", txHash },
+      {
+        dstAmount,
+        evmHtlcAddress: escrowAddress,
+        evmImmutables: serializeEvmImmutables(immutables),
+      },
+    );
+
+    await this.finalityService.recordObservation({
+      chain: "evm",
+      chainId: this.evmService.getChain(swap.evmChainId).chainId,
+      kind: EVM_ESCROW_DEPLOYED,
+      blockNumber,
+      blockHash,
+      txHash,
+      logIndex,
+      payload: {
+        escrowAddress,
+        transactionHash: txHash,
+        blockNumber,
+        logIndex,
+        swapId: swap.id,
+      } satisfies EvmEscrowDeployedEvent,
+      swapId: swap.id,
+      fromStatus: swap.status,
+      toStatus: SwapStatus.EVM_HTLC_CREATED,
+      rollbackData: { evmHtlcAddress: null },
+    });
+
+    return updatedSwap;
+  }
+
+  /**
+   * Resolve the EVM chain a swap asks for
+   * @param chainId - Requested chain, the default chain when missing
+   * @throws BadRequestException when the relayer does not serve the chain
+   */
+  private getEvmChainId(chainId?: number): number {
+    try {
+      return this.evmService.getChain(chainId).chainId;
+    } catch (error: unknown) {
+      if (error instanceof ChainRegistryError) {
+        throw new BadRequestException(error.message);
+      }
+      throw error;
+    }
+  }
+
+  private async findAptosToEvmSwap(swapId: string): Promise<Swap> {
+    const swap = await this.dbService.findSwapById(swapId);
+
+    if (swap.direction !== SwapDirection.APTOS_TO_EVM) {
+      throw new NotFoundException(`Aptos to EVM swap ${swapId} not found`);
+    }
+
+    return swap;
+  }
+
+  /**
+   * Check the secrets of a swap filled in parts against its Merkle root
+   * @returns Hashes of the secrets by index, undefined for a single fill
+   * @throws BadRequestException when the hashes do not build the hashlock of the swap
+   */
+  private getSwapSecrets(
+    initiateSwapDto: InitiateSwapAptosToEvmDto,
+  ): { index: number; hashlock: string; aptosHashlock: string }[] | undefined {
+    const { secretHashes, aptosSecretHashes } = initiateSwapDto;
+    if (!secretHashes) {
+      return undefined;
+    }
+
+    if (aptosSecretHashes?.length !== secretHashes.length) {
+      throw new BadRequestException(
+        "aptosSecretHashes must hash the same secrets as secretHashes",
+      );
+    }
+    if (
+      createMultiFillHashlock(secretHashes) !==
+      initiateSwapDto.hashlock.toLowerCase()
+    ) {
+      throw new BadRequestException(
+        "Hashlock is not the Merkle root of secretHashes",
+      );
+    }
+
+    return secretHashes.map((hashlock, index) => ({
+      index,
+      hashlock: hashlock.toLowerCase(),
+      aptosHashlock: aptosSecretHashes[index].toLowerCase(),
+    }));
+  }
+
+  private async toSwapStatusDto(
+    swap: Swap,
+    fills?: SwapFill[],
+  ): Promise<SwapStatusDto> {
+    return {
+      swapId: swap.id,
+      status: swap.status.toLowerCase(),
+      evmHtlcAddress: swap.evmHtlcAddress || undefined,
+      aptosHtlcAddress: swap.aptosHtlcAddress || undefined,
+      hashlock: swap.hashlock,
+      aptosHashlock: swap.aptosHashlock || undefined,
+      timestamp: swap.timestamp,
+      preimage: await this.secretVault.getSettledSecret(swap, ACTOR),
+      srcAmount: this.amountService.toAmountDto(swap.amount, swap.srcDecimals),
+      dstAmount: this.amountService.toAmountDto(
+        swap.dstAmount ?? swap.amount,
+        swap.dstDecimals,
+      ),
+      partsCount: swap.partsCount ?? undefined,
+      fills: fills?.map((fill) => this.toSwapFillDto(swap, fill)),
+      aptosEscrow: await this.getAptosEscrowTerms(swap),
+    };
+  }
+
+  /**
+   * Get the terms of the Aptos escrow the sender of a swap creates, see SwapFillService.verifyAptosEscrow
+   */
+  private async getAptosEscrowTerms(
+    swap: Swap,
+  ): Promise<AptosEscrowTermsDto | undefined> {
+    if (!swap.orderHash || !swap.timelockPlan) {
+      return undefined;
+    }
+
+    const { address: maker } = await this.aptosService.getAptosAddress();
+    const { src } = parseTimelockPlan(swap.timelockPlan);
+    return {
+      orderHash: swap.orderHash,
+      maker,
+      publicWithdrawalBy: src.publicWithdrawal,
+      cancellationAfter: src.cancellation,
+    };
+  }
+
+  private toSwapFillDto(swap: Swap, fill: SwapFill): SwapFillDto {
+    return {
+      secretIndex: fill.secretIndex,
+      status: fill.status.toLowerCase(),
+      srcAmount: this.amountService.toAmountDto(
+        fill.srcAmount,
+        swap.srcDecimals,
+      ),
+      dstAmount: this.amountService.toAmountDto(
+        fill.dstAmount,
+        swap.dstDecimals,
+      ),
+      filledAmount: this.amountService.toAmountDto(
+        fill.filledAmount,
+        swap.srcDecimals,
+      ),
+      evmHtlcAddress: fill.evmHtlcAddress || undefined,
+      aptosHtlcAddress: fill.aptosHtlcAddress || undefined,
+    };
   }
 }
@@ -0,0 +1,545 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+} from "@nestjs/common";
+import { Swap, SwapFill, SwapFillStatus, SwapStatus } from "@prisma/client";
+import { DbService } from "prisma/src/db.service";
+import { AptosService } from "src/aptos/aptos.service";
+import { EvmService } from "src/evm/evm.service";
+import { FinalityService } from "src/finality/finality.service";
+import { HashlockService } from "src/hashlock/hashlock.service";
+import { getFillOrderHash, getNextFillSecretIndex } from "src/hashlock/merkle";
+import {
+  getSwapAptosImmutables,
+  getSwapEvmImmutables,
+  serializeAptosImmutables,
+  serializeEvmImmutables,
+} from "src/immutables/immutables";
+import { InventoryService } from "src/inventory/inventory.service";
+import { SecretVaultService } from "src/secrets/secret-vault.service";
+import { SwapStateMachineService } from "src/swap-state/swap-state-machine.service";
+import { parseTimelockPlan } from "src/timelocks/timelocks";
+import {
+  EscrowCreation,
+  EscrowCreationError,
+  ExpectedEscrow,
+} from "src/aptos/escrow-creation";
+import {
+  EVM_ESCROW_DEPLOYED,
+  EvmEscrowDeployedEvent,
+} from "src/workers/events/evm-escrow.events";
+import { APTOS_ESCROW_CREATED } from "src/workers/events/aptos-escrow.events";
+
+const ACTOR = "swap-aptos-to-evm";
+
+/**
+ * Fills Aptos to EVM swaps in parts, see src/hashlock/merkle.
+ *
+ * The sender locks the part of the source amount of each fill in its own Aptos escrow, and
+ * the relayer its part of the auction in its own EVM escrow, both with the secret of the
+ * Merkle tree the cumulative fill maps to. Completing a fill reveals that secret only, and the swap completes with the fill
+ * that brings it to its full amount.
+ */
+@Injectable()
+export class SwapFillService {
+  private readonly logger = new Logger(SwapFillService.name);
+
+  constructor(
+    private readonly dbService: DbService,
+    private readonly aptosService: AptosService,
+    private readonly evmService: EvmService,
+    private readonly swapStateMachine: SwapStateMachineService,
+    private readonly hashlockService: HashlockService,
+    private readonly finalityService: FinalityService,
+    private readonly inventoryService: InventoryService,
+    private readonly secretVault: SecretVaultService,
+  ) {}
+
+  /**
+   * Get the fills of a swap, in the order of their secrets
+   */
+  getFills(swapId: string): Promise<SwapFill[]> {
+    return this.dbService.swapFill.findMany({
+      where: { swapId },
+      orderBy: { secretIndex: "asc" },
+    });
+  }
+
+  /**
+   * Get the source amount of a swap its fills lock or locked
+   */
+  getFilledAmount(fills: SwapFill[]): bigint {
+    return fills
+      .filter((fill) => fill.status !== SwapFillStatus.FAILED)
+      .reduce((total, fill) => total + BigInt(fill.srcAmount), 0n);
+  }
+
+  /**
+   * Create the EVM escrow of a fill once the Aptos escrow of its sender is verified.
+   * A failed fill gives its secret back: the next fill mapping to it takes its place, and
+   * keeps its Aptos escrow when it was recorded.
+   * @param srcAmount - Source amount of the fill
+   * @param takingAmount - Auction amount of the fill, locked in the EVM escrow
+   * @param aptosTxHash - Transaction in which the sender created the Aptos escrow of the fill
+   * @throws BadRequestException when the amount overflows the swap, would reuse a secret, or
+   * the transaction does not create the escrow of the fill
+   * @throws ConflictException when the failed fill of the secret is being retried
+   */
+  async createFill(
+    swap: Swap,
+    srcAmount: bigint,
+    takingAmount: bigint,
+    aptosTxHash?: string,
+  ): Promise<Swap> {
+    if (swap.partsCount === null) {
+      throw new BadRequestException(`Swap ${swap.id} is not filled in parts`);
+    }
+    if (!swap.orderHash) {
+      throw new Error(`Swap ${swap.id} has no order hash`);
+    }
+
+    const fills = await this.getFills(swap.id);
+    const filledAmount = this.getFilledAmount(fills);
+    let secretIndex: number;
+    try {
+      secretIndex = getNextFillSecretIndex(
+        BigInt(swap.amount),
+        fills.map((fill) => ({
+          secretIndex: fill.secretIndex,
+          srcAmount: BigInt(fill.srcAmount),
+          failed: fill.status === SwapFillStatus.FAILED,
+        })),
+        srcAmount,
+        swap.partsCount,
+      );
+    } catch (error: unknown) {
+      throw new BadRequestException(
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+
+    const secret = await this.dbService.swapSecret.findUniqueOrThrow({
+      where: { swapId_index: { swapId: swap.id, index: secretIndex } },
+    });
+    const data = {
+      orderHash: getFillOrderHash(swap.orderHash, secretIndex),
+      srcAmount: srcAmount.toString(),
+      filledAmount: (filledAmount + srcAmount).toString(),
+      dstAmount: takingAmount.toString(),
+    };
+    const failedFill = fills.find((fill) => fill.secretIndex === secretIndex);
+    // A failed fill keeps its escrow, the others lock the one the sender created for the fill
+    const creation = failedFill?.aptosHtlcAddress
+      ? undefined
+      : await this.verifyAptosEscrow(
+          swap,
+          {
+            orderHash: data.orderHash,
+            hashlock: secret.aptosHashlock,
+            amount: srcAmount,
+          },
+          aptosTxHash,
+        );
+    let fill: SwapFill;
+    if (failedFill) {
+      fill = await this.retryFill(failedFill, data);
+    } else {
+      // The secret index is unique per swap, two fills racing for it cannot both be created
+      fill = await this.dbService.swapFill.create({
+        data: { swapId: swap.id, secretIndex, ...data },
+      });
+    }
+
+    let txHash: string;
+    try {
+      if (creation) {
+        fill = await this.recordAptosEscrow(swap, fill, creation);
+      }
+      ({ fill, txHash } = await this.createEvmEscrow(
+        swap,
+        fill,
+        secret.hashlock,
+      ));
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      await this.dbService.swapFill.update({
+        where: { id: fill.id },
+        data: { status: SwapFillStatus.FAILED, errorMessage },
+      });
+      throw error;
+    }
+
+    this.logger.log(
+      `Fill ${secretIndex} of swap ${swap.id} locks ${srcAmount} for ${takingAmount}, ${fill.filledAmount} of ${swap.amount} filled`,
+    );
+
+    // The swap has a live EVM escrow from its first fill on
+    if (swap.status !== SwapStatus.PENDING) {
+      return swap;
+    }
+    return this.swapStateMachine.transition(
+      swap.id,
+      SwapStatus.EVM_HTLC_CREATED,
+      { actor: ACTOR, reason: `Fill ${secretIndex} escrows created`, txHash },
+    );
+  }
+
+  /**
+   * Complete a fill with its secret: pay the EVM recipient, then claim the Aptos escrow.
+   * Secrets of other indexes are refused, so a partial fill never reveals more than it filled.
+   * @param secretIndex - Index of the secret of the fill
+   * @param preimage - Secret in its canonical encoding
+   */
+  async completeFill(
+    swap: Swap,
+    secretIndex: number,
+    preimage: string,
+  ): Promise<Swap> {
+    let fill = await this.dbService.swapFill.findUnique({
+      where: { swapId_secretIndex: { swapId: swap.id, secretIndex } },
+    });
+    const secret = await this.dbService.swapSecret.findUnique({
+      where: { swapId_index: { swapId: swap.id, index: secretIndex } },
+    });
+    if (
+      !fill ||
+      !secret ||
+      (fill.status !== SwapFillStatus.ESCROWS_CREATED &&
+        fill.status !== SwapFillStatus.SECRET_REVEALED)
+    ) {
+      throw new BadRequestException(
+        `Swap ${swap.id} has no open fill with secret ${secretIndex}`,
+      );
+    }
+
+    if (!this.hashlockService.verifyFor("evm", preimage, secret.hashlock)) {
+      throw new BadRequestException(
+        `Preimage does not match the EVM hashlock of secret ${secretIndex}`,
+      );
+    }
+    if (
+      !this.hashlockService.verifyFor("aptos", preimage, secret.aptosHashlock)
+    ) {
+      throw new BadRequestException(
+        `Preimage does not match the Aptos hashlock of secret ${secretIndex}`,
+      );
+    }
+
+    if (fill.status === SwapFillStatus.ESCROWS_CREATED && fill.evmHtlcAddress) {
+      // A reorg could still remove the escrow, so the secret is not revealed before it is final
+      if (
+        !fill.evmTxHash ||
+        !(await this.finalityService.isConfirmed(
+          swap.id,
+          EVM_ESCROW_DEPLOYED,
+          fill.evmTxHash,
+        ))
+      ) {
+        throw new ConflictException(
+          `EVM escrow of fill ${secretIndex} of swap ${swap.id} does not have ${this.finalityService.getConfirmations("evm", swap.evmChainId)} confirmations yet`,
+        );
+      }
+
+      await this.evmService.withdrawEscrow(
+        fill.evmHtlcAddress,
+        preimage,
+        getSwapEvmImmutables(fill),
+        true,
+        swap,
+      );
+      await this.dbService.swapSecret.update({
+        where: { id: secret.id },
+        data: {
+          secret: this.secretVault.sealFillSecret(
+            swap.id,
+            secretIndex,
+            preimage,
+          ),
+          revealedAt: Math.floor(Date.now() / 1000),
+        },
+      });
+      fill = await this.dbService.swapFill.update({
+        where: { id: fill.id },
+        data: { status: SwapFillStatus.SECRET_REVEALED },
+      });
+    }
+
+    if (
+      fill.status !== SwapFillStatus.SECRET_REVEALED ||
+      !fill.aptosHtlcAddress
+    ) {
+      throw new BadRequestException(
+        `Fill ${secretIndex} of swap ${swap.id} cannot be completed from status ${fill.status}`,
+      );
+    }
+
+    await this.aptosService.withdrawEscrow({
+      contractId: fill.aptosHtlcAddress,
+      secret: preimage,
+      coinType: getSwapAptosImmutables(fill).tokenType,
+      isPublic: true,
+      swapId: swap.id,
+    });
+    await this.dbService.swapFill.update({
+      where: { id: fill.id },
+      data: { status: SwapFillStatus.COMPLETED },
+    });
+
+    const completedAmount = (await this.getFills(swap.id))
+      .filter(({ status }) => status === SwapFillStatus.COMPLETED)
+      .reduce((total, { srcAmount }) => total + BigInt(srcAmount), 0n);
+    if (completedAmount < BigInt(swap.amount)) {
+      return swap;
+    }
+
+    swap = await this.swapStateMachine.transition(
+      swap.id,
+      SwapStatus.PREIMAGE_REVEALED,
+      { actor: ACTOR, reason: `Fill ${secretIndex} completes the swap` },
+      { preimage: this.secretVault.sealSwapSecret(swap.id, preimage) },
+    );
+    return this.swapStateMachine.transition(
+      swap.id,
+      SwapStatus.COMPLETED,
+      { actor: ACTOR, reason: "All fills withdrawn" },
+      { completedAt: Math.floor(Date.now() / 1000) },
+    );
+  }
+
+  /**
+   * Cancel the escrows of the fills not completed the relayer can cancel, once the last of them expired
+   * @throws BadRequestException when a fill revealed its secret or an escrow did not expire yet
+   */
+  async cancelFills(swap: Swap): Promise<void> {
+    const fills = (await this.getFills(swap.id)).filter(
+      (fill) =>
+        fill.status !== SwapFillStatus.COMPLETED &&
+        fill.status !== SwapFillStatus.REFUNDED,
+    );
+    if (fills.some((fill) => fill.status === SwapFillStatus.SECRET_REVEALED)) {
+      throw new BadRequestException(
+        `Cannot cancel swap ${swap.id} while a fill is being withdrawn`,
+      );
+    }
+
+    // The sender cancels the Aptos escrows it created, the relayer only the ones it is the taker of
+    const aptosEscrows = new Map(
+      fills
+        .filter((fill) => fill.aptosHtlcAddress && fill.aptosImmutables)
+        .map((fill) => [fill.id, getSwapAptosImmutables(fill)] as const)
+        .filter(([, immutables]) =>
+          this.aptosService.isRelayerEscrow(immutables),
+        ),
+    );
+
+    // The Aptos escrows stay locked longer than the EVM ones
+    const currentTime = Math.floor(Date.now() / 1000);
+    const expiresAt = Math.max(
+      swap.timelock,
+      ...[...aptosEscrows.values()].map(
+        ({ timelocks }) => timelocks.dstCancellation,
+      ),
+    );
+    if (currentTime < expiresAt) {
+      throw new BadRequestException(
+        `Cannot cancel swap before timelock expiration. ` +
+          `Timelock expires at ${new Date(expiresAt * 1000).toISOString()}`,
+      );
+    }
+
+    for (const fill of fills) {
+      if (fill.evmHtlcAddress) {
+        await this.evmService.cancelEscrow(
+          fill.evmHtlcAddress,
+          getSwapEvmImmutables(fill),
+          true,
+          1,
+          swap,
+        );
+      }
+      const aptosImmutables = aptosEscrows.get(fill.id);
+      if (fill.aptosHtlcAddress && aptosImmutables) {
+        await this.aptosService.cancelEscrow({
+          contractId: fill.aptosHtlcAddress,
+          coinType: aptosImmutables.tokenType,
+          swapId: swap.id,
+        });
+      }
+      await this.dbService.swapFill.update({
+        where: { id: fill.id },
+        data: { status: SwapFillStatus.REFUNDED },
+      });
+    }
+  }
+
+  /**
+   * Take over a failed fill for a new attempt at its secret
+   * @throws BadRequestException when its Aptos escrow locks another amount
+   * @throws ConflictException when another attempt took it over first
+   */
+  private async retryFill(
+    failedFill: SwapFill,
+    data: Pick<
+      SwapFill,
+      "orderHash" | "srcAmount" | "filledAmount" | "dstAmount"
+    >,
+  ): Promise<SwapFill> {
+    // The Aptos escrow of the failed attempt stays locked until it expires, so it is reused
+    if (
+      failedFill.aptosHtlcAddress &&
+      failedFill.srcAmount !== data.srcAmount
+    ) {
+      throw new BadRequestException(
+        `Secret ${failedFill.secretIndex} of swap ${failedFill.swapId} has an Aptos escrow of ${failedFill.srcAmount} from a failed fill, fill that amount`,
+      );
+    }
+
+    const { count } = await this.dbService.swapFill.updateMany({
+      where: { id: failedFill.id, status: SwapFillStatus.FAILED },
+      data: { ...data, status: SwapFillStatus.PENDING, errorMessage: null },
+    });
+    if (count === 0) {
+      throw new ConflictException(
+        `Fill ${failedFill.secretIndex} of swap ${failedFill.swapId} is being retried`,
+      );
+    }
+    return this.dbService.swapFill.findUniqueOrThrow({
+      where: { id: failedFill.id },
+    });
+  }
+
+  /**
+   * Verify the Aptos escrow the sender created for a swap or one of its fills, see
+   * src/aptos/escrow-creation. The relayer must be able to claim it in the public withdrawal
+   * window of the source side of the plan, and the sender not cancel it before that side does.
+   * @param escrow - Order hash, hashlock and amount the escrow locks
+   * @param txHash - Hash of the creation transaction
+   * @throws BadRequestException when the transaction does not create the escrow
+   */
+  async verifyAptosEscrow(
+    swap: Swap,
+    escrow: Pick<ExpectedEscrow, "orderHash" | "hashlock" | "amount">,
+    txHash: string | undefined,
+  ): Promise<EscrowCreation> {
+    if (!txHash) {
+      throw new BadRequestException(
+        `The Aptos transaction creating escrow ${escrow.orderHash} is required`,
+      );
+    }
+
+    const { address: relayerAddress } =
+      await this.aptosService.getAptosAddress();
+    const { src } = parseTimelockPlan(swap.timelockPlan);
+    try {
+      return await this.aptosService.verifyEscrowCreation(txHash, {
+        ...escrow,
+        sender: swap.sender,
+        maker: relayerAddress,
+        tokenType: swap.fromTokenAddress,
+        publicWithdrawalBy: src.publicWithdrawal,
+        cancellationAfter: src.cancellation,
+      });
+    } catch (error: unknown) {
+      if (error instanceof EscrowCreationError) {
+        throw new BadRequestException(error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Record the verified Aptos escrow of a fill
+   */
+  private async recordAptosEscrow(
+    swap: Swap,
+    fill: SwapFill,
+    { contractId, txHash, version, immutables }: EscrowCreation,
+  ): Promise<SwapFill> {
+    const updatedFill = await this.dbService.swapFill.update({
+      where: { id: fill.id },
+      data: {
+        aptosHtlcAddress: contractId,
+        aptosTxHash: txHash,
+        aptosImmutables: serializeAptosImmutables(immutables),
+      },
+    });
+
+    // Aptos does not fork, the ledger version of the transaction stands for its block
+    await this.finalityService.recordObservation({
+      chain: "aptos",
+      kind: APTOS_ESCROW_CREATED,
+      blockNumber: BigInt(version),
+      blockHash: txHash,
+      txHash,
+      logIndex: 0,
+      swapId: swap.id,
+    });
+
+    return updatedFill;
+  }
+
+  /**
+   * Create and fund the EVM escrow of a fill, paying its part of the auction to the recipient.
+   * The deployment is tracked until final, the secret of the fill waits for it.
+   */
+  private async createEvmEscrow(
+    swap: Swap,
+    fill: SwapFill,
+    hashlock: string,
+  ): Promise<{ fill: SwapFill; txHash: string }> {
+    const immutables = this.evmService.buildSwapImmutables({
+      ...swap,
+      orderHash: fill.orderHash,
+      dstAmount: fill.dstAmount,
+      hashlock,
+    });
+    await this.inventoryService.reserve(
+      { chain: "evm", chainId: swap.evmChainId, address: swap.toTokenAddress },
+      swap.id,
+      BigInt(fill.dstAmount),
+      fill.id,
+    );
+    const { escrowAddress, txHash, blockNumber, blockHash, logIndex } =
+      await this.evmService
+        .deployEscrow(immutables, swap)
+        .catch(async (error: unknown) => {
+          // The escrow was never funded, the reserved amount is free again
+          await this.inventoryService.release(swap.id, "evm", fill.id);
+          throw error;
+        });
+    await this.inventoryService.markLocked(swap.id, "evm", fill.id);
+
+    const updatedFill = await this.dbService.swapFill.update({
+      where: { id: fill.id },
+      data: {
+        status: SwapFillStatus.ESCROWS_CREATED,
+        evmHtlcAddress: escrowAddress,
+        evmTxHash: txHash,
+        evmImmutables: serializeEvmImmutables(immutables),
+      },
+    });
+
+    await this.finalityService.recordObservation({
+      chain: "evm",
+      chainId: this.evmService.getChain(swap.evmChainId).chainId,
+      kind: EVM_ESCROW_DEPLOYED,
+      blockNumber,
+      blockHash,
+      txHash,
+      logIndex,
+      payload: {
+        escrowAddress,
+        transactionHash: txHash,
+        blockNumber,
+        logIndex,
+        swapId: swap.id,
+      } satisfies EvmEscrowDeployedEvent,
+      swapId: swap.id,
+    });
+
+    return { fill: updatedFill, txHash };
+  }
+}
@@ -1,6 +1,8 @@
 import { ApiProperty } from "@nestjs/swagger";
-import { IsString, IsObject, IsEnum } from "class-validator";
+import { IsString, IsObject, IsEnum, IsInt, IsOptional } from "class-validator";
+import { IsHashlock, IsSecret } from "../../hashlock/hashlock.validators";
 import { SwapStatusDto } from "../../shared/dto/swap.dto";
+import { TimelockPolicyDto } from "../../timelocks/dto/timelock-policy.dto";
 
 import { SwapStatusEnum } from "./swap.enum";
 
@@ -13,12 +15,21 @@ export class InitiateSwapEvmToAptosDto {
   readonly signedOrder: Record<string, unknown>;
 
   @ApiProperty({
-    description: "SHA-256 hash of the preimage",
-    example: "0x...",
+    description: "Hashlock of the EVM escrow (keccak256 of the secret)",
+    example:
+      "0x1234567890123456789012345678901234567890123456789012345678901234",
   })
-  @IsString()
+  @IsHashlock()
   readonly preimageHash: string;
 
+  @ApiProperty({
+    description: "Hashlock of the Aptos escrow (sha3-256 of the same secret)",
+    example:
+      "0x1234567890123456789012345678901234567890123456789012345678901234",
+  })
+  @IsHashlock()
+  readonly aptosHashlock: string;
+
   @ApiProperty({
     description: "Sender address (EVM address)",
     example: "0x1234567890123456789012345678901234567890",
@@ -54,6 +65,23 @@ export class InitiateSwapEvmToAptosDto {
   })
   @IsString()
   readonly amount: string;
+
+  @ApiProperty({
+    description: "ID of the quote the swap redeems, see POST /quotes",
+    example: "3f1c7c0e-7c55-4f0e-9a0e-1b2f3c4d5e6f",
+  })
+  @IsString()
+  readonly quoteId: string;
+
+  @ApiProperty({
+    description:
+      "Chain ID of the EVM source chain, the relayer's default chain when omitted",
+    example: 11155111,
+    required: false,
+  })
+  @IsInt()
+  @IsOptional()
+  readonly srcChainId?: number;
 }
 
 export class CompleteSwapDto {
@@ -66,11 +94,11 @@ export class CompleteSwapDto {
   readonly swapId: string;
 
   @ApiProperty({
-    description: "Preimage to unlock the HTLC",
+    description: "Secret to unlock the escrows (32 bytes of hex)",
     example:
       "0x1234567890123456789012345678901234567890123456789012345678901234",
   })
-  @IsString()
+  @IsSecret()
   readonly preimage: string;
 }
 
@@ -92,7 +120,7 @@ export class SwapHistoryDto {
   readonly swaps: SwapStatusDto[];
 }
 
-export class EscrowEvmDto {
+export class EscrowEvmDto extends TimelockPolicyDto {
   @ApiProperty({
     description: "Swap status to test",
     enum: SwapStatusEnum,
@@ -125,7 +153,7 @@ export class EscrowEvmDto {
   readonly amount: string;
 
   @ApiProperty({
-    description: "Timelock duration in seconds",
+    description: "Private withdrawal window of the escrows, in seconds",
     example: "3600",
   })
   @IsString()
@@ -136,7 +164,7 @@ export class EscrowEvmDto {
     example:
       "0x1234567890123456789012345678901234567890123456789012345678901234",
   })
-  @IsString()
+  @IsHashlock()
   readonly hashlock: string;
 
   @ApiProperty({
@@ -145,9 +173,19 @@ export class EscrowEvmDto {
   })
   @IsString()
   readonly tokenAddress: string;
+
+  @ApiProperty({
+    description:
+      "Chain ID of the EVM source chain, the relayer's default chain when omitted",
+    example: 11155111,
+    required: false,
+  })
+  @IsInt()
+  @IsOptional()
+  readonly srcChainId?: number;
 }
 
-export class EscrowAptosDto {
+export class EscrowAptosDto extends TimelockPolicyDto {
   @ApiProperty({
     description: "Swap status to test",
     enum: SwapStatusEnum,
@@ -181,7 +219,7 @@ export class EscrowAptosDto {
   readonly amount: string;
 
   @ApiProperty({
-    description: "Timelock duration in seconds",
+    description: "Private withdrawal window of the escrows, in seconds",
     example: "3600",
   })
   @IsString()
@@ -192,12 +230,12 @@ export class EscrowAptosDto {
     example:
       "0x1234567890123456789012345678901234567890123456789012345678901234",
   })
-  @IsString()
+  @IsHashlock()
   readonly hashlock: string;
 
   @ApiProperty({
-    description: "Token contract address",
-    example: "0x5FbDB2315678afecb367f032d93F642f64180aa3",
+    description: "Coin type of the escrowed token",
+    example: "0x1::aptos_coin::AptosCoin",
   })
   @IsString()
   readonly tokenAddress: string;
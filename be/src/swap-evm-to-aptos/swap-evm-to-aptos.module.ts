@@ -5,9 +5,28 @@ import { PrismaModule } from "../prisma/prisma.module";
 import { FusionModule } from "../fusion/fusion.module";
 import { AptosModule } from "../aptos/aptos.module";
 import { EvmModule } from "../evm/evm.module";
+import { SwapStateModule } from "../swap-state/swap-state.module";
+import { HashlockModule } from "../hashlock/hashlock.module";
+import { TokensModule } from "../tokens/tokens.module";
+import { AmountsModule } from "../amounts/amounts.module";
+import { QuotesModule } from "../quotes/quotes.module";
+import { SecretsModule } from "../secrets/secrets.module";
+import { RefundHandlerModule } from "../workers/refund-handler.module";
 
 @Module({
-  imports: [PrismaModule, FusionModule, AptosModule, EvmModule],
+  imports: [
+    PrismaModule,
+    FusionModule,
+    AptosModule,
+    EvmModule,
+    SwapStateModule,
+    HashlockModule,
+    TokensModule,
+    AmountsModule,
+    QuotesModule,
+    SecretsModule,
+    RefundHandlerModule,
+  ],
   providers: [SwapEvmToAptosService],
   controllers: [SwapEvmToAptosController],
 })
@@ -1,5 +1,7 @@
 import * as crypto from "crypto";
 import {
+  BadRequestException,
+  ConflictException,
   Injectable,
   Logger,
   NotFoundException,
@@ -12,6 +14,24 @@ import { PrismaService } from "src/prisma/prisma.service";
 import { FusionService } from "src/fusion/fusion.service";
 import { AptosService } from "src/aptos/aptos.service";
 import { EvmService } from "src/evm/evm.service";
+import { SwapStateMachineService } from "src/swap-state/swap-state-machine.service";
+import { HashlockService } from "src/hashlock/hashlock.service";
+import { encodeSecret } from "src/hashlock/hashlock";
+import { EscrowChainState, EvmImmutables } from "src/types/escrow.types";
+import {
+  TimelockPlan,
+  TimelockPlanError,
+  planTimelocks,
+  resolveTimelockPolicy,
+  toAptosDelays,
+  toEvmTimelocks,
+} from "src/timelocks/timelocks";
+import {
+  getSwapAptosImmutables,
+  getSwapEvmImmutables,
+  serializeAptosImmutables,
+  serializeEvmImmutables,
+} from "src/immutables/immutables";
 
 import {
   InitiateSwapEvmToAptosDto,
@@ -22,9 +42,37 @@ import {
   EscrowAptosDto,
 } from "./dto/swap-evm-to-aptos.dto";
 import { SwapStatusDto } from "../shared/dto/swap.dto";
-import { SwapDirection, SwapStatus } from "@prisma/client";
+import { Swap, SwapDirection, SwapStatus } from "@prisma/client";
 import { SwapStatusEnum } from "./dto/swap.enum";
 import { DbService } from "prisma/src/db.service";
+import { ChainRegistryError } from "src/chains/evm-chains";
+import { TokenRegistryService } from "src/tokens/token-registry.service";
+import { AmountService } from "src/amounts/amount.service";
+import { QuoteService } from "src/quotes/quote.service";
+import { SecretVaultService } from "src/secrets/secret-vault.service";
+import { RefundHandlerService } from "src/workers/refund-handler.service";
+
+const ACTOR = "swap-evm-to-aptos";
+
+/**
+ * Swaps whose escrows may still be withdrawn with the secret
+ */
+const COMPLETABLE_STATUSES: SwapStatus[] = [
+  SwapStatus.EVM_HTLC_CREATED,
+  SwapStatus.APTOS_HTLC_CREATED,
+  SwapStatus.USER_WITHDREW_APTOS,
+];
+
+/**
+ * Swaps whose escrows may be cancelled, the secret was not revealed yet
+ */
+const CANCELLABLE_STATUSES: SwapStatus[] = [
+  SwapStatus.PENDING,
+  SwapStatus.EVM_HTLC_CREATED,
+  SwapStatus.APTOS_HTLC_CREATED,
+  SwapStatus.REFUNDING,
+  SwapStatus.FAILED,
+];
 
 interface Event {
   event: string;
@@ -41,7 +89,14 @@ export class SwapEvmToAptosService {
     private readonly fusionService: FusionService,
     private readonly aptosService: AptosService,
     private readonly evmService: EvmService,
-  ) { }
+    private readonly swapStateMachine: SwapStateMachineService,
+    private readonly hashlockService: HashlockService,
+    private readonly tokenRegistryService: TokenRegistryService,
+    private readonly amountService: AmountService,
+    private readonly quoteService: QuoteService,
+    private readonly secretVault: SecretVaultService,
+    private readonly refundHandler: RefundHandlerService,
+  ) {}
 
   async initiateSwap(
     initiateSwapDto: InitiateSwapEvmToAptosDto,
@@ -74,29 +129,54 @@ export class SwapEvmToAptosService {
         throw new Error(`Failed to process Fusion order: ${errorMessage}`);
       }
 
+      const evmChainId = this.getEvmChainId(initiateSwapDto.srcChainId);
+      const pair = await this.tokenRegistryService.requireSupportedPair(
+        {
+          chain: "evm",
+          chainId: evmChainId,
+          address: initiateSwapDto.fromTokenAddress,
+        },
+        { chain: "aptos", address: initiateSwapDto.toTokenAddress },
+        initiateSwapDto.amount,
+      );
+      const { srcToken, dstToken } = pair;
+
       // Generate a unique swap ID
       const swapId = crypto.randomUUID();
 
+      // The quote fixes the amount the Aptos escrow locks
+      const quote = await this.quoteService.redeemQuote(
+        initiateSwapDto.quoteId,
+        pair.id,
+        initiateSwapDto.amount,
+        swapId,
+      );
+
       // Set a default timelock of 24 hours (in seconds)
       const timelock = Math.floor(Date.now() / 1000) + 24 * 60 * 60;
 
       // Create a new swap record in the database
-      const newSwap = await this.dbService.swap.create({
-        data: {
+      const newSwap = await this.swapStateMachine.createSwap(
+        {
           id: swapId,
           direction: SwapDirection.EVM_TO_APTOS,
-          status: SwapStatus.PENDING,
+          evmChainId,
           sender: initiateSwapDto.senderAddress,
           recipient: initiateSwapDto.recipientAddress,
-          fromTokenAddress: initiateSwapDto.fromTokenAddress,
-          toTokenAddress: initiateSwapDto.toTokenAddress,
-          amount: initiateSwapDto.amount,
+          fromTokenAddress: srcToken.address,
+          toTokenAddress: dstToken.address,
+          amount: quote.amount,
+          dstAmount: quote.dstAmount,
+          srcDecimals: srcToken.decimals,
+          dstDecimals: dstToken.decimals,
           evmHtlcAddress: orderHash, // Using orderHash as evmHtlcAddress temporarily
           hashlock: initiateSwapDto.preimageHash,
+          aptosHashlock: initiateSwapDto.aptosHashlock,
           timelock: timelock,
           timestamp: Math.floor(Date.now() / 1000),
         },
-      });
+        { actor: ACTOR, reason: "Fusion order submitted" },
+      );
 
       return {
         swapId: newSwap.id,
@@ -104,8 +184,9 @@ export class SwapEvmToAptosService {
         evmHtlcAddress: newSwap.evmHtlcAddress || undefined,
         aptosHtlcAddress: newSwap.aptosHtlcAddress || undefined,
         hashlock: newSwap.hashlock,
+        aptosHashlock: newSwap.aptosHashlock || undefined,
         timestamp: newSwap.timestamp,
-        preimage: newSwap.preimage || undefined,
+        ...this.toAmountDtos(newSwap),
       };
     } catch (error: unknown) {
       if (error instanceof Error) {
@@ -136,32 +217,32 @@ export class SwapEvmToAptosService {
         escrowAptosDto.hashlock ||
         `0x${crypto.randomBytes(32).toString("hex")}`;
 
-      // Set default delays
-      const dstWithdrawalDelay = escrowAptosDto.timelock;
-      console.log(
-        "🚀 ~ SwapEvmToAptosService ~ runTestEscrowAptos ~ dstWithdrawalDelay:",
+      // The escrow holds the destination side of the plan, its delays run from its creation
+      const now = Math.floor(Date.now() / 1000);
+      const { dst } = this.planTestTimelocks(escrowAptosDto, now);
+      const {
         dstWithdrawalDelay,
-      );
-      const dstPublicWithdrawalDelay = Number(escrowAptosDto.timelock) + 600; // +10 mins
-      const dstCancellationDelay = escrowAptosDto.timelock;
+        dstPublicWithdrawalDelay,
+        dstCancellationDelay,
+      } = toAptosDelays(dst);
 
       try {
         const payload = {
           recipient: escrowAptosDto.recipientAddress,
           amount: escrowAptosDto.amount,
           hashlock: escrowAptosDto.hashlock,
-          timelock: Math.floor(Date.now() / 1000) + Number(dstWithdrawalDelay),
+          timelock: now + dstWithdrawalDelay,
           orderHash: escrowAptosDto.hashlock,
           maker: escrowAptosDto.recipientAddress,
           aptosAmount: escrowAptosDto.amount,
           safetyDeposit: escrowAptosDto.amount,
-          dstWithdrawalDelay: dstWithdrawalDelay,
-          dstPublicWithdrawalDelay: dstPublicWithdrawalDelay,
-          dstCancellationDelay: dstCancellationDelay,
+          dstWithdrawalDelay: dstWithdrawalDelay.toString(),
+          dstPublicWithdrawalDelay: dstPublicWithdrawalDelay.toString(),
+          dstCancellationDelay: dstCancellationDelay.toString(),
+          coinType: escrowAptosDto.tokenAddress,
         };
-        console.log(
-          "🚀 ~ SwapEvmToAptosService ~ runTestEscrowAptos ~ payload:",
-          payload,
+        this.logger.debug(
+          `Test Aptos escrow parameters: ${JSON.stringify(payload)}`,
         );
 
         const tx = await this.aptosService.createEscrow(payload);
@@ -174,9 +255,12 @@ export class SwapEvmToAptosService {
           recipient: escrowAptosDto.recipientAddress,
           fromTokenAddress: escrowAptosDto.tokenAddress,
           amount: escrowAptosDto.amount,
+          aptosHtlcAddress: tx.contractId,
+          aptosImmutables: serializeAptosImmutables(tx.immutables),
           hashlock: escrowAptosDto.hashlock,
-          timelock: Number(escrowAptosDto.timelock),
-          timestamp: Math.floor(Date.now() / 1000),
+          // Refunds wait for the escrow to become cancellable
+          timelock: now + dstCancellationDelay,
+          timestamp: now,
           orderHash: tx.txHash,
         };
 
@@ -231,6 +315,10 @@ export class SwapEvmToAptosService {
             const timelock: string =
               testSwapDto.timelock ||
               this.configService.get<string>("TIMELOCK", "3600"); // 1 hour default
+            const plan = this.planTestTimelocks(
+              { ...testSwapDto, timelock },
+              Math.floor(Date.now() / 1000),
+            );
             const hashlock: string =
               testSwapDto.hashlock ||
               "0x1234567890123456789012345678901234567890123456789012345678901234";
@@ -254,34 +342,35 @@ export class SwapEvmToAptosService {
               `- Token: ${tokenAddress}`,
             );
 
-            // Get typed EscrowFactory contract
-            const escrowFactory = this.evmService.getEscrowFactoryContract();
+            // Get typed EscrowFactory contract of the source chain
+            const chainId = this.getEvmChainId(testSwapDto.srcChainId);
+            const escrowFactory =
+              this.evmService.getEscrowFactoryContract(chainId);
 
             // Convert addresses to BigInt as required by contract
             const makerBigInt = BigInt(recipientAddress);
             const takerBigInt = BigInt(this.evmService.getWalletAddress());
             const tokenBigInt = BigInt(tokenAddress);
-            const amountWei = BigInt(ethers.parseUnits(amount));
+            // The amount is in whole tokens, scaled with the decimals of the registered token
+            const token = await this.tokenRegistryService.requireToken({
+              chain: "evm",
+              chainId,
+              address: tokenAddress,
+            });
+            const amountWei = this.amountService.parseHumanAmount(
+              amount,
+              token,
+            );
 
             // Create a unique order hash
             const orderHash = ethers.keccak256(
               ethers.toUtf8Bytes(`${Date.now()}`),
             );
 
-            // Prepare timelocks array with 8 elements (contract expects uint256[8])
-            const now = Math.floor(Date.now() / 1000);
-            const timelocks = [
-              now, // start time
-              now + parseInt(timelock), // end time
-              0,
-              0,
-              0,
-              0,
-              0,
-              0, // padding with zeros
-            ];
-
-            const immutables = {
+            // The escrow holds the source side of the plan
+            const timelocks = toEvmTimelocks(plan);
+
+            const immutables: EvmImmutables = {
               maker: makerBigInt,
               taker: takerBigInt,
               token: tokenBigInt,
@@ -290,66 +379,39 @@ export class SwapEvmToAptosService {
               timelocks: {
                 values: timelocks,
               },
-              safetyDeposit: 0,
+              safetyDeposit: 0n,
               orderHash: orderHash,
             };
+            const { escrowAddress: predictedAddress } =
+              await this.evmService.predictEscrowAddress(immutables, chainId);
 
             // Log the complete immutables structure
-            console.log(
-              "Escrow deployment parameters:",
-              JSON.stringify(
-                {
-                  ...immutables,
-                  maker: immutables.maker.toString(),
-                  taker: immutables.taker.toString(),
-                  token: immutables.token.toString(),
-                  amount: immutables.amount.toString(),
-                  secretHash: immutables.secretHash,
-                  timelocks: immutables.timelocks.values.map((v) =>
-                    v.toString(),
-                  ),
-                },
-                null,
-                2,
-              ),
+            this.logger.debug(
+              `Escrow deployment parameters: ${JSON.stringify({
+                ...immutables,
+                maker: immutables.maker.toString(),
+                taker: immutables.taker.toString(),
+                token: immutables.token.toString(),
+                amount: immutables.amount.toString(),
+                secretHash: immutables.secretHash,
+                timelocks: immutables.timelocks.values.map((v) => v.toString()),
+              })}`,
             );
 
-            console.log("Deploying escrow via factory...");
-            const maxRetries = 3;
-            let retryCount = 0;
-            let tx: ethers.ContractTransactionResponse | undefined;
-
-            while (retryCount < maxRetries) {
-              try {
-                console.log(
-                  `Attempt ${retryCount + 1}/${maxRetries} to deploy escrow...`,
-                );
-                tx = await escrowFactory.deploy(immutables);
-                console.log("Deploy transaction sent successfully!");
-                break;
-              } catch (error: unknown) {
-                retryCount++;
-                if (retryCount >= maxRetries) {
-                  throw error;
-                }
-                await new Promise((resolve) =>
-                  setTimeout(resolve, 1000 * retryCount),
-                );
-              }
-            }
-
-            if (!tx) {
-              throw new Error("Transaction failed after retries");
-            }
-
-            console.log("Waiting for transaction confirmation...");
-            const receipt =
-              (await tx.wait()) as ethers.ContractTransactionReceipt;
-            console.log("Transaction receipt:", receipt);
-
-            if (!receipt) {
-              throw new Error("Transaction receipt not available");
-            }
+            this.logger.log("Deploying escrow via factory");
+            // Fees are estimated and bumped by the transaction queue while the deploy is pending
+            const tx = await this.evmService.sendTransaction(
+              await escrowFactory.deploy.populateTransaction(immutables),
+              { purpose: "test-escrow-deploy" },
+              chainId,
+            );
+            this.logger.log(
+              `Deploy transaction ${tx.hash} sent, waiting for confirmation`,
+            );
+            const receipt = await this.evmService.waitForTransaction(tx);
+            this.logger.log(
+              `Deploy transaction confirmed in block ${receipt.blockNumber}`,
+            );
 
             const transactionHash = receipt.hash;
 
@@ -358,35 +420,16 @@ export class SwapEvmToAptosService {
               this.evmService.getEscrowFactoryAbi(),
             );
 
+            let escrowAddress: string | undefined;
             for (const log of receipt.logs) {
               try {
                 const parsedLog = escrowFactoryInterface.parseLog(log);
                 if (parsedLog?.name === "EscrowDeployed") {
-                  const escrowAddress = parsedLog.args[0];
-                  if (typeof escrowAddress !== "string") {
+                  if (typeof parsedLog.args[0] !== "string") {
                     throw new Error("Invalid escrow address format");
                   }
-
-                  // Save to database
-                  await this.dbService.createEvmEscrow({
-                    evmHtlcAddress: escrowAddress,
-                    direction: SwapDirection.EVM_TO_APTOS,
-                    status: SwapStatus.PENDING,
-                    sender: recipientAddress,
-                    fromTokenAddress: tokenAddress,
-                    amount: amount,
-                    hashlock: hashlock,
-                    timelock: Number(timelock),
-                    timestamp: Math.floor(Date.now() / 1000),
-                    orderHash: transactionHash,
-                  });
-
-                  this.logger.log(`Escrow deployed at: ${escrowAddress}`);
-                  return {
-                    success: true,
-                    message: "Escrow created successfully",
-                    escrowAddress,
-                  };
+                  escrowAddress = parsedLog.args[0];
+                  break;
                 }
               } catch (error: unknown) {
                 this.logger.debug(
@@ -397,8 +440,44 @@ export class SwapEvmToAptosService {
               }
             }
 
-            throw new Error("Deployed event not found in transaction logs");
+            // The factory deploys at the predicted address, the event is not needed to find it
+            if (!escrowAddress) {
+              const code = await this.evmService
+                .getProvider(chainId)
+                .getCode(predictedAddress);
+              if (code === "0x") {
+                throw new Error(
+                  `Deployed event not found in transaction logs and no escrow at ${predictedAddress}`,
+                );
+              }
+              escrowAddress = predictedAddress;
+            }
+
+            // Save to database
+            await this.dbService.createEvmEscrow({
+              evmHtlcAddress: escrowAddress,
+              direction: SwapDirection.EVM_TO_APTOS,
+              status: SwapStatus.PENDING,
+              sender: recipientAddress,
+              fromTokenAddress: tokenAddress,
+              amount: amountWei.toString(),
+              hashlock: hashlock,
+              timelock: plan.src.cancellation,
+              timestamp: Math.floor(Date.now() / 1000),
+              orderHash: transactionHash,
+              evmImmutables: serializeEvmImmutables(immutables),
+            });
+
+            this.logger.log(`Escrow deployed at: ${escrowAddress}`);
+            return {
+              success: true,
+              message: "Escrow created successfully",
+              escrowAddress,
+            };
           } catch (error: unknown) {
+            if (error instanceof BadRequestException) {
+              throw error;
+            }
             this.logger.error(
               "Escrow creation failed",
               error instanceof Error ? error : new Error(String(error)),
@@ -443,8 +522,10 @@ export class SwapEvmToAptosService {
         evmHtlcAddress: swap.evmHtlcAddress || undefined,
         aptosHtlcAddress: swap.aptosHtlcAddress || undefined,
         hashlock: swap.hashlock,
+        aptosHashlock: swap.aptosHashlock || undefined,
         timestamp: swap.timestamp,
-        preimage: swap.preimage || undefined,
+        preimage: await this.secretVault.getSettledSecret(swap, ACTOR),
+        ...this.toAmountDtos(swap),
       };
     } catch (error: unknown) {
       if (error instanceof NotFoundException) {
@@ -458,92 +539,77 @@ export class SwapEvmToAptosService {
   }
 
   /**
-   * Complete a swap by providing the preimage
+   * Complete a swap with the preimage its maker reveals, once both escrows are final:
+   * pay the recipient from the Aptos escrow, then withdraw the EVM source escrow with it
    * @param completeSwapDto - DTO with swap ID and preimage
    * @returns Updated swap status
+   * @throws ConflictException while an escrow is not final
    */
   async completeSwap(completeSwapDto: CompleteSwapDto): Promise<SwapStatusDto> {
     try {
-      const { swapId, preimage } = completeSwapDto;
-      this.logger.log(`Completing swap ${swapId} with preimage ${preimage}`);
+      const { swapId } = completeSwapDto;
+      const preimage = encodeSecret(completeSwapDto.preimage);
+      this.logger.log(`Completing swap ${swapId}`);
 
       // Find the swap in the database
-      const swap = await this.dbService.findSwapById(swapId);
+      let swap = await this.dbService.findSwapById(swapId);
 
       if (!swap) {
         throw new NotFoundException(`Swap with ID ${swapId} not found`);
       }
 
-      // Validate that the preimage matches the hashlock
-      const calculatedHash = ethers.keccak256(ethers.toUtf8Bytes(preimage));
-
-      if (calculatedHash !== swap.hashlock) {
-        throw new Error(
-          `Preimage does not match hashlock. Expected hash: ${swap.hashlock}, got: ${calculatedHash}`,
+      // Validate that the preimage matches the hashlock of each escrow
+      if (!this.hashlockService.verifyFor("evm", preimage, swap.hashlock)) {
+        throw new BadRequestException(
+          `Preimage does not match hashlock. Expected hash: ${swap.hashlock}, got: ${this.hashlockService.hashFor("evm", preimage)}`,
         );
       }
 
-      // Update the swap with the preimage and mark as completed
-      const updatedSwap = await this.dbService.updateSwap({
-        where: { id: swapId },
-        data: {
-          preimage,
-          status: SwapStatus.COMPLETED,
-          completedAt: Math.floor(Date.now() / 1000),
-        },
-      });
-
-      // If the swap is EVM_TO_APTOS and we don't have an Aptos HTLC yet, create one
       if (
-        swap.direction === SwapDirection.EVM_TO_APTOS &&
-        !swap.aptosHtlcAddress &&
-        swap.recipient
+        swap.aptosHashlock &&
+        !this.hashlockService.verifyFor("aptos", preimage, swap.aptosHashlock)
       ) {
-        try {
-          // Create HTLC on Aptos
-          const htlcResult = null;
-          // await this.aptosService.createEscrow(
-          //  {
-          //    swap.orderHash ?? "",
-          //   swap.hashlock ?? "",
-          //   swap.recipient,
-          //   swap.amount,
-          //   "0",
-          //   swap.timelock?.toString() ?? "0",
-          //   "0",
-          //   "0",
-          //   swap.sender,}
-          // );
-
-          if (htlcResult) {
-            // Update the swap with Aptos HTLC address
-            // await this.dbService.updateSwap({
-            //   where: { id: swapId },
-            //   data: {
-            //     aptosHtlcAddress: htlcResult.txHash,
-            //   },
-            // });
-            // this.logger.log(`Created Aptos HTLC with ID: ${htlcResult.txHash}`);
-          }
-        } catch (htlcError: unknown) {
-          const htlcErrorMessage =
-            htlcError instanceof Error ? htlcError.message : String(htlcError);
-          this.logger.error(`Failed to create Aptos HTLC: ${htlcErrorMessage}`);
-          // We don't throw here to allow the swap to continue
-        }
+        throw new BadRequestException(
+          `Preimage does not match Aptos hashlock. Expected hash: ${swap.aptosHashlock}, got: ${this.hashlockService.hashFor("aptos", preimage)}`,
+        );
+      }
+
+      if (!COMPLETABLE_STATUSES.includes(swap.status)) {
+        throw new BadRequestException(
+          `Swap ${swapId} cannot be completed from status ${swap.status}`,
+        );
+      }
+
+      // A reorg could still remove an escrow, so the secret is not used before both are final
+      const blocker = await this.secretVault.getReleaseBlocker(swap);
+      if (blocker) {
+        throw new ConflictException(
+          `Escrows of swap ${swapId} are not final: ${blocker}`,
+        );
+      }
+
+      if (swap.status !== SwapStatus.USER_WITHDREW_APTOS) {
+        swap = await this.withdrawAptosEscrow(swap, preimage);
       }
 
+      const updatedSwap = await this.withdrawEvmEscrow(swap, preimage);
       return {
         swapId: updatedSwap.id,
         status: updatedSwap.status.toLowerCase(),
         hashlock: updatedSwap.hashlock,
+        aptosHashlock: updatedSwap.aptosHashlock || undefined,
         timestamp: updatedSwap.timestamp,
-        preimage: updatedSwap.preimage || undefined,
+        preimage: await this.secretVault.getSettledSecret(updatedSwap, ACTOR),
         aptosHtlcAddress: updatedSwap.aptosHtlcAddress || undefined,
         evmHtlcAddress: updatedSwap.evmHtlcAddress || undefined,
+        ...this.toAmountDtos(updatedSwap),
       };
     } catch (error: unknown) {
-      if (error instanceof NotFoundException) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof ConflictException ||
+        error instanceof BadRequestException
+      ) {
         throw error;
       }
       const errorMessage =
@@ -554,7 +620,90 @@ export class SwapEvmToAptosService {
   }
 
   /**
-   * Cancel a swap and refund funds if timelock has expired
+   * Withdraw the Aptos escrow of a swap to its recipient, the relayer is its taker
+   */
+  private async withdrawAptosEscrow(
+    swap: Swap,
+    preimage: string,
+  ): Promise<Swap> {
+    const contractId = swap.aptosHtlcAddress as string;
+    const state = await this.aptosService.getEscrowState(contractId);
+    if (
+      state !== EscrowChainState.ACTIVE &&
+      state !== EscrowChainState.WITHDRAWN
+    ) {
+      throw new ConflictException(`Aptos escrow ${contractId} is ${state}`);
+    }
+
+    let txHash: string | undefined;
+    if (state === EscrowChainState.ACTIVE) {
+      ({ txHash } = await this.aptosService.withdrawEscrow({
+        contractId,
+        secret: preimage,
+        coinType: getSwapAptosImmutables(swap).tokenType,
+        isPublic: false,
+        swapId: swap.id,
+      }));
+      this.logger.log(
+        `Withdrew Aptos escrow ${contractId} of swap ${swap.id} (tx: ${txHash})`,
+      );
+    }
+
+    return this.swapStateMachine.transition(
+      swap.id,
+      SwapStatus.USER_WITHDREW_APTOS,
+      {
+        actor: ACTOR,
+        reason: "Aptos escrow withdrawn to the recipient",
+        txHash,
+      },
+      { preimage: this.secretVault.sealSwapSecret(swap.id, preimage) },
+    );
+  }
+
+  /**
+   * Withdraw the EVM source escrow of a swap with the secret and complete the swap,
+   * the relayer is its taker
+   */
+  private async withdrawEvmEscrow(swap: Swap, preimage: string): Promise<Swap> {
+    const escrowAddress = swap.evmHtlcAddress as string;
+    const state = await this.evmService.getEscrowState(
+      escrowAddress,
+      swap.evmChainId,
+    );
+    if (
+      state !== EscrowChainState.ACTIVE &&
+      state !== EscrowChainState.WITHDRAWN
+    ) {
+      throw new ConflictException(`EVM escrow ${escrowAddress} is ${state}`);
+    }
+
+    let txHash: string | undefined;
+    if (state === EscrowChainState.ACTIVE) {
+      ({ txHash } = await this.evmService.withdrawEscrow(
+        escrowAddress,
+        preimage,
+        getSwapEvmImmutables(swap),
+        false,
+        swap,
+      ));
+      this.logger.log(
+        `Withdrew EVM escrow ${escrowAddress} of swap ${swap.id} (tx: ${txHash})`,
+      );
+    }
+
+    return this.swapStateMachine.transition(
+      swap.id,
+      SwapStatus.COMPLETED,
+      { actor: ACTOR, reason: "EVM escrow withdrawn", txHash },
+      { completedAt: Math.floor(Date.now() / 1000) },
+    );
+  }
+
+  /**
+   * Cancel a swap once its timelock has expired.
+   * Its escrows are cancelled by the refund handler, the swap stays REFUNDING until every
+   * cancellation is confirmed on-chain and the handler retries the failed ones.
    * @param cancelSwapDto - DTO with swap ID
    * @returns Updated swap status
    */
@@ -571,67 +720,56 @@ export class SwapEvmToAptosService {
       }
 
       // Check if the swap can be cancelled
-      if (swap.status === SwapStatus.COMPLETED) {
-        throw new Error(`Cannot cancel a completed swap`);
+      if (!CANCELLABLE_STATUSES.includes(swap.status)) {
+        throw new BadRequestException(
+          `Swap ${swapId} cannot be cancelled from status ${swap.status}`,
+        );
       }
 
       // Check if the timelock has expired
       const currentTime = Math.floor(Date.now() / 1000);
       if (currentTime < swap.timelock) {
-        throw new Error(
+        throw new BadRequestException(
           `Cannot cancel swap before timelock expiration. ` +
-          `Timelock expires at ${new Date(swap.timelock * 1000).toISOString()}`,
+            `Timelock expires at ${new Date(swap.timelock * 1000).toISOString()}`,
         );
       }
 
-      // If there's an Aptos HTLC address, try to refund it
-      if (swap.aptosHtlcAddress) {
-        try {
-          this.logger.log(`Refunding Aptos HTLC for swap ${swapId}`);
-          const refundResult = await this.aptosService.refundAptosHtlc({
-            contractId: swap.aptosHtlcAddress,
-          });
-
-          this.logger.log(
-            `Aptos HTLC refund result: ${JSON.stringify(refundResult)}`,
-          );
-
-          // Even if the refund fails, we continue with updating the swap status
-          // as the timelock may have expired on-chain already
-        } catch (refundError: unknown) {
-          const refundErrorMessage =
-            refundError instanceof Error
-              ? refundError.message
-              : String(refundError);
-          this.logger.warn(
-            `Failed to refund Aptos HTLC, but continuing with swap cancellation: ${refundErrorMessage}`,
-          );
-        }
+      if (swap.status === SwapStatus.PENDING) {
+        // A swap without escrows has nothing to refund and just fails
+        await this.swapStateMachine.transition(
+          swapId,
+          SwapStatus.FAILED,
+          { actor: ACTOR, reason: "Swap cancelled after timelock" },
+          { cancelledAt: currentTime },
+        );
+      } else {
+        await this.refundHandler.scheduleRefund(
+          swap,
+          "Swap cancelled after timelock",
+        );
       }
 
-      // TODO: If there's an EVM HTLC address, refund it as well
-      // This would require implementing refund functionality in EvmService
-
-      // Update the swap status to refunded
-      const updatedSwap = await this.dbService.updateSwap({
+      const updatedSwap = await this.dbService.swap.findUniqueOrThrow({
         where: { id: swapId },
-        data: {
-          status: SwapStatus.REFUNDED,
-          cancelledAt: Math.floor(Date.now() / 1000),
-        },
       });
-
       return {
         swapId: updatedSwap.id,
         status: updatedSwap.status.toLowerCase(),
         hashlock: updatedSwap.hashlock,
+        aptosHashlock: updatedSwap.aptosHashlock || undefined,
         timestamp: updatedSwap.timestamp,
-        preimage: updatedSwap.preimage || undefined,
+        preimage: await this.secretVault.getSettledSecret(updatedSwap, ACTOR),
         evmHtlcAddress: updatedSwap.evmHtlcAddress || undefined,
         aptosHtlcAddress: updatedSwap.aptosHtlcAddress || undefined,
+        ...this.toAmountDtos(updatedSwap),
       };
     } catch (error: unknown) {
-      if (error instanceof NotFoundException) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof ConflictException ||
+        error instanceof BadRequestException
+      ) {
         throw error;
       }
       const errorMessage =
@@ -659,20 +797,24 @@ export class SwapEvmToAptosService {
       });
 
       return {
-        swaps: swaps.map((swap) => ({
-          swapId: swap.id,
-          status: swap.status.toLowerCase(),
-          sender: swap.sender || undefined,
-          recipient: swap.recipient || undefined,
-          fromTokenAddress: swap.fromTokenAddress || undefined,
-          toTokenAddress: swap.toTokenAddress || undefined,
-          amount: swap.amount,
-          hashlock: swap.hashlock, // Added required hashlock field
-          timestamp: swap.timestamp,
-          preimage: swap.preimage || undefined, // Added optional preimage field
-          evmHtlcAddress: swap.evmHtlcAddress || undefined, // Added optional evmHtlcAddress field
-          aptosHtlcAddress: swap.aptosHtlcAddress || undefined, // Added optional aptosHtlcAddress field
-        })),
+        swaps: await Promise.all(
+          swaps.map(async (swap) => ({
+            swapId: swap.id,
+            status: swap.status.toLowerCase(),
+            sender: swap.sender || undefined,
+            recipient: swap.recipient || undefined,
+            fromTokenAddress: swap.fromTokenAddress || undefined,
+            toTokenAddress: swap.toTokenAddress || undefined,
+            amount: swap.amount,
+            hashlock: swap.hashlock, // Added required hashlock field
+            aptosHashlock: swap.aptosHashlock || undefined,
+            timestamp: swap.timestamp,
+            preimage: await this.secretVault.getSettledSecret(swap, ACTOR),
+            evmHtlcAddress: swap.evmHtlcAddress || undefined, // Added optional evmHtlcAddress field
+            aptosHtlcAddress: swap.aptosHtlcAddress || undefined, // Added optional aptosHtlcAddress field
+            ...this.toAmountDtos(swap),
+          })),
+        ),
       };
     } catch (error: unknown) {
       const errorMessage =
@@ -681,4 +823,59 @@ export class SwapEvmToAptosService {
       throw new Error(`Failed to get swap history: ${errorMessage}`);
     }
   }
+
+  /**
+   * Plan the timelocks of a test escrow, its `timelock` is the private withdrawal window
+   * @throws BadRequestException when the policy breaks the escrow safety
+   */
+  private planTestTimelocks(
+    dto: EscrowEvmDto | EscrowAptosDto,
+    start: number,
+  ): TimelockPlan {
+    try {
+      return planTimelocks(
+        start,
+        resolveTimelockPolicy({
+          ...dto,
+          withdrawalPeriod: Number(dto.timelock),
+        }),
+      );
+    } catch (error: unknown) {
+      if (error instanceof TimelockPlanError) {
+        throw new BadRequestException(error.violations);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Describe the amounts of both legs of a swap
+   */
+  private toAmountDtos(
+    swap: Swap,
+  ): Pick<SwapStatusDto, "srcAmount" | "dstAmount"> {
+    return {
+      srcAmount: this.amountService.toAmountDto(swap.amount, swap.srcDecimals),
+      dstAmount: this.amountService.toAmountDto(
+        swap.dstAmount ?? swap.amount,
+        swap.dstDecimals,
+      ),
+    };
+  }
+
+  /**
+   * Resolve the EVM chain a swap asks for
+   * @param chainId - Requested chain, the default chain when missing
+   * @throws BadRequestException when the relayer does not serve the chain
+   */
+  private getEvmChainId(chainId?: number): number {
+    try {
+      return this.evmService.getChain(chainId).chainId;
+    } catch (error: unknown) {
+      if (error instanceof ChainRegistryError) {
+        throw new BadRequestException(error.message);
+      }
+      throw error;
+    }
+  }
 }
@@ -0,0 +1,65 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { SwapStatus } from "@prisma/client";
+
+export class SwapEventDto {
+  @ApiProperty({
+    description: "Status before the transition, empty for the creation event",
+    enum: SwapStatus,
+    required: false,
+  })
+  readonly fromStatus?: SwapStatus;
+
+  @ApiProperty({
+    description: "Status after the transition",
+    enum: SwapStatus,
+    example: SwapStatus.EVM_HTLC_CREATED,
+  })
+  readonly toStatus: SwapStatus;
+
+  @ApiProperty({
+    description: "Component that performed the transition",
+    example: "EvmHtlcMonitorService",
+  })
+  readonly actor: string;
+
+  @ApiProperty({
+    description: "Why the transition happened",
+    example: "EVM escrow deployed",
+    required: false,
+  })
+  readonly reason?: string;
+
+  @ApiProperty({
+    description: "Transaction that caused the transition",
+    example:
+      "0x1234567890123456789012345678901234567890123456789012345678901234",
+    required: false,
+  })
+  readonly txHash?: string;
+
+  @ApiProperty({
+    description: "When the transition was recorded",
+    example: "2025-08-05T09:00:00.000Z",
+  })
+  readonly timestamp: Date;
+}
+
+export class SwapTimelineDto {
+  @ApiProperty({
+    description: "Swap ID",
+    example: "3f1c7c0e-7c55-4f0e-9a0e-1b2f3c4d5e6f",
+  })
+  readonly swapId: string;
+
+  @ApiProperty({
+    description: "Current status of the swap",
+    enum: SwapStatus,
+  })
+  readonly status: SwapStatus;
+
+  @ApiProperty({
+    description: "Status transitions in chronological order",
+    type: [SwapEventDto],
+  })
+  readonly events: SwapEventDto[];
+}
@@ -0,0 +1,175 @@
+import { ConflictException, Injectable, Logger } from "@nestjs/common";
+import { Prisma, Swap, SwapStatus } from "@prisma/client";
+import { DbService } from "prisma/src/db.service";
+import { isLegalTransition } from "./swap-transitions";
+import { SwapTimelineDto } from "./dto/swap-event.dto";
+
+/**
+ * Context recorded with every status transition
+ */
+export interface SwapTransitionContext {
+  actor: string;
+  reason?: string;
+  txHash?: string;
+}
+
+/**
+ * Single entry point for changing the status of a swap.
+ * Rejects illegal transitions and records every accepted one as a SwapEvent.
+ */
+@Injectable()
+export class SwapStateMachineService {
+  private readonly logger = new Logger(SwapStateMachineService.name);
+
+  constructor(private readonly dbService: DbService) {}
+
+  /**
+   * Create a swap in PENDING status and record the creation event
+   * @param data - Swap fields
+   * @param context - Who created the swap and why
+   */
+  async createSwap(
+    data: Omit<Prisma.SwapCreateInput, "status" | "events">,
+    context: SwapTransitionContext,
+  ): Promise<Swap> {
+    return this.dbService.$transaction(async (tx) => {
+      const swap = await tx.swap.create({
+        data: { ...data, status: SwapStatus.PENDING },
+      });
+
+      await tx.swapEvent.create({
+        data: {
+          swapId: swap.id,
+          toStatus: SwapStatus.PENDING,
+          ...context,
+        },
+      });
+
+      return swap;
+    });
+  }
+
+  /**
+   * Move a swap to a new status
+   * @param swapId - Swap to update
+   * @param toStatus - Requested status
+   * @param context - Who performed the transition and why
+   * @param data - Additional swap fields written together with the status
+   * @returns The updated swap
+   * @throws ConflictException when the transition is not legal from the current status
+   */
+  async transition(
+    swapId: string,
+    toStatus: SwapStatus,
+    context: SwapTransitionContext,
+    data: Omit<Prisma.SwapUpdateManyMutationInput, "status"> = {},
+  ): Promise<Swap> {
+    const swap = await this.dbService.$transaction(async (tx) => {
+      const current = await tx.swap.findUniqueOrThrow({
+        where: { id: swapId },
+      });
+
+      if (!isLegalTransition(current.status, toStatus)) {
+        throw new ConflictException(
+          `Illegal transition for swap ${swapId}: ${current.status} -> ${toStatus}`,
+        );
+      }
+
+      // Guard against a concurrent transition from the same status
+      const { count } = await tx.swap.updateMany({
+        where: { id: swapId, status: current.status },
+        data: { ...data, status: toStatus },
+      });
+
+      if (count === 0) {
+        throw new ConflictException(
+          `Swap ${swapId} changed status concurrently, expected ${current.status}`,
+        );
+      }
+
+      await tx.swapEvent.create({
+        data: {
+          swapId,
+          fromStatus: current.status,
+          toStatus,
+          ...context,
+        },
+      });
+
+      return tx.swap.findUniqueOrThrow({ where: { id: swapId } });
+    });
+
+    this.logger.log(
+      `Swap ${swapId} -> ${toStatus} by ${context.actor}${context.reason ? ` (${context.reason})` : ""}`,
+    );
+    return swap;
+  }
+
+  /**
+   * Undo a transition whose on-chain cause disappeared, e.g. after a reorg.
+   * Bypasses the transition table, but only while the swap is still in the undone status.
+   * @param swapId - Swap to update
+   * @param fromStatus - Status set by the undone transition
+   * @param toStatus - Status to restore
+   * @param context - Who rolled back the swap and why
+   * @param data - Additional swap fields written together with the status
+   * @returns The updated swap
+   * @throws ConflictException when the swap already left `fromStatus`
+   */
+  async rollback(
+    swapId: string,
+    fromStatus: SwapStatus,
+    toStatus: SwapStatus,
+    context: SwapTransitionContext,
+    data: Omit<Prisma.SwapUpdateManyMutationInput, "status"> = {},
+  ): Promise<Swap> {
+    const swap = await this.dbService.$transaction(async (tx) => {
+      const { count } = await tx.swap.updateMany({
+        where: { id: swapId, status: fromStatus },
+        data: { ...data, status: toStatus },
+      });
+
+      if (count === 0) {
+        throw new ConflictException(
+          `Cannot roll back swap ${swapId}: it is no longer ${fromStatus}`,
+        );
+      }
+
+      await tx.swapEvent.create({
+        data: { swapId, fromStatus, toStatus, ...context },
+      });
+
+      return tx.swap.findUniqueOrThrow({ where: { id: swapId } });
+    });
+
+    this.logger.warn(
+      `Swap ${swapId} rolled back ${fromStatus} -> ${toStatus} by ${context.actor}${context.reason ? ` (${context.reason})` : ""}`,
+    );
+    return swap;
+  }
+
+  /**
+   * Get the recorded status transitions of a swap
+   * @param swapId - Swap ID
+   */
+  async getTimeline(swapId: string): Promise<SwapTimelineDto> {
+    const swap = await this.dbService.findSwapById(swapId);
+    const events = await this.dbService.swapEvent.findMany({
+      where: { swapId },
+      orderBy: { createdAt: "asc" },
+    });
+
+    return {
+      swapId: swap.id,
+      status: swap.status,
+      events: events.map((event) => ({
+        fromStatus: event.fromStatus ?? undefined,
+        toStatus: event.toStatus,
+        actor: event.actor,
+        reason: event.reason ?? undefined,
+        txHash: event.txHash ?? undefined,
+        timestamp: event.createdAt,
+      })),
+    };
+  }
+}
@@ -0,0 +1,22 @@
+import { Controller, Get, Param } from "@nestjs/common";
+import { ApiTags, ApiOperation, ApiResponse } from "@nestjs/swagger";
+import { SwapStateMachineService } from "./swap-state-machine.service";
+import { SwapTimelineDto } from "./dto/swap-event.dto";
+
+@ApiTags("swaps")
+@Controller("swaps")
+export class SwapStateController {
+  constructor(private readonly swapStateMachine: SwapStateMachineService) {}
+
+  @Get(":id/timeline")
+  @ApiOperation({ summary: "Get the status transition history of a swap" })
+  @ApiResponse({
+    status: 200,
+    description: "Returns the swap timeline",
+    type: SwapTimelineDto,
+  })
+  @ApiResponse({ status: 404, description: "Swap not found" })
+  getTimeline(@Param("id") swapId: string) {
+    return this.swapStateMachine.getTimeline(swapId);
+  }
+}
@@ -0,0 +1,10 @@
+import { Module } from "@nestjs/common";
+import { SwapStateMachineService } from "./swap-state-machine.service";
+import { SwapStateController } from "./swap-state.controller";
+
+@Module({
+  providers: [SwapStateMachineService],
+  controllers: [SwapStateController],
+  exports: [SwapStateMachineService],
+})
+export class SwapStateModule {}
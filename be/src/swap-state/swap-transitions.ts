@@ -0,0 +1,54 @@
+import { SwapStatus } from "@prisma/client";
+
+/**
+ * Legal transitions between swap statuses.
+ * COMPLETED and REFUNDED are terminal; FAILED swaps may still hold locked funds and can be refunded.
+ * REFUNDING swaps wait for their cancellation transactions and fall back to FAILED when they give up,
+ * or move to PREIMAGE_REVEALED when the counterparty withdrew an escrow with the secret meanwhile.
+ */
+export const SWAP_TRANSITIONS: Record<SwapStatus, readonly SwapStatus[]> = {
+  [SwapStatus.PENDING]: [
+    SwapStatus.EVM_HTLC_CREATED,
+    SwapStatus.APTOS_HTLC_CREATED,
+    SwapStatus.FAILED,
+  ],
+  [SwapStatus.EVM_HTLC_CREATED]: [
+    SwapStatus.APTOS_HTLC_CREATED,
+    SwapStatus.USER_WITHDREW_APTOS,
+    SwapStatus.PREIMAGE_REVEALED,
+    SwapStatus.FAILED,
+    SwapStatus.REFUNDING,
+    SwapStatus.REFUNDED,
+  ],
+  [SwapStatus.APTOS_HTLC_CREATED]: [
+    SwapStatus.EVM_HTLC_CREATED,
+    SwapStatus.USER_WITHDREW_APTOS,
+    SwapStatus.PREIMAGE_REVEALED,
+    SwapStatus.FAILED,
+    SwapStatus.REFUNDING,
+    SwapStatus.REFUNDED,
+  ],
+  [SwapStatus.USER_WITHDREW_APTOS]: [
+    SwapStatus.PREIMAGE_REVEALED,
+    SwapStatus.COMPLETED,
+    SwapStatus.FAILED,
+  ],
+  [SwapStatus.PREIMAGE_REVEALED]: [SwapStatus.COMPLETED, SwapStatus.FAILED],
+  [SwapStatus.COMPLETED]: [],
+  [SwapStatus.FAILED]: [SwapStatus.REFUNDING, SwapStatus.REFUNDED],
+  [SwapStatus.REFUNDING]: [
+    SwapStatus.REFUNDED,
+    SwapStatus.FAILED,
+    SwapStatus.PREIMAGE_REVEALED,
+  ],
+  [SwapStatus.REFUNDED]: [],
+};
+
+/**
+ * Check whether a swap may move from one status to another
+ * @param from - Current status
+ * @param to - Requested status
+ */
+export function isLegalTransition(from: SwapStatus, to: SwapStatus): boolean {
+  return SWAP_TRANSITIONS[from].includes(to);
+}
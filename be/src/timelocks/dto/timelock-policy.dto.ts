@@ -0,0 +1,70 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { IsInt, IsOptional, Min } from "class-validator";
+
+/**
+ * Overrides of the default timelock policy, in seconds.
+ * Combinations breaking the escrow safety are rejected when the timelocks are planned.
+ */
+export class TimelockPolicyDto {
+  @ApiProperty({
+    description: "Time for a source chain block to become final",
+    example: 180,
+    required: false,
+  })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  readonly srcFinality?: number;
+
+  @ApiProperty({
+    description: "Time for a destination chain block to become final",
+    example: 30,
+    required: false,
+  })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  readonly dstFinality?: number;
+
+  @ApiProperty({
+    description:
+      "Time the order can be filled before the source escrow is deployed",
+    example: 180,
+    required: false,
+  })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  readonly auctionDuration?: number;
+
+  @ApiProperty({
+    description: "Public withdrawal window of each escrow",
+    example: 600,
+    required: false,
+  })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  readonly publicWithdrawalPeriod?: number;
+
+  @ApiProperty({
+    description: "Private cancellation window of each escrow",
+    example: 600,
+    required: false,
+  })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  readonly cancellationPeriod?: number;
+
+  @ApiProperty({
+    description:
+      "Minimum time between the destination and the source cancellation",
+    example: 600,
+    required: false,
+  })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  readonly safetyMargin?: number;
+}
@@ -0,0 +1,122 @@
+import {
+  DEFAULT_TIMELOCK_POLICY,
+  TIMELOCK_PRESETS,
+  TimelockPlanError,
+  TimelockStage,
+  parseTimelockPlan,
+  planTimelocks,
+  toAptosDelays,
+  toEvmTimelocks,
+  validateTimelockPlan,
+} from "./timelocks";
+
+const START = 1_700_000_000;
+
+describe("timelocks", () => {
+  it("cancels the destination escrow a safety margin before the source one", () => {
+    const plan = planTimelocks(START);
+
+    expect(plan.dst.deployedBy).toBe(
+      START +
+        DEFAULT_TIMELOCK_POLICY.auctionDuration +
+        DEFAULT_TIMELOCK_POLICY.srcFinality,
+    );
+    expect(
+      plan.src.cancellation - plan.dst.cancellation,
+    ).toBeGreaterThanOrEqual(DEFAULT_TIMELOCK_POLICY.safetyMargin);
+  });
+
+  it("fills every stage of the EVM timelocks in order", () => {
+    const values = toEvmTimelocks(planTimelocks(START));
+
+    expect(values).toHaveLength(8);
+    expect(values.every((value) => value > BigInt(START))).toBe(true);
+    expect(values[TimelockStage.SrcWithdrawal]).toBeLessThan(
+      values[TimelockStage.SrcPublicWithdrawal],
+    );
+    expect(values[TimelockStage.SrcPublicWithdrawal]).toBeLessThan(
+      values[TimelockStage.SrcCancellation],
+    );
+    expect(values[TimelockStage.SrcCancellation]).toBeLessThan(
+      values[TimelockStage.SrcPublicCancellation],
+    );
+    expect(values[TimelockStage.DstCancellation]).toBeLessThan(
+      values[TimelockStage.SrcCancellation],
+    );
+  });
+
+  it("gives escrow_dst ordered delays from its creation", () => {
+    const { dst } = planTimelocks(START);
+
+    expect(toAptosDelays(dst)).toEqual({
+      dstWithdrawalDelay: DEFAULT_TIMELOCK_POLICY.dstFinality,
+      dstPublicWithdrawalDelay:
+        DEFAULT_TIMELOCK_POLICY.dstFinality +
+        DEFAULT_TIMELOCK_POLICY.withdrawalPeriod,
+      dstCancellationDelay:
+        DEFAULT_TIMELOCK_POLICY.dstFinality +
+        DEFAULT_TIMELOCK_POLICY.withdrawalPeriod +
+        DEFAULT_TIMELOCK_POLICY.publicWithdrawalPeriod,
+    });
+  });
+
+  it("keeps the planned windows of an escrow_dst created late", () => {
+    const { src } = planTimelocks(START);
+    const createdAt = src.withdrawal + 10;
+
+    expect(toAptosDelays(src, createdAt)).toEqual({
+      dstWithdrawalDelay: 0,
+      dstPublicWithdrawalDelay: src.publicWithdrawal - createdAt,
+      dstCancellationDelay: src.cancellation - createdAt,
+    });
+    expect(() => toAptosDelays(src, src.cancellation)).toThrow(
+      TimelockPlanError,
+    );
+  });
+
+  it("reads back stored plans", () => {
+    const plan = planTimelocks(START);
+
+    expect(parseTimelockPlan(JSON.parse(JSON.stringify(plan)))).toEqual(plan);
+    expect(() => parseTimelockPlan(null)).toThrow(TimelockPlanError);
+    expect(() =>
+      parseTimelockPlan({ ...plan, src: { ...plan.src, withdrawal: "0" } }),
+    ).toThrow(TimelockPlanError);
+    expect(() =>
+      parseTimelockPlan({
+        ...plan,
+        src: { ...plan.src, cancellation: plan.dst.cancellation },
+      }),
+    ).toThrow(/destination cancellation/);
+  });
+
+  it("rejects policies without a withdrawal window", () => {
+    expect(() =>
+      planTimelocks(START, {
+        ...DEFAULT_TIMELOCK_POLICY,
+        withdrawalPeriod: 0,
+        publicWithdrawalPeriod: 0,
+      }),
+    ).toThrow(TimelockPlanError);
+    expect(() =>
+      planTimelocks(START, { ...DEFAULT_TIMELOCK_POLICY, srcFinality: -1 }),
+    ).toThrow(TimelockPlanError);
+  });
+
+  it("rejects plans cancelling the source escrow first", () => {
+    const plan = planTimelocks(START);
+
+    expect(() =>
+      validateTimelockPlan({
+        ...plan,
+        src: { ...plan.src, cancellation: plan.dst.cancellation },
+      }),
+    ).toThrow(/destination cancellation/);
+  });
+
+  it("plans safe timelocks for every preset", () => {
+    for (const policy of Object.values(TIMELOCK_PRESETS)) {
+      expect(() => planTimelocks(START, policy)).not.toThrow();
+    }
+  });
+});
@@ -0,0 +1,328 @@
+/**
+ * Timelock planning shared by the EVM and Aptos escrows.
+ *
+ * A swap locks funds in a source escrow, then in a destination escrow once the source
+ * one is final. The maker reveals the secret after both are final, so the destination
+ * escrow has to become cancellable before the source one: otherwise the maker could
+ * cancel the source escrow while the resolver still needs the secret to withdraw it.
+ *
+ * All times are absolute unix timestamps in seconds, like the `uint256[8]` values
+ * EscrowSrc checks with `block.timestamp`. escrow_dst takes delays relative to its
+ * creation instead, see `toAptosDelays`.
+ */
+
+/**
+ * Stages of `TimelocksLib`, in the order of the `uint256[8]` timelock values
+ */
+export enum TimelockStage {
+  SrcFinality = 0,
+  SrcWithdrawal = 1,
+  SrcPublicWithdrawal = 2,
+  SrcCancellation = 3,
+  SrcPublicCancellation = 4,
+  DstFinality = 5,
+  DstCancellation = 6,
+  DstPublicCancellation = 7,
+}
+
+/**
+ * Durations, in seconds, a timelock plan is built from
+ */
+export type TimelockPolicy = {
+  // Time for a block of the source chain to become final
+  srcFinality: number;
+  // Time for a block of the destination chain to become final
+  dstFinality: number;
+  // Time the order can be filled after it is created, before the source escrow is deployed
+  auctionDuration: number;
+  // Private withdrawal window of each escrow, only its taker can withdraw
+  withdrawalPeriod: number;
+  // Public withdrawal window of each escrow, anyone holding the secret can withdraw
+  publicWithdrawalPeriod: number;
+  // Private cancellation window of each escrow, before anyone can cancel it
+  cancellationPeriod: number;
+  // Minimum time between the destination and the source cancellation
+  safetyMargin: number;
+};
+
+export const DEFAULT_TIMELOCK_POLICY: TimelockPolicy = {
+  srcFinality: 180,
+  dstFinality: 30,
+  auctionDuration: 180,
+  withdrawalPeriod: 3600,
+  publicWithdrawalPeriod: 600,
+  cancellationPeriod: 600,
+  safetyMargin: 600,
+};
+
+/**
+ * Named policies a quote can be requested with
+ */
+export enum TimelockPreset {
+  // Short windows for small swaps between fast chains
+  FAST = "fast",
+  STANDARD = "standard",
+  // Long windows leaving the resolver time to recover from outages
+  SAFE = "safe",
+}
+
+export const TIMELOCK_PRESETS: Record<TimelockPreset, TimelockPolicy> = {
+  [TimelockPreset.FAST]: {
+    ...DEFAULT_TIMELOCK_POLICY,
+    withdrawalPeriod: 900,
+    publicWithdrawalPeriod: 300,
+    cancellationPeriod: 300,
+    safetyMargin: 300,
+  },
+  [TimelockPreset.STANDARD]: DEFAULT_TIMELOCK_POLICY,
+  [TimelockPreset.SAFE]: {
+    ...DEFAULT_TIMELOCK_POLICY,
+    withdrawalPeriod: 7200,
+    publicWithdrawalPeriod: 1800,
+    cancellationPeriod: 1800,
+    safetyMargin: 1800,
+  },
+};
+
+/**
+ * Fill the durations missing from a partial policy with the defaults
+ */
+export function resolveTimelockPolicy(
+  overrides: Partial<TimelockPolicy>,
+): TimelockPolicy {
+  const policy = { ...DEFAULT_TIMELOCK_POLICY };
+  for (const key of Object.keys(policy) as (keyof TimelockPolicy)[]) {
+    const value = overrides[key];
+    if (value !== undefined) {
+      policy[key] = value;
+    }
+  }
+  return policy;
+}
+
+/**
+ * Absolute times at which the windows of one escrow open
+ */
+export type EscrowWindows = {
+  // Latest creation time the plan is safe for, creating the escrow earlier only moves its windows closer
+  deployedBy: number;
+  finality: number;
+  withdrawal: number;
+  publicWithdrawal: number;
+  cancellation: number;
+  publicCancellation: number;
+};
+
+const WINDOW_KEYS: (keyof EscrowWindows)[] = [
+  "deployedBy",
+  "finality",
+  "withdrawal",
+  "publicWithdrawal",
+  "cancellation",
+  "publicCancellation",
+];
+
+export type TimelockPlan = {
+  src: EscrowWindows;
+  dst: EscrowWindows;
+  safetyMargin: number;
+};
+
+/**
+ * Delays of `escrow_factory::create_dst_escrow`, relative to the escrow creation
+ */
+export type AptosTimelockDelays = {
+  dstWithdrawalDelay: number;
+  dstPublicWithdrawalDelay: number;
+  dstCancellationDelay: number;
+};
+
+/**
+ * Policy or plan that would break the escrow safety guarantees
+ */
+export class TimelockPlanError extends Error {
+  constructor(readonly violations: string[]) {
+    super(`Unsafe timelocks: ${violations.join("; ")}`);
+    this.name = TimelockPlanError.name;
+  }
+}
+
+/**
+ * Lay out the windows of an escrow created at `deployedBy`
+ */
+function planWindows(
+  deployedBy: number,
+  finality: number,
+  policy: TimelockPolicy,
+  cancellation?: number,
+): EscrowWindows {
+  const withdrawal = deployedBy + finality;
+  const publicWithdrawal = withdrawal + policy.withdrawalPeriod;
+  const cancellationStart = Math.max(
+    cancellation ?? 0,
+    publicWithdrawal + policy.publicWithdrawalPeriod,
+  );
+
+  return {
+    deployedBy,
+    finality: withdrawal,
+    withdrawal,
+    publicWithdrawal,
+    cancellation: cancellationStart,
+    publicCancellation: cancellationStart + policy.cancellationPeriod,
+  };
+}
+
+/**
+ * Plan the timelocks of both escrows of a swap
+ * @param start - Order creation time
+ * @param policy - Durations the plan is built from
+ * @throws TimelockPlanError when the policy cannot produce a safe plan
+ */
+export function planTimelocks(
+  start: number,
+  policy: TimelockPolicy = DEFAULT_TIMELOCK_POLICY,
+): TimelockPlan {
+  const invalid = Object.entries(policy)
+    .filter(([, value]) => !Number.isSafeInteger(value) || value < 0)
+    .map(([key]) => `${key} must be a non-negative integer`);
+  if (!Number.isSafeInteger(start) || start < 0) {
+    invalid.push("start must be a non-negative integer");
+  }
+  if (invalid.length > 0) {
+    throw new TimelockPlanError(invalid);
+  }
+
+  // The destination escrow is created once the source one is final
+  const srcDeployedBy = start + policy.auctionDuration;
+  const dst = planWindows(
+    srcDeployedBy + policy.srcFinality,
+    policy.dstFinality,
+    policy,
+  );
+
+  // The source escrow stays locked until the destination one is cancellable, plus the margin
+  const src = planWindows(
+    srcDeployedBy,
+    policy.srcFinality,
+    policy,
+    dst.cancellation + policy.safetyMargin,
+  );
+
+  const plan: TimelockPlan = { src, dst, safetyMargin: policy.safetyMargin };
+  validateTimelockPlan(plan);
+  return plan;
+}
+
+/**
+ * Check the invariants the escrow safety relies on
+ * @param plan - Plan to check
+ * @throws TimelockPlanError listing every violated invariant
+ */
+export function validateTimelockPlan(plan: TimelockPlan): void {
+  const violations: string[] = [];
+
+  for (const [name, windows] of Object.entries({
+    source: plan.src,
+    destination: plan.dst,
+  })) {
+    if (windows.finality < windows.deployedBy) {
+      violations.push(`${name} finality is before its deployment`);
+    }
+    if (windows.withdrawal < windows.finality) {
+      violations.push(`${name} withdrawal opens before finality`);
+    }
+    if (windows.publicWithdrawal < windows.withdrawal) {
+      violations.push(`${name} public withdrawal opens before withdrawal`);
+    }
+    if (windows.cancellation <= windows.withdrawal) {
+      violations.push(`${name} withdrawal window is empty`);
+    }
+    if (windows.cancellation < windows.publicWithdrawal) {
+      violations.push(`${name} cancellation opens before public withdrawal`);
+    }
+    if (windows.publicCancellation < windows.cancellation) {
+      violations.push(`${name} public cancellation opens before cancellation`);
+    }
+  }
+
+  if (plan.dst.deployedBy < plan.src.finality) {
+    violations.push("destination escrow is deployed before source finality");
+  }
+  if (plan.dst.cancellation + plan.safetyMargin > plan.src.cancellation) {
+    violations.push(
+      `destination cancellation must happen at least ${plan.safetyMargin}s before source cancellation`,
+    );
+  }
+
+  if (violations.length > 0) {
+    throw new TimelockPlanError(violations);
+  }
+}
+
+/**
+ * Timelock values of an EscrowSrc holding the source side of the plan
+ * @returns `uint256[8]` values indexed by `TimelockStage`
+ */
+export function toEvmTimelocks(plan: TimelockPlan): bigint[] {
+  const values: number[] = [];
+  values[TimelockStage.SrcFinality] = plan.src.finality;
+  values[TimelockStage.SrcWithdrawal] = plan.src.withdrawal;
+  values[TimelockStage.SrcPublicWithdrawal] = plan.src.publicWithdrawal;
+  values[TimelockStage.SrcCancellation] = plan.src.cancellation;
+  values[TimelockStage.SrcPublicCancellation] = plan.src.publicCancellation;
+  values[TimelockStage.DstFinality] = plan.dst.finality;
+  values[TimelockStage.DstCancellation] = plan.dst.cancellation;
+  values[TimelockStage.DstPublicCancellation] = plan.dst.publicCancellation;
+
+  return values.map((value) => BigInt(value));
+}
+
+/**
+ * Delays of an escrow_dst whose windows open at the planned times
+ * @param windows - Windows of the escrow held on Aptos
+ * @param createdAt - Creation time of the escrow, windows already open stay open
+ * @throws TimelockPlanError when the escrow would be cancellable from its creation
+ */
+export function toAptosDelays(
+  windows: EscrowWindows,
+  createdAt: number = windows.deployedBy,
+): AptosTimelockDelays {
+  if (windows.cancellation <= createdAt) {
+    throw new TimelockPlanError([
+      `escrow created at ${createdAt} would be cancellable from its creation`,
+    ]);
+  }
+
+  return {
+    dstWithdrawalDelay: Math.max(0, windows.withdrawal - createdAt),
+    dstPublicWithdrawalDelay: Math.max(0, windows.publicWithdrawal - createdAt),
+    dstCancellationDelay: windows.cancellation - createdAt,
+  };
+}
+
+/**
+ * Parse a stored timelock plan
+ * @param value - Content of a `timelockPlan` column
+ * @throws TimelockPlanError when the value is not a safe TimelockPlan
+ */
+export function parseTimelockPlan(value: unknown): TimelockPlan {
+  const plan = value as Partial<Record<keyof TimelockPlan, unknown>> | null;
+  const isTime = (time: unknown) => Number.isSafeInteger(time);
+  const isWindows = (windows: unknown) =>
+    typeof windows === "object" &&
+    windows !== null &&
+    WINDOW_KEYS.every((key) => isTime((windows as EscrowWindows)[key]));
+
+  if (
+    !plan ||
+    !isTime(plan.safetyMargin) ||
+    !isWindows(plan.src) ||
+    !isWindows(plan.dst)
+  ) {
+    throw new TimelockPlanError(["stored timelock plan is malformed"]);
+  }
+
+  validateTimelockPlan(plan as TimelockPlan);
+  return plan as TimelockPlan;
+}
@@ -0,0 +1,234 @@
+import { ApiProperty, PartialType, PickType } from "@nestjs/swagger";
+import { TokenStandard } from "@prisma/client";
+import {
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsNumberString,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Max,
+  Min,
+} from "class-validator";
+import { TOKEN_CHAINS, TokenChain } from "../tokens";
+
+export class TokenDto {
+  @ApiProperty({
+    description: "Token ID",
+    example: "3f1c7c0e-7c55-4f0e-9a0e-1b2f3c4d5e6f",
+  })
+  readonly id: string;
+
+  @ApiProperty({ description: "Chain of the token", enum: TOKEN_CHAINS })
+  readonly chain: TokenChain;
+
+  @ApiProperty({
+    description: "EVM chain ID, empty on Aptos",
+    example: 11155111,
+    required: false,
+  })
+  readonly chainId?: number;
+
+  @ApiProperty({ description: "Token standard", enum: TokenStandard })
+  readonly standard: TokenStandard;
+
+  @ApiProperty({
+    description:
+      "ERC-20 address on EVM, coin type or fungible asset metadata address on Aptos",
+    example: "0x1::aptos_coin::AptosCoin",
+  })
+  readonly address: string;
+
+  @ApiProperty({ description: "Token symbol", example: "APT" })
+  readonly symbol: string;
+
+  @ApiProperty({ description: "Token name", example: "Aptos Coin" })
+  readonly name: string;
+
+  @ApiProperty({ description: "Decimals of the base unit", example: 8 })
+  readonly decimals: number;
+
+  @ApiProperty({
+    description: "Logo URL",
+    example: "https://example.com/apt.svg",
+    required: false,
+  })
+  readonly logoUrl?: string;
+
+  @ApiProperty({ description: "Whether swaps may use the token" })
+  readonly enabled: boolean;
+}
+
+export class TokenPairDto {
+  @ApiProperty({
+    description: "Pair ID",
+    example: "3f1c7c0e-7c55-4f0e-9a0e-1b2f3c4d5e6f",
+  })
+  readonly id: string;
+
+  @ApiProperty({ description: "Token swapped from", type: TokenDto })
+  readonly srcToken: TokenDto;
+
+  @ApiProperty({ description: "Token swapped to", type: TokenDto })
+  readonly dstToken: TokenDto;
+
+  @ApiProperty({
+    description: "Minimum amount in base units of the source token",
+    example: "1000000",
+    required: false,
+  })
+  readonly minAmount?: string;
+
+  @ApiProperty({
+    description: "Maximum amount in base units of the source token",
+    example: "1000000000000000000000",
+    required: false,
+  })
+  readonly maxAmount?: string;
+
+  @ApiProperty({ description: "Whether swaps may use the pair" })
+  readonly enabled: boolean;
+}
+
+export class TokenQueryDto {
+  @ApiProperty({
+    description: "Only the tokens of this chain",
+    enum: TOKEN_CHAINS,
+    required: false,
+  })
+  @IsIn(TOKEN_CHAINS)
+  @IsOptional()
+  readonly chain?: TokenChain;
+
+  @ApiProperty({
+    description: "Only the tokens of this EVM chain",
+    example: 11155111,
+    required: false,
+  })
+  @IsInt()
+  @IsOptional()
+  readonly chainId?: number;
+}
+
+export class CreateTokenDto {
+  @ApiProperty({ description: "Chain of the token", enum: TOKEN_CHAINS })
+  @IsIn(TOKEN_CHAINS)
+  readonly chain: TokenChain;
+
+  @ApiProperty({
+    description: "EVM chain ID, required on EVM and omitted on Aptos",
+    example: 11155111,
+    required: false,
+  })
+  @IsInt()
+  @IsOptional()
+  readonly chainId?: number;
+
+  @ApiProperty({ description: "Token standard", enum: TokenStandard })
+  @IsIn(Object.values(TokenStandard))
+  readonly standard: TokenStandard;
+
+  @ApiProperty({
+    description:
+      "ERC-20 address on EVM, coin type or fungible asset metadata address on Aptos",
+    example: "0x1::aptos_coin::AptosCoin",
+  })
+  @IsString()
+  readonly address: string;
+
+  @ApiProperty({ description: "Token symbol", example: "APT" })
+  @IsString()
+  readonly symbol: string;
+
+  @ApiProperty({ description: "Token name", example: "Aptos Coin" })
+  @IsString()
+  readonly name: string;
+
+  @ApiProperty({ description: "Decimals of the base unit", example: 8 })
+  @IsInt()
+  @Min(0)
+  @Max(36)
+  readonly decimals: number;
+
+  @ApiProperty({
+    description: "Logo URL",
+    example: "https://example.com/apt.svg",
+    required: false,
+  })
+  @IsUrl()
+  @IsOptional()
+  readonly logoUrl?: string;
+
+  @ApiProperty({
+    description: "Whether swaps may use the token",
+    default: true,
+    required: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  readonly enabled?: boolean;
+}
+
+/**
+ * The chain and address of a token identify it and cannot change
+ */
+export class UpdateTokenDto extends PartialType(
+  PickType(CreateTokenDto, [
+    "symbol",
+    "name",
+    "decimals",
+    "logoUrl",
+    "enabled",
+  ] as const),
+) {}
+
+export class CreateTokenPairDto {
+  @ApiProperty({
+    description: "ID of the token swapped from",
+    example: "3f1c7c0e-7c55-4f0e-9a0e-1b2f3c4d5e6f",
+  })
+  @IsString()
+  readonly srcTokenId: string;
+
+  @ApiProperty({
+    description: "ID of the token swapped to, on the other chain",
+    example: "8a2d4e6f-1b3c-4d5e-8f9a-0b1c2d3e4f5a",
+  })
+  @IsString()
+  readonly dstTokenId: string;
+
+  @ApiProperty({
+    description: "Minimum amount in base units of the source token",
+    example: "1000000",
+    required: false,
+  })
+  @IsNumberString({ no_symbols: true })
+  @IsOptional()
+  readonly minAmount?: string;
+
+  @ApiProperty({
+    description: "Maximum amount in base units of the source token",
+    example: "1000000000000000000000",
+    required: false,
+  })
+  @IsNumberString({ no_symbols: true })
+  @IsOptional()
+  readonly maxAmount?: string;
+
+  @ApiProperty({
+    description: "Whether swaps may use the pair",
+    default: true,
+    required: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  readonly enabled?: boolean;
+}
+
+/**
+ * The tokens of a pair identify it and cannot change
+ */
+export class UpdateTokenPairDto extends PartialType(
+  PickType(CreateTokenPairDto, ["minAmount", "maxAmount", "enabled"] as const),
+) {}
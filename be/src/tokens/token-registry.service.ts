@@ -0,0 +1,387 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from "@nestjs/common";
+import { Prisma, Token, TokenPair, TokenStandard } from "@prisma/client";
+import { DbService } from "prisma/src/db.service";
+import { ChainRegistryService } from "../chains/chain-registry.service";
+import {
+  CreateTokenDto,
+  CreateTokenPairDto,
+  TokenDto,
+  TokenPairDto,
+  TokenQueryDto,
+  UpdateTokenDto,
+  UpdateTokenPairDto,
+} from "./dto/token.dto";
+import {
+  TokenChain,
+  TokenRegistryError,
+  checkPairAmount,
+  normalizeRequestedAddress,
+  normalizeTokenAddress,
+  validatePairBounds,
+} from "./tokens";
+
+export type TokenPairWithTokens = TokenPair & {
+  srcToken: Token;
+  dstToken: Token;
+};
+
+/**
+ * Token of a swap request
+ */
+export interface RequestedToken {
+  chain: TokenChain;
+  // EVM chain ID, ignored on Aptos
+  chainId?: number;
+  address: string;
+}
+
+const WITH_TOKENS = { srcToken: true, dstToken: true } as const;
+
+/**
+ * Catalogue of the tokens and pairs the relayer swaps.
+ *
+ * Admins maintain it through the admin endpoints, clients read the enabled entries
+ * and the swap services reject the requests no enabled pair covers.
+ */
+@Injectable()
+export class TokenRegistryService {
+  private readonly logger = new Logger(TokenRegistryService.name);
+
+  constructor(
+    private readonly dbService: DbService,
+    private readonly chainRegistryService: ChainRegistryService,
+  ) {}
+
+  /**
+   * Get the tokens, ordered by symbol
+   * @param query - Chain filters
+   * @param includeDisabled - Also return the disabled tokens
+   */
+  async getTokens(
+    query: TokenQueryDto = {},
+    includeDisabled = false,
+  ): Promise<TokenDto[]> {
+    const tokens = await this.dbService.token.findMany({
+      where: {
+        chain: query.chain,
+        chainId: query.chainId,
+        enabled: includeDisabled ? undefined : true,
+      },
+      orderBy: [{ symbol: "asc" }, { chainId: "asc" }],
+    });
+    return tokens.map((token) => this.toTokenDto(token));
+  }
+
+  /**
+   * Get the pairs, a pair is enabled only while both of its tokens are
+   * @param includeDisabled - Also return the disabled pairs
+   */
+  async getPairs(includeDisabled = false): Promise<TokenPairDto[]> {
+    const pairs = await this.dbService.tokenPair.findMany({
+      where: includeDisabled
+        ? undefined
+        : {
+            enabled: true,
+            srcToken: { enabled: true },
+            dstToken: { enabled: true },
+          },
+      include: WITH_TOKENS,
+      orderBy: { createdAt: "asc" },
+    });
+    return pairs.map((pair) => this.toTokenPairDto(pair));
+  }
+
+  async createToken(dto: CreateTokenDto): Promise<TokenDto> {
+    const chainId = this.checkTokenChain(dto.chain, dto.chainId);
+    const address = this.run(() =>
+      normalizeTokenAddress(dto.chain, dto.standard, dto.address),
+    );
+
+    // The unique index does not cover Aptos tokens, their chain ID is null
+    const existing = await this.dbService.token.findFirst({
+      where: { chain: dto.chain, chainId, address },
+    });
+    if (existing) {
+      throw new ConflictException(
+        `Token ${address} is already registered as ${existing.id}`,
+      );
+    }
+
+    const token = await this.dbService.token.create({
+      data: {
+        chain: dto.chain,
+        chainId,
+        standard: dto.standard,
+        address,
+        symbol: dto.symbol,
+        name: dto.name,
+        decimals: dto.decimals,
+        logoUrl: dto.logoUrl,
+        enabled: dto.enabled,
+      },
+    });
+    this.logger.log(
+      `Registered token ${token.symbol} ${token.address} on ${token.chain}`,
+    );
+    return this.toTokenDto(token);
+  }
+
+  async updateToken(id: string, dto: UpdateTokenDto): Promise<TokenDto> {
+    await this.findToken(id);
+    const token = await this.dbService.token.update({
+      where: { id },
+      data: dto,
+    });
+    return this.toTokenDto(token);
+  }
+
+  /**
+   * Delete a token and its pairs.
+   * Swaps keep their token addresses, prefer disabling a token that was swapped.
+   */
+  async deleteToken(id: string): Promise<void> {
+    await this.findToken(id);
+    await this.dbService.token.delete({ where: { id } });
+    this.logger.log(`Deleted token ${id}`);
+  }
+
+  async createPair(dto: CreateTokenPairDto): Promise<TokenPairDto> {
+    const srcToken = await this.findToken(dto.srcTokenId);
+    const dstToken = await this.findToken(dto.dstTokenId);
+    if (srcToken.chain === dstToken.chain) {
+      throw new BadRequestException(
+        "A pair must route a token to a token of the other chain",
+      );
+    }
+
+    const bounds = {
+      minAmount: dto.minAmount ?? null,
+      maxAmount: dto.maxAmount ?? null,
+    };
+    this.run(() => validatePairBounds(bounds));
+
+    try {
+      const pair = await this.dbService.tokenPair.create({
+        data: {
+          srcTokenId: srcToken.id,
+          dstTokenId: dstToken.id,
+          ...bounds,
+          enabled: dto.enabled,
+        },
+        include: WITH_TOKENS,
+      });
+      this.logger.log(
+        `Registered pair ${srcToken.symbol} (${srcToken.chain}) -> ${dstToken.symbol} (${dstToken.chain})`,
+      );
+      return this.toTokenPairDto(pair);
+    } catch (error: unknown) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2002"
+      ) {
+        throw new ConflictException(
+          `Pair ${srcToken.id} -> ${dstToken.id} is already registered`,
+        );
+      }
+      throw error;
+    }
+  }
+
+  async updatePair(id: string, dto: UpdateTokenPairDto): Promise<TokenPairDto> {
+    const pair = await this.findPair(id);
+    const bounds = {
+      minAmount: dto.minAmount === undefined ? pair.minAmount : dto.minAmount,
+      maxAmount: dto.maxAmount === undefined ? pair.maxAmount : dto.maxAmount,
+    };
+    this.run(() => validatePairBounds(bounds));
+
+    const updated = await this.dbService.tokenPair.update({
+      where: { id },
+      data: { ...bounds, enabled: dto.enabled },
+      include: WITH_TOKENS,
+    });
+    return this.toTokenPairDto(updated);
+  }
+
+  async deletePair(id: string): Promise<void> {
+    await this.findPair(id);
+    await this.dbService.tokenPair.delete({ where: { id } });
+    this.logger.log(`Deleted pair ${id}`);
+  }
+
+  /**
+   * Find the enabled pair a swap request uses
+   * @param src - Token swapped from
+   * @param dst - Token swapped to
+   * @param amount - Amount in base units of the source token
+   * @returns The pair with its tokens, their addresses are the canonical ones to store
+   * @throws BadRequestException when no enabled pair covers the request, the amount is out of bounds
+   * or the Aptos token is not a coin
+   */
+  async requireSupportedPair(
+    src: RequestedToken,
+    dst: RequestedToken,
+    amount: string,
+  ): Promise<TokenPairWithTokens> {
+    const pair = await this.dbService.tokenPair.findFirst({
+      where: {
+        enabled: true,
+        srcToken: { ...this.tokenWhere(src), enabled: true },
+        dstToken: { ...this.tokenWhere(dst), enabled: true },
+      },
+      include: WITH_TOKENS,
+    });
+    if (!pair) {
+      throw new BadRequestException(
+        `Swapping ${src.address} on ${src.chain} to ${dst.address} on ${dst.chain} is not supported`,
+      );
+    }
+
+    this.checkSwappable(pair, amount);
+    return pair;
+  }
+
+  /**
+   * Find an enabled pair by its ID
+   * @param amount - Amount in base units of the source token
+   * @throws BadRequestException when the pair is not enabled, the amount is out of bounds
+   * or the Aptos token is not a coin
+   */
+  async requirePair(id: string, amount: string): Promise<TokenPairWithTokens> {
+    const pair = await this.dbService.tokenPair.findFirst({
+      where: {
+        id,
+        enabled: true,
+        srcToken: { enabled: true },
+        dstToken: { enabled: true },
+      },
+      include: WITH_TOKENS,
+    });
+    if (!pair) {
+      throw new BadRequestException(`Pair ${id} is not supported`);
+    }
+
+    this.checkSwappable(pair, amount);
+    return pair;
+  }
+
+  /**
+   * Find an enabled token by its address
+   * @throws BadRequestException when no enabled token has the address
+   */
+  async requireToken(token: RequestedToken): Promise<Token> {
+    const found = await this.dbService.token.findFirst({
+      where: { ...this.tokenWhere(token), enabled: true },
+    });
+    if (!found) {
+      throw new BadRequestException(
+        `Token ${token.address} on ${token.chain} is not registered`,
+      );
+    }
+    return found;
+  }
+
+  private checkSwappable(pair: TokenPairWithTokens, amount: string): void {
+    // The Aptos escrow modules hold coins, fungible assets are listed but not swapped yet
+    for (const token of [pair.srcToken, pair.dstToken]) {
+      if (token.chain === "aptos" && token.standard !== TokenStandard.COIN) {
+        throw new BadRequestException(
+          `${token.symbol} is a ${token.standard} token, Aptos escrows hold coins only`,
+        );
+      }
+    }
+
+    this.run(() => checkPairAmount(amount, pair));
+  }
+
+  private tokenWhere(token: RequestedToken): Prisma.TokenWhereInput {
+    return {
+      chain: token.chain,
+      chainId: token.chain === "evm" ? token.chainId : null,
+      address: normalizeRequestedAddress(token.chain, token.address),
+    };
+  }
+
+  /**
+   * Check the chain ID of a new token
+   * @returns The chain ID to store, null on Aptos
+   */
+  private checkTokenChain(chain: TokenChain, chainId?: number): number | null {
+    if (chain === "aptos") {
+      if (chainId !== undefined) {
+        throw new BadRequestException("Aptos tokens have no chain ID");
+      }
+      return null;
+    }
+
+    if (chainId === undefined) {
+      throw new BadRequestException("EVM tokens need a chain ID");
+    }
+    if (!this.chainRegistryService.isSupported(chainId)) {
+      throw new BadRequestException(`EVM chain ${chainId} is not configured`);
+    }
+    return chainId;
+  }
+
+  private async findToken(id: string): Promise<Token> {
+    const token = await this.dbService.token.findUnique({ where: { id } });
+    if (!token) {
+      throw new NotFoundException(`Token ${id} not found`);
+    }
+    return token;
+  }
+
+  private async findPair(id: string): Promise<TokenPair> {
+    const pair = await this.dbService.tokenPair.findUnique({ where: { id } });
+    if (!pair) {
+      throw new NotFoundException(`Pair ${id} not found`);
+    }
+    return pair;
+  }
+
+  /**
+   * Run a registry check, its TokenRegistryError is a bad request
+   */
+  private run<T>(check: () => T): T {
+    try {
+      return check();
+    } catch (error: unknown) {
+      if (error instanceof TokenRegistryError) {
+        throw new BadRequestException(error.message);
+      }
+      throw error;
+    }
+  }
+
+  private toTokenDto(token: Token): TokenDto {
+    return {
+      id: token.id,
+      chain: token.chain as TokenChain,
+      chainId: token.chainId ?? undefined,
+      standard: token.standard,
+      address: token.address,
+      symbol: token.symbol,
+      name: token.name,
+      decimals: token.decimals,
+      logoUrl: token.logoUrl ?? undefined,
+      enabled: token.enabled,
+    };
+  }
+
+  private toTokenPairDto(pair: TokenPairWithTokens): TokenPairDto {
+    return {
+      id: pair.id,
+      srcToken: this.toTokenDto(pair.srcToken),
+      dstToken: this.toTokenDto(pair.dstToken),
+      minAmount: pair.minAmount ?? undefined,
+      maxAmount: pair.maxAmount ?? undefined,
+      enabled: pair.enabled,
+    };
+  }
+}
@@ -0,0 +1,120 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from "@nestjs/common";
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from "@nestjs/swagger";
+import { AdminGuard } from "../shared/guards/admin.guard";
+import { TokenRegistryService } from "./token-registry.service";
+import {
+  CreateTokenDto,
+  CreateTokenPairDto,
+  TokenDto,
+  TokenPairDto,
+  TokenQueryDto,
+  UpdateTokenDto,
+  UpdateTokenPairDto,
+} from "./dto/token.dto";
+
+@ApiTags("admin")
+@ApiBearerAuth("bearerAuth")
+@ApiResponse({ status: 401, description: "Missing or invalid admin token" })
+@UseGuards(AdminGuard)
+@Controller("admin")
+export class TokensAdminController {
+  constructor(private readonly tokenRegistryService: TokenRegistryService) {}
+
+  @Get("tokens")
+  @ApiOperation({ summary: "Get every token, including the disabled ones" })
+  @ApiResponse({
+    status: 200,
+    description: "Returns the tokens",
+    type: [TokenDto],
+  })
+  getTokens(@Query() query: TokenQueryDto) {
+    return this.tokenRegistryService.getTokens(query, true);
+  }
+
+  @Post("tokens")
+  @ApiOperation({ summary: "Register a token" })
+  @ApiResponse({ status: 201, description: "Token registered", type: TokenDto })
+  @ApiResponse({ status: 400, description: "Invalid token" })
+  @ApiResponse({ status: 409, description: "Token already registered" })
+  createToken(@Body() createTokenDto: CreateTokenDto) {
+    return this.tokenRegistryService.createToken(createTokenDto);
+  }
+
+  @Patch("tokens/:id")
+  @ApiOperation({ summary: "Update a token" })
+  @ApiResponse({ status: 200, description: "Token updated", type: TokenDto })
+  @ApiResponse({ status: 404, description: "Token not found" })
+  updateToken(@Param("id") id: string, @Body() updateTokenDto: UpdateTokenDto) {
+    return this.tokenRegistryService.updateToken(id, updateTokenDto);
+  }
+
+  @Delete("tokens/:id")
+  @HttpCode(204)
+  @ApiOperation({ summary: "Delete a token and its pairs" })
+  @ApiResponse({ status: 204, description: "Token deleted" })
+  @ApiResponse({ status: 404, description: "Token not found" })
+  deleteToken(@Param("id") id: string) {
+    return this.tokenRegistryService.deleteToken(id);
+  }
+
+  @Get("pairs")
+  @ApiOperation({ summary: "Get every pair, including the disabled ones" })
+  @ApiResponse({
+    status: 200,
+    description: "Returns the pairs",
+    type: [TokenPairDto],
+  })
+  getPairs() {
+    return this.tokenRegistryService.getPairs(true);
+  }
+
+  @Post("pairs")
+  @ApiOperation({ summary: "Register a pair" })
+  @ApiResponse({
+    status: 201,
+    description: "Pair registered",
+    type: TokenPairDto,
+  })
+  @ApiResponse({ status: 400, description: "Invalid pair" })
+  @ApiResponse({ status: 404, description: "Token not found" })
+  @ApiResponse({ status: 409, description: "Pair already registered" })
+  createPair(@Body() createTokenPairDto: CreateTokenPairDto) {
+    return this.tokenRegistryService.createPair(createTokenPairDto);
+  }
+
+  @Patch("pairs/:id")
+  @ApiOperation({ summary: "Update the bounds or the status of a pair" })
+  @ApiResponse({ status: 200, description: "Pair updated", type: TokenPairDto })
+  @ApiResponse({ status: 404, description: "Pair not found" })
+  updatePair(
+    @Param("id") id: string,
+    @Body() updateTokenPairDto: UpdateTokenPairDto,
+  ) {
+    return this.tokenRegistryService.updatePair(id, updateTokenPairDto);
+  }
+
+  @Delete("pairs/:id")
+  @HttpCode(204)
+  @ApiOperation({ summary: "Delete a pair" })
+  @ApiResponse({ status: 204, description: "Pair deleted" })
+  @ApiResponse({ status: 404, description: "Pair not found" })
+  deletePair(@Param("id") id: string) {
+    return this.tokenRegistryService.deletePair(id);
+  }
+}
@@ -0,0 +1,32 @@
+import { Controller, Get, Query } from "@nestjs/common";
+import { ApiTags, ApiOperation, ApiResponse } from "@nestjs/swagger";
+import { TokenRegistryService } from "./token-registry.service";
+import { TokenDto, TokenPairDto, TokenQueryDto } from "./dto/token.dto";
+
+@ApiTags("tokens")
+@Controller()
+export class TokensController {
+  constructor(private readonly tokenRegistryService: TokenRegistryService) {}
+
+  @Get("tokens")
+  @ApiOperation({ summary: "Get the tokens swaps may use" })
+  @ApiResponse({
+    status: 200,
+    description: "Returns the enabled tokens",
+    type: [TokenDto],
+  })
+  getTokens(@Query() query: TokenQueryDto) {
+    return this.tokenRegistryService.getTokens(query);
+  }
+
+  @Get("pairs")
+  @ApiOperation({ summary: "Get the token pairs swaps may use" })
+  @ApiResponse({
+    status: 200,
+    description: "Returns the enabled pairs",
+    type: [TokenPairDto],
+  })
+  getPairs() {
+    return this.tokenRegistryService.getPairs();
+  }
+}
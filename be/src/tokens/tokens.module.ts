@@ -0,0 +1,14 @@
+import { Module } from "@nestjs/common";
+import { ChainRegistryModule } from "../chains/chain-registry.module";
+import { AdminGuard } from "../shared/guards/admin.guard";
+import { TokenRegistryService } from "./token-registry.service";
+import { TokensController } from "./tokens.controller";
+import { TokensAdminController } from "./tokens-admin.controller";
+
+@Module({
+  imports: [ChainRegistryModule],
+  providers: [TokenRegistryService, AdminGuard],
+  controllers: [TokensController, TokensAdminController],
+  exports: [TokenRegistryService],
+})
+export class TokensModule {}
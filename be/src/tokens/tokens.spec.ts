@@ -0,0 +1,92 @@
+import { TokenStandard } from "@prisma/client";
+import {
+  TokenRegistryError,
+  checkPairAmount,
+  normalizeRequestedAddress,
+  normalizeTokenAddress,
+  validatePairBounds,
+} from "./tokens";
+
+describe("tokens", () => {
+  it("normalizes token addresses per standard", () => {
+    expect(
+      normalizeTokenAddress(
+        "evm",
+        TokenStandard.ERC20,
+        "0x5fbdb2315678afecb367f032d93f642f64180aa3",
+      ),
+    ).toBe("0x5FbDB2315678afecb367f032d93F642f64180aa3");
+    expect(
+      normalizeTokenAddress(
+        "aptos",
+        TokenStandard.COIN,
+        " 0x0001::aptos_coin::AptosCoin ",
+      ),
+    ).toBe("0x1::aptos_coin::AptosCoin");
+    expect(
+      normalizeTokenAddress("aptos", TokenStandard.FUNGIBLE_ASSET, "0x00A"),
+    ).toBe("0xa");
+  });
+
+  it("rejects addresses that do not fit the chain or the standard", () => {
+    expect(() =>
+      normalizeTokenAddress("evm", TokenStandard.COIN, "0x1::a::B"),
+    ).toThrow(TokenRegistryError);
+    expect(() =>
+      normalizeTokenAddress("evm", TokenStandard.ERC20, "0x1234"),
+    ).toThrow("0x1234 is not an EVM address");
+    expect(() =>
+      normalizeTokenAddress("aptos", TokenStandard.COIN, "0x1"),
+    ).toThrow("0x1 is not an Aptos coin type");
+    expect(() =>
+      normalizeTokenAddress(
+        "aptos",
+        TokenStandard.FUNGIBLE_ASSET,
+        "0x1::aptos_coin::AptosCoin",
+      ),
+    ).toThrow(TokenRegistryError);
+  });
+
+  it("matches requested addresses with the registered ones", () => {
+    expect(
+      normalizeRequestedAddress(
+        "evm",
+        "0x5FBDB2315678AFECB367F032D93F642F64180AA3",
+      ),
+    ).toBe("0x5FbDB2315678afecb367f032d93F642f64180aa3");
+    expect(normalizeRequestedAddress("evm", "USDC")).toBe("USDC");
+    expect(
+      normalizeRequestedAddress("aptos", "0x01::aptos_coin::AptosCoin"),
+    ).toBe("0x1::aptos_coin::AptosCoin");
+  });
+
+  it("enforces the amount bounds of a pair", () => {
+    const bounds = { minAmount: "100", maxAmount: "1000" };
+
+    expect(() => checkPairAmount("100", bounds)).not.toThrow();
+    expect(() => checkPairAmount("1000", bounds)).not.toThrow();
+    expect(() => checkPairAmount("99", bounds)).toThrow(
+      "Amount 99 is below the pair minimum 100",
+    );
+    expect(() => checkPairAmount("1001", bounds)).toThrow(
+      "Amount 1001 is above the pair maximum 1000",
+    );
+    expect(() =>
+      checkPairAmount("5", { minAmount: null, maxAmount: null }),
+    ).not.toThrow();
+    expect(() => checkPairAmount("0", bounds)).toThrow(TokenRegistryError);
+    expect(() => checkPairAmount("1.5", bounds)).toThrow(TokenRegistryError);
+  });
+
+  it("validates the bounds of a pair", () => {
+    expect(() =>
+      validatePairBounds({ minAmount: "1", maxAmount: null }),
+    ).not.toThrow();
+    expect(() =>
+      validatePairBounds({ minAmount: "10", maxAmount: "1" }),
+    ).toThrow("Pair minimum 10 is above its maximum 1");
+    expect(() =>
+      validatePairBounds({ minAmount: "-1", maxAmount: null }),
+    ).toThrow(TokenRegistryError);
+  });
+});
@@ -0,0 +1,146 @@
+import { TokenStandard } from "@prisma/client";
+import { ethers } from "ethers";
+import { normalizeTypeName } from "../aptos/contract-id";
+
+/**
+ * Tokens and swap pairs the relayer supports.
+ *
+ * A token is identified by its chain, its EVM chain ID on EVM and its address: the
+ * ERC-20 address on EVM, the coin type or the fungible asset metadata address on Aptos.
+ * A pair routes a token of one chain to a token of the other, in that direction.
+ */
+
+export type TokenChain = "evm" | "aptos";
+
+export const TOKEN_CHAINS: TokenChain[] = ["evm", "aptos"];
+
+/**
+ * Standards of the tokens each chain holds
+ */
+export const CHAIN_STANDARDS: Record<TokenChain, TokenStandard[]> = {
+  evm: [TokenStandard.ERC20],
+  aptos: [TokenStandard.COIN, TokenStandard.FUNGIBLE_ASSET],
+};
+
+/**
+ * Error thrown for a token or pair the registry rejects
+ */
+export class TokenRegistryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TokenRegistryError";
+  }
+}
+
+const COIN_TYPE = /^0x[0-9a-fA-F]+::\w+::\w+(<.+>)?$/;
+const APTOS_ADDRESS = /^0x[0-9a-fA-F]{1,64}$/;
+
+/**
+ * Normalize a token address so the same token always matches
+ * @param chain - Chain of the token
+ * @param standard - Standard of the token
+ * @param address - ERC-20 address, coin type or fungible asset metadata address
+ * @returns Checksummed EVM address, or Aptos address / coin type without leading zeros
+ * @throws TokenRegistryError when the address does not fit the standard
+ */
+export function normalizeTokenAddress(
+  chain: TokenChain,
+  standard: TokenStandard,
+  address: string,
+): string {
+  if (!CHAIN_STANDARDS[chain].includes(standard)) {
+    throw new TokenRegistryError(`${standard} tokens do not exist on ${chain}`);
+  }
+
+  const value = address.trim();
+  switch (standard) {
+    case TokenStandard.ERC20:
+      if (!ethers.isAddress(value)) {
+        throw new TokenRegistryError(`${address} is not an EVM address`);
+      }
+      return ethers.getAddress(value);
+    case TokenStandard.COIN:
+      if (!COIN_TYPE.test(value)) {
+        throw new TokenRegistryError(`${address} is not an Aptos coin type`);
+      }
+      return normalizeTypeName(value);
+    case TokenStandard.FUNGIBLE_ASSET:
+      if (!APTOS_ADDRESS.test(value)) {
+        throw new TokenRegistryError(
+          `${address} is not a fungible asset metadata address`,
+        );
+      }
+      return normalizeTypeName(value);
+  }
+}
+
+/**
+ * Normalize an address of a swap request, whose token standard is not known yet
+ * @param chain - Chain of the token
+ * @param address - Token address as sent by the client
+ */
+export function normalizeRequestedAddress(
+  chain: TokenChain,
+  address: string,
+): string {
+  const value = address.trim();
+  if (chain === "evm") {
+    return ethers.isAddress(value) ? ethers.getAddress(value) : value;
+  }
+  return normalizeTypeName(value);
+}
+
+/**
+ * Check an amount against the bounds of a pair
+ * @param amount - Amount in base units of the source token
+ * @param bounds - Bounds of the pair, in base units, unbounded when null
+ * @throws TokenRegistryError when the amount is not a positive integer or out of bounds
+ */
+export function checkPairAmount(
+  amount: string,
+  bounds: { minAmount: string | null; maxAmount: string | null },
+): void {
+  if (!/^\d+$/.test(amount) || BigInt(amount) === 0n) {
+    throw new TokenRegistryError(
+      `Amount ${amount} is not a positive integer in base units`,
+    );
+  }
+
+  const value = BigInt(amount);
+  if (bounds.minAmount !== null && value < BigInt(bounds.minAmount)) {
+    throw new TokenRegistryError(
+      `Amount ${amount} is below the pair minimum ${bounds.minAmount}`,
+    );
+  }
+  if (bounds.maxAmount !== null && value > BigInt(bounds.maxAmount)) {
+    throw new TokenRegistryError(
+      `Amount ${amount} is above the pair maximum ${bounds.maxAmount}`,
+    );
+  }
+}
+
+/**
+ * Check the bounds of a pair
+ * @throws TokenRegistryError when a bound is not an integer or the minimum exceeds the maximum
+ */
+export function validatePairBounds(bounds: {
+  minAmount: string | null;
+  maxAmount: string | null;
+}): void {
+  for (const bound of [bounds.minAmount, bounds.maxAmount]) {
+    if (bound !== null && !/^\d+$/.test(bound)) {
+      throw new TokenRegistryError(
+        `Pair bound ${bound} is not an integer in base units`,
+      );
+    }
+  }
+  if (
+    bounds.minAmount !== null &&
+    bounds.maxAmount !== null &&
+    BigInt(bounds.minAmount) > BigInt(bounds.maxAmount)
+  ) {
+    throw new TokenRegistryError(
+      `Pair minimum ${bounds.minAmount} is above its maximum ${bounds.maxAmount}`,
+    );
+  }
+}
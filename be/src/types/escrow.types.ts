@@ -0,0 +1,60 @@
+/**
+ * Type definitions for escrow contract parameters
+ */
+
+/**
+ * Timelocks struct of EscrowSrc, one absolute timestamp per TimelocksLib.Stage
+ */
+export type EvmTimelocks = {
+  values: bigint[];
+};
+
+/**
+ * Immutables struct of EscrowSrc as passed to EscrowFactory.deploy and the escrow methods.
+ * Addresses are encoded as uint256 (1inch AddressLib)
+ */
+export type EvmImmutables = {
+  orderHash: string;
+  maker: bigint;
+  taker: bigint;
+  token: bigint;
+  amount: bigint;
+  secretHash: string;
+  safetyDeposit: bigint;
+  timelocks: EvmTimelocks;
+};
+
+/**
+ * Timelocks struct of escrow_dst, absolute timestamps in seconds
+ */
+export type AptosTimelocks = {
+  deployedAt: number;
+  dstWithdrawal: number;
+  dstPublicWithdrawal: number;
+  dstCancellation: number;
+};
+
+/**
+ * Immutables struct of escrow_dst, the preimage of its contract ID.
+ * tokenType is the coin type as printed by `type_info::type_name`
+ */
+export type AptosImmutables = {
+  orderHash: string;
+  hashlock: string;
+  maker: string;
+  taker: string;
+  tokenType: string;
+  amount: bigint;
+  safetyDeposit: bigint;
+  timelocks: AptosTimelocks;
+};
+
+/**
+ * State of an escrow as read from its chain
+ */
+export enum EscrowChainState {
+  MISSING = "missing",
+  ACTIVE = "active",
+  WITHDRAWN = "withdrawn",
+  CANCELLED = "cancelled",
+}
@@ -16,14 +16,25 @@ export type Swap = {
   fromTokenAddress: string;
   toTokenAddress: string;
   amount: string;
+  dstAmount: string | null;
+  srcDecimals: number | null;
+  dstDecimals: number | null;
+  evmChainId: number | null;
   evmHtlcAddress: string | null;
   aptosHtlcAddress: string | null;
   hashlock: string;
+  aptosHashlock: string | null;
   preimage: string | null;
   timelock: number;
   timestamp: number;
   completedAt: number | null;
   cancelledAt: number | null;
+  refundAttempts: number;
+  nextRefundAt: number | null;
+  evmRefundTxHash: string | null;
+  aptosRefundTxHash: string | null;
+  evmImmutables: Prisma.JsonValue | null;
+  aptosImmutables: Prisma.JsonValue | null;
   createdAt: Date;
   updatedAt: Date;
 };
@@ -39,6 +50,7 @@ export enum SwapStatus {
   PREIMAGE_REVEALED = "PREIMAGE_REVEALED",
   COMPLETED = "COMPLETED",
   FAILED = "FAILED",
+  REFUNDING = "REFUNDING",
   REFUNDED = "REFUNDED",
 }
 
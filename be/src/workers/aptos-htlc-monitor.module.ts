@@ -1,9 +1,13 @@
-import { Module } from "@nestjs/common";
+import { Module, forwardRef } from "@nestjs/common";
 import { EventEmitterModule } from "@nestjs/event-emitter";
 import { AptosHtlcMonitorService } from "./aptos-htlc-monitor.service";
 import { AptosPreimageHandlerService } from "./aptos-preimage-handler.service";
 import { EvmModule } from "../evm/evm.module";
 import { PrismaModule } from "../prisma/prisma.module";
+import { SwapStateModule } from "../swap-state/swap-state.module";
+import { ChainCursorModule } from "../chain-cursor/chain-cursor.module";
+import { SecretsModule } from "../secrets/secrets.module";
+import { FinalityModule } from "../finality/finality.module";
 
 /**
  * Module for Aptos HTLC monitoring and preimage handling
@@ -13,6 +17,11 @@ import { PrismaModule } from "../prisma/prisma.module";
     EventEmitterModule.forRoot(),
     EvmModule,
     PrismaModule,
+    SwapStateModule,
+    ChainCursorModule,
+    // SecretsModule reads the Aptos escrows through AptosModule, which imports this module
+    forwardRef(() => SecretsModule),
+    FinalityModule,
   ],
   providers: [
     AptosHtlcMonitorService,
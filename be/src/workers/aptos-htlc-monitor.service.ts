@@ -1,39 +1,58 @@
 import { Injectable, Logger, OnModuleInit } from "@nestjs/common";
 import { ConfigService } from "@nestjs/config";
-import { AptosClient, AptosAccount, HexString } from "aptos";
+import { AptosClient, AptosAccount, HexString, Types } from "aptos";
 import { EventEmitter2 } from "@nestjs/event-emitter";
+import { ChainCursorService } from "../chain-cursor/chain-cursor.service";
+import { FinalityService } from "../finality/finality.service";
+import {
+  APTOS_ESCROW_CANCELLED,
+  APTOS_ESCROW_CREATED,
+  APTOS_FACTORY_ESCROW_CREATED,
+  APTOS_FUNDS_RESCUED,
+  APTOS_PREIMAGE_DISCOVERED,
+  AptosEscrowCancelledEvent,
+  AptosEscrowCreatedEvent,
+  AptosEventReference,
+  AptosFactoryEscrowCreatedEvent,
+  AptosFundsRescuedEvent,
+  AptosPreimageDiscoveredEvent,
+} from "./events/aptos-escrow.events";
+
+const DEFAULT_EVENT_PAGE_SIZE = 100;
 
 /**
- * Interface for Aptos event
+ * Event handle read by the monitor and the domain event it maps to
  */
-interface AptosEvent {
-  version: string;
-  data: Record<string, any>;
-  [key: string]: any;
+interface EventHandleSource {
+  struct: string;
+  field: string;
+  eventName: string;
+  toPayload: (
+    data: Record<string, unknown>,
+    reference: AptosEventReference,
+  ) => AptosEventReference;
 }
 
 /**
- * Interface for Aptos HTLC withdrawn event data
+ * Events returned by the node also carry the transaction version
  */
-interface AptosHtlcWithdrawnEvent extends AptosEvent {
-  data: {
-    contract_id: string;
-    preimage: string;
-    [key: string]: any;
-  };
-}
+type AptosEvent = Types.Event & { version?: string };
 
 /**
- * Interface for preimage discovery event payload
+ * Normalize a `vector<u8>` or address field to lowercase 0x-prefixed hex
  */
-interface PreimageDiscoveredEvent {
-  contractId: string;
-  preimage: string;
-  version: string;
+function toHex(value: unknown): string {
+  return HexString.ensure(String(value)).hex().toLowerCase();
 }
 
 /**
- * Service for monitoring Aptos HTLC events and detecting preimage revelations
+ * Service for monitoring Aptos escrow events and detecting preimage revelations.
+ *
+ * Reads every event handle of `escrow_dst::EscrowStore` and `escrow_factory::FactoryData`
+ * and keeps one cursor per handle in Postgres, holding the last handled sequence number.
+ * Events are emitted before their cursor moves, so a crash replays the last page
+ * instead of skipping it. Each scan also confirms the Aptos observations of the relayer,
+ * e.g. the escrows it created, once they are APTOS_CONFIRMATIONS versions deep.
  */
 @Injectable()
 export class AptosHtlcMonitorService implements OnModuleInit {
@@ -41,15 +60,24 @@ export class AptosHtlcMonitorService implements OnModuleInit {
   private aptosClient: AptosClient;
   private relayerAccount: AptosAccount;
   private moduleAddress: string;
+  private eventSources: EventHandleSource[] = [];
   private eventPollingInterval: NodeJS.Timeout | null = null;
   private readonly POLLING_INTERVAL = 30000; // 30 seconds
-  private lastProcessedVersion = 0;
+  private readonly eventPageSize: number;
+  private cursors: Map<string, bigint> = new Map();
   private isActive = false;
+  private isScanning = false;
 
   constructor(
     private readonly configService: ConfigService,
     private readonly eventEmitter: EventEmitter2,
-  ) { }
+    private readonly chainCursorService: ChainCursorService,
+    private readonly finalityService: FinalityService,
+  ) {
+    this.eventPageSize =
+      Number(this.configService.get<string>("APTOS_EVENT_PAGE_SIZE")) ||
+      DEFAULT_EVENT_PAGE_SIZE;
+  }
 
   async onModuleInit(): Promise<void> {
     await this.setupAptosConnection();
@@ -84,6 +112,7 @@ export class AptosHtlcMonitorService implements OnModuleInit {
       this.relayerAccount = new AptosAccount(
         HexString.ensure(privateKey).toUint8Array(),
       );
+      this.eventSources = this.createEventSources();
 
       this.logger.log(`Aptos connection established to ${aptosRpcUrl}`);
       this.logger.log(
@@ -99,12 +128,73 @@ export class AptosHtlcMonitorService implements OnModuleInit {
   }
 
   /**
-   * Start event listener to track HTLC events on Aptos
-   * This will periodically check for new withdrawn events to extract preimages
+   * Describe the event handles of the escrow modules
+   */
+  private createEventSources(): EventHandleSource[] {
+    const escrowStore = `${this.moduleAddress}::escrow_dst::EscrowStore`;
+    const factoryData = `${this.moduleAddress}::escrow_factory::FactoryData`;
+
+    return [
+      {
+        struct: escrowStore,
+        field: "created_events",
+        eventName: APTOS_ESCROW_CREATED,
+        toPayload: (data, reference): AptosEscrowCreatedEvent => ({
+          ...reference,
+          maker: toHex(data.maker),
+          taker: toHex(data.taker),
+          tokenType: String(data.token_type),
+          amount: String(data.amount),
+          hashlock: toHex(data.hashlock),
+        }),
+      },
+      {
+        struct: escrowStore,
+        field: "withdrawn_events",
+        eventName: APTOS_PREIMAGE_DISCOVERED,
+        toPayload: (data, reference): AptosPreimageDiscoveredEvent => ({
+          ...reference,
+          preimage: toHex(data.secret),
+        }),
+      },
+      {
+        struct: escrowStore,
+        field: "cancelled_events",
+        eventName: APTOS_ESCROW_CANCELLED,
+        toPayload: (_data, reference): AptosEscrowCancelledEvent => reference,
+      },
+      {
+        struct: escrowStore,
+        field: "rescued_events",
+        eventName: APTOS_FUNDS_RESCUED,
+        toPayload: (data, reference): AptosFundsRescuedEvent => ({
+          ...reference,
+          tokenType: String(data.token_type),
+          amount: String(data.amount),
+        }),
+      },
+      {
+        struct: factoryData,
+        field: "creation_events",
+        eventName: APTOS_FACTORY_ESCROW_CREATED,
+        toPayload: (data, reference): AptosFactoryEscrowCreatedEvent => ({
+          ...reference,
+          escrowAddress: toHex(data.escrow_address),
+          maker: toHex(data.maker),
+          taker: toHex(data.taker),
+          tokenType: String(data.token_type),
+          amount: String(data.amount),
+        }),
+      },
+    ];
+  }
+
+  /**
+   * Start event listener to track escrow events on Aptos
    */
 
   private startEventListener(): void {
-    this.logger.log("Starting Aptos HTLC event listener");
+    this.logger.log("Starting Aptos escrow event listener");
 
     // Clear any existing interval
     if (this.eventPollingInterval) {
@@ -114,8 +204,8 @@ export class AptosHtlcMonitorService implements OnModuleInit {
     // Set up polling interval
     this.eventPollingInterval = setInterval(() => {
       // Using void to ignore the promise without awaiting it
-      // This is safe because we're handling errors inside checkWithdrawnEvents
-      void this.checkWithdrawnEvents().catch((error) => {
+      // This is safe because we're handling errors inside checkEscrowEvents
+      void this.checkEscrowEvents().catch((error) => {
         const errorMessage =
           error instanceof Error ? error.message : "Unknown error";
         this.logger.error(`Error in event polling interval: ${errorMessage}`);
@@ -132,90 +222,153 @@ export class AptosHtlcMonitorService implements OnModuleInit {
     if (this.eventPollingInterval) {
       clearInterval(this.eventPollingInterval);
       this.eventPollingInterval = null;
-      this.logger.log("Stopped Aptos HTLC event listener");
+      this.logger.log("Stopped Aptos escrow event listener");
       this.isActive = false;
     }
   }
 
   /**
-   * Check for withdrawn HTLC events and extract preimages
+   * Read every event handle from its cursor up to the latest event
    */
 
-  async checkWithdrawnEvents(): Promise<void> {
+  async checkEscrowEvents(): Promise<void> {
+    // Polling and startMonitoring may both trigger a scan
+    if (this.isScanning) {
+      return;
+    }
+
+    this.isScanning = true;
+    try {
+      this.logger.debug("Checking for Aptos escrow events");
+
+      for (const source of this.eventSources) {
+        try {
+          await this.processEventHandle(source);
+        } catch (error) {
+          // An uninitialized store has no handle yet, keep reading the others
+          const errorMessage =
+            error instanceof Error ? error.message : "Unknown error";
+          this.logger.error(
+            `Error reading ${source.struct}.${source.field}: ${errorMessage}`,
+          );
+        }
+      }
+
+      await this.confirmObservations();
+    } finally {
+      this.isScanning = false;
+    }
+  }
+
+  /**
+   * Confirm the pending observations the ledger reached the confirmation depth of.
+   * Aptos does not fork, its observations are never orphaned
+   */
+  private async confirmObservations(): Promise<void> {
     try {
-      this.logger.debug("Checking for Aptos HTLC withdrawn events");
-
-      // // Fetch withdrawn events to look for revealed preimages
-      // const rawEvents = await this.aptosClient.getEventsByEventHandle(
-      //   this.moduleAddress,
-      //   `${this.moduleAddress}::atomic_swap::HTLCStore`,
-      //   'withdrawn_events',
-      //   { limit: 20 }, // Limit to recent events
-      // );
-
-      // // Convert raw events to AptosEvent type with proper structure
-      // const withdrawnEvents = rawEvents.map(event => ({
-      //   version: event.version?.toString() || '0',
-      //   data: event.data || {},
-      // })) as AptosEvent[];
-
-      // // Sort events by version to process in order
-      // const sortedEvents = withdrawnEvents
-      //   .filter((event) => parseInt(event.version) > this.lastProcessedVersion)
-      //   .sort((a, b) => parseInt(a.version) - parseInt(b.version));
-
-      // if (sortedEvents.length > 0) {
-      //   this.logger.log(`Found ${sortedEvents.length} new withdrawn events to process`);
-      // }
-
-      // // Process withdrawn events to extract preimages
-      // for (const event of sortedEvents) {
-      //   const typedEvent = event as AptosHtlcWithdrawnEvent;
-      //   if (typedEvent.data && typedEvent.data.preimage) {
-      //     const contractId = typedEvent.data.contract_id;
-      //     const preimage = typedEvent.data.preimage;
-      //     const version = typedEvent.version;
-
-      //     this.logger.log(`Found preimage for contract ${contractId}: ${preimage}`);
-
-      //     // Emit event for other services to handle
-      //     this.eventEmitter.emit('aptos.preimage.discovered', {
-      //       contractId,
-      //       preimage,
-      //       version,
-      //     } as PreimageDiscoveredEvent);
-
-      //     // Update last processed version
-      //     this.lastProcessedVersion = parseInt(version);
-      //   }
-      // }
+      const pending =
+        await this.finalityService.getPendingObservations("aptos");
+      if (pending.length === 0) {
+        return;
+      }
+
+      const { ledger_version } = await this.aptosClient.getLedgerInfo();
+      for (const observation of pending) {
+        if (
+          this.finalityService.isFinal(
+            "aptos",
+            observation.blockNumber,
+            BigInt(ledger_version),
+          )
+        ) {
+          await this.finalityService.confirmObservation(observation);
+        }
+      }
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : "Unknown error";
-      this.logger.error(`Error checking Aptos HTLC events: ${errorMessage}`);
-      throw error;
+      this.logger.error(`Error confirming Aptos observations: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Emit the new events of one handle, one page at a time
+   * @param source - Event handle to read
+   */
+  private async processEventHandle(source: EventHandleSource): Promise<void> {
+    const cursorKey = `aptos:${source.struct}/${source.field}`;
+    const cursor = await this.chainCursorService.get(cursorKey);
+    let start = cursor ? cursor.position + 1n : 0n;
+
+    for (;;) {
+      const events = (await this.aptosClient.getEventsByEventHandle(
+        this.moduleAddress,
+        source.struct,
+        source.field,
+        { start, limit: this.eventPageSize },
+      )) as AptosEvent[];
+
+      if (events.length === 0) {
+        return;
+      }
+
+      this.logger.log(
+        `Found ${events.length} new ${source.field} events to process`,
+      );
+
+      for (const event of events) {
+        const data = event.data as Record<string, unknown>;
+        const reference: AptosEventReference = {
+          contractId: toHex(data.contract_id),
+          version: event.version ?? "0",
+          sequenceNumber: event.sequence_number,
+        };
+
+        this.eventEmitter.emit(
+          source.eventName,
+          source.toPayload(data, reference),
+        );
+      }
+
+      const lastHandled = BigInt(events[events.length - 1].sequence_number);
+      await this.chainCursorService.set(cursorKey, lastHandled);
+      this.cursors.set(cursorKey, lastHandled);
+
+      if (events.length < this.eventPageSize) {
+        return;
+      }
+      start = lastHandled + 1n;
     }
   }
 
   /**
    * Get the current monitoring status
+   * @returns Active status and the last handled sequence number of every handle read since boot
    */
-  getMonitoringStatus(): { isActive: boolean; lastProcessedVersion: number } {
+  getMonitoringStatus(): {
+    isActive: boolean;
+    cursors: Record<string, string>;
+  } {
     return {
       isActive: this.eventPollingInterval !== null,
-      lastProcessedVersion: this.lastProcessedVersion,
+      cursors: Object.fromEntries(
+        Array.from(this.cursors.entries()).map(([key, sequence]) => [
+          key,
+          sequence.toString(),
+        ]),
+      ),
     };
   }
 
   /**
-   * Start monitoring a specific HTLC contract
+   * Start monitoring a specific escrow
    * @param swapId - ID of the swap to monitor
-   * @param htlcAddress - Address of the HTLC contract to monitor
+   * @param htlcAddress - Contract ID of the escrow to monitor
    */
 
   async startMonitoring(swapId: string, htlcAddress: string): Promise<void> {
     this.logger.log(
-      `Starting monitoring for HTLC ${htlcAddress} for swap ${swapId}`,
+      `Starting monitoring for escrow ${htlcAddress} for swap ${swapId}`,
     );
 
     // Make sure the event listener is running
@@ -226,13 +379,13 @@ export class AptosHtlcMonitorService implements OnModuleInit {
 
     // Immediately check for events in case we missed something while the service was down
     try {
-      await this.checkWithdrawnEvents();
-      this.logger.log(`Initial check completed for HTLC ${htlcAddress}`);
+      await this.checkEscrowEvents();
+      this.logger.log(`Initial check completed for escrow ${htlcAddress}`);
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : "Unknown error";
       this.logger.error(
-        `Error during initial check for HTLC ${htlcAddress}: ${errorMessage}`,
+        `Error during initial check for escrow ${htlcAddress}: ${errorMessage}`,
       );
     }
   }
@@ -1,30 +1,24 @@
 import { Injectable, Logger } from "@nestjs/common";
 import { OnEvent } from "@nestjs/event-emitter";
+import { ethers } from "ethers";
 import { PrismaService } from "../prisma/prisma.service";
 import { EvmService } from "../evm/evm.service";
-import { Prisma, Swap } from "@prisma/client";
-import { SwapStatus } from "../types/prisma.types";
+import { Swap, SwapDirection, SwapStatus } from "@prisma/client";
+import { SwapStateMachineService } from "../swap-state/swap-state-machine.service";
+import { SecretVaultService } from "../secrets/secret-vault.service";
+import { EscrowChainState } from "../types/escrow.types";
+import { getSwapEvmImmutables } from "../immutables/immutables";
+import {
+  APTOS_PREIMAGE_DISCOVERED,
+  AptosPreimageDiscoveredEvent,
+} from "./events/aptos-escrow.events";
 
 /**
- * Interface for preimage discovery event payload
- */
-interface PreimageDiscoveredEvent {
-  contractId: string;
-  preimage: string;
-  version: string;
-}
-
-/**
- * Interface for EVM withdrawal result
- */
-interface WithdrawResult {
-  success: boolean;
-  txHash?: string;
-  error?: string;
-}
-
-/**
- * Service for handling discovered preimages from Aptos HTLC events
+ * Service for handling discovered preimages from Aptos HTLC events.
+ *
+ * A withdrawal the relayer did not make itself reveals the secret of the swap: the relayer
+ * then withdraws the EVM escrow with it, taking the source escrow of an EVM to Aptos swap
+ * or paying the recipient of an Aptos to EVM one.
  */
 @Injectable()
 export class AptosPreimageHandlerService {
@@ -33,20 +27,20 @@ export class AptosPreimageHandlerService {
   constructor(
     private readonly prismaService: PrismaService,
     private readonly evmService: EvmService,
+    private readonly swapStateMachine: SwapStateMachineService,
+    private readonly secretVault: SecretVaultService,
   ) {}
 
   /**
    * Handle preimage discovery events from Aptos HTLC monitor
    */
-  @OnEvent("aptos.preimage.discovered")
+  @OnEvent(APTOS_PREIMAGE_DISCOVERED)
   async handlePreimageDiscovered(
-    payload: PreimageDiscoveredEvent,
+    payload: AptosPreimageDiscoveredEvent,
   ): Promise<void> {
     const { contractId, preimage } = payload;
 
-    this.logger.log(
-      `Handling discovered preimage for contract ${contractId}: ${preimage}`,
-    );
+    this.logger.log(`Handling discovered preimage for contract ${contractId}`);
 
     try {
       // Find the swap by Aptos contract ID
@@ -54,79 +48,103 @@ export class AptosPreimageHandlerService {
         where: {
           aptosHtlcAddress: contractId,
         },
-      }) as Swap | null;
+      });
 
       if (!swap) {
         this.logger.warn(`No swap found for Aptos contract ID: ${contractId}`);
         return;
       }
 
-      // Now we know swap is a valid Swap object
-      const swapId = swap.id;
-      this.logger.log(`Found swap with ID: ${swapId}`);
-
-      // Update the swap with the discovered preimage
-      await this.prismaService.swap.update({
-        where: { id: swap.id },
-        data: {
-          preimage,
-          // Using an intermediate status to track that preimage was found
-          status: SwapStatus.PREIMAGE_REVEALED as unknown as Prisma.EnumSwapStatusFieldUpdateOperationsInput,
-        },
-      });
-
-      // If there's an EVM contract ID, trigger withdrawal on EVM side
-      const evmHtlcAddress = swap.evmHtlcAddress;
-      if (evmHtlcAddress) {
+      // Swaps the relayer completed itself moved on when it withdrew
+      if (
+        swap.status !== SwapStatus.EVM_HTLC_CREATED &&
+        swap.status !== SwapStatus.APTOS_HTLC_CREATED
+      ) {
         this.logger.log(
-          `Attempting to withdraw from EVM HTLC with contract ID: ${evmHtlcAddress}`,
+          `Swap ${swap.id} is ${swap.status}, its Aptos withdrawal is already handled`,
         );
+        return;
+      }
 
-        try {
-          // Call EVM service to withdraw using the preimage
-          const withdrawResult = await this.evmService.withdrawFromHtlc({
-            htlcId: evmHtlcAddress,
-            preimage,
-          }) as WithdrawResult;
-
-          if (withdrawResult && withdrawResult.success) {
-            this.logger.log(
-              `Successfully withdrew from EVM HTLC: ${withdrawResult.txHash}`,
-            );
+      // The recipient of an EVM to Aptos swap was paid, the EVM escrow of an Aptos to EVM one is not yet
+      const updatedSwap = await this.swapStateMachine.transition(
+        swap.id,
+        swap.direction === SwapDirection.EVM_TO_APTOS
+          ? SwapStatus.USER_WITHDREW_APTOS
+          : SwapStatus.PREIMAGE_REVEALED,
+        {
+          actor: AptosPreimageHandlerService.name,
+          reason: `Preimage revealed on Aptos at version ${payload.version}`,
+        },
+        { preimage: this.secretVault.sealSwapSecret(swap.id, preimage) },
+      );
 
-            // Update swap status to completed
-            await this.prismaService.swap.update({
-              where: { id: swapId },
-              data: {
-                status: SwapStatus.COMPLETED as unknown as Prisma.EnumSwapStatusFieldUpdateOperationsInput,
-              },
-            });
-          }
-        } catch (withdrawError: unknown) {
-          // Handle withdrawal errors separately to continue with the main flow
-          if (withdrawError instanceof Error) {
-            this.logger.error(`EVM withdrawal error: ${withdrawError.message}`);
-          } else {
-            this.logger.error("Unknown EVM withdrawal error");
-          }
-        }
-      } else {
-        this.logger.log(
-          `No EVM contract ID found for swap ${swapId}, skipping EVM withdrawal`,
-        );
-      }
+      await this.withdrawOnEvm(updatedSwap, preimage);
     } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
       this.logger.error(
-        `Error handling preimage discovery for contract ${contractId}`,
+        `Error handling preimage discovery for contract ${contractId}: ${errorMessage}`,
       );
+    }
+  }
 
-      // If the error has a message property, log it for better debugging
-      if (error instanceof Error) {
-        this.logger.error(`Error details: ${error.message}`);
-      } else if (error && typeof error === "object" && "message" in error) {
-        const errorMessage = String(error.message);
-        this.logger.error(`Error details: ${errorMessage}`);
-      }
+  /**
+   * Withdraw the EVM escrow of a swap with the revealed secret and complete the swap.
+   * Only the escrows deployed by the relayer have their immutables recorded, the Fusion
+   * resolver withdraws the others.
+   */
+  private async withdrawOnEvm(swap: Swap, preimage: string): Promise<void> {
+    const escrowAddress = swap.evmHtlcAddress;
+    if (
+      !escrowAddress ||
+      !ethers.isAddress(escrowAddress) ||
+      !swap.evmImmutables
+    ) {
+      this.logger.log(
+        `Swap ${swap.id} has no EVM escrow of the relayer, skipping EVM withdrawal`,
+      );
+      return;
     }
+
+    const state = await this.evmService.getEscrowState(
+      escrowAddress,
+      swap.evmChainId,
+    );
+    if (
+      state === EscrowChainState.MISSING ||
+      state === EscrowChainState.CANCELLED
+    ) {
+      this.logger.warn(
+        `EVM escrow ${escrowAddress} of swap ${swap.id} is ${state}, it cannot be withdrawn`,
+      );
+      return;
+    }
+
+    let txHash: string | undefined;
+    if (state === EscrowChainState.ACTIVE) {
+      // The relayer is the taker of the source escrow only, anyone may pay the recipient
+      ({ txHash } = await this.evmService.withdrawEscrow(
+        escrowAddress,
+        preimage,
+        getSwapEvmImmutables(swap),
+        swap.direction === SwapDirection.APTOS_TO_EVM,
+        swap,
+      ));
+      this.logger.log(
+        `Withdrew EVM escrow ${escrowAddress} of swap ${swap.id} (tx: ${txHash})`,
+      );
+    }
+
+    await this.swapStateMachine.transition(
+      swap.id,
+      SwapStatus.COMPLETED,
+      {
+        actor: AptosPreimageHandlerService.name,
+        reason: "EVM escrow withdrawn",
+        txHash,
+      },
+      { completedAt: Math.floor(Date.now() / 1000) },
+    );
   }
 }
@@ -0,0 +1,59 @@
+/**
+ * Events emitted by the Aptos escrow monitor
+ */
+export const APTOS_ESCROW_CREATED = "aptos.escrow.created";
+export const APTOS_PREIMAGE_DISCOVERED = "aptos.preimage.discovered";
+export const APTOS_ESCROW_CANCELLED = "aptos.escrow.cancelled";
+export const APTOS_FUNDS_RESCUED = "aptos.escrow.rescued";
+export const APTOS_FACTORY_ESCROW_CREATED = "aptos.factory.escrow.created";
+
+/**
+ * Location of the on-chain event a domain event was decoded from
+ */
+export interface AptosEventReference {
+  contractId: string;
+  version: string;
+  sequenceNumber: string;
+}
+
+/**
+ * Payload of `aptos.escrow.created`, from `escrow_dst::EscrowCreatedEvent`
+ */
+export interface AptosEscrowCreatedEvent extends AptosEventReference {
+  maker: string;
+  taker: string;
+  tokenType: string;
+  amount: string;
+  hashlock: string;
+}
+
+/**
+ * Payload of `aptos.preimage.discovered`, from `escrow_dst::WithdrawalEvent`
+ */
+export interface AptosPreimageDiscoveredEvent extends AptosEventReference {
+  preimage: string;
+}
+
+/**
+ * Payload of `aptos.escrow.cancelled`, from `escrow_dst::EscrowCancelledEvent`
+ */
+export type AptosEscrowCancelledEvent = AptosEventReference;
+
+/**
+ * Payload of `aptos.escrow.rescued`, from `escrow_dst::FundsRescuedEvent`
+ */
+export interface AptosFundsRescuedEvent extends AptosEventReference {
+  tokenType: string;
+  amount: string;
+}
+
+/**
+ * Payload of `aptos.factory.escrow.created`, from `escrow_factory::EscrowCreationEvent`
+ */
+export interface AptosFactoryEscrowCreatedEvent extends AptosEventReference {
+  escrowAddress: string;
+  maker: string;
+  taker: string;
+  tokenType: string;
+  amount: string;
+}
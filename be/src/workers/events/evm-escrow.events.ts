@@ -0,0 +1,36 @@
+/**
+ * Events emitted by the EVM escrow monitor
+ */
+export const EVM_PREIMAGE_DISCOVERED = "evm.preimage.discovered";
+export const EVM_ESCROW_CANCELLED = "evm.escrow.cancelled";
+export const EVM_ESCROW_DEPLOYED = "evm.escrow.deployed";
+
+/**
+ * Location of the log an event was decoded from.
+ * Events are emitted once the log has the confirmations its chain requires in the chain registry.
+ */
+export interface EvmLogReference {
+  escrowAddress: string;
+  transactionHash: string;
+  blockNumber: number;
+  logIndex: number;
+}
+
+/**
+ * Payload of `evm.preimage.discovered`, emitted for every `Withdrawal(bytes32 secret)`
+ */
+export interface EvmPreimageDiscoveredEvent extends EvmLogReference {
+  preimage: string;
+}
+
+/**
+ * Payload of `evm.escrow.cancelled`, emitted for every `EscrowCancelled()`
+ */
+export type EvmEscrowCancelledEvent = EvmLogReference;
+
+/**
+ * Payload of `evm.escrow.deployed`, emitted when an escrow deployed by the relayer is final
+ */
+export interface EvmEscrowDeployedEvent extends EvmLogReference {
+  swapId: string;
+}
@@ -5,6 +5,11 @@ import { EvmPreimageHandlerService } from "./evm-preimage-handler.service";
 import { EvmModule } from "../evm/evm.module";
 import { PrismaModule } from "../prisma/prisma.module";
 import { AptosModule } from "../aptos/aptos.module";
+import { SwapStateModule } from "../swap-state/swap-state.module";
+import { ChainCursorModule } from "../chain-cursor/chain-cursor.module";
+import { FinalityModule } from "../finality/finality.module";
+import { ChainRegistryModule } from "../chains/chain-registry.module";
+import { SecretsModule } from "../secrets/secrets.module";
 
 /**
  * Module for EVM HTLC monitoring
@@ -15,6 +20,11 @@ import { AptosModule } from "../aptos/aptos.module";
     EvmModule,
     PrismaModule,
     AptosModule,
+    SwapStateModule,
+    ChainCursorModule,
+    FinalityModule,
+    ChainRegistryModule,
+    SecretsModule,
   ],
   providers: [
     EvmHtlcMonitorService,
@@ -22,6 +32,7 @@ import { AptosModule } from "../aptos/aptos.module";
   ],
   exports: [
     EvmHtlcMonitorService,
+    EvmPreimageHandlerService,
   ],
 })
 export class EvmHtlcMonitorModule {}
@@ -1,63 +1,87 @@
-import { Injectable, Logger, OnModuleInit } from "@nestjs/common";
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from "@nestjs/common";
 import { ConfigService } from "@nestjs/config";
 import { EventEmitter2 } from "@nestjs/event-emitter";
+import { SwapFillStatus, SwapStatus } from "@prisma/client";
+import { ethers, Log, Provider } from "ethers";
 import { PrismaService } from "../prisma/prisma.service";
 import { EvmService } from "../evm/evm.service";
-import { ethers, Contract, EventLog, JsonRpcProvider, Filter } from "ethers";
-
-/**
- * Interface for preimage discovery event payload
- */
-interface PreimageDiscoveredEvent {
-  contractId: string;
-  preimage: string;
-  transactionHash: string;
-}
-
-/**
- * Type guard to check if an object is an EventLog with args
- */
-function isEventLogWithArgs(
-  event: unknown,
-): event is EventLog & { args: readonly unknown[] } {
-  return (
-    Boolean(event) &&
-    typeof event === "object" &&
-    "args" in event! &&
-    Array.isArray((event as { args?: unknown[] }).args)
-  );
+import { ChainRegistryService } from "../chains/chain-registry.service";
+import { EvmChainConfig } from "../chains/evm-chains";
+import { ChainCursorService } from "../chain-cursor/chain-cursor.service";
+import { FinalityService } from "../finality/finality.service";
+import {
+  EVM_ESCROW_CANCELLED,
+  EVM_PREIMAGE_DISCOVERED,
+  EvmEscrowCancelledEvent,
+  EvmLogReference,
+  EvmPreimageDiscoveredEvent,
+} from "./events/evm-escrow.events";
+
+// Cursor of the single chain served before the chain registry, kept by the default chain
+const LEGACY_CURSOR_KEY = "evm:escrow-events";
+const DEFAULT_LOG_CHUNK_SIZE = 2000;
+
+function cursorKey(chainId: number): string {
+  return `evm:${chainId}:escrow-events`;
 }
 
 /**
- * Service for monitoring EVM HTLC events and detecting preimage revelations
+ * Service for monitoring EVM escrow events and detecting preimage revelations.
+ *
+ * Scans every chain of the chain registry in block chunks from a cursor per chain
+ * persisted in Postgres. Escrows are the ones referenced by unfinished swaps on the chain,
+ * the ones registered through `startMonitoring`, and every escrow the chain's factory
+ * deploys in the scanned range.
+ *
+ * Logs are recorded as pending observations with their block hash and only emitted
+ * once they have the confirmations of their chain. An observation whose block gets orphaned
+ * is dropped, the swap transition derived from it is rolled back and the cursor
+ * rewinds so the new canonical blocks are scanned again.
  */
 @Injectable()
-export class EvmHtlcMonitorService implements OnModuleInit {
+export class EvmHtlcMonitorService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(EvmHtlcMonitorService.name);
-  private provider: JsonRpcProvider | null = null;
-  private readonly htlcAbi: readonly string[] = [
-    "event Withdrawn(bytes32 indexed contractId, bytes32 preimage)",
-  ];
+  private escrowInterface: ethers.Interface;
+  private factoryInterface: ethers.Interface;
   private eventPollingInterval: NodeJS.Timeout | null = null;
   private readonly POLLING_INTERVAL = 30000; // 30 seconds
+  private readonly logChunkSize: number;
   private isActive = false;
-  private monitoredContracts: Map<
-    string,
-    { swapId: string; lastBlock: number }
-  > = new Map();
+  // Chains being scanned, polling and startMonitoring may both trigger a scan
+  private readonly scanning = new Set<number>();
+  private monitoredContracts: Map<string, { swapId: string; chainId: number }> =
+    new Map();
 
   constructor(
     private readonly configService: ConfigService,
     private readonly prismaService: PrismaService,
     private readonly evmService: EvmService,
     private readonly eventEmitter: EventEmitter2,
+    private readonly chainCursorService: ChainCursorService,
+    private readonly finalityService: FinalityService,
+    private readonly chainRegistryService: ChainRegistryService,
   ) {
-    // Empty constructor
+    this.logChunkSize =
+      Number(this.configService.get<string>("EVM_LOG_CHUNK_SIZE")) ||
+      DEFAULT_LOG_CHUNK_SIZE;
   }
 
   async onModuleInit(): Promise<void> {
+    this.escrowInterface = new ethers.Interface(
+      this.evmService.getEscrowSrcAbi(),
+    );
+    this.factoryInterface = new ethers.Interface(
+      this.evmService.getEscrowFactoryAbi(),
+    );
+
     try {
       await this.setupEvmConnection();
+      this.startEventPolling();
     } catch (error: unknown) {
       const errorMessage =
         error instanceof Error ? error.message : String(error);
@@ -66,61 +90,59 @@ export class EvmHtlcMonitorService implements OnModuleInit {
     }
   }
 
+  onModuleDestroy(): void {
+    this.stopEventPolling();
+  }
+
   /**
-   * Set up connection to EVM network
+   * Check the connection to every EVM chain of the registry
    */
   private async setupEvmConnection(): Promise<void> {
-    try {
-      const evmRpcUrl =
-        this.configService.get<string>("EVM_RPC_URL") ||
-        "https://sepolia.infura.io/v3/your-api-key";
-
-      // Create a new provider with the RPC URL
-      const provider = new JsonRpcProvider(evmRpcUrl);
-
-      // Test the connection by getting the current block number
-      await provider.getBlockNumber();
+    const chains = this.chainRegistryService.getChains();
+    if (chains.length === 0) {
+      throw new Error("No EVM chain configured");
+    }
 
-      // Assign to class property after successful connection
-      this.provider = provider;
+    for (const chain of chains) {
+      try {
+        // Test the connection by getting the current block number
+        await this.evmService.getProvider(chain.chainId).getBlockNumber();
 
-      this.logger.log(`EVM connection established to ${evmRpcUrl}`);
-    } catch (error: unknown) {
-      const errorMessage =
-        error instanceof Error ? error.message : String(error);
+        this.logger.log(
+          `EVM connection established to ${chain.name} (${chain.chainId})`,
+        );
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
 
-      this.logger.error(`Failed to connect to EVM network: ${errorMessage}`);
-      throw new Error(`Failed to connect to EVM network: ${errorMessage}`);
+        // The chain is retried on every poll, the other chains are still monitored
+        this.logger.error(
+          `Failed to connect to EVM chain ${chain.chainId}: ${errorMessage}`,
+        );
+      }
     }
   }
 
   /**
-   * Start monitoring a specific HTLC contract
+   * Start monitoring a specific escrow contract
    * @param swapId - ID of the swap to monitor
-   * @param htlcAddress - Address of the HTLC contract to monitor
+   * @param htlcAddress - Address of the escrow contract to monitor
+   * @param chainId - Chain of the escrow, the default chain when missing
    */
-  async startMonitoring(swapId: string, htlcAddress: string): Promise<void> {
+  async startMonitoring(
+    swapId: string,
+    htlcAddress: string,
+    chainId?: number | null,
+  ): Promise<void> {
     try {
+      const chain = this.chainRegistryService.getChain(chainId);
       this.logger.log(
-        `Starting monitoring for EVM HTLC ${htlcAddress} for swap ${swapId}`,
+        `Starting monitoring for EVM escrow ${htlcAddress} on chain ${chain.chainId} for swap ${swapId}`,
       );
 
-      if (!this.provider) {
-        await this.setupEvmConnection();
-      }
-
-      // Get current block number to start monitoring from
-      const provider = this.provider;
-      if (!provider) {
-        throw new Error("Provider not initialized");
-      }
-
-      const currentBlock = await provider.getBlockNumber();
-
-      // Add to monitored contracts
-      this.monitoredContracts.set(htlcAddress, {
+      this.monitoredContracts.set(htlcAddress.toLowerCase(), {
         swapId,
-        lastBlock: currentBlock - 10, // Start a few blocks back to catch recent events
+        chainId: chain.chainId,
       });
 
       // Start polling if not already active
@@ -128,76 +150,55 @@ export class EvmHtlcMonitorService implements OnModuleInit {
         this.startEventPolling();
       }
 
-      // Immediately check for events
-      await this.checkEventsForContract(htlcAddress);
+      // Immediately scan up to the chain head
+      await this.checkChainEvents(chain);
 
-      this.logger.log(`Initial check completed for HTLC ${htlcAddress}`);
+      this.logger.log(`Initial check completed for escrow ${htlcAddress}`);
     } catch (error: unknown) {
       const errorMessage =
         error instanceof Error ? error.message : String(error);
 
       this.logger.error(
-        `Error during initial check for HTLC ${htlcAddress}: ${errorMessage}`,
+        `Error during initial check for escrow ${htlcAddress}: ${errorMessage}`,
       );
       throw new Error(
-        `Error during initial check for HTLC ${htlcAddress}: ${errorMessage}`,
+        `Error during initial check for escrow ${htlcAddress}: ${errorMessage}`,
       );
     }
   }
 
   /**
-   * Stop monitoring a specific HTLC contract
-   * @param htlcAddress - Address of the HTLC contract to stop monitoring
+   * Stop monitoring a specific escrow contract.
+   * Escrows of unfinished swaps stay monitored through the database.
+   * @param htlcAddress - Address of the escrow contract to stop monitoring
    */
   async stopMonitoring(htlcAddress: string): Promise<void> {
-    try {
-      if (this.monitoredContracts.has(htlcAddress)) {
-        this.monitoredContracts.delete(htlcAddress);
-        this.logger.log(`Stopped monitoring HTLC ${htlcAddress}`);
-
-        // If no more contracts to monitor, stop polling
-        if (this.monitoredContracts.size === 0) {
-          this.stopEventPolling();
-        }
-      }
-
-      // Adding an await to satisfy the async method requirement
-      await Promise.resolve();
-    } catch (error: unknown) {
-      const errorMessage =
-        error instanceof Error ? error.message : String(error);
-
-      this.logger.error(
-        `Error stopping monitoring for HTLC ${htlcAddress}: ${errorMessage}`,
-      );
-      // Rethrow as a proper Error object to ensure type safety
-      throw new Error(
-        `Error stopping monitoring for HTLC ${htlcAddress}: ${errorMessage}`,
-      );
+    if (this.monitoredContracts.delete(htlcAddress.toLowerCase())) {
+      this.logger.log(`Stopped monitoring escrow ${htlcAddress}`);
     }
+
+    // Adding an await to satisfy the async method requirement
+    await Promise.resolve();
   }
 
   /**
-   * Start event polling to track HTLC events on EVM
-   * This will periodically check for new withdrawn events to extract preimages
+   * Start event polling to track escrow events on EVM
    */
   private startEventPolling(): void {
     if (this.isActive) {
       return;
     }
 
-    this.logger.log("Starting EVM HTLC event polling");
+    this.logger.log("Starting EVM escrow event polling");
     this.isActive = true;
 
     // Set up interval to check for events
-    this.eventPollingInterval = setInterval(async () => {
-      try {
-        await this.checkWithdrawnEvents();
-      } catch (error: unknown) {
+    this.eventPollingInterval = setInterval(() => {
+      void this.checkEscrowEvents().catch((error: unknown) => {
         const errorMessage =
           error instanceof Error ? error.message : String(error);
         this.logger.error(`Error in event polling: ${errorMessage}`);
-      }
+      });
     }, this.POLLING_INTERVAL);
   }
 
@@ -208,137 +209,327 @@ export class EvmHtlcMonitorService implements OnModuleInit {
     if (this.eventPollingInterval) {
       clearInterval(this.eventPollingInterval);
       this.eventPollingInterval = null;
-      this.logger.log("Stopped EVM HTLC event polling");
+      this.logger.log("Stopped EVM escrow event polling");
       this.isActive = false;
     }
   }
 
   /**
-   * Check for withdrawn HTLC events and extract preimages
+   * Scan every EVM chain of the registry, a failing chain does not hold up the others
    */
-  private async checkWithdrawnEvents(): Promise<void> {
-    if (this.monitoredContracts.size === 0) {
+  private async checkEscrowEvents(): Promise<void> {
+    for (const chain of this.chainRegistryService.getChains()) {
+      try {
+        await this.checkChainEvents(chain);
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        this.logger.error(
+          `Error scanning EVM chain ${chain.chainId}: ${errorMessage}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Scan every block of a chain between its cursor and the chain head, one chunk at a time
+   */
+  private async checkChainEvents(chain: EvmChainConfig): Promise<void> {
+    if (this.scanning.has(chain.chainId)) {
       return;
     }
 
-    try {
-      this.logger.log("Checking for EVM HTLC withdrawn events");
+    const provider = this.evmService.getProvider(chain.chainId);
+    const key = cursorKey(chain.chainId);
 
-      // Get current block number
-      const provider = this.provider;
-      if (!provider) {
-        throw new Error("Provider not initialized");
+    this.scanning.add(chain.chainId);
+    try {
+      const currentBlock = await provider.getBlockNumber();
+      let fromBlock = await this.getStartBlock(chain, provider, currentBlock);
+
+      while (fromBlock <= currentBlock) {
+        const toBlock = Math.min(
+          fromBlock + this.logChunkSize - 1,
+          currentBlock,
+        );
+
+        await this.processBlockRange(chain, provider, fromBlock, toBlock);
+        const block = await provider.getBlock(toBlock);
+        await this.chainCursorService.set(
+          key,
+          BigInt(toBlock),
+          block?.hash ?? undefined,
+        );
+
+        fromBlock = toBlock + 1;
       }
 
-      const currentBlock = await provider.getBlockNumber();
+      await this.confirmObservations(chain, provider, currentBlock);
+    } finally {
+      this.scanning.delete(chain.chainId);
+    }
+  }
+
+  /**
+   * Get the cursor of a chain, the default chain picks up the cursor kept before the chain registry
+   */
+  private async getCursor(chain: EvmChainConfig) {
+    const cursor = await this.chainCursorService.get(cursorKey(chain.chainId));
+    if (
+      cursor ||
+      chain.chainId !== this.chainRegistryService.getDefaultChainId()
+    ) {
+      return cursor;
+    }
+    return this.chainCursorService.get(LEGACY_CURSOR_KEY);
+  }
 
-      // Check events for each monitored contract
-      // Convert entries to array to avoid TypeScript downlevelIteration issues
-      const entries = Array.from(this.monitoredContracts.entries());
-      for (let i = 0; i < entries.length; i++) {
-        const [htlcAddress, { lastBlock }] = entries[i];
-        await this.checkEventsForContract(htlcAddress, lastBlock, currentBlock);
+  /**
+   * Get the first block of a chain that has not been scanned yet.
+   * Without a cursor, scanning starts at the start block of the chain or at the chain head.
+   * When the cursor block was orphaned, scanning restarts one confirmation depth earlier.
+   */
+  private async getStartBlock(
+    chain: EvmChainConfig,
+    provider: Provider,
+    currentBlock: number,
+  ): Promise<number> {
+    const cursor = await this.getCursor(chain);
+    if (cursor) {
+      const position = Number(cursor.position);
+      if (!cursor.hash) {
+        return position + 1;
+      }
+
+      const block = await provider.getBlock(position);
+      if (block?.hash === cursor.hash) {
+        return position + 1;
       }
-    } catch (error: unknown) {
-      const errorMessage =
-        error instanceof Error ? error.message : String(error);
 
-      this.logger.error(`Error checking withdrawn events: ${errorMessage}`);
-      // Don't rethrow here to keep the polling loop running
+      const depth = Math.max(chain.confirmations, 1);
+      this.logger.warn(
+        `Block ${position} of chain ${chain.chainId} was orphaned, rescanning the last ${depth} blocks`,
+      );
+      return Math.max(position - depth, 0) + 1;
     }
+
+    return chain.startBlock ?? currentBlock;
   }
 
   /**
-   * Check events for a specific contract
-   * @param htlcAddress - Address of the HTLC contract to check
-   * @param fromBlock - Optional block to start checking from
-   * @param toBlock - Optional block to check until
+   * Emit the withdrawal and cancellation events of the monitored escrows in a block range
+   * @param chain - Scanned chain
+   * @param provider - Provider of the chain
+   * @param fromBlock - First block of the range
+   * @param toBlock - Last block of the range, inclusive
    */
-  private async checkEventsForContract(
-    htlcAddress: string,
-    fromBlock?: number,
-    toBlock?: number,
+  private async processBlockRange(
+    chain: EvmChainConfig,
+    provider: Provider,
+    fromBlock: number,
+    toBlock: number,
   ): Promise<void> {
-    try {
-      const contractInfo = this.monitoredContracts.get(htlcAddress);
-      if (!contractInfo) {
-        return;
+    const escrowAddresses = await this.getMonitoredAddresses(
+      chain,
+      provider,
+      fromBlock,
+      toBlock,
+    );
+
+    if (escrowAddresses.length === 0) {
+      return;
+    }
+
+    const withdrawal = this.escrowInterface.getEvent("Withdrawal");
+    const cancelled = this.escrowInterface.getEvent("EscrowCancelled");
+    if (!withdrawal || !cancelled) {
+      throw new Error("EscrowSrc ABI is missing escrow events");
+    }
+
+    const logs = await provider.getLogs({
+      address: escrowAddresses,
+      topics: [[withdrawal.topicHash, cancelled.topicHash]],
+      fromBlock,
+      toBlock,
+    });
+
+    if (logs.length > 0) {
+      this.logger.log(
+        `Found ${logs.length} escrow events in blocks ${fromBlock}-${toBlock} of chain ${chain.chainId}`,
+      );
+    }
+
+    for (const log of logs) {
+      const reference: EvmLogReference = {
+        escrowAddress: log.address,
+        transactionHash: log.transactionHash,
+        blockNumber: log.blockNumber,
+        logIndex: log.index,
+      };
+      const observation = {
+        chain: "evm" as const,
+        chainId: chain.chainId,
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        txHash: log.transactionHash,
+        logIndex: log.index,
+      };
+
+      if (log.topics[0] === withdrawal.topicHash) {
+        const parsed = this.escrowInterface.parseLog(log);
+        const preimage = String(parsed?.args.getValue("secret"));
+
+        this.logger.log(`Found preimage for escrow ${log.address}`);
+        await this.finalityService.recordObservation({
+          ...observation,
+          kind: EVM_PREIMAGE_DISCOVERED,
+          payload: {
+            ...reference,
+            preimage,
+          } satisfies EvmPreimageDiscoveredEvent,
+        });
+      } else {
+        this.logger.log(`Escrow ${log.address} was cancelled`);
+        await this.finalityService.recordObservation({
+          ...observation,
+          kind: EVM_ESCROW_CANCELLED,
+          payload: reference satisfies EvmEscrowCancelledEvent,
+        });
+      }
+    }
+  }
+
+  /**
+   * Emit the pending observations that reached the confirmation depth
+   * and drop the ones whose block is no longer canonical
+   * @param chain - Scanned chain
+   * @param provider - Provider of the chain
+   * @param currentBlock - Chain head
+   */
+  private async confirmObservations(
+    chain: EvmChainConfig,
+    provider: Provider,
+    currentBlock: number,
+  ): Promise<void> {
+    const pending = await this.finalityService.getPendingObservations(
+      "evm",
+      chain.chainId,
+    );
+    const blockHashes = new Map<bigint, string | null>();
+    let rewindTo: bigint | null = null;
+
+    for (const observation of pending) {
+      if (!blockHashes.has(observation.blockNumber)) {
+        const block = await provider.getBlock(Number(observation.blockNumber));
+        blockHashes.set(observation.blockNumber, block?.hash ?? null);
       }
 
-      const provider = this.provider;
-      if (!provider) {
-        throw new Error("Provider not initialized");
+      if (blockHashes.get(observation.blockNumber) !== observation.blockHash) {
+        await this.finalityService.orphanObservation(observation);
+        if (rewindTo === null || observation.blockNumber - 1n < rewindTo) {
+          rewindTo = observation.blockNumber - 1n;
+        }
+        continue;
       }
 
-      // Use provided blocks or get from contract info
-      const startBlock = fromBlock ?? contractInfo.lastBlock;
-      const endBlock = toBlock ?? (await provider.getBlockNumber());
-
-      // Create contract interface for events
-      const contract = new Contract(htlcAddress, this.htlcAbi, provider);
-
-      // Get withdrawn events
-      // const filter = contract.filters.Withdrawn() as Filter;
-      // const events = (await contract.queryFilter(
-      //   filter,
-      //   startBlock,
-      //   endBlock,
-      // )) as EventLog[];
-
-      // if (events.length > 0) {
-      //   this.logger.log(
-      //     `Found ${events.length} withdrawn events for contract ${htlcAddress}`,
-      //   );
-      // }
-
-      // // Process events
-      // for (const event of events) {
-      //   // Use type guard to ensure event has args
-      //   if (isEventLogWithArgs(event)) {
-      //     const contractId = event.args[0]; // First argument is contractId
-      //     const preimage = event.args[1]; // Second argument is preimage
-
-      //     if (contractId && preimage) {
-      //       // Convert bytes to hex string using ethers v6 syntax
-      //       const preimageHex = ethers.hexlify(preimage as Uint8Array);
-      //       const contractIdHex = ethers.hexlify(contractId as Uint8Array);
-
-      //       this.logger.log(
-      //         `Found preimage for contract ${contractIdHex}: ${preimageHex}`,
-      //       );
-
-      //       // Emit event for other services to handle
-      //       this.eventEmitter.emit("evm.preimage.discovered", {
-      //         contractId: contractIdHex,
-      //         preimage: preimageHex,
-      //         transactionHash: event.transactionHash,
-      //       } as PreimageDiscoveredEvent);
-      //     }
-      // }
-      //   }
-
-      // Update last processed block
-      //   this.monitoredContracts.set(htlcAddress, {
-      //   swapId: contractInfo.swapId,
-      //   lastBlock: endBlock,
-      // });
-    } catch (error: unknown) {
-      const errorMessage =
-        error instanceof Error ? error.message : String(error);
+      if (
+        this.finalityService.isFinal(
+          "evm",
+          observation.blockNumber,
+          currentBlock,
+          chain.chainId,
+        )
+      ) {
+        await this.finalityService.confirmObservation(observation);
+        if (observation.payload) {
+          this.eventEmitter.emit(observation.kind, observation.payload);
+        }
+      }
+    }
 
-      this.logger.error(
-        `Error checking events for HTLC ${htlcAddress}: ${errorMessage}`,
-      );
-      // Rethrow as a proper Error object to ensure type safety
-      throw new Error(
-        `Error checking events for HTLC ${htlcAddress}: ${errorMessage}`,
-      );
+    // Logs of the orphaned blocks may have moved, scan them again on the next poll
+    if (rewindTo !== null) {
+      const cursor = await this.getCursor(chain);
+      if (!cursor || cursor.position > rewindTo) {
+        await this.chainCursorService.set(cursorKey(chain.chainId), rewindTo);
+      }
     }
   }
 
+  /**
+   * Collect the escrow addresses of a chain whose events are relevant in a block range
+   */
+  private async getMonitoredAddresses(
+    chain: EvmChainConfig,
+    provider: Provider,
+    fromBlock: number,
+    toBlock: number,
+  ): Promise<string[]> {
+    const addresses = new Set(
+      Array.from(this.monitoredContracts)
+        .filter(([, contract]) => contract.chainId === chain.chainId)
+        .map(([address]) => address),
+    );
+
+    // Swaps created before the chain registry are on the default chain
+    const isDefaultChain =
+      chain.chainId === this.chainRegistryService.getDefaultChainId();
+    const swaps = await this.prismaService.swap.findMany({
+      where: {
+        evmHtlcAddress: { not: null },
+        status: { notIn: [SwapStatus.COMPLETED, SwapStatus.REFUNDED] },
+        OR: isDefaultChain
+          ? [{ evmChainId: chain.chainId }, { evmChainId: null }]
+          : [{ evmChainId: chain.chainId }],
+      },
+      select: { evmHtlcAddress: true },
+    });
+    // Swaps filled in parts have an escrow per fill
+    const fills = await this.prismaService.swapFill.findMany({
+      where: {
+        evmHtlcAddress: { not: null },
+        status: {
+          in: [SwapFillStatus.ESCROWS_CREATED, SwapFillStatus.SECRET_REVEALED],
+        },
+        swap: {
+          OR: isDefaultChain
+            ? [{ evmChainId: chain.chainId }, { evmChainId: null }]
+            : [{ evmChainId: chain.chainId }],
+        },
+      },
+      select: { evmHtlcAddress: true },
+    });
+    for (const { evmHtlcAddress } of [...swaps, ...fills]) {
+      if (evmHtlcAddress && ethers.isAddress(evmHtlcAddress)) {
+        addresses.add(evmHtlcAddress.toLowerCase());
+      }
+    }
+
+    // Escrows deployed in the range can be withdrawn in the same range,
+    // before the swap records their address
+    const deployed = this.factoryInterface.getEvent("EscrowDeployed");
+    if (deployed) {
+      const deployments: Log[] = await provider.getLogs({
+        address: chain.escrowFactoryAddress,
+        topics: [deployed.topicHash],
+        fromBlock,
+        toBlock,
+      });
+      for (const log of deployments) {
+        const parsed = this.factoryInterface.parseLog(log);
+        const escrow = parsed?.args.getValue("escrow") as string | undefined;
+        if (escrow) {
+          addresses.add(escrow.toLowerCase());
+        }
+      }
+    }
+
+    return Array.from(addresses);
+  }
+
   /**
    * Get the current monitoring status
-   * @returns Object containing active status and list of monitored contract addresses
+   * @returns Object containing active status and list of explicitly monitored escrow addresses
    */
   getMonitoringStatus(): { isActive: boolean; monitoredContracts: string[] } {
     return {
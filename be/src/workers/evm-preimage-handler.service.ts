@@ -3,27 +3,31 @@ import { OnEvent } from "@nestjs/event-emitter";
 import { PrismaService } from "../prisma/prisma.service";
 import { AptosService } from "../aptos/aptos.service";
 import { Swap, SwapDirection, SwapStatus } from "@prisma/client";
+import { SwapStateMachineService } from "../swap-state/swap-state-machine.service";
+import { SecretVaultService } from "../secrets/secret-vault.service";
+import { EscrowChainState } from "../types/escrow.types";
+import { getSwapAptosImmutables } from "../immutables/immutables";
+import {
+  EVM_PREIMAGE_DISCOVERED,
+  EvmPreimageDiscoveredEvent,
+} from "./events/evm-escrow.events";
 
 /**
- * Interface for preimage discovery event payload
+ * Swaps whose Aptos escrow still waits for the secret a withdrawal on EVM reveals
  */
-interface PreimageDiscoveredEvent {
-  contractId: string;
-  preimage: string;
-  transactionHash: string;
-}
-
-/**
- * Interface for Aptos withdrawal result
- */
-interface WithdrawResult {
-  success: boolean;
-  txHash?: string;
-  error?: string;
-}
+const CLAIMABLE_STATUSES: SwapStatus[] = [
+  SwapStatus.EVM_HTLC_CREATED,
+  SwapStatus.APTOS_HTLC_CREATED,
+  SwapStatus.REFUNDING,
+];
 
 /**
- * Service for handling discovered preimages from EVM HTLC events
+ * Service for handling discovered preimages from EVM HTLC events.
+ *
+ * A withdrawal of the EVM escrow the relayer did not make itself reveals the secret of the
+ * swap: the relayer then withdraws the Aptos escrow with it, paying the recipient of an EVM to
+ * Aptos swap or claiming its own escrow of an Aptos to EVM one. A swap being refunded is
+ * claimed as well, its escrows can no longer both be cancelled.
  */
 @Injectable()
 export class EvmPreimageHandlerService {
@@ -32,59 +36,42 @@ export class EvmPreimageHandlerService {
   constructor(
     private readonly prismaService: PrismaService,
     private readonly aptosService: AptosService,
-  ) { }
+    private readonly swapStateMachine: SwapStateMachineService,
+    private readonly secretVault: SecretVaultService,
+  ) {}
 
   /**
    * Handle preimage discovery events from EVM HTLC monitor
    */
-  @OnEvent("evm.preimage.discovered")
+  @OnEvent(EVM_PREIMAGE_DISCOVERED)
   async handlePreimageDiscovered(
-    payload: PreimageDiscoveredEvent,
+    payload: EvmPreimageDiscoveredEvent,
   ): Promise<void> {
-    const { contractId, preimage, transactionHash } = payload;
+    const { escrowAddress, preimage } = payload;
 
-    this.logger.log(
-      `Handling discovered preimage for contract ${contractId}: ${preimage}`,
-    );
+    this.logger.log(`Handling discovered preimage for escrow ${escrowAddress}`);
 
     try {
-      // Find swap with this contract ID
+      // Find swap with this escrow, logs carry checksummed addresses
       const swap = await this.prismaService.swap.findFirst({
         where: {
-          evmHtlcAddress: contractId,
-          status: "EVM_HTLC_CREATED", // Use string literal since SwapStatus enum might not have this value
-          direction: SwapDirection.EVM_TO_APTOS,
+          evmHtlcAddress: { equals: escrowAddress, mode: "insensitive" },
+          status: { in: CLAIMABLE_STATUSES },
         },
       });
 
       if (!swap) {
         this.logger.warn(
-          `No active swap found with EVM HTLC address ${contractId}`,
+          `No active swap found with EVM HTLC address ${escrowAddress}`,
         );
         return;
       }
 
-      this.logger.log(
-        `Found swap ${swap.id} for EVM HTLC ${contractId}, attempting to withdraw on Aptos`,
+      await this.claimAptosEscrow(
+        swap,
+        preimage,
+        `Preimage revealed on EVM in tx ${payload.transactionHash}`,
       );
-
-      // Update swap with preimage
-      // await this.prismaService.swap.update({
-      //   where: { id: swap.id },
-      //   data: {
-      //     preimage: preimage,
-      //     evmHtlcWithdrawTxHash: transactionHash,
-      //   },
-      // });
-
-      // If there's an Aptos HTLC address, withdraw there using the preimage
-      if (swap.aptosHtlcAddress) {
-        await this.withdrawOnAptos(swap, preimage);
-      } else {
-        this.logger.warn(
-          `Swap ${swap.id} has no Aptos HTLC address to withdraw from`,
-        );
-      }
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : "Unknown error";
@@ -93,58 +80,92 @@ export class EvmPreimageHandlerService {
   }
 
   /**
-   * Withdraw from Aptos HTLC using discovered preimage
+   * Record the secret the withdrawal of the EVM escrow of a swap revealed, then withdraw the
+   * Aptos escrow with it
+   * @param preimage - Secret in its canonical encoding
+   * @param reason - Where the secret was revealed, recorded in the timeline of the swap
+   */
+  async claimAptosEscrow(
+    swap: Swap,
+    preimage: string,
+    reason: string,
+  ): Promise<void> {
+    this.logger.log(
+      `Found swap ${swap.id} for EVM HTLC ${swap.evmHtlcAddress}, attempting to withdraw on Aptos`,
+    );
+
+    const updatedSwap = await this.swapStateMachine.transition(
+      swap.id,
+      SwapStatus.PREIMAGE_REVEALED,
+      { actor: EvmPreimageHandlerService.name, reason },
+      { preimage: this.secretVault.sealSwapSecret(swap.id, preimage) },
+    );
+
+    if (!updatedSwap.aptosHtlcAddress || !updatedSwap.aptosImmutables) {
+      this.logger.warn(
+        `Swap ${swap.id} has no Aptos HTLC address to withdraw from`,
+      );
+      return;
+    }
+
+    await this.withdrawOnAptos(updatedSwap, preimage);
+  }
+
+  /**
+   * Withdraw the Aptos escrow of a swap with the secret and complete the swap.
+   * A failed withdrawal leaves the swap PREIMAGE_REVEALED, the public window service
+   * withdraws the escrow with the recorded secret.
    */
   private async withdrawOnAptos(swap: Swap, preimage: string): Promise<void> {
+    const contractId = swap.aptosHtlcAddress as string;
+
     try {
       this.logger.log(
-        `Attempting to withdraw from Aptos HTLC ${swap.aptosHtlcAddress} using preimage ${preimage}`,
+        `Attempting to withdraw from Aptos HTLC ${contractId} using the discovered preimage`,
       );
 
-      // Call Aptos service to withdraw using preimage
-      // const result = await this.aptosService.withdrawHtlc(
-      //   swap.aptosHtlcAddress as string,
-      //   preimage
-      // );
-
-      // if (result.success) {
-      //   this.logger.log(
-      //     `Successfully withdrawn from Aptos HTLC ${swap.aptosHtlcAddress}, tx: ${result.txHash}`
-      //   );
-
-      //   // Update swap status
-      //   await this.prismaService.swap.update({
-      //     where: { id: swap.id },
-      //     data: {
-      //       status: "COMPLETED", // Use string literal instead of enum
-      //       aptosHtlcWithdrawTxHash: result.txHash,
-      //       completedAt: new Date().getTime(), // Convert to timestamp number
-      //     },
-      //  });
-      // } else {
-      //   this.logger.error(
-      //     `Failed to withdraw from Aptos HTLC: ${result.error}`
-      //   );
-
-      //   // Update swap with error
-      //   await this.prismaService.swap.update({
-      //     where: { id: swap.id },
-      //     data: {
-      //       errorMessage: `Failed to withdraw from Aptos HTLC: ${result.error}`, // Use errorMessage field instead of error
-      //     },
-      //   });
-      // }
+      const state = await this.aptosService.getEscrowState(contractId);
+      if (
+        state === EscrowChainState.MISSING ||
+        state === EscrowChainState.CANCELLED
+      ) {
+        throw new Error(`Aptos escrow ${contractId} is ${state}`);
+      }
+
+      let txHash: string | undefined;
+      if (state === EscrowChainState.ACTIVE) {
+        // Aptos to EVM swaps are claimed through the public path, like their completion
+        ({ txHash } = await this.aptosService.withdrawEscrow({
+          contractId,
+          secret: preimage,
+          coinType: getSwapAptosImmutables(swap).tokenType,
+          isPublic: swap.direction === SwapDirection.APTOS_TO_EVM,
+          swapId: swap.id,
+        }));
+        this.logger.log(
+          `Successfully withdrawn from Aptos HTLC ${contractId}, tx: ${txHash}`,
+        );
+      }
+
+      await this.swapStateMachine.transition(
+        swap.id,
+        SwapStatus.COMPLETED,
+        {
+          actor: EvmPreimageHandlerService.name,
+          reason: "Aptos escrow withdrawn",
+          txHash,
+        },
+        { completedAt: Math.floor(Date.now() / 1000) },
+      );
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : "Unknown error";
       this.logger.error(`Error withdrawing from Aptos HTLC: ${errorMessage}`);
 
-      // Update swap with error
       await this.prismaService.swap.update({
         where: { id: swap.id },
         data: {
-          status: SwapStatus.FAILED,
-          // Store error details in logs instead of trying to use a non-existent errorMessage field
+          errorMessage: `Failed to withdraw from Aptos HTLC: ${errorMessage}`,
         },
       });
     }
@@ -2,9 +2,10 @@ import { Module } from "@nestjs/common";
 import { OneInchOrderMonitorService } from "./one-inch-order-monitor.service";
 import { HttpModule } from "@nestjs/axios";
 import { PrismaModule } from "../prisma/prisma.module";
+import { SwapStateModule } from "../swap-state/swap-state.module";
 
 @Module({
-  imports: [HttpModule, PrismaModule],
+  imports: [HttpModule, PrismaModule, SwapStateModule],
   providers: [OneInchOrderMonitorService],
   exports: [OneInchOrderMonitorService],
 })
@@ -4,6 +4,7 @@ import { ConfigService } from "@nestjs/config";
 import { firstValueFrom, of } from "rxjs";
 import { PrismaService } from "../prisma/prisma.service";
 import { SwapStatus } from "@prisma/client";
+import { SwapStateMachineService } from "../swap-state/swap-state-machine.service";
 import { catchError, delay, retry } from "rxjs/operators";
 
 /**
@@ -42,7 +43,8 @@ export class OneInchOrderMonitorService {
   constructor(
     private readonly httpService: HttpService,
     private readonly configService: ConfigService,
-    private readonly prismaService: PrismaService
+    private readonly prismaService: PrismaService,
+    private readonly swapStateMachine: SwapStateMachineService,
   ) {
     this.apiUrl = this.configService.get<string>("ONE_INCH_API_URL") || "https://fusion.1inch.io";
     this.apiKey = this.configService.get<string>("ONE_INCH_API_KEY") || "";
@@ -154,19 +156,22 @@ export class OneInchOrderMonitorService {
         break;
       case FusionOrderStatus.PENDING:
       default:
-        swapStatus = SwapStatus.PENDING;
-        break;
+        // A pending order does not move the swap
+        return;
     }
     
     // Update the swap status in the database
     try {
-      await this.prismaService.swap.update({
+      const swap = await this.prismaService.swap.findUnique({
         where: { id: swapId },
-        data: {
-          status: swapStatus,
-          updatedAt: new Date()
-          // Дополнительные детали можно сохранить в другие поля при необходимости
-        }
+      });
+      if (swap?.status === swapStatus) {
+        return;
+      }
+
+      await this.swapStateMachine.transition(swapId, swapStatus, {
+        actor: OneInchOrderMonitorService.name,
+        reason: `1inch order ${status.orderHash} is ${status.status}`,
       });
       
       this.logger.log(`Updated swap ${swapId} status to ${swapStatus}`);
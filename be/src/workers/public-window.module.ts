@@ -0,0 +1,13 @@
+import { Module } from "@nestjs/common";
+import { PublicWindowService } from "./public-window.service";
+import { PrismaModule } from "../prisma/prisma.module";
+import { EvmModule } from "../evm/evm.module";
+import { AptosModule } from "../aptos/aptos.module";
+import { SecretsModule } from "../secrets/secrets.module";
+
+@Module({
+  imports: [PrismaModule, EvmModule, AptosModule, SecretsModule],
+  providers: [PublicWindowService],
+  exports: [PublicWindowService],
+})
+export class PublicWindowModule {}
@@ -0,0 +1,295 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { Cron } from "@nestjs/schedule";
+import { Swap, SwapFill, SwapFillStatus, SwapStatus } from "@prisma/client";
+import { ethers } from "ethers";
+import { PrismaService } from "../prisma/prisma.service";
+import { EvmService } from "../evm/evm.service";
+import { AptosService } from "../aptos/aptos.service";
+import { SecretVaultService } from "../secrets/secret-vault.service";
+import { EscrowChainState } from "../types/escrow.types";
+import { TimelockStage } from "../timelocks/timelocks";
+import {
+  getSwapAptosImmutables,
+  getSwapEvmImmutables,
+} from "../immutables/immutables";
+
+/**
+ * Statuses whose escrows may still hold funds and are not being refunded
+ */
+const WATCHED_STATUSES: SwapStatus[] = [
+  SwapStatus.EVM_HTLC_CREATED,
+  SwapStatus.APTOS_HTLC_CREATED,
+  SwapStatus.USER_WITHDREW_APTOS,
+  SwapStatus.PREIMAGE_REVEALED,
+];
+
+/**
+ * Fills whose escrows may still hold funds
+ */
+const WATCHED_FILL_STATUSES: SwapFillStatus[] = [
+  SwapFillStatus.ESCROWS_CREATED,
+  SwapFillStatus.SECRET_REVEALED,
+];
+
+/**
+ * Escrows of a swap, or of one of its fills, and the secret that unlocks them
+ */
+type EscrowTarget = {
+  label: string;
+  escrows: Pick<
+    SwapFill,
+    | "id"
+    | "evmHtlcAddress"
+    | "aptosHtlcAddress"
+    | "evmImmutables"
+    | "aptosImmutables"
+  >;
+  // Whether the relayer stored the secret, read from the vault only when needed
+  hasSecret: boolean;
+  revealSecret: (purpose: string) => Promise<string | null>;
+};
+
+/**
+ * Service acting in the public timelock windows of the escrows.
+ *
+ * Once the private window of an escrow has passed without its counterparty acting,
+ * the relayer withdraws it with the known secret (`SrcPublicWithdrawal`, `dst_public_withdrawal`)
+ * or cancels it (`SrcPublicCancellation`) and collects the safety deposit.
+ * The resulting Withdrawal and EscrowCancelled events only settle the inventory of the escrow,
+ * the swap keeps its status until the refund handler reads the escrow states on-chain.
+ * The secret is read from the vault, which withholds it until both escrows are final.
+ *
+ * Covers the escrows created by the relayer, whose immutables are recorded on the swap, or on
+ * its fills for a swap filled in parts.
+ * escrow_dst has no public cancellation, expired Aptos escrows are left to the refund handler.
+ */
+@Injectable()
+export class PublicWindowService {
+  private readonly logger = new Logger(PublicWindowService.name);
+  private isRunning = false;
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly evmService: EvmService,
+    private readonly aptosService: AptosService,
+    private readonly secretVault: SecretVaultService,
+  ) {}
+
+  /**
+   * Run every minute to act on escrows whose public window opened
+   */
+  @Cron("30 * * * * *")
+  async handlePublicWindows(): Promise<void> {
+    // A slow chain may make a run outlast the interval
+    if (this.isRunning) {
+      return;
+    }
+
+    this.isRunning = true;
+    try {
+      const swaps = await this.prismaService.swap.findMany({
+        where: { status: { in: WATCHED_STATUSES } },
+      });
+
+      for (const swap of swaps) {
+        await this.processSwap(swap);
+      }
+    } catch (error) {
+      this.logger.error("Error handling public windows:", error);
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Act on both escrows of a swap, or of each of its open fills when it is filled in parts.
+   * A failure on one chain does not block the other
+   * @param swap - The swap to process
+   */
+  private async processSwap(swap: Swap): Promise<void> {
+    const targets: EscrowTarget[] =
+      swap.partsCount === null
+        ? [
+            {
+              label: `swap ${swap.id}`,
+              escrows: swap,
+              hasSecret: swap.preimage !== null,
+              revealSecret: (purpose) =>
+                this.secretVault.revealSwapSecret(swap, {
+                  actor: PublicWindowService.name,
+                  purpose,
+                }),
+            },
+          ]
+        : await this.getFillTargets(swap);
+
+    for (const target of targets) {
+      try {
+        await this.processEvmEscrow(swap, target);
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        this.logger.error(
+          `Error in the EVM public window of ${target.label}: ${errorMessage}`,
+        );
+      }
+
+      try {
+        await this.processAptosEscrow(swap, target);
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        this.logger.error(
+          `Error in the Aptos public window of ${target.label}: ${errorMessage}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Get the escrows of the fills of a swap that may still hold funds, each unlocked by its own secret
+   */
+  private async getFillTargets(swap: Swap): Promise<EscrowTarget[]> {
+    const fills = await this.prismaService.swapFill.findMany({
+      where: {
+        swapId: swap.id,
+        status: { in: WATCHED_FILL_STATUSES },
+      },
+    });
+
+    return fills.map((fill) => ({
+      label: `fill ${fill.secretIndex} of swap ${swap.id}`,
+      escrows: fill,
+      hasSecret: fill.status === SwapFillStatus.SECRET_REVEALED,
+      revealSecret: (purpose) =>
+        this.secretVault.revealFillSecret(swap, fill, {
+          actor: PublicWindowService.name,
+          purpose,
+        }),
+    }));
+  }
+
+  /**
+   * Publicly withdraw or cancel the EVM escrow of a swap or a fill
+   * @param swap - The swap to process
+   * @param target - Escrows of the swap or of one of its fills
+   */
+  private async processEvmEscrow(
+    swap: Swap,
+    target: EscrowTarget,
+  ): Promise<void> {
+    const { escrows } = target;
+    const escrowAddress = escrows.evmHtlcAddress;
+
+    // Only the escrows deployed by the relayer have their immutables recorded
+    if (
+      !escrows.evmImmutables ||
+      !escrowAddress ||
+      !ethers.isAddress(escrowAddress)
+    ) {
+      return;
+    }
+
+    const immutables = getSwapEvmImmutables(escrows);
+    const stages = immutables.timelocks.values;
+    const now = BigInt(Math.floor(Date.now() / 1000));
+
+    const canWithdraw =
+      target.hasSecret &&
+      now >= stages[TimelockStage.SrcPublicWithdrawal] &&
+      now < stages[TimelockStage.SrcCancellation];
+    const canCancel = now >= stages[TimelockStage.SrcPublicCancellation];
+    if (!canWithdraw && !canCancel) {
+      return;
+    }
+
+    const state = await this.evmService.getEscrowState(
+      escrowAddress,
+      swap.evmChainId,
+    );
+    if (state !== EscrowChainState.ACTIVE) {
+      return;
+    }
+
+    const secret = canWithdraw
+      ? await target.revealSecret(
+          `Public withdrawal of EVM escrow ${escrowAddress}`,
+        )
+      : null;
+    if (secret) {
+      const { txHash } = await this.evmService.withdrawEscrow(
+        escrowAddress,
+        secret,
+        immutables,
+        true,
+        swap,
+      );
+      this.logger.log(
+        `Publicly withdrew EVM escrow ${escrowAddress} of ${target.label} (tx: ${txHash}, safety deposit: ${immutables.safetyDeposit})`,
+      );
+      return;
+    }
+    if (!canCancel) {
+      return;
+    }
+
+    const { txHash } = await this.evmService.cancelEscrow(
+      escrowAddress,
+      immutables,
+      true,
+      1,
+      swap,
+    );
+    this.logger.log(
+      `Publicly cancelled EVM escrow ${escrowAddress} of ${target.label} (tx: ${txHash}, safety deposit: ${immutables.safetyDeposit})`,
+    );
+  }
+
+  /**
+   * Publicly withdraw the Aptos escrow of a swap or a fill with the known secret
+   * @param swap - The swap to process
+   * @param target - Escrows of the swap or of one of its fills
+   */
+  private async processAptosEscrow(
+    swap: Swap,
+    target: EscrowTarget,
+  ): Promise<void> {
+    const { escrows } = target;
+    const contractId = escrows.aptosHtlcAddress;
+    if (!contractId || !escrows.aptosImmutables || !target.hasSecret) {
+      return;
+    }
+
+    const { tokenType, timelocks } = getSwapAptosImmutables(escrows);
+    const now = Math.floor(Date.now() / 1000);
+    if (
+      now < timelocks.dstPublicWithdrawal ||
+      now >= timelocks.dstCancellation
+    ) {
+      return;
+    }
+
+    const state = await this.aptosService.getEscrowState(contractId);
+    if (state !== EscrowChainState.ACTIVE) {
+      return;
+    }
+
+    const secret = await target.revealSecret(
+      `Public withdrawal of Aptos escrow ${contractId}`,
+    );
+    if (!secret) {
+      return;
+    }
+
+    const { txHash } = await this.aptosService.withdrawEscrow({
+      contractId,
+      secret,
+      coinType: tokenType,
+      isPublic: true,
+      swapId: swap.id,
+    });
+    this.logger.log(
+      `Publicly withdrew Aptos escrow ${contractId} of ${target.label} (tx: ${txHash})`,
+    );
+  }
+}
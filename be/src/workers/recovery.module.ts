@@ -4,13 +4,21 @@ import { PrismaModule } from "../prisma/prisma.module";
 import { OneInchOrderMonitorModule } from "./one-inch-order-monitor.module";
 import { AptosHtlcMonitorModule } from "./aptos-htlc-monitor.module";
 import { EvmHtlcMonitorModule } from "./evm-htlc-monitor.module";
+import { SwapStateModule } from "../swap-state/swap-state.module";
+import { RefundHandlerModule } from "./refund-handler.module";
+import { EvmModule } from "../evm/evm.module";
+import { AptosModule } from "../aptos/aptos.module";
 
 @Module({
   imports: [
     PrismaModule,
     OneInchOrderMonitorModule,
     AptosHtlcMonitorModule,
-    EvmHtlcMonitorModule
+    EvmHtlcMonitorModule,
+    SwapStateModule,
+    RefundHandlerModule,
+    EvmModule,
+    AptosModule,
   ],
   providers: [RecoveryService],
   exports: [RecoveryService],
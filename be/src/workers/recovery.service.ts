@@ -1,9 +1,23 @@
 import { Injectable, Logger, OnModuleInit } from "@nestjs/common";
+import { ethers } from "ethers";
 import { PrismaService } from "../prisma/prisma.service";
 import { Swap, SwapStatus, SwapDirection } from "@prisma/client";
 import { OneInchOrderMonitorService } from "./one-inch-order-monitor.service";
 import { AptosHtlcMonitorService } from "./aptos-htlc-monitor.service";
 import { EvmHtlcMonitorService } from "./evm-htlc-monitor.service";
+import { RefundHandlerService } from "./refund-handler.service";
+import { SwapStateMachineService } from "../swap-state/swap-state-machine.service";
+import { EvmService } from "../evm/evm.service";
+import { AptosService } from "../aptos/aptos.service";
+import { EscrowChainState } from "../types/escrow.types";
+
+/**
+ * On-chain state of the escrows a swap references
+ */
+interface EscrowStates {
+  evm?: EscrowChainState;
+  aptos?: EscrowChainState;
+}
 
 /**
  * Service for recovering and resuming processes after server restart
@@ -17,7 +31,11 @@ export class RecoveryService implements OnModuleInit {
     private readonly oneInchOrderMonitorService: OneInchOrderMonitorService,
     private readonly aptosHtlcMonitorService: AptosHtlcMonitorService,
     private readonly evmHtlcMonitorService: EvmHtlcMonitorService,
-  ) { }
+    private readonly swapStateMachine: SwapStateMachineService,
+    private readonly refundHandlerService: RefundHandlerService,
+    private readonly evmService: EvmService,
+    private readonly aptosService: AptosService,
+  ) {}
 
   /**
    * Initialize recovery process when module starts
@@ -59,50 +77,161 @@ export class RecoveryService implements OnModuleInit {
   }
 
   /**
-   * Recover a specific swap
+   * Recover a specific swap.
+   * Errors leave the swap untouched, so the next recovery run retries it.
    * @param swap - The swap to recover
    */
   private async recoverSwap(swap: Swap): Promise<void> {
     this.logger.log(`Recovering swap ${swap.id} with status ${swap.status}`);
 
     try {
-      // switch (swap.status) {
-      //   case SwapStatus.PENDING:
-      //     // For pending swaps, check if there's an order hash and restart monitoring
-      //     if (swap.orderHash) {
-      //       this.logger.log(`Restarting order monitoring for swap ${swap.id}`);
-      //       await this.oneInchOrderMonitorService.startOrderMonitoring(swap.orderHash, swap.id);
-      //     }
-      //     break;
-      //   case SwapStatus.EVM_HTLC_CREATED:
-      //     // For EVM HTLC created, monitor for preimage reveal
-      //     if (swap.direction === SwapDirection.EVM_TO_APTOS && swap.evmHtlcAddress) {
-      //       this.logger.log(`Restarting EVM HTLC monitoring for swap ${swap.id}`);
-      //       await this.evmHtlcMonitorService.startMonitoring(swap.id, swap.evmHtlcAddress);
-      //     }
-      //     break;
-      //   case SwapStatus.APTOS_HTLC_CREATED:
-      //     // For Aptos HTLC created, monitor for preimage reveal
-      //     if (swap.aptosHtlcAddress) {
-      //       this.logger.log(`Restarting preimage monitoring for swap ${swap.id}`);
-      //       await this.aptosHtlcMonitorService.startMonitoring(swap.id, swap.aptosHtlcAddress);
-      //     }
-      //     break;
-      //   default:
-      //     this.logger.log(`No recovery action needed for swap ${swap.id} with status ${swap.status}`);
-      //     break;
-      // }
+      if (swap.status === SwapStatus.PENDING) {
+        await this.resumePendingSwap(swap);
+        return;
+      }
+
+      const escrowStates = await this.readEscrowStates(swap);
+      await this.reconcileSwap(swap, escrowStates);
     } catch (error) {
-      this.logger.error(`Error recovering swap ${swap.id}:`, error);
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.error(`Error recovering swap ${swap.id}: ${errorMessage}`);
+    }
+  }
 
-      // Update swap status to indicate recovery failure
-      await this.prismaService.swap.update({
-        where: { id: swap.id },
-        data: {
-          status: SwapStatus.FAILED,
-          updatedAt: new Date(),
-        },
+  /**
+   * Fail a pending swap that timed out, otherwise resume watching its 1inch order
+   */
+  private async resumePendingSwap(swap: Swap): Promise<void> {
+    if (swap.timelock < Math.floor(Date.now() / 1000)) {
+      await this.swapStateMachine.transition(swap.id, SwapStatus.FAILED, {
+        actor: RecoveryService.name,
+        reason: "Timed out before any escrow was created",
       });
+      return;
+    }
+
+    // EVM to Aptos swaps keep the order hash in evmHtlcAddress until the escrow exists
+    const orderHash =
+      swap.orderHash ??
+      (swap.direction === SwapDirection.EVM_TO_APTOS
+        ? swap.evmHtlcAddress
+        : null);
+
+    if (orderHash) {
+      this.logger.log(`Restarting order monitoring for swap ${swap.id}`);
+      await this.oneInchOrderMonitorService.startOrderMonitoring(
+        orderHash,
+        swap.id,
+      );
+    } else {
+      this.logger.log(`No order to monitor for pending swap ${swap.id}`);
+    }
+  }
+
+  /**
+   * Read the escrows of a swap from their chains
+   */
+  private async readEscrowStates(swap: Swap): Promise<EscrowStates> {
+    const states: EscrowStates = {};
+
+    if (swap.evmHtlcAddress && ethers.isAddress(swap.evmHtlcAddress)) {
+      states.evm = await this.evmService.getEscrowState(
+        swap.evmHtlcAddress,
+        swap.evmChainId,
+      );
+    }
+
+    if (swap.aptosHtlcAddress) {
+      states.aptos = await this.aptosService.getEscrowState(
+        swap.aptosHtlcAddress,
+      );
+    }
+
+    return states;
+  }
+
+  /**
+   * Bring a swap with escrows in line with the chains, then resume it
+   * @param swap - Swap in EVM_HTLC_CREATED or APTOS_HTLC_CREATED status
+   * @param escrowStates - On-chain state of its escrows
+   */
+  private async reconcileSwap(
+    swap: Swap,
+    escrowStates: EscrowStates,
+  ): Promise<void> {
+    const legs = Object.entries(escrowStates) as [
+      keyof EscrowStates,
+      EscrowChainState,
+    ][];
+
+    const missing = legs.find(
+      ([, state]) => state === EscrowChainState.MISSING,
+    );
+    if (missing) {
+      const errorMessage = `${missing[0].toUpperCase()} escrow not found on-chain`;
+
+      // The other escrow still holds funds, refund it instead of leaving them locked
+      if (legs.some(([, state]) => state === EscrowChainState.ACTIVE)) {
+        this.logger.log(`${errorMessage} for swap ${swap.id}, refunding`);
+        await this.refundHandlerService.scheduleRefund(
+          swap,
+          `${errorMessage}, the other escrow is refunded`,
+        );
+        return;
+      }
+
+      await this.swapStateMachine.transition(
+        swap.id,
+        SwapStatus.FAILED,
+        { actor: RecoveryService.name, reason: errorMessage },
+        { errorMessage },
+      );
+      return;
+    }
+
+    if (
+      legs.length > 0 &&
+      legs.every(([, state]) => state === EscrowChainState.CANCELLED)
+    ) {
+      await this.swapStateMachine.transition(
+        swap.id,
+        SwapStatus.REFUNDED,
+        { actor: RecoveryService.name, reason: "Escrows cancelled on-chain" },
+        { cancelledAt: Math.floor(Date.now() / 1000) },
+      );
+      return;
+    }
+
+    // A revealed secret is picked up by the monitors and completes the swap,
+    // only swaps nobody withdrew from are refunded
+    const withdrawn = legs.some(
+      ([, state]) => state === EscrowChainState.WITHDRAWN,
+    );
+    if (!withdrawn && swap.timelock < Math.floor(Date.now() / 1000)) {
+      this.logger.log(`Swap ${swap.id} expired while stopped, refunding`);
+      await this.refundHandlerService.scheduleRefund(
+        swap,
+        "Expired while the relayer was stopped",
+      );
+      return;
+    }
+
+    if (escrowStates.evm && swap.evmHtlcAddress) {
+      this.logger.log(`Restarting EVM escrow monitoring for swap ${swap.id}`);
+      await this.evmHtlcMonitorService.startMonitoring(
+        swap.id,
+        swap.evmHtlcAddress,
+        swap.evmChainId,
+      );
+    }
+
+    if (escrowStates.aptos && swap.aptosHtlcAddress) {
+      this.logger.log(`Restarting Aptos escrow monitoring for swap ${swap.id}`);
+      await this.aptosHtlcMonitorService.startMonitoring(
+        swap.id,
+        swap.aptosHtlcAddress,
+      );
     }
   }
 
@@ -150,62 +279,12 @@ export class RecoveryService implements OnModuleInit {
     );
 
     try {
-      // Check if the swap has timed out
-      const currentTimestamp = Math.floor(Date.now() / 1000);
-
-      if (swap.timelock < currentTimestamp) {
-        this.logger.log(`Swap ${swap.id} has timed out, marking for refund`);
-
-        // Mark the swap for refund
-        await this.prismaService.swap.update({
-          where: { id: swap.id },
-          data: {
-            status: SwapStatus.REFUNDED,
-            updatedAt: new Date(),
-          },
-        });
-
-        return;
-      }
-
-      // If not timed out, restart the appropriate monitoring process
-      // switch (swap.status) {
-      //   case SwapStatus.PENDING:
-      //     if (swap.orderHash) {
-      //       this.logger.log(
-      //         `Restarting order monitoring for stuck swap ${swap.id}`,
-      //       );
-      //       await this.oneInchOrderMonitorService.startOrderMonitoring(
-      //         swap.orderHash,
-      //         swap.id,
-      //       );
-      //     }
-      //     break;
-
-      //   case SwapStatus.EVM_HTLC_CREATED:
-      //   case SwapStatus.APTOS_HTLC_CREATED:
-      //     // Restart appropriate monitoring based on swap direction
-      //     this.logger.log(
-      //       `Restarting HTLC monitoring for stuck swap ${swap.id}`,
-      //     );
-      //     if (swap.aptosHtlcAddress) {
-      //       await this.aptosHtlcMonitorService.startMonitoring(
-      //         swap.id,
-      //         swap.aptosHtlcAddress,
-      //       );
-      //     }
-      //     if (swap.evmHtlcAddress) {
-      //       await this.evmHtlcMonitorService.startMonitoring(
-      //         swap.id,
-      //         swap.evmHtlcAddress,
-      //       );
-      //     }
-      //     break;
-      // }
+      // Same checks as after a restart: timeouts, on-chain state, monitors
+      await this.recoverSwap(swap);
 
       // Update the swap to indicate recovery attempt
-      await this.prismaService.swap.update({
-        where: { id: swap.id },
+      await this.prismaService.swap.updateMany({
+        where: { id: swap.id, status: swap.status },
         data: {
           updatedAt: new Date(),
         },
@@ -1,9 +1,13 @@
-import { Module } from '@nestjs/common';
-import { RefundHandlerService } from './refund-handler.service';
-import { PrismaModule } from '../prisma/prisma.module';
-import { EvmModule } from '../evm/evm.module';
-import { AptosModule } from '../aptos/aptos.module';
-import { ScheduleModule } from '@nestjs/schedule';
+import { Module } from "@nestjs/common";
+import { RefundHandlerService } from "./refund-handler.service";
+import { PrismaModule } from "../prisma/prisma.module";
+import { EvmModule } from "../evm/evm.module";
+import { AptosModule } from "../aptos/aptos.module";
+import { ScheduleModule } from "@nestjs/schedule";
+import { SwapStateModule } from "../swap-state/swap-state.module";
+import { FinalityModule } from "../finality/finality.module";
+import { InventoryModule } from "../inventory/inventory.module";
+import { EvmHtlcMonitorModule } from "./evm-htlc-monitor.module";
 
 @Module({
   imports: [
@@ -11,6 +15,10 @@ import { ScheduleModule } from '@nestjs/schedule';
     EvmModule,
     AptosModule,
     ScheduleModule.forRoot(),
+    SwapStateModule,
+    FinalityModule,
+    InventoryModule,
+    EvmHtlcMonitorModule,
   ],
   providers: [RefundHandlerService],
   exports: [RefundHandlerService],
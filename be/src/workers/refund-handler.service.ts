@@ -1,27 +1,74 @@
 import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
 import { PrismaService } from "../prisma/prisma.service";
-import { SwapStatus, Swap, SwapDirection } from "@prisma/client";
+import { SwapStatus, Swap } from "@prisma/client";
+import { ethers } from "ethers";
 import { EvmService } from "../evm/evm.service";
 import { AptosService } from "../aptos/aptos.service";
 import { Cron } from "@nestjs/schedule";
+import { SwapStateMachineService } from "../swap-state/swap-state-machine.service";
+import { FinalityService } from "../finality/finality.service";
+import { InventoryService } from "../inventory/inventory.service";
+import { EscrowChainState } from "../types/escrow.types";
+import { TimelockStage } from "../timelocks/timelocks";
+import {
+  getSwapAptosImmutables,
+  getSwapEvmImmutables,
+} from "../immutables/immutables";
+import { EvmPreimageHandlerService } from "./evm-preimage-handler.service";
+import {
+  EVM_PREIMAGE_DISCOVERED,
+  EvmPreimageDiscoveredEvent,
+} from "./events/evm-escrow.events";
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_RETRY_BASE_SECONDS = 60;
+
+/**
+ * Refund that retrying cannot fix, e.g. the counterparty already withdrew
+ */
+class RefundNotPossibleError extends Error {}
 
 /**
- * Service for handling refunds of expired HTLCs
+ * Service for handling refunds of expired HTLCs.
+ *
+ * Expired swaps move to REFUNDING and every escrow of the relayer still holding funds is cancelled
+ * on-chain, including the escrows of swaps that failed after locking funds. The senders of Aptos
+ * to EVM swaps cancel the Aptos escrows they created themselves.
+ * Each attempt reads the escrow state first, so retrying after a partial refund or a crash
+ * only cancels what is left. The swap is REFUNDED once every cancellation is confirmed.
+ * An EVM escrow withdrawn meanwhile revealed the secret: the Aptos escrow is then withdrawn
+ * with it instead of cancelled.
  */
 @Injectable()
 export class RefundHandlerService {
   private readonly logger = new Logger(RefundHandlerService.name);
+  private readonly refundsInFlight = new Set<string>();
+  private readonly maxAttempts: number;
+  private readonly retryBaseSeconds: number;
 
   constructor(
+    private readonly configService: ConfigService,
     private readonly prismaService: PrismaService,
     private readonly evmService: EvmService,
     private readonly aptosService: AptosService,
-  ) { }
+    private readonly swapStateMachine: SwapStateMachineService,
+    private readonly finalityService: FinalityService,
+    private readonly inventoryService: InventoryService,
+    private readonly evmPreimageHandler: EvmPreimageHandlerService,
+  ) {
+    this.maxAttempts =
+      Number(this.configService.get<string>("REFUND_MAX_ATTEMPTS")) ||
+      DEFAULT_MAX_ATTEMPTS;
+    this.retryBaseSeconds =
+      Number(this.configService.get<string>("REFUND_RETRY_BASE_SECONDS")) ||
+      DEFAULT_RETRY_BASE_SECONDS;
+  }
 
   /**
-   * Run every 10 minutes to check for expired HTLCs
+   * Run every minute to start refunds of expired HTLCs and retry the due ones
    */
-  @Cron("0 */10 * * * *")
+  @Cron("0 * * * * *")
   async handleExpiredHtlcs(): Promise<void> {
     this.logger.log("Checking for expired HTLCs...");
 
@@ -35,6 +82,15 @@ export class RefundHandlerService {
           OR: [
             { status: SwapStatus.EVM_HTLC_CREATED },
             { status: SwapStatus.APTOS_HTLC_CREATED },
+            // Failed swaps may still hold funds, but not the ones a refund already gave up on
+            {
+              status: SwapStatus.FAILED,
+              refundAttempts: 0,
+              OR: [
+                { evmHtlcAddress: { not: null } },
+                { aptosHtlcAddress: { not: null } },
+              ],
+            },
           ],
           // Timelock is the expiration time in seconds since epoch
           timelock: { lt: currentTimestamp },
@@ -44,6 +100,20 @@ export class RefundHandlerService {
       this.logger.log(`Found ${expiredSwaps.length} expired HTLCs`);
 
       for (const swap of expiredSwaps) {
+        await this.startRefund(swap, "Timelock expired");
+      }
+
+      const dueRefunds = await this.prismaService.swap.findMany({
+        where: {
+          status: SwapStatus.REFUNDING,
+          OR: [
+            { nextRefundAt: null },
+            { nextRefundAt: { lte: currentTimestamp } },
+          ],
+        },
+      });
+
+      for (const swap of dueRefunds) {
         await this.processRefund(swap);
       }
     } catch (error) {
@@ -52,83 +122,307 @@ export class RefundHandlerService {
   }
 
   /**
-   * Process refund for a specific swap
+   * Refund a swap now instead of waiting for the next run, e.g. when recovery finds it expired
+   * @param swap - The swap to refund
+   * @param reason - Why the swap is refunded, recorded in its timeline
+   */
+  async scheduleRefund(swap: Swap, reason: string): Promise<void> {
+    const refunding =
+      swap.status === SwapStatus.REFUNDING
+        ? swap
+        : await this.startRefund(swap, reason);
+
+    if (refunding) {
+      await this.processRefund(refunding);
+    }
+  }
+
+  /**
+   * Move a swap to REFUNDING with a fresh retry budget
+   * @returns The updated swap, or null when another worker moved it first
+   */
+  private async startRefund(swap: Swap, reason: string): Promise<Swap | null> {
+    try {
+      const refunding = await this.swapStateMachine.transition(
+        swap.id,
+        SwapStatus.REFUNDING,
+        { actor: RefundHandlerService.name, reason },
+        { refundAttempts: 0, nextRefundAt: null },
+      );
+      // A fill the resolver scheduled will not happen anymore
+      await this.inventoryService.releaseScheduled(swap.id, "evm");
+      return refunding;
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.warn(
+        `Could not start refund for swap ${swap.id}: ${errorMessage}`,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Cancel the escrows of a REFUNDING swap and mark it REFUNDED once all are cancelled
    * @param swap - The swap to process refund for
    */
   private async processRefund(swap: Swap): Promise<void> {
-    this.logger.log(`Processing refund for swap ${swap.id}`);
+    // The scheduled run and recovery may pick up the same swap
+    if (this.refundsInFlight.has(swap.id)) {
+      return;
+    }
+    this.refundsInFlight.add(swap.id);
+
+    this.logger.log(
+      `Processing refund for swap ${swap.id} (attempt ${swap.refundAttempts + 1})`,
+    );
 
     try {
-      // Update swap status to indicate refund is in progress
-      await this.prismaService.swap.update({
-        where: { id: swap.id },
-        data: { status: SwapStatus.REFUNDED },
-      });
+      const evmRefund = await this.processEvmRefund(swap);
+      if (evmRefund.withdrawn) {
+        await this.claimWithdrawnSwap(swap);
+        return;
+      }
+      const aptosRefund = await this.processAptosRefund(swap);
 
-      // Process refund based on swap direction
-      if (swap.direction === SwapDirection.EVM_TO_APTOS) {
-        if (swap.evmHtlcAddress) {
-          await this.processEvmRefund(swap);
-        }
-      } else if (swap.direction === SwapDirection.APTOS_TO_EVM) {
-        if (swap.aptosHtlcAddress) {
-          await this.processAptosRefund(swap);
-        }
+      const nextRefundAt = Math.min(
+        evmRefund.cancellableAt ?? Infinity,
+        aptosRefund.cancellableAt ?? Infinity,
+      );
+      if (nextRefundAt !== Infinity) {
+        // Not a failed attempt, an escrow is just not cancellable yet
+        await this.prismaService.swap.update({
+          where: { id: swap.id },
+          data: { nextRefundAt },
+        });
+        this.logger.log(
+          `Swap ${swap.id} waits for its escrows, cancellable at ${nextRefundAt}`,
+        );
+        return;
       }
 
-      // Update swap with refund timestamp
-      await this.prismaService.swap.update({
-        where: { id: swap.id },
-        data: {
-          cancelledAt: Math.floor(Date.now() / 1000),
+      // Mark the swap refunded only once every cancellation is confirmed
+      await this.swapStateMachine.transition(
+        swap.id,
+        SwapStatus.REFUNDED,
+        {
+          actor: RefundHandlerService.name,
+          reason: "Escrows cancelled on-chain",
+          txHash:
+            aptosRefund.txHash ??
+            evmRefund.txHash ??
+            swap.aptosRefundTxHash ??
+            swap.evmRefundTxHash ??
+            undefined,
         },
-      });
+        { cancelledAt: Math.floor(Date.now() / 1000), nextRefundAt: null },
+      );
 
       this.logger.log(`Refund processed successfully for swap ${swap.id}`);
     } catch (error) {
       this.logger.error(`Error processing refund for swap ${swap.id}:`, error);
+      await this.handleRefundFailure(swap, error);
+    } finally {
+      this.refundsInFlight.delete(swap.id);
+    }
+  }
 
-      // Update swap status to indicate failure
-      await this.prismaService.swap.update({
-        where: { id: swap.id },
-        data: { status: SwapStatus.FAILED },
-      });
+  /**
+   * Cancel the EVM escrow the relayer deployed for an Aptos to EVM swap once anyone may cancel it
+   * @param swap - The swap to process refund for
+   * @returns Cancellation transaction hash, the time to retry at while the escrow is still locked,
+   * or whether the counterparty withdrew it
+   */
+  private async processEvmRefund(
+    swap: Swap,
+  ): Promise<{ txHash?: string; cancellableAt?: number; withdrawn?: boolean }> {
+    const escrowAddress = swap.evmHtlcAddress;
+
+    // EVM to Aptos swaps store the Fusion order hash until the resolver deploys the escrow
+    if (!escrowAddress || !ethers.isAddress(escrowAddress)) {
+      return {};
+    }
+
+    if (!swap.evmImmutables) {
+      // Only the escrows deployed by the relayer have their immutables recorded
+      this.logger.warn(
+        `Skipping EVM escrow ${escrowAddress} of swap ${swap.id}: its immutables are unknown, the maker cancels it`,
+      );
+      return {};
+    }
+
+    const state = await this.evmService.getEscrowState(
+      escrowAddress,
+      swap.evmChainId,
+    );
+    if (state === EscrowChainState.WITHDRAWN) {
+      return { withdrawn: true };
     }
+    if (state !== EscrowChainState.ACTIVE) {
+      return {};
+    }
+
+    const immutables = getSwapEvmImmutables(swap);
+    const cancellableAt = Number(
+      immutables.timelocks.values[TimelockStage.SrcPublicCancellation],
+    );
+    if (Math.floor(Date.now() / 1000) < cancellableAt) {
+      return { cancellableAt };
+    }
+
+    const { txHash } = await this.evmService.cancelEscrow(
+      escrowAddress,
+      immutables,
+      true,
+      this.finalityService.getConfirmations("evm", swap.evmChainId),
+      swap,
+    );
+    this.logger.log(`EVM refund transaction hash: ${txHash}`);
+
+    await this.prismaService.swap.update({
+      where: { id: swap.id },
+      data: { evmRefundTxHash: txHash },
+    });
+    return { txHash };
   }
 
   /**
-   * Process refund for EVM HTLC
+   * Cancel the Aptos escrow the relayer created for an EVM to Aptos swap once its cancellation timelock passed
    * @param swap - The swap to process refund for
+   * @returns Cancellation transaction hash, or the time to retry at while the escrow is still locked
    */
-  private async processEvmRefund(swap: Swap): Promise<void> {
-    try {
-      // Call EVM service to refund the HTLC
-      // const txHash = await this.evmService.refundHtlc(
-      //   swap.evmHtlcAddress as string,
-      //   swap.hashlock
-      // );
-      // this.logger.log(`EVM refund transaction hash: ${txHash}`);
-    } catch (error) {
-      this.logger.error("Error processing EVM refund:", error);
-      throw error;
+  private async processAptosRefund(
+    swap: Swap,
+  ): Promise<{ txHash?: string; cancellableAt?: number }> {
+    const contractId = swap.aptosHtlcAddress;
+    if (!contractId) {
+      return {};
+    }
+
+    const state = await this.aptosService.getEscrowState(contractId);
+    if (state === EscrowChainState.WITHDRAWN) {
+      throw new RefundNotPossibleError(
+        `Aptos escrow ${contractId} was already withdrawn`,
+      );
+    }
+    if (state !== EscrowChainState.ACTIVE) {
+      return {};
+    }
+
+    if (!swap.aptosImmutables) {
+      throw new RefundNotPossibleError(
+        `Aptos escrow ${contractId} has no recorded immutables`,
+      );
+    }
+
+    const immutables = getSwapAptosImmutables(swap);
+    if (!this.aptosService.isRelayerEscrow(immutables)) {
+      // The sender of an Aptos to EVM swap funds the escrow as its taker
+      this.logger.log(
+        `Skipping Aptos escrow ${contractId} of swap ${swap.id}: its taker cancels it`,
+      );
+      return {};
+    }
+
+    const { tokenType, timelocks } = immutables;
+    const cancellableAt = timelocks.dstCancellation;
+    if (Math.floor(Date.now() / 1000) < cancellableAt) {
+      return { cancellableAt };
     }
+
+    const { txHash } = await this.aptosService.cancelEscrow({
+      contractId,
+      coinType: tokenType,
+      swapId: swap.id,
+    });
+    this.logger.log(`Aptos refund transaction hash: ${txHash}`);
+
+    await this.prismaService.swap.update({
+      where: { id: swap.id },
+      data: { aptosRefundTxHash: txHash },
+    });
+    return { txHash };
   }
 
   /**
-   * Process refund for Aptos HTLC
+   * Withdraw the Aptos escrow of a swap whose EVM escrow was withdrawn, with the secret of the
+   * withdrawal, see EvmPreimageHandlerService
    * @param swap - The swap to process refund for
    */
-  private async processAptosRefund(swap: Swap): Promise<void> {
+  private async claimWithdrawnSwap(swap: Swap): Promise<void> {
+    const escrowAddress = ethers.getAddress(swap.evmHtlcAddress as string);
+    const withdrawal = await this.finalityService.findConfirmedObservation(
+      EVM_PREIMAGE_DISCOVERED,
+      "escrowAddress",
+      escrowAddress,
+    );
+    const payload = withdrawal?.payload as EvmPreimageDiscoveredEvent | null;
+
+    if (!withdrawal || !payload) {
+      // The monitor hands the withdrawal to the preimage handler once it is final
+      const nextRefundAt =
+        Math.floor(Date.now() / 1000) + this.retryBaseSeconds;
+      await this.prismaService.swap.update({
+        where: { id: swap.id },
+        data: { nextRefundAt },
+      });
+      this.logger.log(
+        `EVM escrow ${escrowAddress} of swap ${swap.id} was withdrawn, waiting for its withdrawal to be final`,
+      );
+      return;
+    }
+
+    await this.evmPreimageHandler.claimAptosEscrow(
+      swap,
+      payload.preimage,
+      `EVM escrow withdrawn in tx ${withdrawal.txHash} during the refund`,
+    );
+  }
+
+  /**
+   * Schedule the next attempt with exponential backoff, or give up and fail the swap
+   * @param swap - The swap whose refund failed
+   * @param error - Error of the failed attempt
+   */
+  private async handleRefundFailure(swap: Swap, error: unknown): Promise<void> {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const refundAttempts = swap.refundAttempts + 1;
+
     try {
-      // Call Aptos service to refund the HTLC
-      // const txHash = await this.aptosService.refundHtlc(
-      //   swap.aptosHtlcAddress as string,
-      //   swap.hashlock,
-      // );
-      // this.logger.log(`Aptos refund transaction hash: ${txHash}`);
-    } catch (error) {
-      this.logger.error("Error processing Aptos refund:", error);
-      throw error;
+      if (
+        error instanceof RefundNotPossibleError ||
+        refundAttempts >= this.maxAttempts
+      ) {
+        await this.swapStateMachine.transition(
+          swap.id,
+          SwapStatus.FAILED,
+          {
+            actor: RefundHandlerService.name,
+            reason:
+              error instanceof RefundNotPossibleError
+                ? errorMessage
+                : `Refund gave up after ${refundAttempts} attempts: ${errorMessage}`,
+          },
+          { errorMessage, refundAttempts, nextRefundAt: null },
+        );
+        return;
+      }
+
+      const delay = this.retryBaseSeconds * 2 ** (refundAttempts - 1);
+      await this.prismaService.swap.update({
+        where: { id: swap.id },
+        data: {
+          errorMessage,
+          refundAttempts,
+          nextRefundAt: Math.floor(Date.now() / 1000) + delay,
+        },
+      });
+      this.logger.warn(`Retrying refund for swap ${swap.id} in ${delay}s`);
+    } catch (updateError) {
+      this.logger.error(
+        `Failed to record refund failure for swap ${swap.id}:`,
+        updateError,
+      );
     }
   }
 }
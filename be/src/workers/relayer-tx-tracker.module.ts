@@ -0,0 +1,10 @@
+import { Module } from "@nestjs/common";
+import { RelayerTxTrackerService } from "./relayer-tx-tracker.service";
+import { EvmModule } from "../evm/evm.module";
+import { AptosModule } from "../aptos/aptos.module";
+
+@Module({
+  imports: [EvmModule, AptosModule],
+  providers: [RelayerTxTrackerService],
+})
+export class RelayerTxTrackerModule {}
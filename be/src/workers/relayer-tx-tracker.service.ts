@@ -0,0 +1,39 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { Cron } from "@nestjs/schedule";
+import { EvmTransactionService } from "../evm/evm-transaction.service";
+import { AptosTransactionService } from "../aptos/aptos-transaction.service";
+
+/**
+ * Worker settling the relayer transactions left pending in the journal.
+ *
+ * Callers normally record the outcome while waiting for their transaction, this catches
+ * the ones whose wait was interrupted by a restart, and the ones replaced or dropped.
+ */
+@Injectable()
+export class RelayerTxTrackerService {
+  private readonly logger = new Logger(RelayerTxTrackerService.name);
+  private isRunning = false;
+
+  constructor(
+    private readonly evmTransactionService: EvmTransactionService,
+    private readonly aptosTransactionService: AptosTransactionService,
+  ) {}
+
+  @Cron("15 * * * * *")
+  async trackPendingTransactions(): Promise<void> {
+    // A slow RPC may make a run outlast the interval
+    if (this.isRunning) {
+      return;
+    }
+
+    this.isRunning = true;
+    try {
+      await this.evmTransactionService.trackPendingTransactions();
+      await this.aptosTransactionService.trackPendingTransactions();
+    } catch (error) {
+      this.logger.error("Error tracking relayer transactions:", error);
+    } finally {
+      this.isRunning = false;
+    }
+  }
+}
@@ -42,14 +42,14 @@ contract EscrowFactory is IEscrowFactory, Ownable {
         // Ensure the order hash is not already used
         require(_escrows[immutables.orderHash] == address(0), "EscrowFactory: escrow already exists");
 
-        // Create a clone of the implementation contract
-        escrow = Clones.clone(implementation);
+        // Create a clone at an address derived from the immutables, so it can be funded before deployment
+        bytes32 immutablesHash = immutables.hash();
+        escrow = Clones.cloneDeterministic(implementation, immutablesHash);
         
         // Store the escrow address for the order hash
         _escrows[immutables.orderHash] = escrow;
 
         // Initialize the escrow contract
-        bytes32 immutablesHash = keccak256(abi.encode(immutables));
         (bool success, ) = escrow.call(abi.encodeWithSignature("initialize(bytes32)", immutablesHash));
         require(success, "EscrowFactory: failed to initialize escrow");
 
@@ -73,6 +73,13 @@ contract EscrowFactory is IEscrowFactory, Ownable {
         );
     }
 
+    /**
+     * @notice See {IEscrowFactory-addressOfEscrow}
+     */
+    function addressOfEscrow(Immutables calldata immutables) external view override returns (address) {
+        return ProxyHashLib.predictProxyAddress(address(this), implementation, immutables.hash());
+    }
+
     /**
      * @notice See {IEscrowFactory-getEscrowAddress}
      */
@@ -40,6 +40,14 @@ interface IEscrowFactory {
      */
     function deploy(Immutables calldata immutables) external payable returns (address escrow);
 
+    /**
+     * @notice Predicts the address of the escrow contract deployed with the given immutables
+     * @dev The escrow is a CREATE2 clone salted with the immutables hash, so the address is known before deployment
+     * @param immutables The immutable values of the escrow contract
+     * @return The address of the escrow contract
+     */
+    function addressOfEscrow(Immutables calldata immutables) external view returns (address);
+
     /**
      * @notice Gets the address of an escrow contract for the given order hash
      * @param orderHash The hash of the order
@@ -28,6 +28,15 @@ struct Immutables {
  * @dev Provides utility functions for Immutables struct
  */
 library ImmutablesLib {
+    /**
+     * @dev Computes the hash of the immutables, used as the salt of the escrow deployment
+     * @param self The Immutables struct
+     * @return The hash of the immutables
+     */
+    function hash(Immutables calldata self) internal pure returns (bytes32) {
+        return keccak256(abi.encode(self));
+    }
+
     /**
      * @dev Validates that the immutables hash matches the expected hash
      * @param self The Immutables struct
@@ -35,6 +44,6 @@ library ImmutablesLib {
      * @return True if the hash matches, false otherwise
      */
     function validateHash(Immutables calldata self, bytes32 expectedHash) internal pure returns (bool) {
-        return keccak256(abi.encode(self)) == expectedHash;
+        return hash(self) == expectedHash;
     }
 }
@@ -10,31 +10,26 @@ pragma solidity 0.8.23;
  */
 library ProxyHashLib {
     /**
-     * @dev Computes the hash of a proxy contract based on its parameters
-     * @param orderHash The hash of the order
-     * @param salt A random value to ensure uniqueness
-     * @return The hash of the proxy contract
+     * @dev Computes the hash of the EIP-1167 minimal proxy creation code deployed by `Clones`
+     * @param implementation The address of the contract the proxy delegates to
+     * @return The hash of the proxy creation code
      */
-    function computeProxyHash(bytes32 orderHash, bytes32 salt) internal pure returns (bytes32) {
-        return keccak256(abi.encodePacked(orderHash, salt));
+    function computeProxyBytecodeHash(address implementation) internal pure returns (bytes32) {
+        return keccak256(
+            abi.encodePacked(hex"3d602d80600a3d3981f3363d3d373d3d3d363d73", implementation, hex"5af43d82803e903d91602b57fd5bf3")
+        );
     }
 
     /**
-     * @dev Predicts the address of a proxy contract based on its parameters
-     * @param factory The address of the factory contract
-     * @param orderHash The hash of the order
-     * @param salt A random value to ensure uniqueness
+     * @dev Predicts the CREATE2 address of a proxy deployed with `Clones.cloneDeterministic`
+     * @param deployer The address of the contract deploying the proxy
+     * @param implementation The address of the contract the proxy delegates to
+     * @param salt The salt of the deployment
      * @return The predicted address of the proxy contract
      */
-    function predictProxyAddress(address factory, bytes32 orderHash, bytes32 salt) internal pure returns (address) {
-        bytes32 proxyHash = computeProxyHash(orderHash, salt);
+    function predictProxyAddress(address deployer, address implementation, bytes32 salt) internal pure returns (address) {
         bytes32 hash = keccak256(
-            abi.encodePacked(
-                bytes1(0xff),
-                factory,
-                proxyHash,
-                keccak256(abi.encodePacked(hex"3d602d80600a3d3981f3363d3d373d3d3d363d73", address(0), hex"5af43d82803e903d91602b57fd5bf3"))
-            )
+            abi.encodePacked(bytes1(0xff), deployer, salt, computeProxyBytecodeHash(implementation))
         );
         return address(uint160(uint256(hash)));
     }
@@ -1,7 +1,10 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  experimental: {
+    // Compile the modules shared with the backend, such as be/src/auction
+    externalDir: true,
+  },
 };
 
 export default nextConfig;
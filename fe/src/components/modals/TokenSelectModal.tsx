@@ -1,14 +1,63 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import Modal from './Modal';
+import { tokensApiService } from '../../services/api/services';
+import type { RegistryToken, TokenChain } from '../../services/api/services';
 
 interface TokenSelectModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSelectToken: (token: string) => void;
+  onSelectToken: (token: RegistryToken) => void;
+  /** Only list the tokens of this chain */
+  chain?: TokenChain;
+  /** Only list the tokens of this EVM chain */
+  chainId?: number;
 }
 
-const TokenSelectModal: React.FC<TokenSelectModalProps> = ({ isOpen, onClose, onSelectToken }) => {
-  const tokens = ["ETH", "WETH", "USDC", "DAI", "APT"]; // Placeholder tokens
+const TokenSelectModal: React.FC<TokenSelectModalProps> = ({ isOpen, onClose, onSelectToken, chain, chainId }) => {
+  const [tokens, setTokens] = useState<RegistryToken[]>([]);
+  const [search, setSearch] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The registry is read again on every opening, admins may have changed it
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    tokensApiService
+      .getTokens({ chain, chainId })
+      .then((result) => {
+        if (!cancelled) {
+          setTokens(result);
+        }
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load tokens');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, chain, chainId]);
+
+  const query = search.trim().toLowerCase();
+  const filteredTokens = tokens.filter(
+    (token) =>
+      token.symbol.toLowerCase().includes(query) ||
+      token.name.toLowerCase().includes(query) ||
+      token.address.toLowerCase() === query,
+  );
 
   return (
     <Modal isOpen={isOpen} onClose={onClose} title="Select Token">
@@ -16,19 +65,33 @@ const TokenSelectModal: React.FC<TokenSelectModalProps> = ({ isOpen, onClose, on
         <input
           type="text"
           placeholder="Search token..."
+          value={search}
+          onChange={(event) => setSearch(event.target.value)}
           className="w-full p-2 border border-gray-300 rounded-md mb-4 dark:bg-gray-700 dark:text-white"
         />
+        {isLoading && <p className="p-3 text-gray-500">Loading tokens...</p>}
+        {error && <p className="p-3 text-red-500">{error}</p>}
+        {!isLoading && !error && filteredTokens.length === 0 && (
+          <p className="p-3 text-gray-500">No supported token found</p>
+        )}
         <ul className="max-h-60 overflow-y-auto">
-          {tokens.map((token) => (
+          {filteredTokens.map((token) => (
             <li
-              key={token}
-              className="p-3 hover:bg-gray-100 cursor-pointer dark:hover:bg-gray-700 rounded-md"
+              key={token.id}
+              className="flex items-center gap-3 p-3 hover:bg-gray-100 cursor-pointer dark:hover:bg-gray-700 rounded-md"
               onClick={() => {
                 onSelectToken(token);
                 onClose();
               }}
             >
-              {token}
+              {token.logoUrl && (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img src={token.logoUrl} alt={token.symbol} className="w-6 h-6 rounded-full" />
+              )}
+              <div>
+                <div className="font-medium">{token.symbol}</div>
+                <div className="text-xs text-gray-500">{token.name}</div>
+              </div>
             </li>
           ))}
         </ul>
@@ -37,4 +100,4 @@ const TokenSelectModal: React.FC<TokenSelectModalProps> = ({ isOpen, onClose, on
   );
 };
 
-export default TokenSelectModal;
\ No newline at end of file
+export default TokenSelectModal;
@@ -0,0 +1,10 @@
+// Dutch auction pricing of the backend, so the UI shows the amounts resolvers fill at
+export {
+  AuctionDecay,
+  AuctionError,
+  calculateCurrentTakingAmount,
+  getAuctionPoints,
+  getTakingAmount,
+  getTimeForTakingAmount,
+} from '../../../be/src/auction/dutch-auction';
+export type { AuctionPoint, DutchAuction } from '../../../be/src/auction/dutch-auction';
@@ -0,0 +1,79 @@
+import { apiClient } from './index';
+
+/**
+ * Timelock preset a quote is requested with
+ */
+export type TimelockPreset = 'fast' | 'standard' | 'safe';
+
+/**
+ * Interface for an amount in base units and in whole tokens
+ */
+export interface QuoteAmount {
+  readonly raw: string;
+  readonly formatted?: string;
+  readonly decimals?: number;
+}
+
+/**
+ * Interface for quote creation request
+ */
+export interface CreateQuoteRequest {
+  readonly pairId: string;
+  /** Amount in base units of the source token */
+  readonly amount: string;
+  readonly timelockPreset?: TimelockPreset;
+}
+
+/**
+ * Interface for a quote, its ID initiates the swap
+ */
+export interface Quote {
+  readonly id: string;
+  readonly pairId: string;
+  readonly srcAmount: QuoteAmount;
+  /** Amount received, net of the fees */
+  readonly dstAmount: QuoteAmount;
+  readonly price: string;
+  readonly auction: {
+    readonly startAmount: QuoteAmount;
+    readonly endAmount: QuoteAmount;
+    readonly startPrice: string;
+    readonly endPrice: string;
+    readonly duration: number;
+  };
+  readonly fees: {
+    readonly protocolFee: QuoteAmount;
+    readonly protocolFeeBps: number;
+    readonly resolverFee: QuoteAmount;
+    readonly resolverFeeBps: number;
+  };
+  readonly timelocks: {
+    readonly preset: TimelockPreset;
+    readonly withdrawalPeriod: number;
+    readonly publicWithdrawalPeriod: number;
+    readonly cancellationPeriod: number;
+    readonly safetyMargin: number;
+  };
+  readonly priceSource: string;
+  /** Unix time after which the quote cannot be redeemed */
+  readonly expiresAt: number;
+}
+
+/**
+ * Service for requesting swap quotes from the relayer
+ */
+export class QuotesApiService {
+  /**
+   * Quotes a swap of a token pair
+   * @param request - Pair, amount and timelock preset
+   * @returns Promise with the quote
+   */
+  public async createQuote(request: CreateQuoteRequest): Promise<Quote> {
+    return apiClient.post<Quote>('/quotes', request);
+  }
+}
+
+/**
+ * Instance of the service for requesting swap quotes
+ */
+export const quotesApiService = new QuotesApiService();
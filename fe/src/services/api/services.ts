@@ -7,10 +7,18 @@ export { evmApiService } from './evmApi';
 export { aptosApiService } from './aptosApi';
 export { swapEvmToAptosApiService } from './swapEvmToAptosApi';
 export { swapAptosToEvmApiService } from './swapAptosToEvmApi';
+export { tokensApiService } from './tokensApi';
+export { quotesApiService } from './quotesApi';
 
 // Export types from EVM API
 export type { TokenBalance, TokenInfo } from './evmApi';
 
+// Export types from the token registry API
+export type { RegistryToken, TokenPair, TokenChain } from './tokensApi';
+
+// Export types from the quotes API
+export type { CreateQuoteRequest, Quote, QuoteAmount, TimelockPreset } from './quotesApi';
+
 // Export types from Aptos API
 export type { AptosTokenBalance, AptosTokenInfo } from './aptosApi';
 
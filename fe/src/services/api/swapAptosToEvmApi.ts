@@ -9,6 +9,8 @@ export interface CreateSwapAptosToEvmRequest {
   readonly aptosTokenType: string;
   readonly evmTokenAddress: string;
   readonly amount: string;
+  /** ID of the quote the swap redeems */
+  readonly quoteId: string;
 }
 
 /**
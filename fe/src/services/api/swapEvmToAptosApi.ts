@@ -9,6 +9,8 @@ export interface CreateSwapEvmToAptosRequest {
   readonly evmTokenAddress: string;
   readonly aptosTokenType: string;
   readonly amount: string;
+  /** ID of the quote the swap redeems */
+  readonly quoteId: string;
 }
 
 /**
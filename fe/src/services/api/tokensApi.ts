@@ -0,0 +1,63 @@
+import { apiClient } from './index';
+
+/**
+ * Chain a registry token lives on
+ */
+export type TokenChain = 'evm' | 'aptos';
+
+/**
+ * Interface for a token of the relayer registry
+ */
+export interface RegistryToken {
+  readonly id: string;
+  readonly chain: TokenChain;
+  readonly chainId?: number;
+  readonly standard: 'ERC20' | 'COIN' | 'FUNGIBLE_ASSET';
+  /** ERC-20 address on EVM, coin type or fungible asset metadata address on Aptos */
+  readonly address: string;
+  readonly symbol: string;
+  readonly name: string;
+  readonly decimals: number;
+  readonly logoUrl?: string;
+  readonly enabled: boolean;
+}
+
+/**
+ * Interface for a supported swap route between two registry tokens
+ */
+export interface TokenPair {
+  readonly id: string;
+  readonly srcToken: RegistryToken;
+  readonly dstToken: RegistryToken;
+  /** Bounds of the swapped amount in base units of the source token */
+  readonly minAmount?: string;
+  readonly maxAmount?: string;
+  readonly enabled: boolean;
+}
+
+/**
+ * Service for reading the token registry
+ */
+export class TokensApiService {
+  /**
+   * Gets the tokens swaps may use
+   * @param filter - Only the tokens of a chain, or of an EVM chain ID
+   * @returns Promise with token list
+   */
+  public async getTokens(filter?: { chain?: TokenChain; chainId?: number }): Promise<RegistryToken[]> {
+    return apiClient.get<RegistryToken[]>('/tokens', { params: filter });
+  }
+
+  /**
+   * Gets the token pairs swaps may use
+   * @returns Promise with pair list
+   */
+  public async getPairs(): Promise<TokenPair[]> {
+    return apiClient.get<TokenPair[]>('/pairs');
+  }
+}
+
+/**
+ * Instance of the service for reading the token registry
+ */
+export const tokensApiService = new TokensApiService();
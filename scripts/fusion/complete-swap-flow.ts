@@ -76,7 +76,7 @@ export async function executeCompleteSwap(
     
     // Step 1: Generate preimage and hashlock
     console.log('\n1. Generating preimage and hashlock...');
-    const { preimage, hashlock } = generatePreimageAndHashlock();
+    const { preimage, hashlock } = generatePreimageAndHashlock(fromChain);
     console.log(`Preimage: ${preimage}`);
     console.log(`Hashlock: ${hashlock}`);
     
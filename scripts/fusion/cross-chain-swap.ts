@@ -6,7 +6,13 @@
 import { OrderInfo } from './create-order';
 import { OrderStatusResponse } from './execute-order';
 import { ethers } from 'ethers';
-import * as crypto from 'crypto';
+import {
+  DEFAULT_HASHLOCK_ALGORITHMS,
+  HashlockChain,
+  encodeSecret,
+  generateSecret,
+  hashSecret,
+} from '../../be/src/hashlock/hashlock';
 import * as dotenv from 'dotenv';
 import { createOrder } from './create-order';
 import { submitOrder, getOrderStatus, waitForOrderCompletion } from './execute-order';
@@ -44,30 +50,26 @@ export interface CrossChainSwapResult {
 
 /**
  * Generates a random preimage and its corresponding hashlock
+ * @param chain - Chain whose escrow verifies the hashlock
  * @returns Object containing the preimage and hashlock
  */
-export const generatePreimageAndHashlock = (): { preimage: string; hashlock: string } => {
-  // Generate a random 32-byte preimage
-  const preimage = crypto.randomBytes(32).toString('hex');
-  
-  // Create SHA-256 hash of the preimage
-  const hashlock = '0x' + crypto.createHash('sha256').update(Buffer.from(preimage, 'hex')).digest('hex');
-  
-  return { preimage, hashlock };
+export const generatePreimageAndHashlock = (
+  chain: HashlockChain = 'evm'
+): { preimage: string; hashlock: string } => {
+  const preimage = generateSecret();
+  return { preimage, hashlock: createHashlockFromPreimage(preimage, chain) };
 };
 
 /**
  * Creates a hashlock from a preimage
- * @param preimage - The preimage as a hex string
+ * @param preimage - The preimage as a 32 byte hex string
+ * @param chain - Chain whose escrow verifies the hashlock
  * @returns The hashlock as a hex string
  */
-export const createHashlockFromPreimage = (preimage: string): string => {
-  // Remove '0x' prefix if present
-  const cleanPreimage = preimage.startsWith('0x') ? preimage.slice(2) : preimage;
-  
-  // Create SHA-256 hash of the preimage
-  return '0x' + crypto.createHash('sha256').update(Buffer.from(cleanPreimage, 'hex')).digest('hex');
-};
+export const createHashlockFromPreimage = (
+  preimage: string,
+  chain: HashlockChain = 'evm'
+): string => hashSecret(preimage, DEFAULT_HASHLOCK_ALGORITHMS[chain]);
 
 /**
  * Initiates a Fusion order with HTLC protection
@@ -79,9 +81,12 @@ export const initiateFusionSwapWithHtlc = async (
 ): Promise<CrossChainSwapResult> => {
   try {
     // Generate preimage and hashlock if not provided
-    const { preimage, hashlock } = params.preimage 
-      ? { preimage: params.preimage, hashlock: createHashlockFromPreimage(params.preimage) }
-      : generatePreimageAndHashlock();
+    const { preimage, hashlock } = params.preimage
+      ? {
+          preimage: encodeSecret(params.preimage),
+          hashlock: createHashlockFromPreimage(params.preimage, params.fromChain),
+        }
+      : generatePreimageAndHashlock(params.fromChain);
     
     // Calculate timelock (default: 30 minutes from now)
     const timelock = params.timelock || Math.floor(Date.now() / 1000) + 1800;
@@ -150,7 +155,7 @@ export const completeFusionSwap = async (
         success: false,
         orderHash,
         htlcId,
-        hashlock: createHashlockFromPreimage(preimage),
+        hashlock: createHashlockFromPreimage(preimage, chain),
         preimage,
         timelock: 0,
         error: `Order is not filled. Current status: ${orderStatus.status}`,
@@ -165,7 +170,7 @@ export const completeFusionSwap = async (
       success: true,
       orderHash,
       htlcId,
-      hashlock: createHashlockFromPreimage(preimage),
+      hashlock: createHashlockFromPreimage(preimage, chain),
       preimage,
       timelock: 0,
     };
@@ -174,7 +179,7 @@ export const completeFusionSwap = async (
       success: false,
       orderHash,
       htlcId,
-      hashlock: createHashlockFromPreimage(preimage),
+      hashlock: createHashlockFromPreimage(preimage, chain),
       preimage,
       timelock: 0,
       error: error.message || 'Unknown error in completeFusionSwap',
@@ -6,7 +6,13 @@
  */
 
 import { ethers } from 'ethers';
-import * as crypto from 'crypto';
+import {
+  DEFAULT_HASHLOCK_ALGORITHMS,
+  HashlockChain,
+  encodeSecret,
+  generateSecret,
+  hashSecret,
+} from '../../be/src/hashlock/hashlock';
 import * as dotenv from 'dotenv';
 import { execSync } from 'child_process';
 import { createFusionSdk, getWalletAddress } from './sdk-setup';
@@ -46,18 +52,27 @@ export interface FusionSwapResult {
 
 /**
  * Generates a random preimage and its corresponding hashlock
+ * @param chain - Chain whose escrow verifies the hashlock
  * @returns Object containing the preimage and hashlock
  */
-export const generatePreimageAndHashlock = (): { preimage: string; hashlock: string } => {
-  // Generate a random 32-byte preimage
-  const preimage = crypto.randomBytes(32).toString('hex');
-  
-  // Create SHA-256 hash of the preimage
-  const hashlock = '0x' + crypto.createHash('sha256').update(Buffer.from(preimage, 'hex')).digest('hex');
-  
-  return { preimage, hashlock };
+export const generatePreimageAndHashlock = (
+  chain: HashlockChain = 'evm'
+): { preimage: string; hashlock: string } => {
+  const preimage = generateSecret();
+  return { preimage, hashlock: createHashlockFromPreimage(preimage, chain) };
 };
 
+/**
+ * Creates a hashlock from a preimage
+ * @param preimage - The preimage as a 32 byte hex string
+ * @param chain - Chain whose escrow verifies the hashlock
+ * @returns The hashlock as a hex string
+ */
+export const createHashlockFromPreimage = (
+  preimage: string,
+  chain: HashlockChain = 'evm'
+): string => hashSecret(preimage, DEFAULT_HASHLOCK_ALGORITHMS[chain]);
+
 /**
  * Executes an Aptos CLI command and returns the output
  * @param command - The command to execute
@@ -224,9 +239,12 @@ export async function initiateFusionSwap(
     console.log(`Recipient: ${params.recipient}`);
     
     // Generate preimage and hashlock if not provided
-    const { preimage, hashlock } = params.preimage 
-      ? { preimage: params.preimage, hashlock: '0x' + crypto.createHash('sha256').update(Buffer.from(params.preimage)).digest('hex') }
-      : generatePreimageAndHashlock();
+    const { preimage, hashlock } = params.preimage
+      ? {
+          preimage: encodeSecret(params.preimage),
+          hashlock: createHashlockFromPreimage(params.preimage, params.fromChain),
+        }
+      : generatePreimageAndHashlock(params.fromChain);
     
     console.log(`Preimage: ${preimage}`);
     console.log(`Hashlock: ${hashlock}`);
@@ -439,7 +457,7 @@ export async function completeFusionSwap(
         success: false,
         orderHash,
         htlcId,
-        hashlock: '0x' + crypto.createHash('sha256').update(Buffer.from(preimage)).digest('hex'),
+        hashlock: createHashlockFromPreimage(preimage, chain),
         preimage,
         timelock: 0,
         error: 'Failed to withdraw from HTLC',
@@ -452,7 +470,7 @@ export async function completeFusionSwap(
       success: true,
       orderHash,
       htlcId,
-      hashlock: '0x' + crypto.createHash('sha256').update(Buffer.from(preimage)).digest('hex'),
+      hashlock: createHashlockFromPreimage(preimage, chain),
       preimage,
       timelock: 0,
     };
@@ -462,7 +480,7 @@ export async function completeFusionSwap(
       success: false,
       orderHash,
       htlcId,
-      hashlock: '0x' + crypto.createHash('sha256').update(Buffer.from(preimage)).digest('hex'),
+      hashlock: createHashlockFromPreimage(preimage, chain),
       preimage,
       timelock: 0,
       error: error.message || 'Unknown error in completeFusionSwap',
@@ -541,4 +559,5 @@ export default {
   initiateFusionSwap,
   completeFusionSwap,
   generatePreimageAndHashlock,
+  createHashlockFromPreimage,
 };
@@ -6,6 +6,12 @@
  */
 
 import { ethers } from 'ethers';
+import {
+  AuctionDecay,
+  DutchAuction,
+  getAuctionPoints,
+  getTakingAmount
+} from '../../be/src/auction/dutch-auction';
 
 /**
  * Configuration for the mock price oracle
@@ -63,49 +69,17 @@ export class MockPriceOracle {
    * @returns The current price as a string
    */
   getCurrentPrice(): string {
-    const now = Math.floor(Date.now() / 1000);
-    const elapsedTime = now - this.startTime;
-    
-    // If auction hasn't started yet
-    if (elapsedTime < 0) {
-      return this.config.initialPrice;
-    }
-    
-    // If auction has ended
-    if (elapsedTime >= this.config.duration) {
-      return this.config.finalPrice;
-    }
-    
-    // Calculate price based on decay model
-    const initialPriceBN = ethers.getBigInt(this.config.initialPrice);
-    const finalPriceBN = ethers.getBigInt(this.config.finalPrice);
-    const progress = elapsedTime / this.config.duration;
-    
-    switch (this.config.decayModel) {
-      case 'exponential':
-        // Exponential decay: price = initialPrice * e^(-k * progress)
-        // where k is calculated to reach finalPrice at the end
-        const initialNumber = Number(ethers.formatEther(initialPriceBN));
-        const finalNumber = Number(ethers.formatEther(finalPriceBN));
-        const k = Math.log(initialNumber / finalNumber);
-        const factor = Math.exp(-k * progress);
-        const result = initialPriceBN * BigInt(Math.floor(factor * 1000000)) / 1000000n;
-        return result.toString();
-        
-      case 'stepwise':
-        // Stepwise decay: price decreases in discrete steps
-        const steps = this.config.steps || 10;
-        const step = Math.floor(progress * steps);
-        const stepSize = (initialPriceBN - finalPriceBN) / BigInt(steps);
-        return (initialPriceBN - (stepSize * BigInt(step))).toString();
-        
-      case 'linear':
-      default:
-        // Linear decay: price decreases linearly with time
-        const priceDiff = initialPriceBN - finalPriceBN;
-        const progressBN = BigInt(Math.floor(progress * 1000000));
-        return (initialPriceBN - (priceDiff * progressBN / 1000000n)).toString();
-    }
+    return this.getPriceAt(Math.floor(Date.now() / 1000));
+  }
+
+  /**
+   * Gets the price at a given time, computed by the shared auction module
+   * so it matches dutch_auction.move and the backend to the wei
+   * @param timestamp - Unix timestamp in seconds
+   * @returns The price as a string
+   */
+  getPriceAt(timestamp: number): string {
+    return getTakingAmount(this.toAuction(), timestamp).toString();
   }
 
   /**
@@ -114,32 +88,10 @@ export class MockPriceOracle {
    * @returns Array of price points
    */
   generatePricePoints(numPoints: number = 10): PricePoint[] {
-    const points: PricePoint[] = [];
-    
-    for (let i = 0; i <= numPoints; i++) {
-      const progress = i / numPoints;
-      const timestamp = this.startTime + Math.floor(progress * this.config.duration);
-      
-      // Save the current time
-      const currentTime = Date.now();
-      
-      // Override the current time for price calculation
-      const mockNow = timestamp * 1000;
-      Date.now = () => mockNow;
-      
-      // Get price at this point
-      const price = this.getCurrentPrice();
-      
-      // Restore the original Date.now
-      Date.now = () => currentTime;
-      
-      points.push({
-        timestamp,
-        price
-      });
-    }
-    
-    return points;
+    return getAuctionPoints(this.toAuction(), numPoints).map(point => ({
+      timestamp: Number(point.timestamp),
+      price: point.takingAmount.toString()
+    }));
   }
 
   /**
@@ -154,6 +106,17 @@ export class MockPriceOracle {
     // Each point is a string in the format: "timestamp,price"
     return points.map(point => `${point.timestamp},${point.price}`);
   }
+
+  private toAuction(): DutchAuction {
+    return {
+      startTime: this.startTime,
+      endTime: this.startTime + this.config.duration,
+      startTakingAmount: ethers.getBigInt(this.config.initialPrice),
+      endTakingAmount: ethers.getBigInt(this.config.finalPrice),
+      decay: this.config.decayModel as AuctionDecay | undefined,
+      steps: this.config.steps
+    };
+  }
 }
 
 export default MockPriceOracle;
@@ -0,0 +1,78 @@
+/**
+ * CLI for swap secrets and hashlocks.
+ * Uses the same hashlock module as the backend, so its output is what the escrows verify.
+ */
+
+import { Command } from 'commander';
+import {
+  DEFAULT_HASHLOCK_ALGORITHMS,
+  HashlockAlgorithm,
+  HashlockChain,
+  createChainHashlocks,
+  hashSecret,
+  isHashlockAlgorithm,
+  verifySecret,
+} from '../be/src/hashlock/hashlock';
+
+const program = new Command();
+
+program
+  .name('hashlock')
+  .description('Generate secrets and compute or verify hashlocks for EVM and Aptos escrows')
+  .version('1.0.0');
+
+/**
+ * Resolve the algorithm from an explicit --algorithm or from --chain
+ */
+const resolveAlgorithm = (options: { chain?: string; algorithm?: string }): HashlockAlgorithm => {
+  if (options.algorithm) {
+    if (!isHashlockAlgorithm(options.algorithm)) {
+      throw new Error(`Unknown algorithm ${options.algorithm}. Use one of ${Object.values(HashlockAlgorithm).join(', ')}`);
+    }
+    return options.algorithm;
+  }
+
+  return DEFAULT_HASHLOCK_ALGORITHMS[(options.chain || 'evm').toLowerCase() as HashlockChain];
+};
+
+program
+  .command('generate')
+  .description('Generate a secret and the hashlocks of both chains')
+  .action(() => {
+    const { secret, evmHashlock, aptosHashlock } = createChainHashlocks();
+    console.log(`SECRET=${secret}`);
+    console.log(`EVM_HASHLOCK=${evmHashlock}`);
+    console.log(`APTOS_HASHLOCK=${aptosHashlock}`);
+  });
+
+program
+  .command('hash <secret>')
+  .description('Compute the hashlocks of an existing secret')
+  .action((secret: string) => {
+    const { evmHashlock, aptosHashlock } = createChainHashlocks(secret);
+    console.log(`EVM_HASHLOCK=${evmHashlock}`);
+    console.log(`APTOS_HASHLOCK=${aptosHashlock}`);
+  });
+
+program
+  .command('verify <secret> <hashlock>')
+  .description('Check a secret against a hashlock')
+  .option('--chain <chain>', 'Chain whose escrow holds the hashlock (evm or aptos)', /^(evm|aptos)$/i, 'evm')
+  .option('--algorithm <algorithm>', 'Hash function, overrides --chain (keccak256 or sha3_256)')
+  .action((secret: string, hashlock: string, options: { chain?: string; algorithm?: string }) => {
+    const algorithm = resolveAlgorithm(options);
+
+    if (verifySecret(secret, hashlock, algorithm)) {
+      console.log(`✅ Secret matches hashlock (${algorithm})`);
+      return;
+    }
+
+    console.log(`❌ Secret does not match hashlock (${algorithm})`);
+    console.log(`Expected: ${hashSecret(secret, algorithm)}`);
+    process.exit(1);
+  });
+
+program.parseAsync(process.argv).catch((error: Error) => {
+  console.error(`Error: ${error.message}`);
+  process.exit(1);
+});
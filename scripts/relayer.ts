@@ -1,6 +1,7 @@
 import { ethers } from "ethers";
 import { AptosClient, AptosAccount, HexString } from "aptos";
 import crypto from "crypto";
+import { createChainHashlocks } from "../be/src/hashlock/hashlock";
 require("dotenv").config();
 
 interface SwapOrder {
@@ -15,6 +16,7 @@ interface SwapOrder {
   targetAmount: string;
   timelock: number;
   hashlock: string;
+  aptosHashlock: string;
   secret?: string;
   status: "pending" | "locked" | "completed" | "refunded";
 }
@@ -51,8 +53,7 @@ class CrossChainRelayer {
     amount: string,
     targetAmount: string
   ): Promise<string> {
-    const secret = crypto.randomBytes(32);
-    const hashlock = ethers.keccak256(secret);
+    const { secret, evmHashlock, aptosHashlock } = createChainHashlocks();
     const timelock = Math.floor(Date.now() / 1000) + 3600; // 1 час
 
     const order: SwapOrder = {
@@ -66,8 +67,9 @@ class CrossChainRelayer {
       amount,
       targetAmount,
       timelock,
-      hashlock,
-      secret: secret.toString("hex"),
+      hashlock: evmHashlock,
+      aptosHashlock,
+      secret,
       status: "pending",
     };
 
@@ -130,7 +132,7 @@ class CrossChainRelayer {
       type: "entry_function_payload",
       function: `0xYourAptosAccountAddress::atomic_swap::create_htlc`,
       type_arguments: [order.sourceToken],
-      arguments: [order.recipient, order.amount, HexString.ensure(order.hashlock).toUint8Array(), order.timelock],
+      arguments: [order.recipient, order.amount, HexString.ensure(order.aptosHashlock).toUint8Array(), order.timelock],
     };
     const txnRequest = await this.aptosClient.generateTransaction(account.address(), payload);
     const signedTxn = await this.aptosClient.signTransaction(account, txnRequest);
@@ -151,7 +153,7 @@ class CrossChainRelayer {
       const signedTxn = await this.aptosClient.signTransaction(account, txnRequest);
       await this.aptosClient.submitTransaction(signedTxn);
     } else {
-      const tx = await this.ethContract.withdraw(order.id, "0x" + order.secret);
+      const tx = await this.ethContract.withdraw(order.id, order.secret);
       await tx.wait();
     }
     console.log("Secret revealed for order:", order.id);
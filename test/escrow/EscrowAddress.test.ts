@@ -0,0 +1,121 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract, Signer } from "ethers";
+import {
+  computeProxyBytecodeHash,
+  hashImmutables,
+  predictEscrowAddress,
+} from "../../be/src/evm/escrow-address";
+
+/**
+ * Parity of the backend address derivation with EscrowFactory and ProxyHashLib
+ */
+describe("Escrow address prediction", function () {
+  let escrowFactory: Contract;
+  let testToken: Contract;
+  let maker: Signer;
+  let taker: Signer;
+
+  const SECRET = "0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef";
+
+  async function createImmutables(order: string) {
+    const now = BigInt(Math.floor(Date.now() / 1000));
+    return {
+      orderHash: ethers.keccak256(ethers.toUtf8Bytes(order)),
+      maker: BigInt(await maker.getAddress()),
+      taker: BigInt(await taker.getAddress()),
+      token: BigInt(await testToken.getAddress()),
+      amount: ethers.parseEther("100"),
+      secretHash: ethers.keccak256(SECRET),
+      safetyDeposit: ethers.parseEther("0.1"),
+      timelocks: {
+        values: [0n, 60n, 120n, 180n, 240n, 300n, 360n, 420n].map((offset) => now + offset),
+      },
+    };
+  }
+
+  async function predict(immutables: Awaited<ReturnType<typeof createImmutables>>) {
+    return predictEscrowAddress(
+      await escrowFactory.getAddress(),
+      await escrowFactory.implementation(),
+      immutables,
+    );
+  }
+
+  beforeEach(async function () {
+    [, maker, taker] = await ethers.getSigners();
+
+    const TestToken = await ethers.getContractFactory("TestEvmToken");
+    testToken = await TestToken.deploy();
+    await testToken.waitForDeployment();
+
+    const EscrowFactory = await ethers.getContractFactory("contracts/escrow/EscrowFactory.sol:EscrowFactory");
+    escrowFactory = await EscrowFactory.deploy(3600);
+    await escrowFactory.waitForDeployment();
+  });
+
+  it("Should predict the address returned by addressOfEscrow", async function () {
+    const immutables = await createImmutables("order-1");
+
+    expect(await predict(immutables)).to.equal(await escrowFactory.addressOfEscrow(immutables));
+  });
+
+  it("Should deploy the escrow at the predicted address", async function () {
+    const immutables = await createImmutables("order-2");
+    const predicted = await predict(immutables);
+
+    await expect(escrowFactory.deploy(immutables, { value: immutables.safetyDeposit }))
+      .to.emit(escrowFactory, "EscrowDeployed")
+      .withArgs(
+        predicted,
+        immutables.orderHash,
+        await maker.getAddress(),
+        await taker.getAddress(),
+        await testToken.getAddress(),
+        immutables.amount,
+        immutables.secretHash,
+        immutables.safetyDeposit,
+      );
+    expect(await escrowFactory.getEscrowAddress(immutables.orderHash)).to.equal(predicted);
+  });
+
+  it("Should hash the immutables like ImmutablesLib", async function () {
+    const immutables = await createImmutables("order-3");
+    await escrowFactory.deploy(immutables, { value: immutables.safetyDeposit });
+
+    const escrow = await ethers.getContractAt("EscrowSrc", await predict(immutables));
+    expect(await escrow.immutablesHash()).to.equal(hashImmutables(immutables));
+  });
+
+  it("Should hash the proxy creation code of OpenZeppelin Clones", async function () {
+    const implementation = await escrowFactory.implementation();
+    const immutables = await createImmutables("order-4");
+
+    expect(
+      ethers.getCreate2Address(
+        await escrowFactory.getAddress(),
+        hashImmutables(immutables),
+        computeProxyBytecodeHash(implementation),
+      ),
+    ).to.equal(await escrowFactory.addressOfEscrow(immutables));
+  });
+
+  it("Should keep tokens sent to the predicted address before deployment", async function () {
+    const immutables = await createImmutables("order-5");
+    const predicted = await predict(immutables);
+
+    await testToken.mint(predicted, immutables.amount);
+    expect(await ethers.provider.getCode(predicted)).to.equal("0x");
+
+    await escrowFactory.deploy(immutables, { value: immutables.safetyDeposit });
+    expect(await ethers.provider.getCode(predicted)).to.not.equal("0x");
+    expect(await testToken.balanceOf(predicted)).to.equal(immutables.amount);
+  });
+
+  it("Should derive different addresses for different immutables", async function () {
+    const first = await createImmutables("order-6");
+    const second = { ...first, amount: first.amount + 1n };
+
+    expect(await predict(first)).to.not.equal(await predict(second));
+  });
+});